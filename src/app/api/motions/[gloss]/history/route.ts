@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMotionStore, MotionStoreError } from '@/lib/motion/store';
+
+/**
+ * Version history of a stored motion, newest first
+ */
+export async function GET(_request: NextRequest, { params }: { params: { gloss: string } }) {
+  try {
+    const gloss = params.gloss;
+    const versions = await getMotionStore().history(gloss);
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'Motion not found' }, { status: 404 });
+    }
+    return NextResponse.json({ gloss, versions });
+  } catch (error) {
+    if (error instanceof MotionStoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Motions API] History failed:', error);
+    return NextResponse.json({ error: 'Could not read motion history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMotionStore, MotionStoreError } from '@/lib/motion/store';
+import { requireMotionToken } from '../auth';
+
+/**
+ * A single stored motion
+ *
+ * GET    - latest version, or ?version=N
+ * DELETE - remove the gloss and all its versions; needs the motion library token
+ */
+
+interface RouteContext {
+  params: { gloss: string }; // Already URL-decoded by Next.js
+}
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof MotionStoreError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`[Motions API] ${action} failed:`, error);
+  return NextResponse.json({ error: `Could not ${action.toLowerCase()} motion` }, { status: 500 });
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const versionParam = new URL(request.url).searchParams.get('version');
+  const version = versionParam === null ? undefined : Number(versionParam);
+  if (version !== undefined && !Number.isInteger(version)) {
+    return NextResponse.json({ error: 'Version must be an integer' }, { status: 400 });
+  }
+
+  try {
+    const motion = await getMotionStore().get(params.gloss, version);
+    if (!motion) {
+      return NextResponse.json({ error: 'Motion not found' }, { status: 404 });
+    }
+    return NextResponse.json(motion);
+  } catch (error) {
+    return errorResponse(error, 'Load');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = requireMotionToken(request);
+  if (denied) return denied;
+
+  try {
+    if (!(await getMotionStore().delete(params.gloss))) {
+      return NextResponse.json({ error: 'Motion not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Delete');
+  }
+}
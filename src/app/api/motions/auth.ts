@@ -0,0 +1,26 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Changing the shared motion library takes the team's token, set on the
+ * server as SIGNMATE_MOTION_TOKEN and sent as "Authorization: Bearer <token>".
+ * Reads stay open so every display can load motions. Without the variable,
+ * uploads and deletes are refused.
+ */
+export function requireMotionToken(request: NextRequest): NextResponse | null {
+  const expected = process.env.SIGNMATE_MOTION_TOKEN;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'Motion library changes are disabled: SIGNMATE_MOTION_TOKEN is not set' },
+      { status: 503 }
+    );
+  }
+
+  const given = request.headers.get('authorization')?.replace(/^Bearer /, '') ?? '';
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    return NextResponse.json({ error: 'Invalid motion library token' }, { status: 401 });
+  }
+  return null;
+}
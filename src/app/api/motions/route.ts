@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMotionStore, MotionStoreError, type MotionSummary } from '@/lib/motion/store';
+import { requireMotionToken } from './auth';
+
+/**
+ * Shared motion library
+ *
+ * GET  - latest version of every stored motion
+ * POST - upload one motion (any supported format), or bulk import
+ *        { motions: [...] } such as clips exported from localStorage;
+ *        needs the motion library token (see ./auth.ts)
+ */
+
+// Always read the store; never serve a build-time snapshot
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const motions = await getMotionStore().list();
+    return NextResponse.json({ motions });
+  } catch (error) {
+    console.error('[Motions API] List failed:', error);
+    return NextResponse.json({ error: 'Could not read motion store' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireMotionToken(request);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const store = getMotionStore();
+  const bulk = (body as { motions?: unknown } | null)?.motions;
+
+  if (Array.isArray(bulk)) {
+    const saved: MotionSummary[] = [];
+    const failed: { gloss: string; error: string }[] = [];
+    for (const motion of bulk) {
+      try {
+        saved.push(await store.save(motion));
+      } catch (error) {
+        failed.push({
+          gloss: String((motion as { gloss?: unknown } | null)?.gloss ?? ''),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return NextResponse.json({ success: failed.length === 0, saved, failed });
+  }
+
+  try {
+    const motion = await store.save(body);
+    return NextResponse.json({ success: true, motion }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MotionStoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Motions API] Save failed:', error);
+    return NextResponse.json({ error: 'Could not save motion' }, { status: 500 });
+  }
+}
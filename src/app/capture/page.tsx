@@ -18,13 +18,20 @@ import {
   addFrame,
   captureFrame,
   finalizeSession,
-  saveMotionLocal,
-  loadMotionLocal,
   listSavedMotions,
-  deleteMotionLocal,
   downloadMotion,
   type RecordingSession,
 } from "@/lib/motion/capture";
+import { processMotion } from "@/lib/motion/postprocess";
+import { getMotionLibrary } from "@/lib/motion/library";
+import {
+  listMotionsRemote,
+  loadMotionRemote,
+  saveMotionRemote,
+  deleteMotionRemote,
+  importLocalMotions,
+  type MotionSummary,
+} from "@/lib/motion/remote";
 import type { SignMotion } from "@/lib/motion/types";
 
 type RecordingState = "idle" | "countdown" | "recording" | "processing";
@@ -38,7 +45,8 @@ export default function CapturePage() {
   const [recordingState, setRecordingState] = useState<RecordingState>("idle");
   const [countdown, setCountdown] = useState(3);
   const [gloss, setGloss] = useState("");
-  const [savedMotions, setSavedMotions] = useState<string[]>([]);
+  const [savedMotions, setSavedMotions] = useState<MotionSummary[]>([]);
+  const [localMotionCount, setLocalMotionCount] = useState(0);
   const [stats, setStats] = useState({ fps: 0, frames: 0, duration: 0 });
 
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
@@ -275,8 +283,18 @@ export default function CapturePage() {
     setRecordingState("recording");
   };
 
+  // Refresh the shared motion list
+  const refreshSavedMotions = useCallback(async () => {
+    try {
+      setSavedMotions(await listMotionsRemote());
+    } catch (err) {
+      setError(`Failed to list motions: ${err}`);
+    }
+    setLocalMotionCount(listSavedMotions().length);
+  }, []);
+
   // Stop recording
-  const stopRecording = () => {
+  const stopRecording = async () => {
     if (!sessionRef.current || sessionRef.current.frames.length === 0) {
       setRecordingState("idle");
       return;
@@ -285,12 +303,16 @@ export default function CapturePage() {
     setRecordingState("processing");
 
     try {
-      const motion = finalizeSession(sessionRef.current);
-      saveMotionLocal(motion);
-      setSavedMotions(listSavedMotions());
+      // Fill tracking gaps, filter jitter and trim the rest pose before saving
+      const motion = processMotion(finalizeSession(sessionRef.current));
+      const saved = await saveMotionRemote(motion);
+      // Playable right away in this session; other sessions index the store on load
+      getMotionLibrary().register(motion);
+      await refreshSavedMotions();
       console.log(
         "[Capture] Saved:",
-        motion.gloss,
+        saved.gloss,
+        `v${saved.version}`,
         motion.frameCount,
         "frames",
       );
@@ -303,30 +325,63 @@ export default function CapturePage() {
   };
 
   // Load and preview a saved motion
-  const previewMotion = (motionGloss: string) => {
-    const motion = loadMotionLocal(motionGloss);
-    if (motion) {
+  const previewMotion = async (motionGloss: string) => {
+    try {
+      const motion = await loadMotionRemote(motionGloss);
+      if (!motion) {
+        setError(`"${motionGloss}" is no longer in the motion store`);
+        return;
+      }
       console.log("[Capture] Loaded motion:", motion);
       alert(
         `Loaded: ${motion.gloss}\nFrames: ${motion.frameCount}\nDuration: ${motion.durationMs}ms\n\nCheck console for full data.`,
       );
+    } catch (err) {
+      setError(`Failed to load: ${err}`);
     }
   };
 
   // Download motion
-  const handleDownload = (motionGloss: string) => {
-    const motion = loadMotionLocal(motionGloss);
-    if (motion) {
+  const handleDownload = async (motionGloss: string) => {
+    try {
+      const motion = await loadMotionRemote(motionGloss);
+      if (!motion) {
+        setError(`"${motionGloss}" is no longer in the motion store`);
+        return;
+      }
       downloadMotion(motion);
+    } catch (err) {
+      setError(`Failed to download: ${err}`);
     }
   };
 
   // Delete motion
-  const handleDelete = (motionGloss: string) => {
-    if (confirm(`Delete "${motionGloss}"?`)) {
-      deleteMotionLocal(motionGloss);
-      setSavedMotions(listSavedMotions());
+  const handleDelete = async (motionGloss: string) => {
+    if (!confirm(`Delete "${motionGloss}" and all its versions?`)) return;
+
+    try {
+      if (!(await deleteMotionRemote(motionGloss))) {
+        setError(`Failed to delete "${motionGloss}"`);
+      }
+    } catch (err) {
+      setError(`Failed to delete: ${err}`);
     }
+    await refreshSavedMotions();
+  };
+
+  // Move captures saved by older versions of this page to the server
+  const handleImportLocal = async () => {
+    try {
+      const result = await importLocalMotions({ removeLocal: true });
+      if (result.failed.length > 0) {
+        setError(
+          `Failed to import: ${result.failed.map((f) => `${f.gloss} (${f.error})`).join(", ")}`,
+        );
+      }
+    } catch (err) {
+      setError(`Failed to import: ${err}`);
+    }
+    await refreshSavedMotions();
   };
 
   // Initialize on mount
@@ -339,7 +394,7 @@ export default function CapturePage() {
       if (!camReady) return;
 
       setIsInitialized(true);
-      setSavedMotions(listSavedMotions());
+      refreshSavedMotions();
       animationRef.current = requestAnimationFrame(detect);
     };
 
@@ -352,7 +407,7 @@ export default function CapturePage() {
         tracks.forEach((track) => track.stop());
       }
     };
-  }, [initMediaPipe, startWebcam, detect]);
+  }, [initMediaPipe, startWebcam, detect, refreshSavedMotions]);
 
   return (
     <div className="min-h-screen bg-slate-900 text-white p-4">
@@ -486,16 +541,30 @@ export default function CapturePage() {
             {/* Saved Motions */}
             <div className="bg-slate-800 rounded-lg p-4">
               <h2 className="font-semibold mb-3">Saved Signs</h2>
+              {localMotionCount > 0 && (
+                <button
+                  onClick={handleImportLocal}
+                  className="w-full mb-3 text-xs px-2 py-2 bg-amber-600 hover:bg-amber-500 rounded"
+                >
+                  Import {localMotionCount} sign
+                  {localMotionCount === 1 ? "" : "s"} from this browser
+                </button>
+              )}
               {savedMotions.length === 0 ? (
                 <p className="text-slate-500 text-sm">No signs captured yet</p>
               ) : (
                 <div className="space-y-2">
-                  {savedMotions.map((name) => (
+                  {savedMotions.map(({ gloss: name, version }) => (
                     <div
                       key={name}
                       className="flex items-center justify-between bg-slate-700 rounded px-3 py-2"
                     >
-                      <span className="font-mono text-sm">{name}</span>
+                      <span className="font-mono text-sm">
+                        {name}
+                        <span className="ml-2 text-xs text-slate-400">
+                          v{version}
+                        </span>
+                      </span>
                       <div className="flex gap-1">
                         <button
                           onClick={() => previewMotion(name)}
@@ -12,6 +12,8 @@ import { ErrorBoundary } from '@/components/error';
 import { useSignMateStore } from '@/store';
 import { SignMatePipeline } from '@/lib/pipeline';
 import { getSettings } from '@/lib/config/settings';
+import { resolveVariantPreferences } from '@/lib/asl';
+import { getFeatureFlags } from '@/lib/features/featureFlags';
 import type { EventConfig, TranscriptionSegment, ASLTranslation } from '@/types';
 
 type AppMode = 'welcome' | 'setup' | 'demo' | 'live';
@@ -44,9 +46,16 @@ export default function Home() {
     // Initialize pipeline
     const newPipeline = new SignMatePipeline({
       useDeepgram: settings.speech.provider === 'deepgram',
+      useWhisper: settings.speech.provider === 'whisper',
       targetLatency: settings.performance.targetLatency,
       batchTranslation: true,
       batchDelay: 150,
+      vocabulary: config.vocabulary,
+      signVariants: resolveVariantPreferences({
+        event: config.signVariants,
+        defaultSpeed: settings.translation.signSpeed,
+        flags: getFeatureFlags(),
+      }),
     });
 
     setPipeline(newPipeline);
@@ -4,7 +4,7 @@ import { useState, useEffect, Suspense, useCallback, useRef } from "react";
 import { Canvas } from "@react-three/fiber";
 import { OrbitControls, Environment } from "@react-three/drei";
 import { SignMotionAvatarIK } from "@/components/avatar/SignMotionAvatarIK";
-import { loadMotionLocal, listSavedMotions } from "@/lib/motion/capture";
+import { listMotionsRemote, loadMotionRemote } from "@/lib/motion/remote";
 import type { SignMotion, Vec3 } from "@/lib/motion/types";
 import type { AvatarPose, FingerPose } from "@/lib/motion/playback";
 
@@ -132,12 +132,14 @@ export default function PlaybackIKPage() {
 
   // Load saved motions list
   useEffect(() => {
-    setSavedMotions(listSavedMotions());
+    listMotionsRemote()
+      .then((motions) => setSavedMotions(motions.map((m) => m.gloss)))
+      .catch((err) => console.error("[PlaybackIK] Failed to list motions:", err));
   }, []);
 
   // Load selected motion
-  const handleSelectMotion = (gloss: string) => {
-    const loaded = loadMotionLocal(gloss);
+  const handleSelectMotion = async (gloss: string) => {
+    const loaded = await loadMotionRemote(gloss);
     if (loaded) {
       setMotion(loaded);
       setSelectedMotion(gloss);
@@ -5,7 +5,8 @@ import { Canvas } from "@react-three/fiber";
 import { OrbitControls, Environment } from "@react-three/drei";
 import { SignMotionAvatar } from "@/components/avatar/SignMotionAvatar";
 import { useMotionPlayback } from "@/lib/motion/useMotionPlayback";
-import { loadMotionLocal, listSavedMotions } from "@/lib/motion/capture";
+import { listMotionsRemote, loadMotionRemote } from "@/lib/motion/remote";
+import { decodeSignMotion, isEncodedSignMotion } from "@/lib/motion/codec";
 import type { SignMotion } from "@/lib/motion/types";
 
 const DEFAULT_AVATAR_URL =
@@ -41,12 +42,14 @@ export default function PlaybackPage() {
 
   // Load saved motions list on mount
   useEffect(() => {
-    setSavedMotions(listSavedMotions());
+    listMotionsRemote()
+      .then((motions) => setSavedMotions(motions.map((m) => m.gloss)))
+      .catch((err) => console.error("[Playback] Failed to list motions:", err));
   }, []);
 
   // Load selected motion
-  const handleSelectMotion = (gloss: string) => {
-    const loaded = loadMotionLocal(gloss);
+  const handleSelectMotion = async (gloss: string) => {
+    const loaded = await loadMotionRemote(gloss);
     if (loaded) {
       loadMotion(loaded);
       setSelectedMotion(gloss);
@@ -62,15 +65,18 @@ export default function PlaybackPage() {
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        loadMotion(json as SignMotion);
-        setSelectedMotion(json.gloss);
-        console.log("[Playback] Loaded from file:", json.gloss);
+        const buffer = event.target?.result as ArrayBuffer;
+        const loaded = isEncodedSignMotion(buffer)
+          ? decodeSignMotion(buffer)
+          : (JSON.parse(new TextDecoder().decode(buffer)) as SignMotion);
+        loadMotion(loaded);
+        setSelectedMotion(loaded.gloss);
+        console.log("[Playback] Loaded from file:", loaded.gloss);
       } catch (err) {
         console.error("[Playback] Failed to parse file:", err);
       }
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   };
 
   return (
@@ -229,12 +235,12 @@ export default function PlaybackPage() {
               <label className="block">
                 <input
                   type="file"
-                  accept=".json"
+                  accept=".json,.signmotion"
                   onChange={handleFileUpload}
                   className="hidden"
                 />
                 <span className="block w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-center cursor-pointer transition">
-                  Choose .signmotion.json
+                  Choose .signmotion(.json)
                 </span>
               </label>
             </div>
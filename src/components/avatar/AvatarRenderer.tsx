@@ -10,6 +10,7 @@ import type {
   AvatarState,
   ExpressionState,
 } from "@/types";
+import { HEAD_SHAKE_RATE } from "@/lib/animation";
 import { ReadyPlayerMeAvatar } from "./ReadyPlayerMeAvatar";
 
 interface AvatarRendererProps {
@@ -71,6 +72,18 @@ const HAND_SHAPES: Record<string, { fingers: number[]; thumb: number }> = {
   "letter-x": { fingers: [0.3, 1, 1, 1], thumb: 0.5 },
   "letter-y": { fingers: [1, 1, 1, 0], thumb: 0 },
   "letter-z": { fingers: [0, 1, 1, 1], thumb: 0.5 },
+  // ASL numbers (11-19 reuse 1-9 with movement)
+  "number-0": { fingers: [0.6, 0.6, 0.6, 0.6], thumb: 0.6 },
+  "number-1": { fingers: [0, 1, 1, 1], thumb: 0.8 },
+  "number-2": { fingers: [0, 0, 1, 1], thumb: 0.8 },
+  "number-3": { fingers: [0, 0, 1, 1], thumb: 0 },
+  "number-4": { fingers: [0, 0, 0, 0], thumb: 1 },
+  "number-5": { fingers: [0, 0, 0, 0], thumb: 0 },
+  "number-6": { fingers: [0, 0, 0, 1], thumb: 0.8 },
+  "number-7": { fingers: [0, 0, 1, 0], thumb: 0.8 },
+  "number-8": { fingers: [0, 1, 0, 0], thumb: 0.8 },
+  "number-9": { fingers: [1, 0, 0, 0], thumb: 0.8 },
+  "number-10": { fingers: [1, 1, 1, 1], thumb: 0 },
 };
 
 // Improved human-like body
@@ -136,10 +149,12 @@ function HumanHead({
   const eyeWhite = useMemo(() => new THREE.Color("#f5f5f5"), []);
   const irisColor = useMemo(() => new THREE.Color("#4a6741"), []);
 
-  useFrame(() => {
+  useFrame(({ clock }) => {
     if (headRef.current) {
+      // Negation shakes the head side to side for as long as the marker lasts
+      const shake = Math.sin(clock.elapsedTime * HEAD_SHAKE_RATE) * (expression.headShake ?? 0) * 0.3;
       headRef.current.rotation.x = expression.headTilt.x * 0.25;
-      headRef.current.rotation.y = expression.headTilt.y * 0.25;
+      headRef.current.rotation.y = (expression.headTilt.y + shake) * 0.25;
       headRef.current.rotation.z = expression.headTilt.z * 0.15;
     }
   });
@@ -11,6 +11,13 @@ import type {
   AvatarState,
   ExpressionState,
 } from "@/types";
+import {
+  HEAD_SHAKE_RATE,
+  fingerspellingPose,
+  signToPose,
+  type LetterPose,
+} from "@/lib/animation";
+import { resolveTwoHandedType } from "@/lib/asl/twoHanded";
 
 interface ReadyPlayerMeAvatarProps {
   url: string;
@@ -76,30 +83,13 @@ const BONE_NAMES = {
   leftPinky3: "LeftHandPinky3",
 };
 
-// Hand shape to finger curl mappings (index, middle, ring, pinky, thumb)
+// Hand shape to finger curl mappings (index, middle, ring, pinky, thumb).
+// Fingerspelled letters use the manual alphabet from fingerspellingPose.
 const HAND_SHAPES: Record<string, { fingers: number[]; thumb: number }> = {
   "flat-hand": { fingers: [0, 0, 0, 0], thumb: 0 },
   "open-hand": { fingers: [0.1, 0.1, 0.1, 0.1], thumb: 0.2 },
   fist: { fingers: [1, 1, 1, 1], thumb: 0.8 },
   point: { fingers: [0, 1, 1, 1], thumb: 0.5 },
-  "letter-a": { fingers: [1, 1, 1, 1], thumb: 0.3 },
-  "letter-b": { fingers: [0, 0, 0, 0], thumb: 1 },
-  "letter-c": { fingers: [0.5, 0.5, 0.5, 0.5], thumb: 0.5 },
-  "letter-d": { fingers: [0, 1, 1, 1], thumb: 0.8 },
-  "letter-e": { fingers: [0.8, 0.8, 0.8, 0.8], thumb: 0.8 },
-  "letter-f": { fingers: [0.8, 0, 0, 0], thumb: 0.8 },
-  "letter-g": { fingers: [0, 1, 1, 1], thumb: 0 },
-  "letter-h": { fingers: [0, 0, 1, 1], thumb: 0.5 },
-  "letter-i": { fingers: [1, 1, 1, 0], thumb: 0.8 },
-  "letter-k": { fingers: [0, 0, 1, 1], thumb: 0.3 },
-  "letter-l": { fingers: [0, 1, 1, 1], thumb: 0 },
-  "letter-o": { fingers: [0.6, 0.6, 0.6, 0.6], thumb: 0.6 },
-  "letter-r": { fingers: [0, 0, 1, 1], thumb: 0.5 },
-  "letter-s": { fingers: [1, 1, 1, 1], thumb: 0.5 },
-  "letter-u": { fingers: [0, 0, 1, 1], thumb: 0.8 },
-  "letter-v": { fingers: [0, 0, 1, 1], thumb: 0.5 },
-  "letter-w": { fingers: [0, 0, 0, 1], thumb: 0.5 },
-  "letter-y": { fingers: [1, 1, 1, 0], thumb: 0 },
 };
 
 // ARKit blend shape names for facial expressions
@@ -141,6 +131,7 @@ export function ReadyPlayerMeAvatar({
   const animationProgress = useRef(0);
   const animationStartTime = useRef(0);
   const currentSignRef = useRef<ASLSign | undefined>(undefined);
+  const previousSignRef = useRef<ASLSign | undefined>(undefined);
 
   // Initial pose storage
   const initialPose = useRef<Record<string, THREE.Quaternion>>({});
@@ -223,8 +214,14 @@ export function ReadyPlayerMeAvatar({
 
   // Apply hand shape to finger bones
   const applyHandShape = (handShape: string, isRight: boolean) => {
+    applyFingerCurls(HAND_SHAPES[handShape] || HAND_SHAPES["flat-hand"], isRight);
+  };
+
+  const applyFingerCurls = (
+    shape: { fingers: number[]; thumb: number },
+    isRight: boolean,
+  ) => {
     const bones = bonesRef.current;
-    const shape = HAND_SHAPES[handShape] || HAND_SHAPES["flat-hand"];
 
     const side = isRight ? "Right" : "Left";
     const fingerNames = ["Index", "Middle", "Ring", "Pinky"];
@@ -259,7 +256,11 @@ export function ReadyPlayerMeAvatar({
   };
 
   // Apply arm position for sign
-  const applyArmPosition = (sign: ASLSign, progress: number) => {
+  const applyArmPosition = (
+    sign: ASLSign,
+    progress: number,
+    letter: LetterPose | null,
+  ) => {
     const bones = bonesRef.current;
     const eased = easeInOutCubic(progress);
 
@@ -286,6 +287,13 @@ export function ReadyPlayerMeAvatar({
       targetY += bounce;
     }
 
+    // J/Z traces and double-letter bounce (pose offsets are half the location scale)
+    if (letter) {
+      targetX += letter.offset.x * 2;
+      targetY += letter.offset.y * 2;
+      targetZ += letter.offset.z * 2;
+    }
+
     // Right arm positioning
     const rightArm = bones["RightArm"];
     const rightForeArm = bones["RightForeArm"];
@@ -305,7 +313,8 @@ export function ReadyPlayerMeAvatar({
       rightForeArm.rotation.set(0, 0, elbowBend);
     }
     if (rightHand) {
-      rightHand.rotation.set(0, 0, 0);
+      const wrist = letter?.rotation;
+      rightHand.rotation.set(wrist?.x ?? 0, wrist?.y ?? 0, wrist?.z ?? 0);
     }
 
     // Left arm (mirror or resting)
@@ -313,15 +322,25 @@ export function ReadyPlayerMeAvatar({
     const leftForeArm = bones["LeftForeArm"];
     const leftHand = bones["LeftHand"];
 
-    if (sign.handshape.nonDominant) {
-      // Two-handed sign - mirror the right arm
+    const twoHanded = resolveTwoHandedType(sign.handshape);
+    if (twoHanded) {
+      // Two-handed sign - mirror the right arm, or follow the procedural
+      // pose for alternating and base-hand signs
+      let leftY = targetY;
+      let leftZ = targetZ;
+      if (twoHanded !== "symmetric") {
+        // Procedural pose positions back into location units
+        const left = signToPose(sign, eased).leftHand.position;
+        leftY = (left.y + 0.2) / 0.8;
+        leftZ = (left.z - 0.2) / 0.5;
+      }
       if (leftArm) {
-        const armForward = 0.4 + targetZ * 0.4;
-        const armRaise = 0.2 - targetY * 0.8; // Mirror (positive for left side)
+        const armForward = 0.4 + leftZ * 0.4;
+        const armRaise = 0.2 - leftY * 0.8; // Mirror (positive for left side)
         leftArm.rotation.set(armForward, 0, armRaise);
       }
       if (leftForeArm) {
-        const elbowBend = -0.3 - targetZ * 0.5;
+        const elbowBend = -0.3 - leftZ * 0.5;
         leftForeArm.rotation.set(0, 0, elbowBend);
       }
       if (leftHand) {
@@ -383,7 +402,7 @@ export function ReadyPlayerMeAvatar({
   };
 
   // Animation frame
-  useFrame((_, delta) => {
+  useFrame(({ clock }, delta) => {
     if (!bonesRef.current || Object.keys(bonesRef.current).length === 0) return;
 
     const bones = bonesRef.current;
@@ -397,6 +416,7 @@ export function ReadyPlayerMeAvatar({
     if (state.currentSign && state.isAnimating) {
       // New sign started
       if (currentSignRef.current !== state.currentSign) {
+        previousSignRef.current = currentSignRef.current;
         currentSignRef.current = state.currentSign;
         animationStartTime.current = 0;
         animationProgress.current = 0;
@@ -412,14 +432,23 @@ export function ReadyPlayerMeAvatar({
       const progress = Math.min(animationStartTime.current / duration, 1);
       animationProgress.current = progress;
 
-      // Apply hand shapes
+      // Apply hand shapes; letters blend in from the previous letter
+      const letter = fingerspellingPose(
+        state.currentSign,
+        progress,
+        previousSignRef.current,
+      );
       const rightShape = state.currentSign.handshape.dominant || "flat-hand";
       const leftShape = state.currentSign.handshape.nonDominant || "flat-hand";
-      applyHandShape(rightShape, true);
+      if (letter) {
+        applyFingerCurls(letter, true);
+      } else {
+        applyHandShape(rightShape, true);
+      }
       applyHandShape(leftShape, false);
 
       // Apply arm positions
-      applyArmPosition(state.currentSign, progress);
+      applyArmPosition(state.currentSign, progress, letter);
 
       // Check if animation complete
       if (progress >= 1) {
@@ -427,6 +456,8 @@ export function ReadyPlayerMeAvatar({
       }
     } else {
       // Reset to natural resting pose
+      currentSignRef.current = undefined;
+      previousSignRef.current = undefined;
       setRestingPose();
       applyHandShape("open-hand", true);
       applyHandShape("open-hand", false);
@@ -436,7 +467,11 @@ export function ReadyPlayerMeAvatar({
     const head = bones["Head"];
     if (head && state.expressionState) {
       head.rotation.x = state.expressionState.headTilt.x * 0.15;
-      head.rotation.y = state.expressionState.headTilt.y * 0.2;
+      const shake =
+        Math.sin(clock.elapsedTime * HEAD_SHAKE_RATE) *
+        (state.expressionState.headShake ?? 0) *
+        0.3;
+      head.rotation.y = (state.expressionState.headTilt.y + shake) * 0.2;
       head.rotation.z = state.expressionState.headTilt.z * 0.08;
     }
   });
@@ -169,22 +169,26 @@ function SignDetailModal({ entry, onClose }: SignDetailModalProps) {
         {/* Content */}
         <div className="p-6 space-y-6">
           {/* Definition */}
-          <div>
-            <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
-              Definition
-            </h3>
-            <p className="text-gray-700 dark:text-gray-300">{entry.definition}</p>
-          </div>
+          {entry.definition && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+                Definition
+              </h3>
+              <p className="text-gray-700 dark:text-gray-300">{entry.definition}</p>
+            </div>
+          )}
 
           {/* Example */}
-          <div>
-            <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
-              Example
-            </h3>
-            <p className="text-gray-700 dark:text-gray-300 font-mono bg-gray-50 dark:bg-gray-800 p-2 rounded">
-              {entry.example}
-            </p>
-          </div>
+          {entry.example && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+                Example
+              </h3>
+              <p className="text-gray-700 dark:text-gray-300 font-mono bg-gray-50 dark:bg-gray-800 p-2 rounded">
+                {entry.example}
+              </p>
+            </div>
+          )}
 
           {/* Handshape Details */}
           <div>
@@ -419,6 +423,7 @@ export function SignDictionaryBrowser({
     prevPage,
     categories,
     entryCount,
+    lexiconVersion,
   } = useSignDictionary({ initialCategory, pageSize: 12 });
 
   const [selectedEntry, setSelectedEntry] = useState<SignEntry | null>(null);
@@ -441,7 +446,7 @@ export function SignDictionaryBrowser({
             Sign Dictionary
           </h2>
           <span className="text-sm text-gray-500 dark:text-gray-400">
-            {entryCount} signs
+            {entryCount} signs · lexicon v{lexiconVersion}
           </span>
         </div>
 
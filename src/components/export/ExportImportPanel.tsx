@@ -15,11 +15,14 @@ import {
 } from '@/lib/export/dataExporter';
 import {
   parseJSONImport,
+  parseLexiconPackImport,
+  isLexiconPackJSON,
   parseCSVTranscriptions,
   parseSRTTranscriptions,
   parseVTTTranscriptions,
   readFileAsText,
 } from '@/lib/export/dataImporter';
+import { getLexiconPackManager } from '@/lib/dictionary/lexiconPacks';
 
 interface ExportImportPanelProps {
   onImportComplete?: () => void;
@@ -28,7 +31,10 @@ interface ExportImportPanelProps {
 export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps) {
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
   const [exportFormat, setExportFormat] = useState<ExportOptions['format']>('json');
-  const [exportType, setExportType] = useState<'session' | 'transcripts' | 'translations'>('session');
+  const [exportType, setExportType] = useState<'session' | 'transcripts' | 'translations' | 'lexicon'>('session');
+  // Lexicon packs currently registered with the translator and dictionary
+  const [lexiconPacks, setLexiconPacks] = useState(() => getLexiconPackManager().getPacks());
+  const [selectedPackId, setSelectedPackId] = useState('');
   const [includeTimestamps, setIncludeTimestamps] = useState(true);
   const [includeConfidence, setIncludeConfidence] = useState(true);
   const [includeMetadata, setIncludeMetadata] = useState(true);
@@ -109,6 +115,18 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
             mimeType = 'application/json';
           }
           break;
+
+        case 'lexicon': {
+          const packId = selectedPackId || lexiconPacks[0]?.id;
+          const packJSON = packId ? getLexiconPackManager().exportPack(packId) : null;
+          if (!packJSON) {
+            throw new Error('No lexicon pack loaded');
+          }
+          content = packJSON;
+          filename = getExportFilename(`signmate-lexicon-${packId}`, 'json');
+          mimeType = 'application/json';
+          break;
+        }
       }
 
       downloadFile(content, filename, mimeType);
@@ -116,7 +134,7 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
     } catch (error) {
       setImportStatus({ type: 'error', message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
     }
-  }, [exportFormat, exportType, includeTimestamps, includeConfidence, includeMetadata, currentEvent, transcriptionSegments, translations, avatarConfig, displayConfigs]);
+  }, [exportFormat, exportType, includeTimestamps, includeConfidence, includeMetadata, currentEvent, transcriptionSegments, translations, avatarConfig, displayConfigs, selectedPackId, lexiconPacks]);
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -130,6 +148,14 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
 
       switch (extension) {
         case 'json':
+          if (isLexiconPackJSON(content)) {
+            result = parseLexiconPackImport(content);
+            if (result.success && result.data) {
+              getLexiconPackManager().load(result.data);
+              setLexiconPacks(getLexiconPackManager().getPacks());
+            }
+            break;
+          }
           result = parseJSONImport(content);
           if (result.success && result.data) {
             clearTranscription();
@@ -264,9 +290,37 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
               <option value="session">Full Session</option>
               <option value="transcripts">Transcripts Only</option>
               <option value="translations">Translations Only</option>
+              <option value="lexicon">Lexicon Pack</option>
             </select>
           </div>
 
+          {/* Lexicon Pack */}
+          {exportType === 'lexicon' && (
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'block', marginBottom: '8px', color: '#9ca3af' }}>Pack</label>
+              <select
+                value={selectedPackId || lexiconPacks[0]?.id || ''}
+                onChange={(e) => setSelectedPackId(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  backgroundColor: '#2a2a4e',
+                  color: '#fff',
+                  border: '1px solid #4b5563',
+                  borderRadius: '4px',
+                }}
+                disabled={lexiconPacks.length === 0}
+              >
+                {lexiconPacks.length === 0 && <option value="">No packs loaded</option>}
+                {lexiconPacks.map((pack) => (
+                  <option key={pack.id} value={pack.id}>
+                    {pack.name} v{pack.version}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Export Format */}
           <div style={{ marginBottom: '16px' }}>
             <label style={{ display: 'block', marginBottom: '8px', color: '#9ca3af' }}>Format</label>
@@ -281,7 +335,7 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
                 border: '1px solid #4b5563',
                 borderRadius: '4px',
               }}
-              disabled={exportType === 'session'}
+              disabled={exportType === 'session' || exportType === 'lexicon'}
             >
               <option value="json">JSON</option>
               <option value="csv">CSV</option>
@@ -324,6 +378,7 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
             <div style={{ fontSize: '14px', color: '#9ca3af' }}>
               <div>Transcription segments: {transcriptionSegments.length}</div>
               <div>Translations: {translations.length}</div>
+              <div>Lexicon packs: {lexiconPacks.length}</div>
               {currentEvent && <div>Event: {currentEvent.name}</div>}
             </div>
           </div>
@@ -341,7 +396,10 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
               cursor: 'pointer',
               fontWeight: 'bold',
             }}
-            disabled={exportType === 'transcripts' && transcriptionSegments.length === 0}
+            disabled={
+              (exportType === 'transcripts' && transcriptionSegments.length === 0) ||
+              (exportType === 'lexicon' && lexiconPacks.length === 0)
+            }
           >
             Export Data
           </button>
@@ -392,6 +450,7 @@ export function ExportImportPanel({ onImportComplete }: ExportImportPanelProps)
             <div style={{ marginBottom: '8px', fontWeight: 'bold' }}>Import Notes:</div>
             <ul style={{ margin: 0, paddingLeft: '20px' }}>
               <li>JSON: Full session data with all settings</li>
+              <li>JSON lexicon pack: Custom signs, name signs and aliases</li>
               <li>CSV: Transcription segments (requires text column)</li>
               <li>SRT/VTT: Subtitle files with timestamps</li>
             </ul>
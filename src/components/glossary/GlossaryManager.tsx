@@ -3,11 +3,13 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/Button';
 import {
+  getGlossaryCategories,
   getGlossaryEntries,
   getGlossaryStats,
   searchGlossary,
   type GlossaryEntry,
 } from '@/lib/asl/glossary';
+import type { SignCategory } from '@/lib/asl/lexicon';
 
 interface GlossaryManagerProps {
   onSelectSign?: (sign: GlossaryEntry) => void;
@@ -18,63 +20,7 @@ interface GlossaryManagerProps {
 type ViewMode = 'browse' | 'search' | 'stats';
 type SortBy = 'alpha' | 'category' | 'frequency';
 
-const CATEGORIES = [
-  'all',
-  'greetings',
-  'common',
-  'questions',
-  'pronouns',
-  'verbs',
-  'adjectives',
-  'time',
-  'numbers',
-  'fingerspelling',
-] as const;
-
-type Category = (typeof CATEGORIES)[number];
-
-// Category mapping for glossary entries
-const CATEGORY_MAP: Record<string, Category[]> = {
-  HELLO: ['greetings'],
-  HI: ['greetings'],
-  GOODBYE: ['greetings'],
-  THANK_YOU: ['greetings', 'common'],
-  WELCOME: ['greetings'],
-  PLEASE: ['common'],
-  SORRY: ['common'],
-  YES: ['common'],
-  NO: ['common'],
-  WHAT: ['questions'],
-  WHERE: ['questions'],
-  WHEN: ['questions'],
-  WHY: ['questions'],
-  HOW: ['questions'],
-  WHO: ['questions'],
-  I: ['pronouns'],
-  YOU: ['pronouns'],
-  WE: ['pronouns'],
-  THEY: ['pronouns'],
-  HE: ['pronouns'],
-  SHE: ['pronouns'],
-  LIKE: ['verbs'],
-  WANT: ['verbs'],
-  NEED: ['verbs'],
-  HELP: ['verbs'],
-  KNOW: ['verbs'],
-  UNDERSTAND: ['verbs'],
-  GOOD: ['adjectives'],
-  BAD: ['adjectives'],
-  BIG: ['adjectives'],
-  SMALL: ['adjectives'],
-  HAPPY: ['adjectives'],
-  SAD: ['adjectives'],
-  LOVE: ['adjectives'],
-  TODAY: ['time'],
-  TOMORROW: ['time'],
-  YESTERDAY: ['time'],
-  NOW: ['time'],
-  LATER: ['time'],
-};
+type Category = SignCategory | 'all';
 
 export function GlossaryManager({
   onSelectSign,
@@ -88,6 +34,7 @@ export function GlossaryManager({
   const [selectedSign, setSelectedSign] = useState<GlossaryEntry | null>(null);
 
   const stats = useMemo(() => getGlossaryStats(), []);
+  const categories = useMemo<Category[]>(() => ['all', ...getGlossaryCategories()], []);
 
   // Filter and sort glossary entries
   const filteredSigns = useMemo(() => {
@@ -98,9 +45,7 @@ export function GlossaryManager({
 
     // Filter by category
     if (selectedCategory !== 'all') {
-      entries = entries.filter((entry) => {
-        return CATEGORY_MAP[entry.gloss]?.includes(selectedCategory) || false;
-      });
+      entries = entries.filter((entry) => entry.category === selectedCategory);
     }
 
     // Sort
@@ -455,7 +400,7 @@ export function GlossaryManager({
             value={selectedCategory}
             onChange={(e) => setSelectedCategory(e.target.value as Category)}
           >
-            {CATEGORIES.map((cat) => (
+            {categories.map((cat) => (
               <option key={cat} value={cat}>
                 {cat.charAt(0).toUpperCase() + cat.slice(1)}
               </option>
@@ -8,8 +8,14 @@ import { PipelineControlPanel, PipelineStatusIndicator } from '@/components/pipe
 import { ConnectionHealthMonitor, ConnectionIndicator } from '@/components/connection';
 import { CaptionDisplay } from '@/components/captions/CaptionDisplay';
 import { SignQueueDisplay } from '@/components/signs/SignQueueDisplay';
-import type { ASLSign, TranscriptionSegment, PipelineError, AvatarState, ExpressionState } from '@/types';
+import type { ASLSign, AudioSourceType, TranscriptionSegment, PipelineError, AvatarState, ExpressionState } from '@/types';
 import { getASLTranslator } from '@/lib/asl/translator';
+import { getLexiconPackManager } from '@/lib/dictionary/lexiconPacks';
+import { resolveVariantPreferences } from '@/lib/asl/variants';
+import { getSettings, settingsManager } from '@/lib/config/settings';
+import { getFeatureFlags } from '@/lib/features/featureFlags';
+import { sessionRecorder } from '@/lib/session';
+import { DISCOURSE_FILLER_GLOSSES, DISFLUENCY_GLOSSES } from '@/lib/pipeline/signScheduler';
 
 /**
  * Interpreter Interface
@@ -45,6 +51,7 @@ export function InterpreterInterface({
     setAvatarState,
     pipelineStatus,
     updatePipelineStatus,
+    currentEvent,
   } = useSignMateStore();
 
   const [viewMode, setViewMode] = useState<ViewMode>(initialView);
@@ -64,6 +71,46 @@ export function InterpreterInterface({
     return () => clearInterval(interval);
   }, []);
 
+  // Relay for stage and overlay displays on other machines (see src/server/relay.ts). The
+  // control token is entered in settings on this machine; it is never built into the bundle.
+  const [relaySettings, setRelaySettings] = useState({ url: '', token: '' });
+  useEffect(() => {
+    const read = () => {
+      const { relayUrl, relayToken } = settingsManager.get('display');
+      setRelaySettings((prev) =>
+        prev.url === relayUrl && prev.token === relayToken ? prev : { url: relayUrl, token: relayToken }
+      );
+    };
+    read();
+    return settingsManager.subscribe(read);
+  }, []);
+
+  const [signSpeed, setSignSpeed] = useState(() => settingsManager.get('translation').signSpeed);
+  useEffect(() => settingsManager.subscribe((settings) => setSignSpeed(settings.translation.signSpeed)), []);
+
+  // Translation settings that follow the event; the pipeline gets them again whenever they change
+  const eventPipelineConfig = useMemo(
+    () => ({
+      vocabulary: currentEvent?.vocabulary,
+      signVariants: resolveVariantPreferences({
+        event: currentEvent?.signVariants,
+        defaultSpeed: signSpeed,
+        flags: getFeatureFlags(),
+      }),
+      scheduler: {
+        fillerGlosses: currentEvent?.dropDiscourseFillers
+          ? [...DISFLUENCY_GLOSSES, ...DISCOURSE_FILLER_GLOSSES]
+          : DISFLUENCY_GLOSSES,
+      },
+    }),
+    [currentEvent?.vocabulary, currentEvent?.signVariants, currentEvent?.dropDiscourseFillers, signSpeed]
+  );
+
+  // Register saved lexicon packs (event vocabulary, name signs) before translating
+  useEffect(() => {
+    getLexiconPackManager();
+  }, []);
+
   // Pipeline hook
   const {
     state: pipelineState,
@@ -78,12 +125,38 @@ export function InterpreterInterface({
     stop,
     pause,
     resume,
+    switchAudioSource,
+    updateConfig,
   } = useStreamingPipeline({
     autoInitialize: true,
+    config: {
+      speechProvider: getSettings().speech.provider,
+      deepgramApiKey: getSettings().speech.deepgramApiKey || undefined,
+      language: getSettings().speech.language,
+      ...eventPipelineConfig,
+    },
     onSigns: handleSigns,
     onError: handlePipelineError,
+    relay: relaySettings.url && relaySettings.token
+      ? {
+          url: relaySettings.url,
+          token: relaySettings.token,
+          room: currentEvent?.id,
+          operator: {
+            onAddMarker: (label) => sessionRecorder.addMarker(label),
+            onClearSignQueue: handleRemoteClearQueue,
+            onSwitchAudioSource: handleRemoteAudioSource,
+            audioSource: useSignMateStore.getState().activeAudioSource?.type,
+          },
+        }
+      : undefined,
   });
 
+  // The hook reads its config once; later event or sign-speed changes go to the running pipeline
+  useEffect(() => {
+    updateConfig(eventPipelineConfig);
+  }, [updateConfig, eventPipelineConfig]);
+
   // Transcript history
   const [transcriptHistory, setTranscriptHistory] = useState<TranscriptionSegment[]>([]);
 
@@ -139,6 +212,21 @@ export function InterpreterInterface({
     }
   }
 
+  // Remote operator commands arrive outside React's render cycle; read the store directly
+  function handleRemoteClearQueue() {
+    useSignMateStore.getState().setAvatarState({ currentSign: undefined, queue: [], isAnimating: false });
+  }
+
+  async function handleRemoteAudioSource(type: AudioSourceType) {
+    const { audioSources, currentEvent: event, setActiveAudioSource } = useSignMateStore.getState();
+    const source = [...audioSources, ...(event?.audioSources ?? [])].find((candidate) => candidate.type === type);
+    if (!source) {
+      throw new Error(`No ${type} audio source is set up for this event`);
+    }
+    await switchAudioSource(source);
+    setActiveAudioSource(source);
+  }
+
   // Handle sign animation complete
   const handleSignComplete = useCallback(() => {
     const { queue } = avatarState;
@@ -335,6 +335,17 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                     onChange={(v) => handleChange('general', 'sessionRecording', v)}
                   />
                 </SettingRow>
+                <SettingRow
+                  label="Motion Library Token"
+                  description="Needed to save or delete captured motions"
+                >
+                  <input
+                    type="password"
+                    value={settings.general.motionToken}
+                    onChange={(e) => handleChange('general', 'motionToken', e.target.value)}
+                    placeholder="Enter token"
+                  />
+                </SettingRow>
               </div>
             )}
 
@@ -395,10 +406,11 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                 >
                   <select
                     value={settings.speech.provider}
-                    onChange={(e) => handleChange('speech', 'provider', e.target.value as 'browser' | 'deepgram')}
+                    onChange={(e) => handleChange('speech', 'provider', e.target.value as 'browser' | 'deepgram' | 'whisper')}
                   >
                     <option value="browser">Browser (Free)</option>
                     <option value="deepgram">Deepgram (Professional)</option>
+                    <option value="whisper">Whisper (Local, Offline)</option>
                   </select>
                 </SettingRow>
                 <SettingRow
@@ -512,6 +524,28 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
                     />
                   </SettingRow>
                 )}
+                <SettingRow
+                  label="Relay URL"
+                  description="Relay serving stage and overlay displays on other machines"
+                >
+                  <input
+                    type="text"
+                    value={settings.display.relayUrl}
+                    onChange={(e) => handleChange('display', 'relayUrl', e.target.value)}
+                    placeholder="ws://relay-host:8080"
+                  />
+                </SettingRow>
+                <SettingRow
+                  label="Relay Token"
+                  description="Control token the relay was started with"
+                >
+                  <input
+                    type="password"
+                    value={settings.display.relayToken}
+                    onChange={(e) => handleChange('display', 'relayToken', e.target.value)}
+                    placeholder="Enter token"
+                  />
+                </SettingRow>
               </div>
             )}
 
@@ -8,8 +8,10 @@ import type {
   DisplayMode,
   AvatarConfig,
   EventConfig,
+  EventVocabulary,
 } from '@/types';
 import { AudioCapture } from '@/lib/audio';
+import { createEmptyVocabulary } from '@/lib/asl/eventVocabulary';
 
 interface EventSetupProps {
   onConfigComplete: (config: EventConfig) => void;
@@ -39,8 +41,17 @@ export function EventSetup({
       showUpperBody: true,
     }
   );
+  const [vocabulary, setVocabulary] = useState<EventVocabulary>(
+    initialConfig?.vocabulary || createEmptyVocabulary()
+  );
+  const [speakerName, setSpeakerName] = useState('');
+  const [speakerSign, setSpeakerSign] = useState('');
+  const [speakerAbbreviation, setSpeakerAbbreviation] = useState('');
+  const [acronym, setAcronym] = useState('');
+  const [phrase, setPhrase] = useState('');
+  const [phraseGloss, setPhraseGloss] = useState('');
   const [streamUrl, setStreamUrl] = useState('');
-  const [activeTab, setActiveTab] = useState<'audio' | 'display' | 'avatar'>('audio');
+  const [activeTab, setActiveTab] = useState<'audio' | 'display' | 'avatar' | 'vocabulary'>('audio');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -97,6 +108,48 @@ export function EventSetup({
     setDisplays((prev) => prev.filter((_, i) => i !== index));
   }, []);
 
+  const addSpeaker = useCallback(() => {
+    if (!speakerName.trim()) return;
+
+    setVocabulary((prev) => ({
+      ...prev,
+      speakers: [
+        ...prev.speakers,
+        {
+          name: speakerName.trim(),
+          ...(speakerSign.trim() ? { sign: speakerSign.trim() } : {}),
+          ...(speakerAbbreviation.trim() ? { abbreviation: speakerAbbreviation.trim().toUpperCase() } : {}),
+        },
+      ],
+    }));
+    setSpeakerName('');
+    setSpeakerSign('');
+    setSpeakerAbbreviation('');
+  }, [speakerName, speakerSign, speakerAbbreviation]);
+
+  const addAcronym = useCallback(() => {
+    const value = acronym.trim();
+    if (!value || vocabulary.acronyms.includes(value)) return;
+
+    setVocabulary((prev) => ({ ...prev, acronyms: [...prev.acronyms, value] }));
+    setAcronym('');
+  }, [acronym, vocabulary.acronyms]);
+
+  const addPhrase = useCallback(() => {
+    if (!phrase.trim() || !phraseGloss.trim()) return;
+
+    setVocabulary((prev) => ({
+      ...prev,
+      phrases: [...prev.phrases, { phrase: phrase.trim(), gloss: phraseGloss.trim() }],
+    }));
+    setPhrase('');
+    setPhraseGloss('');
+  }, [phrase, phraseGloss]);
+
+  const removeVocabularyItem = useCallback((list: keyof EventVocabulary, index: number) => {
+    setVocabulary((prev) => ({ ...prev, [list]: prev[list].filter((_, i) => i !== index) }));
+  }, []);
+
   const handleSubmit = useCallback(() => {
     if (!eventName.trim()) {
       setError('Please enter an event name');
@@ -128,10 +181,11 @@ export function EventSetup({
       displays,
       avatarConfig,
       isDemo: false,
+      vocabulary,
     };
 
     onConfigComplete(config);
-  }, [eventName, venue, selectedSource, audioSources, displays, avatarConfig, onConfigComplete]);
+  }, [eventName, venue, selectedSource, audioSources, displays, avatarConfig, vocabulary, onConfigComplete]);
 
   return (
     <div className="event-setup">
@@ -493,6 +547,27 @@ export function EventSetup({
           cursor: not-allowed;
         }
 
+        .vocabulary-section {
+          margin-bottom: 24px;
+        }
+
+        .vocabulary-section h3 {
+          margin: 0 0 4px;
+          font-size: 14px;
+          color: #374151;
+        }
+
+        .vocabulary-hint {
+          font-size: 12px;
+          color: #6b7280;
+        }
+
+        .vocabulary-section .stream-input {
+          margin: 12px 0;
+          padding-top: 0;
+          border-top: none;
+        }
+
         .loading {
           text-align: center;
           padding: 24px;
@@ -549,6 +624,12 @@ export function EventSetup({
         >
           Avatar Settings
         </button>
+        <button
+          className={`tab ${activeTab === 'vocabulary' ? 'active' : ''}`}
+          onClick={() => setActiveTab('vocabulary')}
+        >
+          Vocabulary
+        </button>
       </div>
 
       <div className="tab-content">
@@ -739,6 +820,123 @@ export function EventSetup({
             </div>
           </div>
         )}
+
+        {activeTab === 'vocabulary' && (
+          <>
+            <div className="vocabulary-section">
+              <h3>Speakers</h3>
+              <div className="vocabulary-hint">
+                Names are signed with the speaker&apos;s name sign, or their initials, instead of being
+                fingerspelled letter by letter.
+              </div>
+              <div className="stream-input">
+                <input
+                  type="text"
+                  value={speakerName}
+                  onChange={(e) => setSpeakerName(e.target.value)}
+                  placeholder="Name, e.g. Priya Raman"
+                />
+                <input
+                  type="text"
+                  value={speakerSign}
+                  onChange={(e) => setSpeakerSign(e.target.value)}
+                  placeholder="Name sign gloss (optional)"
+                />
+                <input
+                  type="text"
+                  value={speakerAbbreviation}
+                  onChange={(e) => setSpeakerAbbreviation(e.target.value)}
+                  placeholder="Initials (optional)"
+                />
+                <button className="add-button" onClick={addSpeaker} disabled={!speakerName.trim()}>
+                  Add
+                </button>
+              </div>
+              <div className="active-displays">
+                {vocabulary.speakers.map((speaker, index) => (
+                  <div key={`${speaker.name}-${index}`} className="active-display">
+                    <div>
+                      <div className="source-name">{speaker.name}</div>
+                      <div className="source-type">
+                        {speaker.sign || (speaker.abbreviation ? `#${speaker.abbreviation}` : 'fingerspelled')}
+                      </div>
+                    </div>
+                    <button className="remove-button" onClick={() => removeVocabularyItem('speakers', index)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="vocabulary-section">
+              <h3>Acronyms</h3>
+              <div className="vocabulary-hint">Fingerspelled as a single unit, e.g. NASA or API.</div>
+              <div className="stream-input">
+                <input
+                  type="text"
+                  value={acronym}
+                  onChange={(e) => setAcronym(e.target.value)}
+                  placeholder="Acronym as spoken in the transcript"
+                />
+                <button className="add-button" onClick={addAcronym} disabled={!acronym.trim()}>
+                  Add
+                </button>
+              </div>
+              <div className="active-displays">
+                {vocabulary.acronyms.map((item, index) => (
+                  <div key={item} className="active-display">
+                    <div className="source-name">{item}</div>
+                    <button className="remove-button" onClick={() => removeVocabularyItem('acronyms', index)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="vocabulary-section">
+              <h3>Phrase Signs</h3>
+              <div className="vocabulary-hint">
+                Sign a multi-word phrase with one sign, e.g. &quot;machine learning&quot;.
+              </div>
+              <div className="stream-input">
+                <input
+                  type="text"
+                  value={phrase}
+                  onChange={(e) => setPhrase(e.target.value)}
+                  placeholder="Phrase"
+                />
+                <input
+                  type="text"
+                  value={phraseGloss}
+                  onChange={(e) => setPhraseGloss(e.target.value)}
+                  placeholder="Sign gloss"
+                />
+                <button
+                  className="add-button"
+                  onClick={addPhrase}
+                  disabled={!phrase.trim() || !phraseGloss.trim()}
+                >
+                  Add
+                </button>
+              </div>
+              <div className="active-displays">
+                {vocabulary.phrases.map((override, index) => (
+                  <div key={`${override.phrase}-${index}`} className="active-display">
+                    <div>
+                      <div className="source-name">{override.phrase}</div>
+                      <div className="source-type">{override.gloss}</div>
+                    </div>
+                    <button className="remove-button" onClick={() => removeVocabularyItem('phrases', index)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
       </div>
 
       <div className="actions">
@@ -12,7 +12,7 @@ interface UsePoseBlenderOptions {
 interface UsePoseBlenderReturn {
   currentPose: Pose;
   update: (deltaTime: number) => Pose;
-  setSign: (sign: ASLSign, progress: number) => void;
+  setSign: (sign: ASLSign, progress: number, previous?: ASLSign) => void;
   returnToRest: () => void;
   setSpringPreset: (preset: keyof typeof springPresets) => void;
 }
@@ -35,9 +35,9 @@ export function usePoseBlender(options: UsePoseBlenderOptions = {}): UsePoseBlen
     return pose;
   }, []);
 
-  const setSign = useCallback((sign: ASLSign, progress: number) => {
+  const setSign = useCallback((sign: ASLSign, progress: number, previous?: ASLSign) => {
     if (!blenderRef.current) return;
-    const targetPose = signToPose(sign, progress);
+    const targetPose = signToPose(sign, progress, previous);
     blenderRef.current.setTarget(targetPose);
   }, []);
 
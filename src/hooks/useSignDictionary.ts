@@ -55,6 +55,7 @@ interface UseSignDictionaryReturn {
   // Metadata
   categories: SignCategory[];
   entryCount: number;
+  lexiconVersion: string;
 }
 
 export function useSignDictionary(
@@ -172,6 +173,7 @@ export function useSignDictionary(
     // Metadata
     categories: dictionary.getCategories(),
     entryCount: dictionary.getEntryCount(),
+    lexiconVersion: dictionary.getLexiconVersion(),
   };
 }
 
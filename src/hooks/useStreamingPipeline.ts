@@ -8,7 +8,10 @@ import {
   type StreamingPipelineConfig,
   type PipelineMetrics,
 } from '@/lib/pipeline/streamingPipeline';
-import type { TranscriptionSegment, ASLTranslation, ASLSign, PipelineStatus, PipelineError } from '@/types';
+import { SignMateWebSocketClient } from '@/lib/websocket/client';
+import { relayPipeline } from '@/lib/websocket/pipelineRelay';
+import { hostOperatorCommands, type OperatorHostHandlers } from '@/lib/websocket/operatorHost';
+import type { TranscriptionSegment, ASLTranslation, ASLSign, AudioSource, PipelineStatus, PipelineError } from '@/types';
 
 /**
  * useStreamingPipeline Hook
@@ -25,6 +28,9 @@ export interface UseStreamingPipelineOptions {
   onError?: (error: Error, stage: PipelineError['stage'], recoverable: boolean) => void;
   onStateChange?: (from: PipelineState, to: PipelineState) => void;
   onLatencyWarning?: (current: number, target: number) => void;
+  // Publish pipeline events to a SignMate relay as its control client, into an event room and language track.
+  // With operator handlers, also carry out commands from remote operator consoles.
+  relay?: { url: string; token: string; room?: string; language?: string; operator?: OperatorHostHandlers };
 }
 
 export interface UseStreamingPipelineReturn {
@@ -48,8 +54,9 @@ export interface UseStreamingPipelineReturn {
   initialize: () => Promise<void>;
   start: () => Promise<void>;
   stop: () => Promise<void>;
-  pause: () => void;
-  resume: () => void;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  switchAudioSource: (source: AudioSource) => Promise<void>;
   setLanguage: (language: string) => void;
   updateConfig: (updates: Partial<StreamingPipelineConfig>) => void;
 
@@ -69,6 +76,7 @@ export function useStreamingPipeline(
     onError,
     onStateChange,
     onLatencyWarning,
+    relay,
   } = options;
 
   const pipelineRef = useRef<RealTimeStreamingPipeline | null>(null);
@@ -173,6 +181,28 @@ export function useStreamingPipeline(
     };
   }, []); // Only run once on mount
 
+  // Mirror the pipeline to remote displays through the relay; reconnects when the
+  // operator changes the relay address, token or room
+  useEffect(() => {
+    const pipeline = pipelineRef.current;
+    if (!relay || !pipeline) return;
+
+    const relayClient = new SignMateWebSocketClient(relay.url, 'control', {}, relay.token);
+    relayClient.subscribe({ room: relay.room, language: relay.language ?? config?.language });
+    const unsubscribers = [relayPipeline(pipeline, relayClient)];
+    if (relay.operator) {
+      unsubscribers.push(hostOperatorCommands(pipeline, relayClient, relay.operator));
+    }
+    relayClient.connect();
+
+    return () => {
+      unsubscribers.forEach(unsub => unsub());
+      relayClient.disconnect();
+    };
+    // Operator handlers are read when connecting; changing them alone doesn't reconnect
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [relay?.url, relay?.token, relay?.room, relay?.language]);
+
   // Control functions
   const initialize = useCallback(async () => {
     if (!pipelineRef.current) return;
@@ -193,12 +223,16 @@ export function useStreamingPipeline(
     await pipelineRef.current.stop();
   }, []);
 
-  const pause = useCallback(() => {
-    pipelineRef.current?.pause();
+  const pause = useCallback(async () => {
+    await pipelineRef.current?.pause();
+  }, []);
+
+  const resume = useCallback(async () => {
+    await pipelineRef.current?.resume();
   }, []);
 
-  const resume = useCallback(() => {
-    pipelineRef.current?.resume();
+  const switchAudioSource = useCallback(async (source: AudioSource) => {
+    await pipelineRef.current?.switchAudioSource(source);
   }, []);
 
   const setLanguage = useCallback((language: string) => {
@@ -232,6 +266,7 @@ export function useStreamingPipeline(
     stop,
     pause,
     resume,
+    switchAudioSource,
     setLanguage,
     updateConfig,
 
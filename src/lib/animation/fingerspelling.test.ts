@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ASLTranslator } from '@/lib/asl/translator';
+import { buildTimeline } from '@/lib/motion/sequencer';
+import type { ASLSign } from '@/types';
+import { FINGERSPELL_TRANSITION, MANUAL_ALPHABET, fingerspellingPose, letterOf } from './fingerspelling';
+import { signToPose } from './poseBlender';
+
+async function spell(word: string): Promise<ASLSign[]> {
+  return (await new ASLTranslator().translate(word)).signs;
+}
+
+describe('fingerspelling', () => {
+  it('should have a distinct hand pose for every letter', () => {
+    const letters = 'abcdefghijklmnopqrstuvwxyz'.split('');
+    const poses = letters.map((letter) => JSON.stringify(MANUAL_ALPHABET[letter]));
+
+    expect(Object.keys(MANUAL_ALPHABET).sort()).toEqual(letters);
+    expect(new Set(poses).size).toBe(26);
+    expect(letterOf('letter-q')).toBe('q');
+    expect(letterOf('flat-hand')).toBeNull();
+  });
+
+  it('should pose translator letters instead of falling back to flat-hand', async () => {
+    const [m, q] = await spell('mq');
+    const pose = signToPose(m, 0.5);
+
+    expect(m.gloss).toBe('FS:M');
+    expect(pose.rightHand.fingerCurls).toEqual(MANUAL_ALPHABET.m.fingers);
+    expect(pose.rightHand.thumbCurl).toBe(1);
+    expect(signToPose(q, 0.5).rightHand.rotation).toEqual(MANUAL_ALPHABET.q.rotation);
+  });
+
+  it('should blend from the previous letter at the start of each letter', async () => {
+    const [a, b] = await spell('ab');
+
+    expect(fingerspellingPose(b, 0, a)!.fingers).toEqual(MANUAL_ALPHABET.a.fingers);
+    expect(fingerspellingPose(b, FINGERSPELL_TRANSITION / 2, a)!.fingers[0]).toBeCloseTo(0.5);
+    expect(fingerspellingPose(b, FINGERSPELL_TRANSITION, a)!.fingers).toEqual(MANUAL_ALPHABET.b.fingers);
+    expect(fingerspellingPose(b, 0)!.fingers).toEqual(MANUAL_ALPHABET.b.fingers);
+  });
+
+  it('should bounce doubled letters and trace J and Z', async () => {
+    const [, l1, l2] = await spell('kll');
+    const [j, z] = await spell('jz');
+
+    expect(fingerspellingPose(l1, 0.5, l1)!.offset.y).toBeCloseTo(0.03);
+    expect(signToPose(l2, 0.5, l1).rightHand.position.y).toBeGreaterThan(signToPose(l2, 0.5).rightHand.position.y);
+    expect(fingerspellingPose(z, 0)!.offset).toEqual({ x: 0, y: 0, z: 0 });
+    expect(fingerspellingPose(z, 1)!.offset).toEqual({ x: 0.06, y: -0.06, z: 0 });
+    expect(fingerspellingPose(z, 0.5)!.offset.x).toBeGreaterThan(0);
+    expect(fingerspellingPose(j, 1)!.offset.x).toBeLessThan(0);
+    expect(fingerspellingPose(j, 1)!.rotation.y).toBeCloseTo(1.2);
+  });
+
+  it('should join letters with short blends in a sentence timeline', async () => {
+    const signs = [...(await spell('hello')), ...(await spell('abc'))];
+    const timeline = buildTimeline(signs, signs.map(() => null));
+    const blends = timeline.segments.filter((segment) => segment.kind === 'blend');
+
+    expect(signs[0].gloss).toBe('HELLO');
+    expect(blends.map((segment) => segment.durationMs)).toEqual([150, 40, 40]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Manual alphabet hand poses for fingerspelling
+ *
+ * Each letter is a finger curl shape (same scale as the pose blender's hand
+ * shapes) plus a wrist orientation where the letter needs one: G/H point
+ * sideways, P/Q point down, C/O are turned to show their profile. J and Z
+ * trace a path over the letter's duration. Consecutive letters blend at the
+ * start of each letter, and a doubled letter gets a small bounce so the
+ * repeat stays visible.
+ */
+
+import type { ASLSign } from '@/types';
+import { easings, interpolateKeyframes, lerp, lerpVector3, type Vector3 } from './interpolation';
+
+export interface LetterShape {
+  fingers: number[]; // Index, middle, ring, pinky curl (0 straight, 1 closed)
+  thumb: number; // 0 extended, 1 folded across the palm
+  rotation?: Vector3; // Wrist orientation (radians)
+  path?: Vector3[]; // Hand offsets traced over the letter (J, Z)
+}
+
+export interface LetterPose {
+  fingers: number[];
+  thumb: number;
+  rotation: Vector3;
+  offset: Vector3; // Added to the hand position
+}
+
+const ZERO: Vector3 = { x: 0, y: 0, z: 0 };
+
+// Fingers to the side (G, H) and pointing down (P, Q)
+const SIDEWAYS: Vector3 = { x: 0, y: 0, z: -1.4 };
+const DOWNWARD: Vector3 = { x: 1.2, y: 0, z: 0 };
+const PROFILE: Vector3 = { x: 0, y: 0.6, z: 0 };
+
+export const MANUAL_ALPHABET: Record<string, LetterShape> = {
+  a: { fingers: [1, 1, 1, 1], thumb: 0.1 },
+  b: { fingers: [0, 0, 0, 0], thumb: 1 },
+  c: { fingers: [0.5, 0.5, 0.5, 0.5], thumb: 0.4, rotation: PROFILE },
+  d: { fingers: [0, 0.7, 0.7, 0.7], thumb: 0.7 },
+  e: { fingers: [0.75, 0.75, 0.75, 0.75], thumb: 1 },
+  f: { fingers: [0.7, 0, 0, 0], thumb: 0.7 },
+  g: { fingers: [0, 1, 1, 1], thumb: 0.1, rotation: SIDEWAYS },
+  h: { fingers: [0, 0, 1, 1], thumb: 0.6, rotation: SIDEWAYS },
+  i: { fingers: [1, 1, 1, 0], thumb: 0.9 },
+  // Pinky traces a J: down, then curving in with a wrist twist
+  j: {
+    fingers: [1, 1, 1, 0],
+    thumb: 0.9,
+    path: [ZERO, { x: 0, y: -0.05, z: 0 }, { x: -0.03, y: -0.08, z: 0.01 }, { x: -0.06, y: -0.05, z: 0.02 }],
+    rotation: { x: 0, y: 1.2, z: 0 },
+  },
+  k: { fingers: [0, 0, 1, 1], thumb: 0.3 },
+  l: { fingers: [0, 1, 1, 1], thumb: 0 },
+  m: { fingers: [0.85, 0.85, 0.85, 1], thumb: 1 },
+  n: { fingers: [0.85, 0.85, 1, 1], thumb: 1 },
+  o: { fingers: [0.6, 0.6, 0.6, 0.6], thumb: 0.6, rotation: PROFILE },
+  p: { fingers: [0, 0, 1, 1], thumb: 0.3, rotation: DOWNWARD },
+  q: { fingers: [0, 1, 1, 1], thumb: 0.1, rotation: DOWNWARD },
+  r: { fingers: [0, 0.1, 1, 1], thumb: 0.8 },
+  s: { fingers: [1, 1, 1, 1], thumb: 0.6 },
+  t: { fingers: [0.8, 1, 1, 1], thumb: 0.8 },
+  u: { fingers: [0, 0, 1, 1], thumb: 0.9 },
+  v: { fingers: [0, 0, 1, 1], thumb: 0.85 },
+  w: { fingers: [0, 0, 0, 1], thumb: 0.9 },
+  x: { fingers: [0.5, 1, 1, 1], thumb: 0.8 },
+  y: { fingers: [1, 1, 1, 0], thumb: 0 },
+  // Index traces a Z in the air
+  z: {
+    fingers: [0, 1, 1, 1],
+    thumb: 0.8,
+    path: [ZERO, { x: 0.06, y: 0, z: 0 }, { x: 0, y: -0.06, z: 0 }, { x: 0.06, y: -0.06, z: 0 }],
+  },
+};
+
+// Share of each letter spent moving from the previous letter's shape
+export const FINGERSPELL_TRANSITION = 0.35;
+
+// Height of the bounce on a doubled letter
+const DOUBLE_LETTER_BOUNCE = 0.03;
+
+const LETTER_PREFIX = 'letter-';
+
+/**
+ * The manual alphabet letter a handshape spells, or null
+ */
+export function letterOf(handshape: string | undefined): string | null {
+  if (!handshape?.startsWith(LETTER_PREFIX)) return null;
+  const letter = handshape.slice(LETTER_PREFIX.length);
+  return letter in MANUAL_ALPHABET ? letter : null;
+}
+
+function letterRotation(shape: LetterShape, progress: number): Vector3 {
+  // Traced letters turn the wrist along the way
+  if (shape.path && shape.rotation) {
+    return lerpVector3(ZERO, shape.rotation, progress);
+  }
+  return shape.rotation ?? ZERO;
+}
+
+function letterOffset(shape: LetterShape, progress: number): Vector3 {
+  if (!shape.path) return ZERO;
+  const last = shape.path.length - 1;
+  return interpolateKeyframes(
+    shape.path.map((value, i) => ({ time: i / last, value, easing: 'smoothStep' as const })),
+    progress,
+    lerpVector3
+  );
+}
+
+/**
+ * Hand pose for a fingerspelled sign at a point in its duration, or null
+ * when the sign is not a letter. Pass the previous sign to blend in from
+ * its letter and to bounce doubled letters.
+ */
+export function fingerspellingPose(sign: ASLSign, progress: number, previous?: ASLSign): LetterPose | null {
+  const letter = letterOf(sign.handshape.dominant);
+  if (!letter) return null;
+
+  const shape = MANUAL_ALPHABET[letter];
+  const previousLetter = letterOf(previous?.handshape.dominant);
+  let fingers = shape.fingers;
+  let thumb = shape.thumb;
+  let rotation = letterRotation(shape, progress);
+  const offset = { ...letterOffset(shape, progress) };
+
+  if (previousLetter && progress < FINGERSPELL_TRANSITION) {
+    const from = MANUAL_ALPHABET[previousLetter];
+    const t = easings.smoothStep(progress / FINGERSPELL_TRANSITION);
+    fingers = from.fingers.map((curl, i) => lerp(curl, shape.fingers[i], t));
+    thumb = lerp(from.thumb, shape.thumb, t);
+    rotation = lerpVector3(letterRotation(from, 1), rotation, t);
+  }
+
+  if (previousLetter === letter) {
+    offset.y += Math.sin(progress * Math.PI) * DOUBLE_LETTER_BOUNCE;
+  }
+
+  return { fingers, thumb, rotation, offset };
+}
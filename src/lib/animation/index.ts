@@ -22,6 +22,17 @@ export {
   PoseBlender,
   blendPoses,
   signToPose,
+  expressionFromMarkers,
+  HEAD_SHAKE_RATE,
   REST_POSE,
   type Pose,
 } from './poseBlender';
+
+export {
+  MANUAL_ALPHABET,
+  FINGERSPELL_TRANSITION,
+  fingerspellingPose,
+  letterOf,
+  type LetterShape,
+  type LetterPose,
+} from './fingerspelling';
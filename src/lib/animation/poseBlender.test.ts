@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createLexicon } from '@/lib/asl/lexicon';
+import { resolveTwoHandedType } from '@/lib/asl/twoHanded';
+import { getSignDictionary } from '@/lib/dictionary/signDictionary';
+import type { ASLSign } from '@/types';
+import { REST_POSE, signToPose } from './poseBlender';
+
+const lexicon = createLexicon();
+
+function sign(gloss: string): ASLSign {
+  return lexicon.getSign(gloss)!;
+}
+
+describe('signToPose two-handed signs', () => {
+  it('should infer the two-handed type from the handshapes', () => {
+    expect(resolveTwoHandedType({ dominant: 'flat-hand' })).toBeNull();
+    expect(resolveTwoHandedType(sign('BOOK').handshape)).toBe('symmetric');
+    expect(resolveTwoHandedType(sign('HELP').handshape)).toBe('base');
+    expect(resolveTwoHandedType(sign('WORK').handshape)).toBe('base');
+    expect(resolveTwoHandedType(sign('SIGN').handshape)).toBe('alternating');
+  });
+
+  it('should mirror the dominant hand for symmetric signs', () => {
+    const pose = signToPose(sign('BIG'), 0.7);
+
+    expect(pose.leftHand.position).toEqual({ ...pose.rightHand.position, x: -pose.rightHand.position.x });
+    expect(pose.leftHand.fingerCurls).toEqual(pose.rightHand.fingerCurls);
+  });
+
+  it('should move alternating hands out of phase', () => {
+    const start = signToPose(sign('SIGN'), 0);
+    const half = signToPose(sign('SIGN'), 0.5);
+
+    expect(start.rightHand.position.y).toBeCloseTo(half.leftHand.position.y);
+    expect(start.leftHand.position.y).toBeCloseTo(half.rightHand.position.y);
+    expect(start.rightHand.position.y).not.toBeCloseTo(start.leftHand.position.y);
+  });
+
+  it('should hold the base hand still under the dominant hand', () => {
+    const help = sign('HELP');
+    const start = signToPose(help, 0);
+    const end = signToPose(help, 1);
+
+    expect(end.leftHand.position).toEqual(start.leftHand.position);
+    expect(end.rightHand.position.y).toBeGreaterThan(start.rightHand.position.y);
+    expect(start.leftHand.position.y).toBeLessThan(start.rightHand.position.y);
+    expect(start.leftHand.fingerCurls).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should raise the non-dominant hand for every two-handed dictionary sign', () => {
+    const twoHanded = getSignDictionary().search({ twoHandedOnly: true, limit: 500 }).entries;
+
+    expect(twoHanded.length).toBeGreaterThan(50);
+    for (const entry of twoHanded) {
+      const pose = signToPose(sign(entry.gloss), 0.5);
+      expect(pose.leftHand.position, entry.gloss).not.toEqual(REST_POSE.leftHand.position);
+    }
+    expect(twoHanded.find((entry) => entry.gloss === 'HELP')?.symmetrical).toBe(false);
+    expect(twoHanded.find((entry) => entry.gloss === 'SIGN')?.symmetrical).toBe(true);
+  });
+});
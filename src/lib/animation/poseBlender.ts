@@ -2,7 +2,8 @@
  * Pose blending system for smooth transitions between ASL signs
  */
 
-import type { ASLSign, ExpressionState } from '@/types';
+import type { ASLSign, ExpressionState, NonManualMarker, SignMovement } from '@/types';
+import { resolveTwoHandedType } from '@/lib/asl/twoHanded';
 import {
   lerp,
   lerpVector3,
@@ -12,6 +13,7 @@ import {
   type Spring3DState,
   type SpringConfig,
 } from './interpolation';
+import { fingerspellingPose, MANUAL_ALPHABET } from './fingerspelling';
 
 // Pose representation for a single frame
 export interface Pose {
@@ -71,39 +73,39 @@ const HAND_SHAPE_CURLS: Record<string, { fingers: number[]; thumb: number }> = {
   'f-hand': { fingers: [0.8, 0, 0, 0], thumb: 0.8 },
   'flat-o': { fingers: [0.4, 0.4, 0.4, 0.4], thumb: 0.4 },
   'e-hand': { fingers: [0.7, 0.7, 0.7, 0.7], thumb: 0.7 },
+  // ASL numbers (11-19 reuse 1-9 with movement)
+  'number-0': { fingers: [0.6, 0.6, 0.6, 0.6], thumb: 0.6 },
+  'number-1': { fingers: [0, 1, 1, 1], thumb: 0.8 },
+  'number-2': { fingers: [0, 0, 1, 1], thumb: 0.8 },
+  'number-3': { fingers: [0, 0, 1, 1], thumb: 0 },
+  'number-4': { fingers: [0, 0, 0, 0], thumb: 1 },
+  'number-5': { fingers: [0, 0, 0, 0], thumb: 0 },
+  'number-6': { fingers: [0, 0, 0, 1], thumb: 0.8 },
+  'number-7': { fingers: [0, 0, 1, 0], thumb: 0.8 },
+  'number-8': { fingers: [0, 1, 0, 0], thumb: 0.8 },
+  'number-9': { fingers: [1, 0, 0, 0], thumb: 0.8 },
+  'number-10': { fingers: [1, 1, 1, 1], thumb: 0 },
+  // Manual alphabet (letter-a ... letter-z)
+  ...Object.fromEntries(
+    Object.entries(MANUAL_ALPHABET).map(([letter, { fingers, thumb }]) => [`letter-${letter}`, { fingers, thumb }])
+  ),
 };
 
-// Convert ASL sign to target pose
-export function signToPose(sign: ASLSign, progress: number = 0): Pose {
-  const loc = sign.location;
-  const mov = sign.movement;
-  const rightShape = HAND_SHAPE_CURLS[sign.handshape.dominant] || HAND_SHAPE_CURLS['flat-hand'];
-  const leftShape = sign.handshape.nonDominant
-    ? HAND_SHAPE_CURLS[sign.handshape.nonDominant] || HAND_SHAPE_CURLS['flat-hand']
-    : HAND_SHAPE_CURLS['open-hand'];
-
-  // Calculate base position from sign location
-  let rightX = loc.x * 0.5 + 0.15;
-  let rightY = loc.y * 0.8 - 0.2;
-  let rightZ = loc.z * 0.5 + 0.2;
+// Side-to-side headshake speed (radians per second) for renderers animating ExpressionState.headShake
+export const HEAD_SHAKE_RATE = 9;
 
-  // Apply movement direction based on progress
-  if (mov.direction) {
-    rightX += mov.direction.x * progress * 0.3;
-    rightY += mov.direction.y * progress * 0.3;
-    rightZ += mov.direction.z * progress * 0.3;
-  }
-
-  // Handle repetitive movements
-  if (mov.repetitions && mov.repetitions > 1) {
-    const cycleProgress = (progress * mov.repetitions) % 1;
-    const bounce = Math.sin(cycleProgress * Math.PI * 2) * 0.05;
-    rightY += bounce;
-  }
+/**
+ * Facial expression and head position for a sign's non-manual markers.
+ * Nods and shakes oscillate with progress; headShake also reports the shake
+ * amplitude for renderers that animate it on their own clock.
+ */
+export function expressionFromMarkers(markers: NonManualMarker[], progress: number = 0): ExpressionState {
+  const expression: ExpressionState = {
+    ...REST_POSE.expression,
+    headTilt: { ...REST_POSE.expression.headTilt },
+  };
 
-  // Expression from non-manual markers
-  const expression = { ...REST_POSE.expression };
-  for (const marker of sign.nonManualMarkers) {
+  for (const marker of markers) {
     if (marker.type === 'facial') {
       switch (marker.expression) {
         case 'raised-eyebrows':
@@ -126,34 +128,137 @@ export function signToPose(sign: ASLSign, progress: number = 0): Pose {
           break;
         case 'shake':
           expression.headTilt.y = Math.sin(progress * Math.PI * 2) * marker.intensity * 0.3;
+          expression.headShake = marker.intensity;
           break;
         case 'tilt':
           expression.headTilt.z = marker.intensity * 0.2;
           break;
+        case 'tilt-forward':
+          expression.headTilt.x = marker.intensity * 0.3;
+          break;
+        case 'tilt-back':
+          expression.headTilt.x = -marker.intensity * 0.3;
+          break;
       }
     }
   }
 
-  // Calculate left hand position
-  const hasLeftHand = !!sign.handshape.nonDominant;
-  const leftX = hasLeftHand ? -rightX : -0.35;
-  const leftY = hasLeftHand ? rightY : -0.1;
-  const leftZ = hasLeftHand ? rightZ : 0.15;
+  return expression;
+}
+
+// Hand displacement along a sign's movement at a point in its duration
+function movementOffset(mov: SignMovement, progress: number): Vector3 {
+  const offset = { x: 0, y: 0, z: 0 };
+
+  // Apply movement direction based on progress
+  if (mov.direction) {
+    offset.x = mov.direction.x * progress * 0.3;
+    offset.y = mov.direction.y * progress * 0.3;
+    offset.z = mov.direction.z * progress * 0.3;
+  }
+
+  // Handle repetitive movements
+  if (mov.repetitions && mov.repetitions > 1) {
+    const cycleProgress = (progress * mov.repetitions) % 1;
+    offset.y += Math.sin(cycleProgress * Math.PI * 2) * 0.05;
+  }
+
+  return offset;
+}
+
+// Alternating hands swing out and back along the movement, half a cycle apart
+function alternatingOffset(mov: SignMovement, progress: number, phase: number): Vector3 {
+  const cycles = Math.max(1, mov.repetitions ?? 1);
+  const swing = 0.5 - 0.5 * Math.cos(Math.PI * 2 * (progress * cycles + phase));
+  const direction = mov.direction ?? { x: 0, y: 0.1, z: 0 };
+  return {
+    x: direction.x * swing * 0.3,
+    y: direction.y * swing * 0.3,
+    z: direction.z * swing * 0.3,
+  };
+}
+
+// Mirror a hand across the body's midline
+function mirror(hand: Pick<Pose['rightHand'], 'position' | 'rotation'>): Pick<Pose['leftHand'], 'position' | 'rotation'> {
+  return {
+    position: { ...hand.position, x: -hand.position.x },
+    rotation: { ...hand.rotation, y: -hand.rotation.y, z: -hand.rotation.z },
+  };
+}
+
+// Where a base hand waits for the dominant hand: just below and toward the midline
+const BASE_HAND_OFFSET: Vector3 = { x: -0.15, y: -0.1, z: 0 };
+
+// Convert ASL sign to target pose (previous is the sign before it, for fingerspelling transitions)
+export function signToPose(sign: ASLSign, progress: number = 0, previous?: ASLSign): Pose {
+  const loc = sign.location;
+  const mov = sign.movement;
+  const twoHanded = resolveTwoHandedType(sign.handshape);
+  const letter = fingerspellingPose(sign, progress, previous);
+  const rightShape = letter ?? HAND_SHAPE_CURLS[sign.handshape.dominant] ?? HAND_SHAPE_CURLS['flat-hand'];
+  const leftShape = sign.handshape.nonDominant
+    ? HAND_SHAPE_CURLS[sign.handshape.nonDominant] || HAND_SHAPE_CURLS['flat-hand']
+    : HAND_SHAPE_CURLS['open-hand'];
+
+  // Calculate base position from sign location
+  const start: Vector3 = {
+    x: loc.x * 0.5 + 0.15,
+    y: loc.y * 0.8 - 0.2,
+    z: loc.z * 0.5 + 0.2,
+  };
+
+  const rightOffset = twoHanded === 'alternating' ? alternatingOffset(mov, progress, 0) : movementOffset(mov, progress);
+  if (letter) {
+    rightOffset.x += letter.offset.x;
+    rightOffset.y += letter.offset.y;
+    rightOffset.z += letter.offset.z;
+  }
+
+  const rightHand = {
+    position: { x: start.x + rightOffset.x, y: start.y + rightOffset.y, z: start.z + rightOffset.z },
+    rotation: letter ? letter.rotation : { x: progress * 0.2, y: 0, z: 0 },
+  };
+
+  // The non-dominant hand mirrors, alternates with or holds still under the dominant hand
+  let leftHand: Pick<Pose['leftHand'], 'position' | 'rotation'>;
+  switch (twoHanded) {
+    case 'symmetric':
+      leftHand = mirror(rightHand);
+      break;
+    case 'alternating': {
+      const offset = alternatingOffset(mov, progress, 0.5);
+      leftHand = mirror({
+        position: { x: start.x + offset.x, y: start.y + offset.y, z: start.z + offset.z },
+        rotation: rightHand.rotation,
+      });
+      break;
+    }
+    case 'base':
+      leftHand = {
+        position: {
+          x: start.x + BASE_HAND_OFFSET.x,
+          y: start.y + BASE_HAND_OFFSET.y,
+          z: start.z + BASE_HAND_OFFSET.z,
+        },
+        rotation: { x: 0, y: 0, z: 0 },
+      };
+      break;
+    default:
+      leftHand = { position: { ...REST_POSE.leftHand.position }, rotation: { x: 0, y: 0, z: 0 } };
+  }
 
   return {
     rightHand: {
-      position: { x: rightX, y: rightY, z: rightZ },
-      rotation: { x: progress * 0.2, y: 0, z: 0 },
+      ...rightHand,
       fingerCurls: rightShape.fingers,
       thumbCurl: rightShape.thumb,
     },
     leftHand: {
-      position: { x: leftX, y: leftY, z: leftZ },
-      rotation: { x: hasLeftHand ? -progress * 0.2 : 0, y: 0, z: 0 },
+      ...leftHand,
       fingerCurls: leftShape.fingers,
       thumbCurl: leftShape.thumb,
     },
-    expression,
+    expression: expressionFromMarkers(sign.nonManualMarkers, progress),
   };
 }
 
@@ -205,8 +310,8 @@ export class PoseBlender {
     this.targetPose = pose;
   }
 
-  setTargetFromSign(sign: ASLSign, progress: number): void {
-    this.targetPose = signToPose(sign, progress);
+  setTargetFromSign(sign: ASLSign, progress: number, previous?: ASLSign): void {
+    this.targetPose = signToPose(sign, progress, previous);
   }
 
   returnToRest(): void {
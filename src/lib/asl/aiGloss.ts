@@ -0,0 +1,131 @@
+/**
+ * LLM-backed gloss generation
+ *
+ * Sends the sentence (plus recent context) to a chat-completion model and
+ * asks for a structured ASL gloss sequence restricted to the glossary. The
+ * result is only a proposal: the translator validates every gloss against
+ * the glossary and fingerspells anything the model invented.
+ */
+
+export interface AIGlossToken {
+  gloss: string; // Proposed gloss, expected to be a glossary entry
+  word?: string; // English source word, used for fingerspelling fallback
+}
+
+export interface GlossCompletionRequest {
+  system: string;
+  user: string;
+}
+
+// Minimal completion interface so tests and alternative backends can be injected
+export interface GlossCompletionClient {
+  complete(request: GlossCompletionRequest, options: { signal: AbortSignal }): Promise<string>;
+}
+
+export class AIGlossTimeoutError extends Error {
+  constructor(budget: number) {
+    super(`AI gloss generation exceeded ${budget}ms budget`);
+    this.name = 'AIGlossTimeoutError';
+  }
+}
+
+export function buildGlossPrompt(
+  text: string,
+  context: string[],
+  vocabulary: string[]
+): GlossCompletionRequest {
+  const system = [
+    'You translate spoken English into American Sign Language gloss for a live interpreter avatar.',
+    'Follow ASL grammar: time expressions first, topic-comment order, drop articles and copulas,',
+    'clause-final NOT for negation and WH-question words at the end.',
+    'Only use glosses from this vocabulary:',
+    vocabulary.map((gloss) => gloss.toUpperCase()).join(' '),
+    'For names or words with no vocabulary entry, use the gloss "FS" and put the English word in "word".',
+    'Copy words starting with "#" (fingerspelled acronyms and initials) unchanged as their own gloss.',
+    'Respond with JSON only: {"tokens":[{"gloss":"MEETING","word":"meeting"}]}',
+  ].join('\n');
+
+  const user = context.length > 0
+    ? `Previous sentences:\n${context.join('\n')}\n\nTranslate:\n${text}`
+    : `Translate:\n${text}`;
+
+  return { system, user };
+}
+
+export function parseGlossResponse(content: string): AIGlossToken[] {
+  // Models sometimes wrap JSON in a code fence
+  const json = content.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '').trim();
+  const parsed = JSON.parse(json) as { tokens?: unknown };
+
+  if (!Array.isArray(parsed.tokens)) {
+    throw new Error('AI gloss response is missing a tokens array');
+  }
+
+  return parsed.tokens
+    .filter((token): token is { gloss: string; word?: unknown } =>
+      !!token && typeof (token as { gloss?: unknown }).gloss === 'string'
+    )
+    .map((token) => ({
+      gloss: token.gloss.trim(),
+      ...(typeof token.word === 'string' ? { word: token.word.trim() } : {}),
+    }))
+    .filter((token) => token.gloss.length > 0);
+}
+
+/**
+ * Ask the model for a gloss sequence within a latency budget.
+ * Rejects with AIGlossTimeoutError when the budget is exceeded.
+ */
+export async function generateAIGloss(
+  client: GlossCompletionClient,
+  request: GlossCompletionRequest,
+  budget: number
+): Promise<AIGlossToken[]> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AIGlossTimeoutError(budget));
+    }, budget);
+  });
+
+  try {
+    const content = await Promise.race([client.complete(request, { signal: controller.signal }), timeout]);
+    return parseGlossResponse(content);
+  } finally {
+    if (timer) clearTimeout(timer);
+  }
+}
+
+// OpenAI chat-completions backend (loaded lazily so rule-based mode never pulls in the SDK)
+export function createOpenAIGlossClient(apiKey: string, model: string): GlossCompletionClient {
+  let clientPromise: Promise<import('openai').default> | null = null;
+
+  return {
+    async complete(request, { signal }) {
+      if (!clientPromise) {
+        clientPromise = import('openai').then(
+          ({ default: OpenAI }) => new OpenAI({ apiKey, dangerouslyAllowBrowser: true })
+        );
+      }
+      const openai = await clientPromise;
+
+      const completion = await openai.chat.completions.create(
+        {
+          model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.user },
+          ],
+        },
+        { signal }
+      );
+
+      return completion.choices[0]?.message?.content ?? '';
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { EventVocabulary } from '@/types';
+import { createLexicon, type LexiconEntry } from './lexicon';
+import { EventVocabularyMatcher, getVocabularyKeywords } from './eventVocabulary';
+import { ASLTranslator } from './translator';
+
+const animation: LexiconEntry['animation'] = {
+  duration: 500,
+  handshape: { dominant: 'p-hand' },
+  location: { x: 0.1, y: 0.6, z: 0.3, reference: 'face' },
+  movement: { type: 'linear', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+function eventLexicon() {
+  const lexicon = createLexicon();
+  lexicon.add({ id: 'NAME-SIGN-PRIYA', word: 'name sign priya', aliases: [], category: 'common', animation });
+  lexicon.add({ id: 'MACHINE-LEARNING', word: 'machine-learning', aliases: [], category: 'technology', animation });
+  return lexicon;
+}
+
+const vocabulary: EventVocabulary = {
+  speakers: [
+    { name: 'Priya Raman', sign: 'NAME-SIGN-PRIYA' },
+    { name: 'Marcus Webb', abbreviation: 'MW' },
+    { name: 'Will Ortiz', sign: 'NAME-SIGN-WILL' },
+  ],
+  acronyms: ['NASA', 'GPU'],
+  phrases: [
+    { phrase: 'machine learning', gloss: 'MACHINE-LEARNING' },
+    { phrase: 'deep learning', gloss: 'DEEP-LEARNING' },
+  ],
+};
+
+describe('EventVocabularyMatcher', () => {
+  const matcher = new EventVocabularyMatcher(vocabulary, eventLexicon());
+
+  it('should replace speaker names with their name sign', () => {
+    expect(matcher.apply('Please welcome Priya Raman.')).toBe('Please welcome name-sign-priya.');
+    expect(matcher.apply('Thanks, Raman!')).toBe('Thanks, name-sign-priya!');
+  });
+
+  it('should fall back to initials when a speaker has no name sign', () => {
+    expect(matcher.apply('Marcus Webb joins us')).toBe('#mw joins us');
+  });
+
+  it('should leave names untouched when their sign is unknown', () => {
+    expect(matcher.apply('Will Ortiz will speak')).toBe('Will Ortiz will speak');
+  });
+
+  it('should match acronyms case-sensitively', () => {
+    expect(matcher.apply('NASA uses a GPU')).toBe('#nasa uses a #gpu');
+    expect(matcher.apply('nasa')).toBe('nasa');
+  });
+
+  it('should match phrases case-insensitively and prefer the longest match', () => {
+    expect(matcher.apply('Machine Learning is fun')).toBe('machine-learning is fun');
+    expect(matcher.apply('deep learning at NASA')).toBe('deep learning at #nasa');
+  });
+});
+
+describe('ASLTranslator with event vocabulary', () => {
+  it('should sign names, acronyms and phrases as single units', async () => {
+    const translator = new ASLTranslator({ lexicon: eventLexicon(), glossaryOnly: true });
+    translator.setVocabulary(vocabulary);
+
+    const result = await translator.translate('Priya Raman explains machine learning at NASA');
+
+    expect(result.signs.map((sign) => sign.gloss)).toEqual([
+      'NAME-SIGN-PRIYA',
+      'FS:E', 'FS:X', 'FS:P', 'FS:L', 'FS:A', 'FS:I', 'FS:N', 'FS:S',
+      'MACHINE-LEARNING',
+      'FS:A', 'FS:T',
+      'FS:N', 'FS:A', 'FS:S', 'FS:A',
+    ]);
+    expect(result.fingerspelledWords).toEqual(['explains', 'at', 'nasa']);
+    expect(result.sourceText).toBe('Priya Raman explains machine learning at NASA');
+  });
+
+  it('should spell acronyms faster than fingerspelled words', async () => {
+    const translator = new ASLTranslator({ glossaryOnly: true });
+    translator.setVocabulary({ speakers: [], acronyms: ['GPU'], phrases: [] });
+
+    const [acronymLetter] = (await translator.translate('GPU')).signs;
+    const [wordLetter] = (await translator.translate('gpu')).signs;
+
+    expect(acronymLetter.duration).toBeLessThan(wordLetter.duration);
+  });
+
+  it('should keep acronym units through ASL reordering', async () => {
+    const translator = new ASLTranslator();
+    translator.setVocabulary({ speakers: [], acronyms: ['NASA'], phrases: [] });
+
+    const glosses = (await translator.translate('I like NASA')).signs.map((sign) => sign.gloss);
+
+    expect(glosses.slice(0, 4)).toEqual(['FS:N', 'FS:A', 'FS:S', 'FS:A']);
+  });
+
+  it('should stop applying the vocabulary once cleared', async () => {
+    const translator = new ASLTranslator({ glossaryOnly: true });
+    translator.setVocabulary({ speakers: [], acronyms: ['GPU'], phrases: [] });
+    translator.setVocabulary(null);
+
+    expect((await translator.translate('GPU')).signs[0].duration).toBe(250);
+  });
+});
+
+describe('getVocabularyKeywords', () => {
+  it('should collect unique recognition keywords', () => {
+    expect(getVocabularyKeywords(vocabulary)).toEqual([
+      'Priya', 'Raman', 'Marcus', 'Webb', 'Will', 'Ortiz', 'NASA', 'GPU', 'machine', 'learning', 'deep',
+    ]);
+    expect(getVocabularyKeywords(undefined)).toEqual([]);
+  });
+});
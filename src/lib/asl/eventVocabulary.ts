@@ -0,0 +1,114 @@
+/**
+ * Per-event vocabulary
+ *
+ * Rewrites speaker names, acronyms and multi-word phrases in the transcript
+ * before gloss ordering, so the translator sees one token per unit:
+ * - a lexicon gloss ID (e.g. name-sign-priya) for name signs and phrase overrides
+ * - a "#" token (e.g. #nasa) for acronyms and initials, fingerspelled as one unit
+ *
+ * Names and acronyms match case-sensitively so "Will" the speaker is not
+ * confused with "will"; phrases match case-insensitively. Longer matches win.
+ */
+
+import type { EventVocabulary } from '@/types';
+import { getLexicon, type Lexicon } from './lexicon';
+import { replaceLongestMatches, splitWords } from './phrases';
+
+// Marks a token to be fingerspelled as a single lexicalized unit
+export const FINGERSPELL_UNIT_PREFIX = '#';
+
+// Replacement token for a match, or null to leave the text alone
+type VocabularyRule = () => string | null;
+
+export function createEmptyVocabulary(): EventVocabulary {
+  return { speakers: [], acronyms: [], phrases: [] };
+}
+
+function unitToken(letters: string): string {
+  return `${FINGERSPELL_UNIT_PREFIX}${letters.replace(/[^A-Za-z]/g, '').toLowerCase()}`;
+}
+
+/**
+ * Words to boost in speech recognition (e.g. Deepgram keywords) so names
+ * and acronyms reach the translator spelled the way the vocabulary expects.
+ */
+export function getVocabularyKeywords(vocabulary: EventVocabulary | null | undefined): string[] {
+  if (!vocabulary) return [];
+
+  const keywords = [
+    ...vocabulary.speakers.flatMap((speaker) => splitWords(speaker.name)),
+    ...vocabulary.acronyms.flatMap(splitWords),
+    ...vocabulary.phrases.flatMap((override) => splitWords(override.phrase)),
+  ];
+  return Array.from(new Set(keywords));
+}
+
+export class EventVocabularyMatcher {
+  private rules: Map<string, VocabularyRule> = new Map();
+  private maxWords = 0;
+
+  constructor(
+    vocabulary: EventVocabulary,
+    private lexicon: Lexicon = getLexicon()
+  ) {
+    // Gloss overrides are resolved at match time so signs from packs loaded later still apply
+    vocabulary.phrases.forEach(({ phrase, gloss }) => {
+      this.addRule(phrase, false, () => this.resolveGloss(gloss));
+    });
+
+    vocabulary.acronyms.forEach((acronym) => {
+      this.addRule(acronym, true, () => unitToken(acronym));
+    });
+
+    vocabulary.speakers.forEach((speaker) => {
+      const resolve = () =>
+        (speaker.sign && this.resolveGloss(speaker.sign)) ||
+        (speaker.abbreviation ? unitToken(speaker.abbreviation) : null);
+
+      // Speakers are often referred to by first or last name alone
+      const parts = splitWords(speaker.name);
+      this.addRule(speaker.name, true, resolve);
+      if (parts.length > 1) {
+        parts.filter((part) => part.length > 1).forEach((part) => this.addRule(part, true, resolve));
+      }
+    });
+  }
+
+  get size(): number {
+    return this.rules.size;
+  }
+
+  /**
+   * Replace vocabulary matches with their tokens, longest match first
+   */
+  apply(text: string): string {
+    if (this.rules.size === 0) return text;
+
+    return replaceLongestMatches(
+      text,
+      this.maxWords,
+      (words) => this.rules.get(this.ruleKey(words, true))?.() || this.rules.get(this.ruleKey(words, false))?.() || null
+    );
+  }
+
+  private addRule(text: string, caseSensitive: boolean, resolve: VocabularyRule): void {
+    const words = splitWords(text);
+    if (words.length === 0) return;
+
+    const key = this.ruleKey(words, caseSensitive);
+    // First registration wins, e.g. when two speakers share a first name
+    if (this.rules.has(key)) return;
+
+    this.rules.set(key, resolve);
+    this.maxWords = Math.max(this.maxWords, words.length);
+  }
+
+  private ruleKey(words: string[], caseSensitive: boolean): string {
+    return caseSensitive ? `=${words.join(' ')}` : `~${words.join(' ').toLowerCase()}`;
+  }
+
+  private resolveGloss(gloss: string): string | null {
+    const entry = this.lexicon.get(gloss);
+    return entry && this.lexicon.hasSign(entry.id) ? entry.id.toLowerCase() : null;
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { textToGloss, textToGlossClauses } from './grammar';
+
+const glosses = (text: string) => textToGloss(text).map((token) => token.gloss);
+
+describe('textToGloss', () => {
+  describe('function words', () => {
+    it('should drop articles and copulas', () => {
+      expect(glosses('The interpreter is here')).toEqual(['INTERPRETER', 'HERE']);
+    });
+
+    it('should drop infinitive "to"', () => {
+      expect(glosses('I want to learn')).toEqual(['I', 'WANT', 'LEARN']);
+    });
+
+    it('should expand contractions', () => {
+      expect(glosses("I'm happy")).toEqual(['I', 'HAPPY']);
+    });
+  });
+
+  describe('time-first placement', () => {
+    it('should move time words to the front', () => {
+      expect(glosses('I go home tomorrow')).toEqual(['TOMORROW', 'I', 'GO', 'HOME']);
+    });
+
+    it('should keep multi-word time expressions together', () => {
+      const tokens = textToGloss('We meet next week');
+
+      expect(tokens.map((token) => token.gloss)).toEqual(['NEXT', 'WEEK', 'WE', 'MEET']);
+      expect(tokens[0].role).toBe('time');
+      expect(tokens[1].role).toBe('time');
+    });
+  });
+
+  describe('topic-comment', () => {
+    it('should front a simple object as the topic', () => {
+      const tokens = textToGloss('I love the presentation');
+
+      expect(tokens.map((token) => token.gloss)).toEqual(['PRESENTATION', 'I', 'LOVE']);
+      expect(tokens[0].role).toBe('topic');
+    });
+
+    it('should place time before the topic', () => {
+      expect(glosses('Yesterday I finished my homework')).toEqual(['YESTERDAY', 'I', 'FINISHED', 'MY', 'HOMEWORK']);
+      expect(glosses('Tomorrow I will teach sign language')).toEqual([
+        'TOMORROW',
+        'SIGN',
+        'LANGUAGE',
+        'I',
+        'WILL',
+        'TEACH',
+      ]);
+    });
+
+    it('should not topicalize pronoun objects', () => {
+      expect(glosses('I love you')).toEqual(['I', 'LOVE', 'YOU']);
+    });
+  });
+
+  describe('WH-questions', () => {
+    it('should move WH words to the end', () => {
+      expect(glosses('What is your name?')).toEqual(['YOUR', 'NAME', 'WHAT']);
+      expect(glosses('Where is the bathroom?')).toEqual(['BATHROOM', 'WHERE']);
+    });
+
+    it('should drop do-support in questions', () => {
+      expect(glosses('Where do you work?')).toEqual(['YOU', 'WORK', 'WHERE']);
+    });
+
+    it('should detect WH-questions without a question mark', () => {
+      const tokens = textToGloss('how are you');
+
+      expect(tokens.map((token) => token.gloss)).toEqual(['YOU', 'HOW']);
+      expect(tokens[1].role).toBe('wh');
+    });
+
+    it('should leave WH words in statements alone', () => {
+      expect(glosses('I know where he lives.')).toEqual(['I', 'KNOW', 'WHERE', 'HE', 'LIVES']);
+    });
+  });
+
+  describe('negation', () => {
+    it('should place NOT at the end of the clause', () => {
+      const tokens = textToGloss("I don't understand");
+
+      expect(tokens.map((token) => token.gloss)).toEqual(['I', 'UNDERSTAND', 'NOT']);
+      expect(tokens[2].role).toBe('negation');
+    });
+
+    it('should mark the negated predicate but not the topic', () => {
+      const tokens = textToGloss("I don't like coffee");
+
+      expect(tokens.map((token) => token.gloss)).toEqual(['COFFEE', 'I', 'LIKE', 'NOT']);
+      expect(tokens.map((token) => !!token.negated)).toEqual([false, false, true, true]);
+    });
+
+    it('should keep NOT before a trailing WH word', () => {
+      expect(glosses("Why didn't you come yesterday?")).toEqual(['YESTERDAY', 'YOU', 'COME', 'NOT', 'WHY']);
+    });
+  });
+
+  describe('clauses', () => {
+    it('should split sentences and mark questions', () => {
+      const clauses = textToGlossClauses('Welcome everyone. Are you ready?');
+
+      expect(clauses).toHaveLength(2);
+      expect(clauses[0].isQuestion).toBe(false);
+      expect(clauses[1].isQuestion).toBe(true);
+      expect(clauses[1].tokens.map((token) => token.gloss)).toEqual(['YOU', 'READY']);
+    });
+
+    it('should classify clause types', () => {
+      const types = (text: string) => textToGlossClauses(text).map((clause) => clause.type);
+
+      expect(types('Are you ready?')).toEqual(['yes-no-question']);
+      expect(types('Can you see the screen')).toEqual(['yes-no-question']);
+      expect(types('Where is the exit?')).toEqual(['wh-question']);
+      expect(types('If it rains, we stay home.')).toEqual(['conditional', 'statement']);
+      expect(types('I like coffee')).toEqual(['statement']);
+    });
+
+    it('should drop "if" from conditional clauses', () => {
+      expect(textToGlossClauses('If you are tired, rest')[0].tokens.map((token) => token.gloss)).toEqual([
+        'YOU',
+        'TIRED',
+      ]);
+    });
+
+    it('should return nothing for empty text', () => {
+      expect(textToGloss('')).toEqual([]);
+      expect(textToGloss('  ?! ')).toEqual([]);
+    });
+  });
+});
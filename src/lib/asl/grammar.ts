@@ -0,0 +1,272 @@
+/**
+ * Rule-based English to ASL gloss ordering
+ *
+ * Word-for-word mapping in English order yields Signed English. This stage
+ * rewrites each clause into an intermediate gloss sequence that follows
+ * common ASL structure:
+ * - time expressions first
+ * - topic-comment (simple objects are fronted as the topic)
+ * - articles, copulas, "to" and do-support dropped
+ * - negation as a clause-final NOT
+ * - WH-question words at the end
+ * - conditional "if" dropped (the condition is marked on the face instead)
+ *
+ * Tokens keep their English source word so the translator can look up signs,
+ * and each clause records its type so non-manual markers can be added.
+ */
+
+import { PHRASE_JOINER } from './phrases';
+
+export type GlossRole = 'time' | 'topic' | 'wh' | 'negation';
+
+export interface GlossToken {
+  gloss: string; // Uppercase gloss label
+  word: string; // Source word used for sign lookup
+  role?: GlossRole;
+  negated?: boolean; // Part of a negated predicate
+}
+
+export type ClauseType = 'statement' | 'yes-no-question' | 'wh-question' | 'conditional';
+
+export interface GlossClause {
+  tokens: GlossToken[];
+  isQuestion: boolean;
+  type: ClauseType;
+}
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+const COPULAS = new Set(['am', 'is', 'are', 'was', 'were', 'be', 'been', 'being']);
+const DO_SUPPORT = new Set(['do', 'does', 'did']);
+const NEGATORS = new Set(['not', "n't"]);
+const WH_WORDS = new Set(['what', 'where', 'when', 'why', 'how', 'who', 'which']);
+const SUBJECT_PRONOUNS = new Set(['i', 'you', 'we', 'he', 'she', 'they', 'it']);
+const OBJECT_PRONOUNS = new Set(['me', 'you', 'us', 'him', 'her', 'them', 'it', 'this', 'that']);
+const MODALS = new Set(['can', 'will', 'would', 'should', 'could', 'must', 'may', 'might']);
+const AUXILIARIES = new Set(['have', 'has', 'had']);
+
+// Verbs whose simple noun-phrase object can be fronted as a topic
+const TOPIC_VERBS = new Set([
+  'like', 'love', 'want', 'need', 'have', 'know', 'see', 'understand', 'learn', 'teach',
+  'make', 'use', 'find', 'show', 'enjoy', 'prefer', 'watch', 'read', 'study', 'build',
+  'create', 'support', 'hate', 'remember', 'forget', 'buy', 'bring',
+]);
+
+const TIME_WORDS = new Set([
+  'today', 'tomorrow', 'yesterday', 'now', 'tonight', 'later', 'soon', 'recently',
+  'currently', 'daily', 'weekly', 'monthly', 'yearly', 'always', 'sometimes', 'often',
+]);
+const TIME_MODIFIERS = new Set(['next', 'last', 'this', 'every']);
+const TIME_UNITS = new Set([
+  'morning', 'afternoon', 'evening', 'night', 'week', 'weekend', 'month', 'year', 'day',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+]);
+
+const CONTRACTIONS: Record<string, string[]> = {
+  "don't": ['do', 'not'],
+  "doesn't": ['does', 'not'],
+  "didn't": ['did', 'not'],
+  "isn't": ['is', 'not'],
+  "aren't": ['are', 'not'],
+  "wasn't": ['was', 'not'],
+  "weren't": ['were', 'not'],
+  "can't": ['can', 'not'],
+  'cannot': ['can', 'not'],
+  "won't": ['will', 'not'],
+  "wouldn't": ['would', 'not'],
+  "shouldn't": ['should', 'not'],
+  "couldn't": ['could', 'not'],
+  "haven't": ['have', 'not'],
+  "hasn't": ['has', 'not'],
+  "i'm": ['i', 'am'],
+  "you're": ['you', 'are'],
+  "we're": ['we', 'are'],
+  "they're": ['they', 'are'],
+  "it's": ['it', 'is'],
+  "that's": ['that', 'is'],
+  "what's": ['what', 'is'],
+  "where's": ['where', 'is'],
+  "how's": ['how', 'is'],
+  "who's": ['who', 'is'],
+  "i'll": ['i', 'will'],
+  "you'll": ['you', 'will'],
+  "we'll": ['we', 'will'],
+  "i've": ['i', 'have'],
+  "we've": ['we', 'have'],
+  "let's": ['we'],
+};
+
+interface Word {
+  text: string;
+  negated: boolean;
+  afterTo?: boolean; // Followed a dropped "to" (infinitive or prepositional phrase)
+}
+
+function tokenizeClause(clause: string): string[] {
+  return clause
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^\w\s'#+-]/g, ' ') // "#" marks fingerspelled units, "+" joins idiom glosses
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .flatMap((word) => CONTRACTIONS[word] ?? [word]);
+}
+
+function splitSentences(text: string): { text: string; isQuestion: boolean }[] {
+  const sentences = text.match(/[^.!?;]+[.!?;]*/g) ?? [];
+  return sentences
+    .map((sentence) => ({ text: sentence.trim(), isQuestion: sentence.trim().endsWith('?') }))
+    .filter((sentence) => sentence.text.length > 0);
+}
+
+// A leading WH word followed by an auxiliary reads as a question even without "?"
+function isWhQuestion(words: string[], isQuestion: boolean): boolean {
+  // Idioms arrive joined ("how are you" is how+you); their words still ask the question
+  const parts = words.flatMap((word) => word.split(PHRASE_JOINER));
+  if (!parts.some((word) => WH_WORDS.has(word))) return false;
+  if (isQuestion) return true;
+  const [first, second] = parts;
+  return WH_WORDS.has(first) && (COPULAS.has(second) || DO_SUPPORT.has(second) || MODALS.has(second));
+}
+
+// An inverted auxiliary ("are you ...", "can we ...") reads as a yes/no question even without "?"
+function isYesNoQuestion(words: string[], isQuestion: boolean): boolean {
+  if (isQuestion) return true;
+  const [first, second] = words;
+  const inverted = COPULAS.has(first) || DO_SUPPORT.has(first) || MODALS.has(first) || AUXILIARIES.has(first);
+  return inverted && SUBJECT_PRONOUNS.has(second);
+}
+
+function clauseType(words: string[], isQuestion: boolean): ClauseType {
+  if (words[0] === 'if') return 'conditional';
+  if (isWhQuestion(words, isQuestion)) return 'wh-question';
+  if (isYesNoQuestion(words, isQuestion)) return 'yes-no-question';
+  return 'statement';
+}
+
+function reorderClause(rawWords: string[], isQuestion: boolean): GlossToken[] {
+  const whQuestion = isWhQuestion(rawWords, isQuestion);
+
+  // Drop function words and collect negation
+  let negatedFrom = -1;
+  let afterTo = false;
+  const words: Word[] = [];
+  rawWords.forEach((word, index) => {
+    const next = rawWords[index + 1];
+    if (word === 'to') {
+      afterTo = true;
+      return;
+    }
+    if (ARTICLES.has(word) || COPULAS.has(word)) return;
+    // Do-support ("do not", "do you ...") carries no sign
+    if (DO_SUPPORT.has(word) && (NEGATORS.has(next) || SUBJECT_PRONOUNS.has(next))) return;
+    if (NEGATORS.has(word)) {
+      if (negatedFrom < 0) negatedFrom = words.length;
+      return;
+    }
+    words.push({ text: word, negated: false, ...(afterTo ? { afterTo } : {}) });
+    afterTo = false;
+  });
+
+  if (negatedFrom >= 0) {
+    for (let i = negatedFrom; i < words.length; i++) {
+      words[i].negated = true;
+    }
+  }
+
+  // Time expressions move to the front
+  const time: Word[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i].text;
+    const next = words[i + 1]?.text;
+    if (TIME_MODIFIERS.has(word) && next && TIME_UNITS.has(next)) {
+      time.push(...words.splice(i, 2));
+      i--;
+    } else if (TIME_WORDS.has(word)) {
+      time.push(...words.splice(i, 1));
+      i--;
+    }
+  }
+
+  // WH words move to the end
+  const wh: Word[] = [];
+  if (whQuestion) {
+    for (let i = 0; i < words.length; i++) {
+      if (WH_WORDS.has(words[i].text)) {
+        wh.push(...words.splice(i, 1));
+        i--;
+      }
+    }
+  }
+
+  // Topic-comment: SUBJECT (MODAL) VERB OBJECT -> OBJECT, SUBJECT (MODAL) VERB
+  // Infinitives ("want to learn") and embedded clauses ("know where he lives") stay in place
+  let topic: Word[] = [];
+  const subject = words[0]?.text;
+  const verbIndex = MODALS.has(words[1]?.text) ? 2 : 1;
+  const verb = words[verbIndex]?.text;
+  const object = words.slice(verbIndex + 1);
+  if (
+    SUBJECT_PRONOUNS.has(subject) &&
+    TOPIC_VERBS.has(verb) &&
+    object.length > 0 &&
+    object.length <= 3 &&
+    !object[0].afterTo &&
+    !object.some(
+      (word) => WH_WORDS.has(word.text) || (SUBJECT_PRONOUNS.has(word.text) && !OBJECT_PRONOUNS.has(word.text))
+    ) &&
+    !(object.length === 1 && OBJECT_PRONOUNS.has(object[0].text))
+  ) {
+    // The topic is established before the (negated) comment
+    topic = words.splice(verbIndex + 1).map((word) => ({ ...word, negated: false }));
+  }
+
+  const toToken = (word: Word, role?: GlossRole): GlossToken => ({
+    gloss: word.text.toUpperCase(),
+    word: word.text,
+    ...(role ? { role } : {}),
+    ...(word.negated ? { negated: true } : {}),
+  });
+
+  const tokens: GlossToken[] = [
+    ...time.map((word) => toToken(word, 'time')),
+    ...topic.map((word) => toToken(word, 'topic')),
+    ...words.map((word) => toToken(word)),
+  ];
+
+  if (negatedFrom >= 0) {
+    tokens.push({ gloss: 'NOT', word: 'not', role: 'negation', negated: true });
+  }
+
+  tokens.push(...wh.map((word) => toToken(word, 'wh')));
+
+  return tokens;
+}
+
+/**
+ * Convert English text into ASL-ordered gloss clauses.
+ * Sentences split on terminal punctuation; commas separate clauses.
+ */
+export function textToGlossClauses(text: string): GlossClause[] {
+  const clauses: GlossClause[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    for (const part of sentence.text.split(',')) {
+      const words = tokenizeClause(part);
+      if (words.length === 0) continue;
+
+      const type = clauseType(words, sentence.isQuestion);
+      // "If" carries no sign: the raised brows over the clause mark the condition
+      const tokens = reorderClause(type === 'conditional' ? words.slice(1) : words, sentence.isQuestion);
+      if (tokens.length > 0) {
+        clauses.push({ tokens, isQuestion: sentence.isQuestion, type });
+      }
+    }
+  }
+
+  return clauses;
+}
+
+// Flat gloss sequence for a piece of text
+export function textToGloss(text: string): GlossToken[] {
+  return textToGlossClauses(text).flatMap((clause) => clause.tokens);
+}
@@ -1,6 +1,58 @@
 export { ASLTranslator, getASLTranslator } from './translator';
-export type { ASLTranslatorConfig } from './translator';
+export type { ASLTranslatorConfig, SignTranslator } from './translator';
+
+// Rule-based English to ASL gloss ordering
+export { textToGloss, textToGlossClauses } from './grammar';
+export type { GlossToken, GlossClause, GlossRole, ClauseType } from './grammar';
+
+// Sentence-level facial grammar (questions, negation, conditionals, topics)
+export { markClause, grammaticalMarkers, withGrammaticalMarkers } from './nonManual';
+
+// Multi-word phrase and idiom matching
+export { PhraseMatcher, IDIOMS } from './phrases';
+
+// Numbers, dates, times, money and percentages
+export { normalizeNumbers, numberToGlosses } from './numbers';
+
+// Per-event speaker names, acronyms and phrase overrides
+export { EventVocabularyMatcher, getVocabularyKeywords, createEmptyVocabulary } from './eventVocabulary';
+
+// Per-event sign variants (region, register) and signing speed
+export {
+  SIGN_SPEED_FLAG,
+  SIGN_SPEED_FACTORS,
+  selectVariant,
+  applyVariant,
+  applySignSpeed,
+  resolveVariantPreferences,
+} from './variants';
+
+// Symmetric, alternating and base-hand signs
+export { resolveTwoHandedType } from './twoHanded';
+
+// LLM-backed gloss generation (ASLTranslatorConfig.useAI)
+export { createOpenAIGlossClient, AIGlossTimeoutError } from './aiGloss';
+export type { GlossCompletionClient, GlossCompletionRequest, AIGlossToken } from './aiGloss';
+
+// Versioned sign lexicon shared by the translator, glossary and dictionary
+export {
+  Lexicon,
+  LEXICON_VERSION,
+  getLexicon,
+  createLexicon,
+  normalizeGlossId,
+  validateLexicon,
+} from './lexicon';
+export type {
+  LexiconEntry,
+  LexiconIssue,
+  LexiconIssueType,
+  LexiconValidationResult,
+  SignAnimation,
+  SignFrequency,
+  SignVariant,
+} from './lexicon';
 
 // Re-export glossary utilities
-export { getGlossaryEntries, searchGlossary, getGlossaryStats } from './glossary';
+export { getGlossaryEntries, searchGlossary, getGlossaryStats, getGlossaryCategories } from './glossary';
 export type { GlossaryEntry, GlossaryStats } from './glossary';
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { Lexicon, createLexicon, getLexicon, normalizeGlossId, validateLexicon, type LexiconEntry } from './lexicon';
+import { getGlossaryEntries, getSignByGloss } from './glossary';
+import { getSignDictionary } from '@/lib/dictionary';
+import { ASLTranslator } from './translator';
+
+const animation: LexiconEntry['animation'] = {
+  duration: 500,
+  handshape: { dominant: 'flat-hand' },
+  location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+  movement: { type: 'static', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+function entry(id: string, word: string, aliases: string[] = [], withAnimation = true): LexiconEntry {
+  return { id, word, aliases, category: 'common', ...(withAnimation ? { animation } : {}) };
+}
+
+describe('normalizeGlossId', () => {
+  it('should normalize case and separators', () => {
+    expect(normalizeGlossId('thank you')).toBe('THANK-YOU');
+    expect(normalizeGlossId('THANK_YOU')).toBe('THANK-YOU');
+    expect(normalizeGlossId(' thank-you ')).toBe('THANK-YOU');
+  });
+});
+
+describe('validateLexicon', () => {
+  it('should accept the built-in lexicon', () => {
+    const result = getLexicon().validate();
+
+    expect(result.issues).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should flag duplicate glosses', () => {
+    const result = validateLexicon([entry('THANK-YOU', 'thank you'), entry('thank_you', 'thanks')]);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ type: 'duplicate-gloss', gloss: 'THANK-YOU' })]);
+  });
+
+  it('should flag aliases that collide with other signs', () => {
+    const result = validateLexicon([entry('HELP', 'help', ['support']), entry('SUPPORT', 'support')]);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: 'alias-collision', gloss: 'HELP', conflictsWith: 'SUPPORT' }),
+    ]);
+  });
+
+  it('should flag an alias shared by two signs', () => {
+    const result = validateLexicon([entry('GOOD', 'good', ['fine']), entry('OK', 'ok', ['fine'])]);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ type: 'alias-collision', gloss: 'OK', conflictsWith: 'GOOD' }),
+    ]);
+  });
+
+  it('should flag entries missing animation parameters', () => {
+    const incomplete = { ...entry('WAVE', 'wave'), animation: { ...animation, duration: 0 } };
+    const result = validateLexicon([entry('GOODBYE', 'goodbye', [], false), incomplete]);
+
+    expect(result.issues.map((issue) => [issue.type, issue.gloss])).toEqual([
+      ['missing-animation', 'GOODBYE'],
+      ['missing-animation', 'WAVE'],
+    ]);
+  });
+});
+
+describe('Lexicon', () => {
+  it('should resolve words, aliases and glosses', () => {
+    const lexicon = createLexicon();
+
+    expect(lexicon.lookup('hello')?.id).toBe('HELLO');
+    expect(lexicon.lookup('Thanks')?.id).toBe('THANK-YOU');
+    expect(lexicon.lookup('thank-you')?.id).toBe('THANK-YOU');
+    expect(lexicon.getSign('hi')?.gloss).toBe('HELLO');
+  });
+
+  it('should not perform signs without animation', () => {
+    const lexicon = new Lexicon([entry('GOODBYE', 'goodbye', ['bye'], false)]);
+
+    expect(lexicon.lookup('bye')?.id).toBe('GOODBYE');
+    expect(lexicon.getSign('bye')).toBeUndefined();
+    expect(lexicon.hasSign('goodbye')).toBe(false);
+  });
+
+  it('should prefer a sign over another sign\'s alias', () => {
+    const lexicon = new Lexicon([entry('HELP', 'help', ['support']), entry('SUPPORT', 'support')]);
+
+    expect(lexicon.lookup('support')?.id).toBe('SUPPORT');
+  });
+
+  it('should replace an entry and restore shadowed words when removed', () => {
+    const lexicon = new Lexicon([entry('GOOD', 'good', ['great'])]);
+    lexicon.add(entry('GREAT', 'great'));
+
+    expect(lexicon.lookup('great')?.id).toBe('GREAT');
+
+    lexicon.remove('great');
+    expect(lexicon.lookup('great')?.id).toBe('GOOD');
+
+    lexicon.add(entry('good', 'good', ['fine']));
+    expect(lexicon.size).toBe(1);
+    expect(lexicon.lookup('fine')?.id).toBe('GOOD');
+    expect(lexicon.lookup('great')).toBeUndefined();
+  });
+});
+
+describe('lexicon consumers', () => {
+  it('should expose the same signs to the translator, glossary and dictionary', () => {
+    const signable = getLexicon().getSignableEntries().map((item) => item.id).sort();
+
+    expect(getGlossaryEntries().map((item) => item.gloss).sort()).toEqual(signable);
+    expect(getSignDictionary().getAllEntries().map((item) => item.gloss).sort()).toEqual(signable);
+    expect(new ASLTranslator().getGlossary().map(normalizeGlossId).sort()).toEqual(signable);
+  });
+
+  it('should agree on gloss IDs and animation', () => {
+    const glossaryEntry = getSignByGloss('thank_you');
+    const dictionaryEntry = getSignDictionary().getByGloss('THANK-YOU');
+
+    expect(glossaryEntry?.gloss).toBe('THANK-YOU');
+    expect(dictionaryEntry?.id).toBe('THANK-YOU');
+    expect(dictionaryEntry?.handshape).toEqual(glossaryEntry?.handshape);
+    expect(dictionaryEntry?.englishAliases).toContain('thanks');
+  });
+
+  it('should translate with an injected lexicon', async () => {
+    const translator = new ASLTranslator({ lexicon: new Lexicon([entry('SPONSOR', 'sponsor', ['acme'])]) });
+    const result = await translator.translate('acme');
+
+    expect(result.signs.map((sign) => sign.gloss)).toEqual(['SPONSOR']);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Sign Lexicon
+ *
+ * Single source of truth for signs: gloss IDs, the English words that map
+ * to them, avatar animation parameters and dictionary metadata. The
+ * translator, glossary and sign dictionary all read from here.
+ */
+
+import type { ASLSign, SignRegister, SignVariantPreferences } from '@/types';
+import { BUILTIN_LEXICON } from './lexiconData';
+import { applyVariant, selectVariant } from './variants';
+
+export const LEXICON_VERSION = '1.4.0';
+
+export const SIGN_CATEGORIES = [
+  'alphabet',
+  'numbers',
+  'common',
+  'greetings',
+  'pronouns',
+  'questions',
+  'time',
+  'colors',
+  'family',
+  'food',
+  'animals',
+  'emotions',
+  'actions',
+  'descriptors',
+  'locations',
+  'technology',
+  'academic',
+  'medical',
+  'legal',
+] as const;
+
+export type SignCategory = (typeof SIGN_CATEGORIES)[number];
+
+export type SignDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export type SignFrequency = 'common' | 'moderate' | 'rare';
+
+// Avatar parameters needed to perform a sign
+export type SignAnimation = Omit<ASLSign, 'gloss' | 'variant'>;
+
+// Alternative form of a sign, e.g. a regional sign or a casual register
+export interface SignVariant {
+  id: string; // Unique within the entry, e.g. "southern" or "casual-wave"
+  region?: string; // Only used for events in this region
+  register?: SignRegister;
+  animation?: Partial<SignAnimation>; // Replaces these fields of the base animation
+  motion?: string; // URL of a recorded SignMotion for this variant
+}
+
+export interface LexiconEntry {
+  id: string; // Normalized gloss ID, e.g. THANK-YOU
+  word: string; // Primary English word or phrase
+  aliases: string[]; // Other English words signed the same way
+  category: SignCategory;
+  animation?: SignAnimation;
+  motion?: string; // URL of a recorded SignMotion for this gloss
+
+  // Dictionary metadata
+  definition?: string;
+  example?: string;
+  difficulty?: SignDifficulty;
+  frequency?: SignFrequency;
+  twoHanded?: boolean; // Overrides the value derived from the handshape
+  notes?: string;
+  relatedSigns?: string[]; // Gloss IDs
+  antonyms?: string[]; // Gloss IDs
+  regionalVariants?: string[];
+  registerFormal?: boolean; // Base form belongs to formal (true) or casual (false) signing
+  contextHints?: string[];
+  variants?: SignVariant[];
+}
+
+export type LexiconIssueType = 'duplicate-gloss' | 'alias-collision' | 'missing-animation';
+
+export interface LexiconIssue {
+  type: LexiconIssueType;
+  gloss: string;
+  message: string;
+  conflictsWith?: string; // Gloss ID of the other sign
+}
+
+export interface LexiconValidationResult {
+  valid: boolean;
+  issues: LexiconIssue[];
+}
+
+/**
+ * Normalize a gloss label to its ID: uppercase, hyphen-separated.
+ * "thank you", "thank_you" and "THANK-YOU" all become THANK-YOU.
+ */
+export function normalizeGlossId(gloss: string): string {
+  return gloss
+    .trim()
+    .toUpperCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function normalizeWord(word: string): string {
+  return word.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function hasAnimation(entry: LexiconEntry): entry is LexiconEntry & { animation: SignAnimation } {
+  const animation = entry.animation;
+  return (
+    !!animation &&
+    animation.duration > 0 &&
+    !!animation.handshape?.dominant &&
+    !!animation.location &&
+    !!animation.movement?.type &&
+    Array.isArray(animation.nonManualMarkers)
+  );
+}
+
+/**
+ * Check a set of entries for duplicate glosses, aliases that collide with
+ * other signs and signs the avatar cannot perform.
+ */
+export function validateLexicon(entries: LexiconEntry[]): LexiconValidationResult {
+  const issues: LexiconIssue[] = [];
+  const seen = new Set<string>();
+  const wordOwners = new Map<string, string>();
+
+  // Primary words and gloss IDs claim their word first
+  entries.forEach((entry) => {
+    const id = normalizeGlossId(entry.id);
+    if (seen.has(id)) {
+      issues.push({ type: 'duplicate-gloss', gloss: id, message: `Gloss ${id} is defined more than once` });
+    }
+    seen.add(id);
+
+    [entry.word, id.replace(/-/g, ' ')].forEach((word) => {
+      const key = normalizeWord(word);
+      if (!wordOwners.has(key)) wordOwners.set(key, id);
+    });
+
+    if (!hasAnimation(entry)) {
+      issues.push({ type: 'missing-animation', gloss: id, message: `Gloss ${id} has no animation parameters` });
+    }
+  });
+
+  const aliasOwners = new Map<string, string>();
+  entries.forEach((entry) => {
+    const id = normalizeGlossId(entry.id);
+    entry.aliases.forEach((alias) => {
+      const key = normalizeWord(alias);
+      const owner = wordOwners.get(key) ?? aliasOwners.get(key);
+      if (owner && owner !== id) {
+        issues.push({
+          type: 'alias-collision',
+          gloss: id,
+          conflictsWith: owner,
+          message: `Alias "${key}" of ${id} collides with ${owner}`,
+        });
+      } else {
+        aliasOwners.set(key, id);
+      }
+    });
+  });
+
+  return { valid: issues.length === 0, issues };
+}
+
+export class Lexicon {
+  readonly version: string;
+  private entries: Map<string, LexiconEntry> = new Map();
+  private wordIndex: Map<string, string> = new Map();
+
+  constructor(entries: LexiconEntry[] = [], version: string = LEXICON_VERSION) {
+    this.version = version;
+    entries.forEach((entry) => this.add(entry));
+  }
+
+  // Add or replace a sign; replacing a gloss re-points its words
+  add(entry: LexiconEntry): void {
+    const id = normalizeGlossId(entry.id);
+    if (this.entries.has(id)) {
+      this.remove(id);
+    }
+
+    const normalized: LexiconEntry = {
+      ...entry,
+      id,
+      word: normalizeWord(entry.word),
+      aliases: entry.aliases.map(normalizeWord),
+      ...(entry.relatedSigns ? { relatedSigns: entry.relatedSigns.map(normalizeGlossId) } : {}),
+      ...(entry.antonyms ? { antonyms: entry.antonyms.map(normalizeGlossId) } : {}),
+    };
+    this.entries.set(id, normalized);
+
+    // A sign's own word wins over another sign's alias
+    this.wordIndex.set(normalized.word, id);
+    normalized.aliases.forEach((alias) => {
+      if (!this.wordIndex.has(alias)) {
+        this.wordIndex.set(alias, id);
+      }
+    });
+  }
+
+  remove(gloss: string): boolean {
+    const id = normalizeGlossId(gloss);
+    if (!this.entries.delete(id)) return false;
+
+    this.wordIndex.forEach((owner, word) => {
+      if (owner === id) this.wordIndex.delete(word);
+    });
+    // Restore words the removed sign was shadowing
+    this.entries.forEach((entry) => {
+      [entry.word, ...entry.aliases].forEach((word) => {
+        if (!this.wordIndex.has(word)) this.wordIndex.set(word, entry.id);
+      });
+    });
+    return true;
+  }
+
+  get(gloss: string): LexiconEntry | undefined {
+    return this.entries.get(normalizeGlossId(gloss));
+  }
+
+  // Resolve an English word (or a gloss typed as a word, e.g. "thank-you")
+  lookup(word: string): LexiconEntry | undefined {
+    const id = this.wordIndex.get(normalizeWord(word));
+    return id ? this.entries.get(id) : this.get(word);
+  }
+
+  // Sign ready for the avatar, or undefined when the word has no performable sign.
+  // With preferences, the best-fitting variant is performed instead of the base form.
+  getSign(word: string, preferences?: SignVariantPreferences): ASLSign | undefined {
+    const entry = this.lookup(word);
+    if (!entry || !hasAnimation(entry)) return undefined;
+
+    const sign: ASLSign = { gloss: entry.id, ...entry.animation };
+    const variant = preferences ? selectVariant(entry, preferences) : null;
+    return variant ? applyVariant(sign, variant) : sign;
+  }
+
+  hasSign(word: string): boolean {
+    return this.getSign(word) !== undefined;
+  }
+
+  getEntries(): LexiconEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  // Entries the avatar can perform
+  getSignableEntries(): (LexiconEntry & { animation: SignAnimation })[] {
+    return this.getEntries().filter(hasAnimation);
+  }
+
+  getCategories(): SignCategory[] {
+    return Array.from(new Set(this.getEntries().map((entry) => entry.category)));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Longest word or alias in words, for multi-word phrase matching
+  get maxPhraseWords(): number {
+    let max = 0;
+    this.wordIndex.forEach((_, word) => {
+      max = Math.max(max, word.split(' ').length);
+    });
+    return max;
+  }
+
+  validate(): LexiconValidationResult {
+    return validateLexicon(this.getEntries());
+  }
+}
+
+// Singleton instance
+let lexiconInstance: Lexicon | null = null;
+
+export function getLexicon(): Lexicon {
+  if (!lexiconInstance) {
+    lexiconInstance = new Lexicon(BUILTIN_LEXICON);
+  }
+  return lexiconInstance;
+}
+
+export function createLexicon(entries: LexiconEntry[] = BUILTIN_LEXICON): Lexicon {
+  return new Lexicon(entries);
+}
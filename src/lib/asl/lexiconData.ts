@@ -0,0 +1,2012 @@
+/**
+ * Built-in sign lexicon
+ *
+ * Every sign the translator, glossary and dictionary know about. Bump
+ * LEXICON_VERSION in lexicon.ts when entries change.
+ */
+
+import type { LexiconEntry } from './lexicon';
+
+export const BUILTIN_LEXICON: LexiconEntry[] = [
+  // Greetings
+  {
+    id: 'HELLO',
+    word: 'hello',
+    aliases: ['hi', 'hey', 'greetings'],
+    category: 'greetings',
+    definition: 'A greeting used to acknowledge someone.',
+    example: 'HELLO MY NAME WHAT?',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Wave outward from forehead',
+    relatedSigns: ['GOODBYE', 'WELCOME'],
+    animation: {
+      duration: 800,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0.3, y: 0.8, z: 0.2, reference: 'head' },
+      movement: { type: 'arc', direction: { x: 0.3, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.6 }],
+    },
+    variants: [
+      {
+        id: 'casual-wave',
+        register: 'casual',
+        animation: {
+          duration: 600,
+          location: { x: 0.3, y: 0.6, z: 0.2, reference: 'chest' },
+          movement: { type: 'zigzag', direction: { x: 0.1, y: 0, z: 0 }, repetitions: 2, speed: 'normal' },
+        },
+      },
+    ],
+  },
+  {
+    id: 'GOODBYE',
+    word: 'goodbye',
+    aliases: ['bye', 'see you', 'farewell'],
+    category: 'greetings',
+    definition: 'A farewell expression.',
+    example: 'GOODBYE SEE YOU TOMORROW',
+    difficulty: 'beginner',
+    frequency: 'common',
+    relatedSigns: ['HELLO', 'LATER'],
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0, y: 0.5, z: 0.5, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.3, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'THANK-YOU',
+    word: 'thank you',
+    aliases: ['thanks', 'grateful', 'ty', 'thankyou'],
+    category: 'greetings',
+    definition: 'Expression of gratitude.',
+    example: 'THANK-YOU FOR HELP',
+    difficulty: 'beginner',
+    frequency: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0.3 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.5 }],
+    },
+    variants: [
+      {
+        id: 'two-handed',
+        register: 'formal',
+        animation: {
+          duration: 800,
+          handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+        },
+      },
+    ],
+  },
+  {
+    id: 'WELCOME',
+    word: 'welcome',
+    aliases: [],
+    category: 'greetings',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'chest' },
+      movement: { type: 'arc', direction: { x: -0.3, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.4 }],
+    },
+  },
+
+  // Pronouns
+  {
+    id: 'I',
+    word: 'i',
+    aliases: ['me', 'myself', 'my', 'mine'],
+    category: 'pronouns',
+    definition: 'First person singular pronoun.',
+    example: 'I WANT COFFEE',
+    difficulty: 'beginner',
+    frequency: 'common',
+    relatedSigns: ['YOU', 'WE', 'THEY'],
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'i-hand' },
+      location: { x: 0, y: 0.5, z: 0.2, reference: 'chest' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'YOU',
+    word: 'you',
+    aliases: ['yourself', 'your', 'yours'],
+    category: 'pronouns',
+    definition: 'Second person pronoun.',
+    example: 'YOU UNDERSTAND?',
+    difficulty: 'beginner',
+    frequency: 'common',
+    relatedSigns: ['I', 'WE', 'THEY'],
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.5, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WE',
+    word: 'we',
+    aliases: ['us', 'our', 'ours', 'ourselves'],
+    category: 'pronouns',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: -0.1, y: 0.5, z: 0.2, reference: 'chest' },
+      movement: { type: 'arc', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Questions
+  {
+    id: 'WHAT',
+    word: 'what',
+    aliases: [],
+    category: 'questions',
+    definition: 'Question word asking for information.',
+    example: 'WHAT YOUR NAME?',
+    difficulty: 'beginner',
+    frequency: 'common',
+    twoHanded: true,
+    notes: 'Palms up, shake hands slightly side to side',
+    relatedSigns: ['WHO', 'WHERE', 'WHEN', 'WHY', 'HOW'],
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0.2, y: 0, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'WHERE',
+    word: 'where',
+    aliases: [],
+    category: 'questions',
+    definition: 'Question word asking for location.',
+    example: 'WHERE BATHROOM?',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Index finger wags side to side',
+    relatedSigns: ['WHAT', 'WHO', 'WHEN', 'WHY', 'HOW'],
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0.15, y: 0, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'WHEN',
+    word: 'when',
+    aliases: [],
+    category: 'questions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'point', twoHanded: 'base' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'WHY',
+    word: 'why',
+    aliases: [],
+    category: 'questions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0.1, y: 0.8, z: 0.1, reference: 'head' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'HOW',
+    word: 'how',
+    aliases: [],
+    category: 'questions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand' },
+      location: { x: 0, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0.2, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.5 }],
+    },
+  },
+
+  // Common words
+  {
+    id: 'YES',
+    word: 'yes',
+    aliases: ['yeah', 'correct', 'ok', 'okay', 'yep', 'sure'],
+    category: 'common',
+    definition: 'Affirmative response.',
+    example: 'YES I UNDERSTAND',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'S-hand nods like a nodding head',
+    relatedSigns: ['NO', 'MAYBE'],
+    animation: {
+      duration: 500,
+      handshape: { dominant: 's-hand' },
+      location: { x: 0.2, y: 0.6, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, repetitions: 2, speed: 'fast' },
+      nonManualMarkers: [{ type: 'head', expression: 'nod', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'NO',
+    word: 'no',
+    aliases: ['not', 'nope', 'nah'],
+    category: 'common',
+    definition: 'Negative response.',
+    example: 'NO THANK-YOU',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Index and middle finger snap together with thumb',
+    relatedSigns: ['YES', 'MAYBE', 'NOT'],
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'u-hand' },
+      location: { x: 0.2, y: 0.6, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'fast' },
+      nonManualMarkers: [{ type: 'head', expression: 'shake', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'PLEASE',
+    word: 'please',
+    aliases: [],
+    category: 'common',
+    definition: 'Polite request modifier.',
+    example: 'HELP PLEASE',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Flat hand circles on chest',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.1, reference: 'chest' },
+      movement: { type: 'circular', direction: { x: 0, y: 0.1, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'polite', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'NAME',
+    word: 'name',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'h-hand', nonDominant: 'h-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.3 }],
+    },
+  },
+  {
+    id: 'EVENT',
+    word: 'event',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'e-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MEETING',
+    word: 'meeting',
+    aliases: ['conference', 'gathering', 'session'],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PRESENTATION',
+    word: 'presentation',
+    aliases: ['speech'],
+    category: 'common',
+    animation: {
+      duration: 800,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.5, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'QUESTION',
+    word: 'question',
+    aliases: ['inquiry', 'query'],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'x-hand' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'ANSWER',
+    word: 'answer',
+    aliases: ['response', 'reply'],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'point' },
+      location: { x: 0, y: 0.6, z: 0.2, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SIGN',
+    word: 'sign',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'point', twoHanded: 'alternating' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.1, y: 0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LANGUAGE',
+    word: 'language',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'l-hand', nonDominant: 'l-hand' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.3, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SIGN-LANGUAGE',
+    word: 'sign language',
+    aliases: ['asl', 'american sign language'],
+    category: 'common',
+    animation: {
+      duration: 900,
+      handshape: { dominant: 'l-hand', nonDominant: 'l-hand', twoHanded: 'alternating' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.3, y: 0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'INTERPRETER',
+    word: 'interpreter',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 800,
+      handshape: { dominant: 'f-hand', nonDominant: 'f-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PERSON',
+    word: 'person',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'p-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PEOPLE',
+    word: 'people',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'p-hand' },
+      location: { x: -0.1, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MAN',
+    word: 'man',
+    aliases: ['guy', 'male'],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0, y: 0.8, z: 0.1, reference: 'head' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WOMAN',
+    word: 'woman',
+    aliases: ['lady', 'female'],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0, y: 0.75, z: 0.1, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FRIEND',
+    word: 'friend',
+    aliases: ['buddy', 'pal'],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'x-hand', nonDominant: 'x-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.1, y: 0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'DOOR',
+    word: 'door',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'b-hand', nonDominant: 'b-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.15, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TABLE',
+    word: 'table',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.35, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'CHAIR',
+    word: 'chair',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'u-hand', nonDominant: 'u-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'BOOK',
+    word: 'book',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PAPER',
+    word: 'paper',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.15, y: 0, z: 0 }, repetitions: 2, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'DEAF',
+    word: 'deaf',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point' },
+      location: { x: 0.1, y: 0.75, z: 0.1, reference: 'head' },
+      movement: { type: 'arc', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HEARING',
+    word: 'hearing',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'circular', direction: { x: 0.05, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'ACCESS',
+    word: 'access',
+    aliases: ['accessibility'],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'a-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'AVAILABLE',
+    word: 'available',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'a-hand', nonDominant: 'a-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PROGRAM',
+    word: 'program',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'p-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SERVICE',
+    word: 'service',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: -0.1, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SUPPORT',
+    word: 'support',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 's-hand', nonDominant: 's-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LIVE',
+    word: 'live',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'l-hand', nonDominant: 'l-hand' },
+      location: { x: 0, y: 0.45, z: 0.15, reference: 'chest' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'REAL',
+    word: 'real',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WORLD',
+    word: 'world',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'w-hand', nonDominant: 'w-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.45, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.1, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'EVERYONE',
+    word: 'everyone',
+    aliases: ['everybody', 'all'],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'a-hand' },
+      location: { x: -0.1, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'EVERYTHING',
+    word: 'everything',
+    aliases: [],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'a-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.15, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'INFORMATION',
+    word: 'information',
+    aliases: ['info', 'data'],
+    category: 'common',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'flat-o', nonDominant: 'flat-o' },
+      location: { x: 0, y: 0.8, z: 0.1, reference: 'head' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Numbers
+  {
+    id: 'ONE',
+    word: 'one',
+    aliases: [],
+    category: 'numbers',
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'point' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TWO',
+    word: 'two',
+    aliases: [],
+    category: 'numbers',
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'v-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'THREE',
+    word: 'three',
+    aliases: [],
+    category: 'numbers',
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'three-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FOUR',
+    word: 'four',
+    aliases: [],
+    category: 'numbers',
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'four-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FIVE',
+    word: 'five',
+    aliases: [],
+    category: 'numbers',
+    animation: {
+      duration: 400,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HUNDRED',
+    word: 'hundred',
+    aliases: ['hundreds'],
+    category: 'numbers',
+    animation: {
+      duration: 450,
+      handshape: { dominant: 'c-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'THOUSAND',
+    word: 'thousand',
+    aliases: ['thousands'],
+    category: 'numbers',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.05, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MILLION',
+    word: 'million',
+    aliases: ['millions'],
+    category: 'numbers',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.05, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'BILLION',
+    word: 'billion',
+    aliases: ['billions'],
+    category: 'numbers',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.05, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'DECIMAL',
+    word: 'decimal',
+    aliases: ['decimal point'],
+    category: 'numbers',
+    definition: 'Point separating whole numbers from fractions.',
+    animation: {
+      duration: 350,
+      handshape: { dominant: 'x-hand' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.05 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PERCENT',
+    word: 'percent',
+    aliases: ['percentage', 'per cent'],
+    category: 'numbers',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-o' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0.05, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'DOLLAR',
+    word: 'dollar',
+    aliases: ['dollars', 'bucks'],
+    category: 'numbers',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'CENT',
+    word: 'cent',
+    aliases: ['cents'],
+    category: 'numbers',
+    animation: {
+      duration: 450,
+      handshape: { dominant: 'point' },
+      location: { x: 0.1, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Time
+  {
+    id: 'TODAY',
+    word: 'today',
+    aliases: ['daily'],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'y-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'NOW',
+    word: 'now',
+    aliases: ['current', 'currently', 'presently'],
+    category: 'time',
+    definition: 'Present time.',
+    example: 'NOW WE START',
+    difficulty: 'beginner',
+    frequency: 'common',
+    relatedSigns: ['LATER', 'BEFORE', 'AFTER'],
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TIME',
+    word: 'time',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point', nonDominant: 'fist' },
+      location: { x: -0.15, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TOMORROW',
+    word: 'tomorrow',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'a-hand' },
+      location: { x: 0.1, y: 0.75, z: 0.1, reference: 'face' },
+      movement: { type: 'arc', direction: { x: 0.15, y: 0, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'YESTERDAY',
+    word: 'yesterday',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'y-hand' },
+      location: { x: 0.1, y: 0.75, z: 0.1, reference: 'face' },
+      movement: { type: 'arc', direction: { x: -0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WEEK',
+    word: 'week',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MONTH',
+    word: 'month',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'point', twoHanded: 'base' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'YEAR',
+    word: 'year',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 's-hand', nonDominant: 's-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'BEFORE',
+    word: 'before',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'AFTER',
+    word: 'after',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.25, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LATER',
+    word: 'later',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'l-hand' },
+      location: { x: 0.2, y: 0.4, z: 0.25, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: -0.05, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MORNING',
+    word: 'morning',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: -0.2, y: 0.3, z: 0.2, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.2, y: 0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'AFTERNOON',
+    word: 'afternoon',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.15, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'EVENING',
+    word: 'evening',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0.2, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'NIGHT',
+    word: 'night',
+    aliases: [],
+    category: 'time',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Actions
+  {
+    id: 'HELP',
+    word: 'help',
+    aliases: ['assist', 'aid', 'assistance'],
+    category: 'actions',
+    definition: 'To give assistance.',
+    example: 'I HELP YOU',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'A-hand on flat palm, lift up together',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'a-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'UNDERSTAND',
+    word: 'understand',
+    aliases: ['comprehend', 'get it', 'realize'],
+    category: 'actions',
+    definition: 'To comprehend or grasp.',
+    example: 'I UNDERSTAND NOW',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Finger flicks up near forehead',
+    relatedSigns: ['KNOW', 'LEARN', 'THINK'],
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point' },
+      location: { x: 0.15, y: 0.85, z: 0.1, reference: 'head' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.1, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'realization', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'KNOW',
+    word: 'know',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0.1, y: 0.85, z: 0.1, reference: 'head' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'THINK',
+    word: 'think',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point' },
+      location: { x: 0.1, y: 0.85, z: 0.1, reference: 'head' },
+      movement: { type: 'circular', direction: { x: 0.05, y: 0, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'thoughtful', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'WANT',
+    word: 'want',
+    aliases: ['desire', 'wish'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'claw-hand', nonDominant: 'claw-hand' },
+      location: { x: 0, y: 0.4, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'NEED',
+    word: 'need',
+    aliases: ['require', 'must'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'x-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LIKE',
+    word: 'like',
+    aliases: ['enjoy', 'prefer'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'open-hand' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'pleasant', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'LOVE',
+    word: 'love',
+    aliases: ['adore'],
+    category: 'actions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'fist', nonDominant: 'fist' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'affection', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'WORK',
+    word: 'work',
+    aliases: ['job', 'employment'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 's-hand', nonDominant: 's-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.35, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LEARN',
+    word: 'learn',
+    aliases: ['study'],
+    category: 'actions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'claw-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.3, z: -0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TEACH',
+    word: 'teach',
+    aliases: ['educate', 'instruct'],
+    category: 'actions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'flat-o', nonDominant: 'flat-o' },
+      location: { x: 0, y: 0.6, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'START',
+    word: 'start',
+    aliases: ['begin', 'commence'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FINISH',
+    word: 'finish',
+    aliases: ['end', 'done', 'complete', 'completed', 'over'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.3, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WAIT',
+    word: 'wait',
+    aliases: ['hold', 'pause'],
+    category: 'actions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.35, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0.05, y: 0.05, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'patient', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'GO',
+    word: 'go',
+    aliases: ['leave', 'depart'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0, z: 0.3 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'COME',
+    word: 'come',
+    aliases: ['arrive', 'approach'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.4, z: 0.5, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0, z: -0.3 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SEE',
+    word: 'see',
+    aliases: ['watch'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'v-hand' },
+      location: { x: 0, y: 0.75, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'LOOK',
+    word: 'look',
+    aliases: ['observe'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'v-hand' },
+      location: { x: 0, y: 0.75, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.25 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HEAR',
+    word: 'hear',
+    aliases: ['listen'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0.15, y: 0.75, z: 0.1, reference: 'head' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SAY',
+    word: 'say',
+    aliases: ['speak', 'talk'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.15 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TELL',
+    word: 'tell',
+    aliases: ['inform'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'ASK',
+    word: 'ask',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'x-hand' },
+      location: { x: 0, y: 0.5, z: 0.4, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: -0.1, z: 0.1 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'question', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'GIVE',
+    word: 'give',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-o', nonDominant: 'flat-o' },
+      location: { x: 0, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.3 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TAKE',
+    word: 'take',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'claw-hand' },
+      location: { x: 0, y: 0.4, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.2 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'MAKE',
+    word: 'make',
+    aliases: ['create', 'build'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 's-hand', nonDominant: 's-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'GET',
+    word: 'get',
+    aliases: ['receive', 'obtain'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'claw-hand', nonDominant: 'claw-hand' },
+      location: { x: 0, y: 0.4, z: 0.4, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.15 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HAVE',
+    word: 'have',
+    aliases: ['own', 'possess'],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'bent-hand' },
+      location: { x: 0, y: 0.45, z: 0.15, reference: 'chest' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'DO',
+    word: 'do',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'c-hand', nonDominant: 'c-hand' },
+      location: { x: 0, y: 0.35, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.1, y: 0, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'CAN',
+    word: 'can',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 's-hand', nonDominant: 's-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WILL',
+    word: 'will',
+    aliases: [],
+    category: 'actions',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0.1, y: 0.7, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TRY',
+    word: 'try',
+    aliases: ['attempt'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 't-hand', nonDominant: 't-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'effort', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'USE',
+    word: 'use',
+    aliases: ['utilize'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'u-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FIND',
+    word: 'find',
+    aliases: ['discover', 'locate'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'f-hand' },
+      location: { x: 0, y: 0.35, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SHOW',
+    word: 'show',
+    aliases: ['display', 'demonstrate'],
+    category: 'actions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Feelings and states
+  {
+    id: 'HAPPY',
+    word: 'happy',
+    aliases: ['joyful', 'glad'],
+    category: 'emotions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'circular', direction: { x: 0, y: 0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.8 }],
+    },
+  },
+  {
+    id: 'SAD',
+    word: 'sad',
+    aliases: ['unhappy', 'depressed'],
+    category: 'emotions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.7, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'sad', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'ANGRY',
+    word: 'angry',
+    aliases: ['mad', 'upset'],
+    category: 'emotions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'claw-hand' },
+      location: { x: 0, y: 0.7, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.1 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'angry', intensity: 0.7 }],
+    },
+  },
+  {
+    id: 'TIRED',
+    word: 'tired',
+    aliases: ['exhausted', 'sleepy'],
+    category: 'emotions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'tired', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'HUNGRY',
+    word: 'hungry',
+    aliases: [],
+    category: 'emotions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'c-hand' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SICK',
+    word: 'sick',
+    aliases: ['ill', 'unwell'],
+    category: 'emotions',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.8, z: 0.1, reference: 'head' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'uncomfortable', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'EXCITED',
+    word: 'excited',
+    aliases: ['thrilled', 'eager'],
+    category: 'emotions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand', twoHanded: 'alternating' },
+      location: { x: 0, y: 0.45, z: 0.15, reference: 'chest' },
+      movement: { type: 'circular', direction: { x: 0, y: 0.1, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'excited', intensity: 0.8 }],
+    },
+  },
+  {
+    id: 'NERVOUS',
+    word: 'nervous',
+    aliases: ['anxious', 'worried'],
+    category: 'emotions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'zigzag', direction: { x: 0.05, y: 0, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [{ type: 'facial', expression: 'nervous', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'SORRY',
+    word: 'sorry',
+    aliases: ['apologize'],
+    category: 'emotions',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'a-hand' },
+      location: { x: 0, y: 0.45, z: 0.1, reference: 'chest' },
+      movement: { type: 'circular', direction: { x: 0, y: 0.1, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [{ type: 'facial', expression: 'apologetic', intensity: 0.6 }],
+    },
+  },
+
+  // Descriptors
+  {
+    id: 'GOOD',
+    word: 'good',
+    aliases: ['great', 'fine', 'well', 'nice', 'excellent', 'wonderful', 'awesome', 'perfect'],
+    category: 'descriptors',
+    definition: 'Positive quality.',
+    example: 'YOU GOOD?',
+    difficulty: 'beginner',
+    frequency: 'common',
+    twoHanded: true,
+    notes: 'Dominant hand moves from chin to rest on non-dominant palm',
+    relatedSigns: ['BAD', 'BETTER', 'BEST'],
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'smile', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'BAD',
+    word: 'bad',
+    aliases: ['terrible', 'awful', 'horrible', 'poor'],
+    category: 'descriptors',
+    definition: 'Negative quality.',
+    example: 'WEATHER BAD TODAY',
+    difficulty: 'beginner',
+    frequency: 'common',
+    notes: 'Flat hand from chin moves down with palm turning down',
+    relatedSigns: ['GOOD', 'WORSE', 'WORST'],
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0.2 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'frown', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'IMPORTANT',
+    word: 'important',
+    aliases: ['crucial', 'vital', 'essential', 'significant'],
+    category: 'descriptors',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'f-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.2, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'serious', intensity: 0.6 }],
+    },
+  },
+  {
+    id: 'BIG',
+    word: 'big',
+    aliases: ['large', 'huge', 'giant'],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'l-hand', nonDominant: 'l-hand' },
+      location: { x: 0, y: 0.45, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.3, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SMALL',
+    word: 'small',
+    aliases: ['little', 'tiny'],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.45, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.1 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'NEW',
+    word: 'new',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.15, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'OLD',
+    word: 'old',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'c-hand' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.15, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'EASY',
+    word: 'easy',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: 0.1, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HARD',
+    word: 'hard',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [{ type: 'facial', expression: 'effort', intensity: 0.5 }],
+    },
+  },
+  {
+    id: 'FAST',
+    word: 'fast',
+    aliases: ['quick', 'rapid', 'speedy'],
+    category: 'descriptors',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'l-hand', nonDominant: 'l-hand' },
+      location: { x: 0, y: 0.45, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'fast' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SLOW',
+    word: 'slow',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 800,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.35, z: 0.25, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.15, y: 0.1, z: 0 }, speed: 'slow' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'RIGHT',
+    word: 'right',
+    aliases: ['accurate'],
+    category: 'descriptors',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'r-hand' },
+      location: { x: 0.15, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'WRONG',
+    word: 'wrong',
+    aliases: ['incorrect', 'mistaken'],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'y-hand' },
+      location: { x: 0, y: 0.65, z: 0.15, reference: 'face' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [{ type: 'head', expression: 'shake', intensity: 0.4 }],
+    },
+  },
+  {
+    id: 'SAME',
+    word: 'same',
+    aliases: ['similar', 'identical'],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'y-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'DIFFERENT',
+    word: 'different',
+    aliases: [],
+    category: 'descriptors',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'point', nonDominant: 'point' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.25, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Family
+  {
+    id: 'CHILD',
+    word: 'child',
+    aliases: ['kid', 'children'],
+    category: 'family',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'flat-hand' },
+      location: { x: 0.2, y: 0.3, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'FAMILY',
+    word: 'family',
+    aliases: [],
+    category: 'family',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'f-hand', nonDominant: 'f-hand' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.15, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Places
+  {
+    id: 'HERE',
+    word: 'here',
+    aliases: [],
+    category: 'locations',
+    animation: {
+      duration: 500,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.3, z: 0.3, reference: 'neutral' },
+      movement: { type: 'circular', direction: { x: 0.1, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'HOME',
+    word: 'home',
+    aliases: ['house', 'residence'],
+    category: 'locations',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-o' },
+      location: { x: 0, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'arc', direction: { x: 0.1, y: -0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'SCHOOL',
+    word: 'school',
+    aliases: [],
+    category: 'locations',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand', twoHanded: 'base' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0, y: -0.1, z: 0 }, repetitions: 2, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'OFFICE',
+    word: 'office',
+    aliases: ['workplace'],
+    category: 'locations',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'o-hand', nonDominant: 'o-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.2, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'ROOM',
+    word: 'room',
+    aliases: [],
+    category: 'locations',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
+      location: { x: -0.15, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.3, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+
+  // Technology
+  {
+    id: 'COMPUTER',
+    word: 'computer',
+    aliases: [],
+    category: 'technology',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'c-hand' },
+      location: { x: -0.15, y: 0.4, z: 0.2, reference: 'neutral' },
+      movement: { type: 'arc', direction: { x: 0.3, y: 0.1, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'PHONE',
+    word: 'phone',
+    aliases: [],
+    category: 'technology',
+    animation: {
+      duration: 600,
+      handshape: { dominant: 'y-hand' },
+      location: { x: 0.1, y: 0.7, z: 0.1, reference: 'face' },
+      movement: { type: 'static', speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+  {
+    id: 'TECHNOLOGY',
+    word: 'technology',
+    aliases: ['tech'],
+    category: 'technology',
+    animation: {
+      duration: 700,
+      handshape: { dominant: 'bent-hand', nonDominant: 'flat-hand' },
+      location: { x: 0, y: 0.4, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', direction: { x: 0.15, y: 0, z: 0 }, speed: 'normal' },
+      nonManualMarkers: [],
+    },
+  },
+];
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { ASLSign, GrammaticalMarker } from '@/types';
+import { expressionFromMarkers } from '@/lib/animation';
+import { applyNonManualMarkers, type AvatarPose } from '@/lib/motion/playback';
+import { textToGlossClauses } from './grammar';
+import { markClause } from './nonManual';
+import { ASLTranslator } from './translator';
+
+// Grammatical markers on each sign, keyed by gloss
+async function markers(text: string, translator = new ASLTranslator()): Promise<[string, GrammaticalMarker[]][]> {
+  const { signs } = await translator.translate(text);
+  return signs.map((sign) => [
+    sign.gloss,
+    Array.from(new Set(sign.nonManualMarkers.flatMap((marker) => (marker.grammar ? [marker.grammar] : [])))),
+  ]);
+}
+
+describe('markClause', () => {
+  it('should copy signs instead of changing shared lexicon entries', () => {
+    const sign: ASLSign = {
+      gloss: 'READY',
+      duration: 500,
+      handshape: { dominant: 'r-hand' },
+      location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+      movement: { type: 'linear', speed: 'normal' },
+      nonManualMarkers: [],
+    };
+    const [clause] = textToGlossClauses('Ready?');
+
+    const [marked] = markClause(clause, [[sign]]);
+
+    expect(marked.nonManualMarkers.map((marker) => marker.expression)).toEqual(['raised-eyebrows', 'tilt-forward']);
+    expect(sign.nonManualMarkers).toEqual([]);
+  });
+});
+
+describe('ASLTranslator non-manual markers', () => {
+  it('should raise the brows across a yes/no question', async () => {
+    expect(await markers('Are you happy?')).toEqual([
+      ['YOU', ['yes-no-question']],
+      ['HAPPY', ['yes-no-question']],
+    ]);
+  });
+
+  it('should furrow the brows across a WH-question', async () => {
+    const result = await markers('Where is the bathroom?');
+
+    expect(result.every(([, grammar]) => grammar.includes('wh-question'))).toBe(true);
+  });
+
+  it('should furrow the brows across a WH-question idiom', async () => {
+    expect(await markers('How are you?')).toEqual([
+      ['HOW', ['wh-question']],
+      ['YOU', ['wh-question']],
+    ]);
+  });
+
+  it('should shake the head over the negated predicate only', async () => {
+    expect(await markers("I don't understand")).toEqual([
+      ['I', []],
+      ['UNDERSTAND', ['negation']],
+      ['NO', ['negation']],
+    ]);
+  });
+
+  it('should mark the topic and the conditional clause but not the statement after it', async () => {
+    expect((await markers('I love school'))[0]).toEqual(['SCHOOL', ['topic']]);
+
+    expect(await markers('If you are tired, wait')).toEqual([
+      ['YOU', ['conditional']],
+      ['TIRED', ['conditional']],
+      ['WAIT', []],
+    ]);
+  });
+
+  it('should leave statements and glossary-only translations unmarked', async () => {
+    expect(await markers('Welcome everyone')).toEqual([
+      ['WELCOME', []],
+      ['EVERYONE', []],
+    ]);
+    expect(await markers('Can you help?', new ASLTranslator({ glossaryOnly: true }))).toEqual([
+      ['CAN', []],
+      ['YOU', []],
+      ['HELP', []],
+    ]);
+  });
+
+  it('should mark AI gloss output when the utterance is a question', async () => {
+    const translator = new ASLTranslator({
+      useAI: true,
+      aiClient: { complete: async () => JSON.stringify({ tokens: [{ gloss: 'YOU' }, { gloss: 'HAPPY' }] }) },
+    });
+
+    expect(await markers('Are you happy?', translator)).toEqual([
+      ['YOU', ['yes-no-question']],
+      ['HAPPY', ['yes-no-question']],
+    ]);
+  });
+});
+
+describe('rendering grammatical markers', () => {
+  const [question] = textToGlossClauses('Ready?');
+  const sign: ASLSign = {
+    gloss: 'READY',
+    duration: 500,
+    handshape: { dominant: 'r-hand' },
+    location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+    movement: { type: 'static', speed: 'normal' },
+    nonManualMarkers: [],
+  };
+
+  it('should map markers to the avatar expression state', () => {
+    const [marked] = markClause(question, [[sign]]);
+    const expression = expressionFromMarkers(marked.nonManualMarkers);
+
+    expect(expression.eyebrows).toBeGreaterThan(0);
+    expect(expression.headTilt.x).toBeGreaterThan(0);
+    expect(expressionFromMarkers([{ type: 'head', expression: 'shake', intensity: 0.7 }]).headShake).toBe(0.7);
+  });
+
+  it('should map markers to ARKit blendshapes on motion playback poses', () => {
+    const rest = { x: 0, y: 0, z: 0 };
+    const fingers = { thumb: [0, 0, 0], index: [0, 0, 0], middle: [0, 0, 0], ring: [0, 0, 0], pinky: [0, 0, 0] };
+    const pose = {
+      rightArm: rest, rightForeArm: rest, rightHand: rest,
+      leftArm: rest, leftForeArm: rest, leftHand: rest,
+      rightFingers: fingers, leftFingers: fingers,
+      faceBlendshapes: { jawOpen: 0.2 },
+      headRotation: rest,
+    } as AvatarPose;
+
+    const [marked] = markClause(question, [[sign]]);
+    const result = applyNonManualMarkers(pose, marked.nonManualMarkers, 0.5);
+
+    expect(result.faceBlendshapes.browInnerUp).toBeGreaterThan(0);
+    expect(result.faceBlendshapes.browDownLeft).toBe(0);
+    expect(result.faceBlendshapes.jawOpen).toBe(0.2);
+    expect(result.headRotation.x).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Grammatical non-manual markers
+ *
+ * In ASL the face and head carry sentence grammar: a yes/no question is
+ * signed with raised brows, a WH-question with furrowed brows, negation
+ * with a headshake over the negated predicate, and conditionals and topics
+ * with raised brows over the condition or topic. Lexicon entries only carry
+ * the markers of the sign itself, so the translator adds these across the
+ * span of signs each clause covers.
+ */
+
+import type { ASLSign, GrammaticalMarker, NonManualMarker } from '@/types';
+import type { ClauseType, GlossClause } from './grammar';
+
+type MarkerShape = Omit<NonManualMarker, 'grammar'>;
+
+const MARKER_SHAPES: Record<GrammaticalMarker, MarkerShape[]> = {
+  'yes-no-question': [
+    { type: 'facial', expression: 'raised-eyebrows', intensity: 0.8 },
+    { type: 'head', expression: 'tilt-forward', intensity: 0.5 },
+  ],
+  'wh-question': [
+    { type: 'facial', expression: 'furrowed-brows', intensity: 0.8 },
+    { type: 'head', expression: 'tilt', intensity: 0.4 },
+  ],
+  negation: [{ type: 'head', expression: 'shake', intensity: 0.7 }],
+  conditional: [
+    { type: 'facial', expression: 'raised-eyebrows', intensity: 0.7 },
+    { type: 'head', expression: 'tilt', intensity: 0.3 },
+  ],
+  topic: [
+    { type: 'facial', expression: 'raised-eyebrows', intensity: 0.6 },
+    { type: 'head', expression: 'tilt-back', intensity: 0.3 },
+  ],
+};
+
+// Marker spanning a whole clause of the given type (statements have none)
+const CLAUSE_MARKERS: Record<ClauseType, GrammaticalMarker | null> = {
+  statement: null,
+  'yes-no-question': 'yes-no-question',
+  'wh-question': 'wh-question',
+  conditional: 'conditional',
+};
+
+export function grammaticalMarkers(grammar: GrammaticalMarker): NonManualMarker[] {
+  return MARKER_SHAPES[grammar].map((marker) => ({ ...marker, grammar }));
+}
+
+/**
+ * Copy of the sign with the grammatical markers appended. Lexicon signs are
+ * shared, so the original is never modified.
+ */
+export function withGrammaticalMarkers(sign: ASLSign, grammar: GrammaticalMarker[]): ASLSign {
+  if (grammar.length === 0) return sign;
+  return {
+    ...sign,
+    nonManualMarkers: [...sign.nonManualMarkers, ...grammar.flatMap(grammaticalMarkers)],
+  };
+}
+
+/**
+ * Add the clause's non-manual markers to its signs. tokenSigns holds the
+ * signs produced for each token of the clause, in token order.
+ */
+export function markClause(clause: GlossClause, tokenSigns: ASLSign[][]): ASLSign[] {
+  const clauseMarker = CLAUSE_MARKERS[clause.type];
+
+  return clause.tokens.flatMap((token, index) => {
+    const grammar: GrammaticalMarker[] = [];
+    // The topic is set off with its own raised brows before the comment
+    if (token.role === 'topic') {
+      grammar.push('topic');
+    } else if (clauseMarker) {
+      grammar.push(clauseMarker);
+    }
+    if (token.negated) grammar.push('negation');
+
+    return (tokenSigns[index] ?? []).map((sign) => withGrammaticalMarkers(sign, grammar));
+  });
+}
+
+/**
+ * Marker for a whole utterance whose signs have no clause structure
+ * (AI gloss output): only a single question type is applied throughout.
+ */
+export function utteranceMarker(clauses: GlossClause[]): GrammaticalMarker | null {
+  const types = new Set(clauses.map((clause) => clause.type));
+  if (types.size !== 1) return null;
+  const [type] = Array.from(types);
+  return type === 'yes-no-question' || type === 'wh-question' ? type : null;
+}
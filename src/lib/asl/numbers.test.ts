@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createNumberSign, normalizeNumbers, numberToGlosses } from './numbers';
+import { ASLTranslator } from './translator';
+
+async function glosses(text: string, glossaryOnly = true): Promise<string[]> {
+  const translator = new ASLTranslator({ glossaryOnly });
+  return (await translator.translate(text)).signs.map((sign) => sign.gloss);
+}
+
+describe('normalizeNumbers', () => {
+  it.each([
+    ['Tickets are $15', 'Tickets are 15 dollar'],
+    ['It costs $1.50', 'It costs 1 dollar 50 cent'],
+    ['We raised $2.5M', 'We raised 2 decimal 5 million dollar'],
+    ['Revenue grew 25%', 'Revenue grew 25 percent'],
+    ['Doors open at 3:30 pm.', 'Doors open at time 3 30 afternoon'],
+    ['Breakfast at 9 a.m. sharp', 'Breakfast at time 9 morning sharp'],
+    ['We launched in 2024', 'We launched in 20 24'],
+    ['Founded in 1900', 'Founded in 19 hundred'],
+    ['Registration closes 10/19/2026', 'Registration closes oct 19 20 26'],
+    ['See you on March 3rd, 2027', 'See you on march 3 20 27'],
+    ['Pi is 3.14', 'Pi is 3 decimal 1 4'],
+    ['Over 10,000 attendees', 'Over 10000 attendees'],
+  ])('should rewrite "%s"', (input, expected) => {
+    expect(normalizeNumbers(input)).toBe(expected);
+  });
+
+  it('should leave four-digit counts without a year cue alone', () => {
+    expect(normalizeNumbers('We have 2024 attendees')).toBe('We have 2024 attendees');
+  });
+});
+
+describe('numberToGlosses', () => {
+  it.each([
+    ['7', ['NUM:7']],
+    ['15', ['NUM:15']],
+    ['42', ['NUM:4', 'NUM:2']],
+    ['305', ['NUM:3', 'HUNDRED', 'NUM:5']],
+    ['2024', ['NUM:2', 'THOUSAND', 'NUM:2', 'NUM:4']],
+    ['2500000', ['NUM:2', 'MILLION', 'NUM:5', 'HUNDRED', 'THOUSAND']],
+    ['05', ['NUM:0', 'NUM:5']],
+    ['3rd', ['ORD:3']],
+    ['21st', ['NUM:2', 'NUM:1']],
+  ])('should sign %s', (token, expected) => {
+    expect(numberToGlosses(token)).toEqual(expected);
+  });
+
+  it('should build number signs with number handshapes', () => {
+    expect(createNumberSign('NUM:7')?.handshape.dominant).toBe('number-7');
+    expect(createNumberSign('NUM:17')?.movement.type).toBe('circular');
+    expect(createNumberSign('ORD:2')?.movement.type).toBe('circular');
+    expect(createNumberSign('HUNDRED')).toBeNull();
+  });
+});
+
+describe('ASLTranslator figures', () => {
+  it('should sign money, percentages and times instead of dropping them', async () => {
+    expect(await glosses('$15')).toEqual(['NUM:15', 'DOLLAR']);
+    expect(await glosses('25%')).toEqual(['NUM:2', 'NUM:5', 'PERCENT']);
+    expect(await glosses('3:30 pm')).toEqual(['TIME', 'NUM:3', 'NUM:3', 'NUM:0', 'AFTERNOON']);
+  });
+
+  it('should sign years as pairs of numbers', async () => {
+    expect(await glosses('in 2024')).toEqual(['FS:I', 'FS:N', 'NUM:2', 'NUM:0', 'NUM:2', 'NUM:4']);
+  });
+
+  it('should keep decimals inside a sentence through ASL reordering', async () => {
+    const translation = await new ASLTranslator().translate('We need 2.5 million dollars.');
+
+    expect(translation.signs.map((sign) => sign.gloss)).toContain('DECIMAL');
+    expect(translation.fingerspelledWords).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Numbers, dates, times, money and percentages
+ *
+ * normalizeNumbers() runs on the transcript before glossing and rewrites
+ * figures into plain number tokens plus unit words the lexicon can sign:
+ * - "$15" -> "15 dollar", "$2.5M" -> "2 decimal 5 million dollar"
+ * - "25%" -> "25 percent", "3.14" -> "3 decimal 1 4"
+ * - "3:30 pm" -> "time 3 30 afternoon"
+ * - "in 2024" -> "in 20 24", "10/19/2026" -> "oct 19 20 26"
+ *
+ * Number tokens are then signed the ASL way: 0-19 have their own signs,
+ * larger numbers are signed digit by digit with HUNDRED / THOUSAND /
+ * MILLION / BILLION, and 1st-9th use the twisting ordinal form.
+ */
+
+import type { ASLSign, NonManualMarker } from '@/types';
+
+// A token produced by normalizeNumbers (or spoken as digits): 42, 05, 3rd
+export const NUMBER_TOKEN = /^\d+(?:st|nd|rd|th)?$/;
+
+const NUMBER_SIGN_MS = 350;
+
+// ASL fingerspells abbreviated month names
+const MONTHS: [RegExp, string][] = [
+  [/^jan(uary)?$/, 'jan'],
+  [/^feb(ruary)?$/, 'feb'],
+  [/^mar(ch)?$/, 'march'],
+  [/^apr(il)?$/, 'april'],
+  [/^may$/, 'may'],
+  [/^june?$/, 'june'],
+  [/^july?$/, 'july'],
+  [/^aug(ust)?$/, 'aug'],
+  [/^sep(t|tember)?$/, 'sept'],
+  [/^oct(ober)?$/, 'oct'],
+  [/^nov(ember)?$/, 'nov'],
+  [/^dec(ember)?$/, 'dec'],
+];
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// Words that mark a following four-digit number as a year
+const YEAR_CUES = 'in|since|by|from|until|during|before|after|through|year|class';
+
+const SCALES: [number, string][] = [
+  [1_000_000_000, 'BILLION'],
+  [1_000_000, 'MILLION'],
+  [1_000, 'THOUSAND'],
+];
+
+const SCALE_WORDS: Record<string, string> = {
+  k: 'thousand',
+  thousand: 'thousand',
+  m: 'million',
+  mm: 'million',
+  million: 'million',
+  b: 'billion',
+  bn: 'billion',
+  billion: 'billion',
+};
+
+function monthAbbreviation(month: string): string | null {
+  const key = month.toLowerCase().replace(/\.$/, '');
+  return MONTHS.find(([pattern]) => pattern.test(key))?.[1] ?? null;
+}
+
+function stripSeparators(digits: string): string {
+  return digits.replace(/,/g, '');
+}
+
+// "3.14" -> "3 decimal 1 4"; digits after the point are signed one at a time
+function decimalWords(value: string): string {
+  const [whole, fraction] = stripSeparators(value).split('.');
+  return fraction ? `${whole} decimal ${fraction.split('').join(' ')}` : whole;
+}
+
+// Years are signed as two pairs (19 99, 20 24), except 2000-2009 (2 THOUSAND 5)
+function yearWords(year: string): string {
+  if (year.length !== 4 || /^200\d$/.test(year)) return year;
+  const century = year.slice(0, 2);
+  const rest = year.slice(2);
+  return rest === '00' ? `${century} hundred` : `${century} ${rest}`;
+}
+
+function dayPeriod(hour: number, period: string): string {
+  if (period.startsWith('a')) return 'morning';
+  if (hour === 12 || hour < 6) return 'afternoon';
+  return hour < 9 ? 'evening' : 'night';
+}
+
+function clockWords(hour: string, minutes: string | undefined, period: string | undefined): string {
+  const parts = ['time', String(Number(hour))];
+  if (minutes && minutes !== '00') parts.push(minutes);
+  if (period) parts.push(dayPeriod(Number(hour), period.toLowerCase()));
+  return parts.join(' ');
+}
+
+function moneyWords(amount: string, scale: string | undefined): string {
+  const scaleWord = scale ? SCALE_WORDS[scale.toLowerCase()] : undefined;
+  if (scaleWord) {
+    return `${decimalWords(amount)} ${scaleWord} dollar`;
+  }
+
+  const [dollars, cents] = stripSeparators(amount).split('.');
+  if (cents && cents.length === 2) {
+    const centWords = `${Number(cents)} cent`;
+    return Number(dollars) === 0 ? centWords : `${dollars} dollar ${centWords}`;
+  }
+  return `${decimalWords(amount)} dollar`;
+}
+
+/**
+ * Rewrite figures in the text into number tokens and unit words
+ */
+export function normalizeNumbers(text: string): string {
+  return (
+    text
+      // Numeric dates with a year: 10/19/2026
+      .replace(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, (match, month: string, day: string, year: string) => {
+        const m = Number(month);
+        const d = Number(day);
+        if (m < 1 || m > 12 || d < 1 || d > 31) return match;
+        return `${MONTHS[m - 1][1]} ${d} ${yearWords(year)}`;
+      })
+      // Month names with a day: October 19th, 2026
+      .replace(
+        new RegExp(`\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4})\\b)?`, 'gi'),
+        (match, month: string, day: string, year: string | undefined) => {
+          const abbreviation = monthAbbreviation(month);
+          if (!abbreviation) return match;
+          return [abbreviation, String(Number(day)), ...(year ? [yearWords(year)] : [])].join(' ');
+        }
+      )
+      // Money: $15, $1.50, $2.5M, $3 billion
+      .replace(
+        /\$\s?(\d[\d,]*(?:\.\d+)?)(?:\s?(thousand|million|billion|bn|mm|[kmb])\b)?/gi,
+        (_, amount: string, scale: string | undefined) => moneyWords(amount, scale)
+      )
+      // Percentages: 25%, 3.5%
+      .replace(/(\d[\d,]*(?:\.\d+)?)\s?%/g, (_, value: string) => `${decimalWords(value)} percent`)
+      // Clock times: 3:30 pm, 9 a.m.
+      .replace(
+        /\b(\d{1,2}):(\d{2})(?:\s*([ap])\.?m\b\.?)?/gi,
+        (_, hour: string, minutes: string, period: string | undefined) => clockWords(hour, minutes, period)
+      )
+      .replace(
+        /\b(\d{1,2})\s*([ap])\.?m\b\.?/gi,
+        (_, hour: string, period: string) => clockWords(hour, undefined, period)
+      )
+      // Years after a cue word: in 2024, since 1999
+      .replace(
+        new RegExp(`\\b(${YEAR_CUES})\\s+((?:19|20)\\d{2})\\b`, 'gi'),
+        (_, cue: string, year: string) => `${cue} ${yearWords(year)}`
+      )
+      // Remaining decimals and thousands separators
+      .replace(/\b\d[\d,]*\.\d+\b/g, decimalWords)
+      .replace(/\b\d{1,3}(?:,\d{3})+\b/g, stripSeparators)
+  );
+}
+
+/**
+ * Gloss sequence for a number token: "2024" -> NUM:2 THOUSAND NUM:2 NUM:4.
+ * A leading zero ("05" in 3:05) is signed digit by digit.
+ */
+export function numberToGlosses(token: string): string[] {
+  const ordinal = token.match(/^(\d+)(?:st|nd|rd|th)$/);
+  if (ordinal) {
+    const value = Number(ordinal[1]);
+    // Only 1st-9th have a dedicated ordinal sign; larger ordinals use the number
+    return value >= 1 && value <= 9 ? [`ORD:${value}`] : numberToGlosses(ordinal[1]);
+  }
+
+  if (!/^\d+$/.test(token)) return [];
+  if ((token.length > 1 && token.startsWith('0')) || token.length > 12) {
+    return token.split('').map((digit) => `NUM:${digit}`);
+  }
+
+  let value = Number(token);
+  if (value === 0) return ['NUM:0'];
+
+  const glosses: string[] = [];
+  for (const [scale, gloss] of SCALES) {
+    if (value >= scale) {
+      glosses.push(...belowThousand(Math.floor(value / scale)), gloss);
+      value %= scale;
+    }
+  }
+  return [...glosses, ...belowThousand(value)];
+}
+
+function belowThousand(value: number): string[] {
+  const glosses: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds > 0) glosses.push(`NUM:${hundreds}`, 'HUNDRED');
+  if (rest === 0) return glosses;
+  if (rest < 20) return [...glosses, `NUM:${rest}`];
+  return [...glosses, `NUM:${Math.floor(rest / 10)}`, `NUM:${rest % 10}`];
+}
+
+// 11-19 reuse the 1-9 handshapes with a flick or twist
+function numberHandshape(value: number): string {
+  return `number-${value > 10 ? value - 10 : value}`;
+}
+
+/**
+ * Avatar sign for a NUM:n or ORD:n gloss (null for anything else)
+ */
+export function createNumberSign(gloss: string): ASLSign | null {
+  const match = gloss.match(/^(NUM|ORD):(\d+)$/);
+  if (!match) return null;
+
+  const value = Number(match[2]);
+  const ordinal = match[1] === 'ORD';
+  // Ordinals and 16-19 twist; 11-15 flick the fingers
+  const movement = ordinal || value >= 16 ? 'circular' : value > 10 ? 'linear' : 'static';
+
+  return {
+    gloss,
+    duration: NUMBER_SIGN_MS,
+    handshape: { dominant: numberHandshape(value) },
+    location: { x: 0.25, y: 0.5, z: 0.35, reference: 'neutral' },
+    movement: { type: movement, speed: 'fast' },
+    nonManualMarkers: [] as NonManualMarker[],
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { createLexicon } from './lexicon';
+import { PhraseMatcher, replaceLongestMatches } from './phrases';
+import { ASLTranslator } from './translator';
+
+async function glosses(translator: ASLTranslator, text: string): Promise<string[]> {
+  return (await translator.translate(text)).signs.map((sign) => sign.gloss);
+}
+
+describe('replaceLongestMatches', () => {
+  it('should prefer the longest match and keep surrounding text', () => {
+    const table: Record<string, string> = { 'a b': 'AB', 'a b c': 'ABC', c: 'C' };
+    const result = replaceLongestMatches('a b c, a b!', 3, (words) => table[words.join(' ')] ?? null);
+
+    expect(result).toBe('ABC, AB!');
+  });
+});
+
+describe('PhraseMatcher', () => {
+  const matcher = new PhraseMatcher(createLexicon());
+
+  it('should join multi-word lexicon entries into their gloss', () => {
+    expect(matcher.apply('Thank you for coming')).toBe('thank-you for coming');
+    expect(matcher.apply('we teach American Sign Language')).toBe('we teach sign-language');
+  });
+
+  it('should map idioms to their ASL equivalent', () => {
+    expect(matcher.apply('The exam was a piece of cake')).toBe('The exam was a easy');
+    expect(matcher.apply('How are you?')).toBe('how+you?');
+  });
+
+  it('should skip idioms whose signs the avatar cannot perform', () => {
+    const sparse = new PhraseMatcher(createLexicon(), { 'break a leg': ['GOOD', 'LUCK'] });
+
+    expect(sparse.apply('break a leg')).toBe('break a leg');
+  });
+});
+
+describe('ASLTranslator phrase lookup', () => {
+  it('should sign a phrase instead of its single words', async () => {
+    const translator = new ASLTranslator({ glossaryOnly: true });
+
+    expect(await glosses(translator, 'thank you')).toEqual(['THANK-YOU']);
+    expect(await glosses(translator, 'sign language')).toEqual(['SIGN-LANGUAGE']);
+    expect(await glosses(translator, 'sign')).toEqual(['SIGN']);
+  });
+
+  it('should prefer the longer idiom over a shorter phrase inside it', async () => {
+    const translator = new ASLTranslator({ glossaryOnly: true });
+
+    // "see you" alone is a farewell
+    expect(await glosses(translator, 'see you')).toEqual(['GOODBYE']);
+    expect(await glosses(translator, 'see you later')).toEqual(['SEE', 'YOU', 'LATER']);
+  });
+
+  it('should keep idioms intact through ASL reordering', async () => {
+    const translator = new ASLTranslator();
+
+    expect(await glosses(translator, 'How are you doing?')).toEqual(['HOW', 'YOU']);
+    expect(await glosses(translator, 'I was under the weather yesterday')).toEqual(['YESTERDAY', 'I', 'SICK']);
+  });
+
+  it('should accept the old ASL abbreviation', async () => {
+    const translator = new ASLTranslator({ glossaryOnly: true });
+
+    expect(await glosses(translator, 'I teach ASL')).toEqual(['I', 'TEACH', 'SIGN-LANGUAGE']);
+  });
+});
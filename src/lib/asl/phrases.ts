@@ -0,0 +1,101 @@
+/**
+ * Multi-word phrase and idiom matching
+ *
+ * Runs on the transcript before gloss ordering so phrases survive as one
+ * token: "thank you" becomes thank-you instead of THANK + YOU, and idioms
+ * are replaced by their ASL equivalent ("piece of cake" is signed EASY)
+ * rather than rendered literally. The longest match always wins, so a
+ * phrase takes priority over the single words inside it.
+ */
+
+import { getLexicon, normalizeGlossId, type Lexicon } from './lexicon';
+
+// Joins the glosses of a multi-sign idiom into one token that grammar rules leave intact
+export const PHRASE_JOINER = '+';
+
+// Idioms mapped to the ASL gloss sequence that carries their meaning
+export const IDIOMS: Record<string, string[]> = {
+  'how are you': ['HOW', 'YOU'],
+  'how are you doing': ['HOW', 'YOU'],
+  'see you later': ['SEE', 'YOU', 'LATER'],
+  'piece of cake': ['EASY'],
+  'under the weather': ['SICK'],
+  'on the same page': ['THINK', 'SAME'],
+  'got it': ['UNDERSTAND'],
+};
+
+const WORD_PATTERN = /[A-Za-z0-9][\w'-]*/g;
+
+export function splitWords(text: string): string[] {
+  return text.match(WORD_PATTERN) ?? [];
+}
+
+/**
+ * Replace the longest run of words (up to maxWords) that resolve to a token,
+ * scanning left to right. Whitespace and punctuation around matches are kept.
+ */
+export function replaceLongestMatches(
+  text: string,
+  maxWords: number,
+  resolve: (words: string[]) => string | null,
+  minWords: number = 1
+): string {
+  const matches = Array.from(text.matchAll(WORD_PATTERN));
+  let result = '';
+  let cursor = 0;
+  let index = 0;
+
+  while (index < matches.length) {
+    let token: string | null = null;
+    let length = Math.min(maxWords, matches.length - index);
+    for (; length >= minWords; length--) {
+      token = resolve(matches.slice(index, index + length).map((match) => match[0]));
+      if (token) break;
+    }
+
+    if (!token) {
+      index++;
+      continue;
+    }
+
+    const last = matches[index + length - 1];
+    result += text.slice(cursor, matches[index].index) + token;
+    cursor = (last.index ?? 0) + last[0].length;
+    index += length;
+  }
+
+  return result + text.slice(cursor);
+}
+
+export class PhraseMatcher {
+  private idioms: Map<string, string[]>;
+  private maxIdiomWords: number;
+
+  constructor(
+    private lexicon: Lexicon = getLexicon(),
+    idioms: Record<string, string[]> = IDIOMS
+  ) {
+    this.idioms = new Map(
+      Object.entries(idioms).map(([phrase, glosses]) => [splitWords(phrase.toLowerCase()).join(' '), glosses])
+    );
+    this.maxIdiomWords = Math.max(0, ...Array.from(this.idioms.keys(), (phrase) => phrase.split(' ').length));
+  }
+
+  apply(text: string): string {
+    const maxWords = Math.max(this.maxIdiomWords, this.lexicon.maxPhraseWords);
+    if (maxWords < 2) return text;
+
+    return replaceLongestMatches(text, maxWords, (words) => this.resolve(words.join(' ').toLowerCase()), 2);
+  }
+
+  private resolve(phrase: string): string | null {
+    // Idioms only apply when the avatar can perform every sign of the equivalent
+    const idiom = this.idioms.get(phrase);
+    if (idiom && idiom.every((gloss) => this.lexicon.hasSign(normalizeGlossId(gloss)))) {
+      return idiom.map((gloss) => normalizeGlossId(gloss).toLowerCase()).join(PHRASE_JOINER);
+    }
+
+    const sign = this.lexicon.getSign(phrase);
+    return sign ? sign.gloss.toLowerCase() : null;
+  }
+}
@@ -1,5 +1,24 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
 import { ASLTranslator } from './translator';
+import type { GlossCompletionClient, GlossCompletionRequest } from './aiGloss';
+
+// Fake completion client that answers with a fixed gloss sequence
+type CompleteMock = Mock<[GlossCompletionRequest, { signal: AbortSignal }], Promise<string>>;
+
+function fakeClient(tokens: unknown, delay = 0): { complete: CompleteMock } {
+  return {
+    complete: vi.fn(
+      (_request: GlossCompletionRequest, { signal }: { signal: AbortSignal }) =>
+        new Promise<string>((resolve, reject) => {
+          const timer = setTimeout(() => resolve(JSON.stringify({ tokens })), delay);
+          signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('aborted'));
+          });
+        })
+    ),
+  };
+}
 
 describe('ASLTranslator', () => {
   let translator: ASLTranslator;
@@ -77,6 +96,24 @@ describe('ASLTranslator', () => {
       expect(sign.movement.type).toBeDefined();
     });
 
+    it('should report unmapped and fingerspelled words', async () => {
+      const result = await translator.translate('hello xyz');
+
+      expect(result.unmappedWords).toEqual(['xyz']);
+      expect(result.fingerspelledWords).toEqual(['xyz']);
+    });
+
+    it('should not fingerspell characters outside the manual alphabet', async () => {
+      const result = await translator.translate("hello 123 o'neil");
+
+      // Digits are signed as numbers rather than fingerspelled
+      expect(result.unmappedWords).toEqual(["o'neil"]);
+      expect(result.fingerspelledWords).toEqual(["o'neil"]);
+      expect(result.signs.map((s) => s.gloss)).toEqual([
+        'HELLO', 'NUM:1', 'HUNDRED', 'NUM:2', 'NUM:3', 'FS:O', 'FS:N', 'FS:E', 'FS:I', 'FS:L',
+      ]);
+    });
+
     it('should generate unique translation IDs', async () => {
       const result1 = await translator.translate('hello');
       const result2 = await translator.translate('hello');
@@ -85,6 +122,105 @@ describe('ASLTranslator', () => {
     });
   });
 
+  describe('grammar', () => {
+    it('should reorder signs into ASL gloss order by default', async () => {
+      const result = await translator.translate('Where is the meeting?');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['MEETING', 'WHERE']);
+    });
+
+    it('should expose the intermediate gloss sequence', () => {
+      expect(translator.toGloss("I don't understand").map((t) => t.gloss)).toEqual(['I', 'UNDERSTAND', 'NOT']);
+    });
+
+    it('should keep English word order in glossary-only mode', async () => {
+      const literal = new ASLTranslator({ glossaryOnly: true });
+      const result = await literal.translate('Tomorrow I help');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['TOMORROW', 'I', 'HELP']);
+      expect((await literal.translate('I help tomorrow')).signs.map((s) => s.gloss)).toEqual([
+        'I',
+        'HELP',
+        'TOMORROW',
+      ]);
+    });
+  });
+
+  describe('AI mode', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should use the gloss sequence from the completion client', async () => {
+      const client = fakeClient([{ gloss: 'MEETING' }, { gloss: 'WHERE' }]);
+      const ai = new ASLTranslator({ useAI: true, aiClient: client });
+
+      const result = await ai.translate('Where is the meeting room located?');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['MEETING', 'WHERE']);
+      expect(client.complete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should accept glosses that map through word synonyms', async () => {
+      const ai = new ASLTranslator({ useAI: true, aiClient: fakeClient([{ gloss: 'THANKS' }]) });
+
+      const result = await ai.translate('thanks');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['THANK-YOU']);
+    });
+
+    it('should fingerspell hallucinated glosses', async () => {
+      const client = fakeClient([{ gloss: 'HELLO' }, { gloss: 'KUBERNETES-CLUSTER', word: 'Kube' }]);
+      const ai = new ASLTranslator({ useAI: true, aiClient: client });
+
+      const result = await ai.translate('Hello Kube');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['HELLO', 'FS:K', 'FS:U', 'FS:B', 'FS:E']);
+      expect(result.fingerspelledWords).toEqual(['kube']);
+    });
+
+    it('should send previous sentences as context', async () => {
+      const client = fakeClient([{ gloss: 'HELLO' }]);
+      const ai = new ASLTranslator({ useAI: true, aiClient: client, aiContextSize: 1 });
+
+      await ai.translate('First sentence.');
+      await ai.translate('Second sentence.');
+      await ai.translate('Third sentence.');
+
+      const lastRequest = client.complete.mock.calls[2][0];
+      expect(lastRequest.user).toContain('Second sentence.');
+      expect(lastRequest.user).not.toContain('First sentence.');
+      expect(lastRequest.system).toContain('THANK-YOU');
+    });
+
+    it('should fall back to rules when the model exceeds targetLatency', async () => {
+      const client = fakeClient([{ gloss: 'HELLO' }], 200);
+      const ai = new ASLTranslator({ useAI: true, aiClient: client, targetLatency: 20 });
+
+      const result = await ai.translate('Where is the meeting?');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['MEETING', 'WHERE']);
+      expect(client.complete.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should fall back to rules on malformed responses', async () => {
+      const client: GlossCompletionClient = { complete: async () => 'not json' };
+      const ai = new ASLTranslator({ useAI: true, aiClient: client });
+
+      const result = await ai.translate("I don't understand");
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['I', 'UNDERSTAND', 'NO']);
+    });
+
+    it('should stay rule-based without a client or API key', async () => {
+      const ai = new ASLTranslator({ useAI: true });
+
+      const result = await ai.translate('hello');
+
+      expect(result.signs.map((s) => s.gloss)).toEqual(['HELLO']);
+    });
+  });
+
   describe('hasSign', () => {
     it('should return true for known signs', () => {
       expect(translator.hasSign('hello')).toBe(true);
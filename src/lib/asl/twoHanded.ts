@@ -0,0 +1,18 @@
+/**
+ * Two-Handed Signs
+ *
+ * How a sign's hands work together. Entries may say so explicitly; otherwise
+ * matching handshapes are taken to mirror each other and differing ones to
+ * be a dominant hand acting on a base hand (HELP, LEARN, TODAY).
+ */
+
+import type { HandShape, TwoHandedType } from '@/types';
+
+/**
+ * The two-handed type of a handshape, or null for one-handed signs
+ */
+export function resolveTwoHandedType(handshape: HandShape): TwoHandedType | null {
+  if (!handshape.nonDominant) return null;
+  if (handshape.twoHanded) return handshape.twoHanded;
+  return handshape.nonDominant === handshape.dominant ? 'symmetric' : 'base';
+}
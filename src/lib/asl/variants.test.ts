@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createMotionLibrary } from '@/lib/motion/library';
+import { createLexicon, type LexiconEntry } from './lexicon';
+import { ASLTranslator } from './translator';
+import { applySignSpeed, resolveVariantPreferences, selectVariant, SIGN_SPEED_FLAG } from './variants';
+
+const PUBLIC_DIR = join(__dirname, '../../../public');
+
+const SODA: LexiconEntry = {
+  id: 'SODA',
+  word: 'soda',
+  aliases: ['pop'],
+  category: 'food',
+  registerFormal: false,
+  motion: '/ik_data/help.json',
+  animation: {
+    duration: 600,
+    handshape: { dominant: 'flat-hand' },
+    location: { x: 0, y: 0.5, z: 0.3, reference: 'chest' },
+    movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
+    nonManualMarkers: [],
+  },
+  variants: [
+    { id: 'midwest', region: 'midwest', motion: '/ik_data/dog.json', animation: { duration: 500 } },
+    { id: 'formal', register: 'formal', animation: { duration: 900 } },
+  ],
+};
+
+function flags(variant?: string) {
+  return { getVariant: (key: string) => (key === SIGN_SPEED_FLAG ? variant : undefined) };
+}
+
+describe('selectVariant', () => {
+  it('should prefer the event region, then the register', () => {
+    expect(selectVariant(SODA, { region: 'midwest' })?.id).toBe('midwest');
+    expect(selectVariant(SODA, { region: 'midwest', register: 'formal' })?.id).toBe('midwest');
+    expect(selectVariant(SODA, { register: 'formal' })?.id).toBe('formal');
+    expect(selectVariant(SODA, { register: 'casual' })).toBeNull();
+    expect(selectVariant(SODA, {})).toBeNull();
+  });
+
+  it('should apply the selected variant in the lexicon', () => {
+    const lexicon = createLexicon([SODA]);
+
+    expect(lexicon.getSign('pop', { region: 'midwest' })).toMatchObject({ gloss: 'SODA', variant: 'midwest', duration: 500 });
+    expect(lexicon.getSign('soda')?.variant).toBeUndefined();
+  });
+});
+
+describe('sign speed', () => {
+  it('should scale durations in the translator', async () => {
+    const translator = new ASLTranslator();
+    const normal = await translator.translate('hello');
+
+    translator.setVariantPreferences({ speed: 'slow' });
+    const slow = await translator.translate('hello');
+
+    expect(slow.signs[0].duration).toBe(Math.round(normal.signs[0].duration * 1.3));
+    expect(slow.signs[0].movement.speed).toBe('slow');
+    expect(applySignSpeed(normal.signs[0], 'normal')).toBe(normal.signs[0]);
+  });
+
+  it('should take the event speed over the A/B bucket over the default', () => {
+    expect(resolveVariantPreferences({ event: { speed: 'fast' }, defaultSpeed: 'slow', flags: flags('slow') }).speed).toBe('fast');
+    expect(resolveVariantPreferences({ defaultSpeed: 'slow', flags: flags('fast') }).speed).toBe('fast');
+    expect(resolveVariantPreferences({ defaultSpeed: 'slow', flags: flags('control') }).speed).toBe('slow');
+    expect(resolveVariantPreferences({ event: { region: 'midwest' } })).toEqual({ region: 'midwest', speed: 'normal' });
+  });
+});
+
+describe('variant motions', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should load a variant's clip and fall back to the base form", async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(async (input) => new Response(readFileSync(join(PUBLIC_DIR, String(input)), 'utf8')));
+    const library = createMotionLibrary({ lexicon: createLexicon([SODA]), manifestUrl: null, includeLocal: false, includeStore: false });
+
+    await library.load('SODA', 'midwest');
+    await library.load('SODA', 'formal');
+
+    // The formal variant has no clip of its own
+    expect(fetchSpy.mock.calls.map(([input]) => String(input))).toEqual(['/ik_data/dog.json', '/ik_data/help.json']);
+  });
+});
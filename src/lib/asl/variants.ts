@@ -0,0 +1,100 @@
+/**
+ * Sign Variants
+ *
+ * Picks which form of a sign to perform for an event: its regional
+ * community, register (keynote vs. casual panel) and signing speed.
+ * Preferences come from the event, the sign-speed A/B test and the
+ * operator's settings, in that order.
+ */
+
+import type { ASLSign, SignSpeed, SignVariantPreferences } from '@/types';
+import type { LexiconEntry, SignVariant } from './lexicon';
+
+// Feature flag whose variant ('slow' | 'normal' | 'fast') sets the signing speed
+export const SIGN_SPEED_FLAG = 'sign-speed-variant';
+
+// Duration multipliers per signing speed
+export const SIGN_SPEED_FACTORS: Record<SignSpeed, number> = {
+  slow: 1.3,
+  normal: 1,
+  fast: 0.75,
+};
+
+const SIGN_SPEEDS = Object.keys(SIGN_SPEED_FACTORS) as SignSpeed[];
+
+type VariantForm = Pick<SignVariant, 'region' | 'register'>;
+
+// Regional forms are only used in their region; register breaks ties
+function scoreForm(form: VariantForm, preferences: SignVariantPreferences): number {
+  let score = 0;
+  if (form.region) {
+    score += form.region === preferences.region ? 2 : -2;
+  }
+  if (form.register && preferences.register) {
+    score += form.register === preferences.register ? 1 : -1;
+  }
+  return score;
+}
+
+/**
+ * The variant of an entry that best fits the preferences, or null when the
+ * base form fits at least as well
+ */
+export function selectVariant(
+  entry: Pick<LexiconEntry, 'variants' | 'registerFormal'>,
+  preferences: SignVariantPreferences
+): SignVariant | null {
+  const baseForm: VariantForm = {
+    register: entry.registerFormal === undefined ? undefined : entry.registerFormal ? 'formal' : 'casual',
+  };
+
+  let best: SignVariant | null = null;
+  let bestScore = scoreForm(baseForm, preferences);
+  for (const variant of entry.variants ?? []) {
+    const score = scoreForm(variant, preferences);
+    if (score > bestScore) {
+      best = variant;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Perform a sign in a variant's form
+ */
+export function applyVariant(sign: ASLSign, variant: SignVariant): ASLSign {
+  return { ...sign, ...variant.animation, gloss: sign.gloss, variant: variant.id };
+}
+
+/**
+ * Scale a sign's timing to the signing speed
+ */
+export function applySignSpeed(sign: ASLSign, speed: SignSpeed = 'normal'): ASLSign {
+  if (speed === 'normal') return sign;
+  return {
+    ...sign,
+    duration: Math.round(sign.duration * SIGN_SPEED_FACTORS[speed]),
+    movement: { ...sign.movement, speed },
+  };
+}
+
+function isSignSpeed(value: unknown): value is SignSpeed {
+  return SIGN_SPEEDS.includes(value as SignSpeed);
+}
+
+/**
+ * Combine variant preferences: the event's own choices win, then the
+ * sign-speed A/B test bucket, then the operator's default speed
+ */
+export function resolveVariantPreferences(options: {
+  event?: SignVariantPreferences;
+  defaultSpeed?: SignSpeed;
+  flags?: { getVariant(key: string): string | undefined };
+}): SignVariantPreferences {
+  const flagSpeed = options.flags?.getVariant(SIGN_SPEED_FLAG);
+  return {
+    ...options.event,
+    speed: options.event?.speed ?? (isSignSpeed(flagSpeed) ? flagSpeed : undefined) ?? options.defaultSpeed ?? 'normal',
+  };
+}
@@ -38,6 +38,7 @@ export interface GeneralSettings {
   autoStart: boolean;
   sessionRecording: boolean;
   showWelcomeScreen: boolean;
+  motionToken: string; // Token for saving to the shared motion library (SIGNMATE_MOTION_TOKEN on the server)
 }
 
 export interface AudioSettings {
@@ -52,7 +53,7 @@ export interface AudioSettings {
 }
 
 export interface SpeechSettings {
-  provider: 'browser' | 'deepgram';
+  provider: 'browser' | 'deepgram' | 'whisper';
   language: string;
   deepgramApiKey: string;
   deepgramModel: 'nova-2' | 'nova' | 'enhanced' | 'base';
@@ -87,6 +88,8 @@ export interface DisplaySettings {
   backgroundColor: string;
   chromaKeyEnabled: boolean;
   chromaKeyColor: string;
+  relayUrl: string; // Relay for displays on other machines (see src/server/relay.ts)
+  relayToken: string; // Control token for the relay; entered on the operator machine only
 }
 
 export interface PerformanceSettings {
@@ -115,6 +118,7 @@ export const DEFAULT_SETTINGS: SignMateSettings = {
     autoStart: false,
     sessionRecording: true,
     showWelcomeScreen: true,
+    motionToken: '',
   },
 
   audio: {
@@ -170,6 +174,8 @@ export const DEFAULT_SETTINGS: SignMateSettings = {
     backgroundColor: '#0a0a0a',
     chromaKeyEnabled: false,
     chromaKeyColor: '#00ff00',
+    relayUrl: '',
+    relayToken: '',
   },
 
   performance: {
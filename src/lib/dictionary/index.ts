@@ -1,9 +1,22 @@
 export {
   SignDictionary,
   getSignDictionary,
+  lexiconEntryToSignEntry,
   type SignCategory,
   type SignDifficulty,
   type SignEntry,
   type SignSearchOptions,
   type SignSearchResult,
 } from './signDictionary';
+export {
+  LexiconPackManager,
+  getLexiconPackManager,
+  createLexiconPack,
+  validateLexiconPack,
+  isLexiconPack,
+  LEXICON_PACK_FORMAT,
+  LEXICON_PACK_FORMAT_VERSION,
+  type LexiconPack,
+  type LexiconPackManifest,
+  type LexiconPackValidation,
+} from './lexiconPacks';
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createLexicon, type Lexicon, type LexiconEntry } from '@/lib/asl/lexicon';
+import { ASLTranslator } from '@/lib/asl/translator';
+import { OfflineManager } from '@/lib/offline/offlineManager';
+import { SignDictionary } from './signDictionary';
+import { LexiconPackManager, createLexiconPack, validateLexiconPack, type LexiconPack } from './lexiconPacks';
+
+const animation: LexiconEntry['animation'] = {
+  duration: 600,
+  handshape: { dominant: 'a-hand' },
+  location: { x: 0.1, y: 0.5, z: 0.3, reference: 'neutral' },
+  movement: { type: 'circular', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+function keynotePack(overrides: Partial<LexiconPack> = {}): LexiconPack {
+  return {
+    ...createLexiconPack(
+      { id: 'acme-keynote', name: 'Acme Keynote', version: '1.0.0', createdAt: '2026-10-01T00:00:00.000Z' },
+      [
+        { id: 'ACME', word: 'acme', aliases: ['acme corp'], category: 'technology', animation },
+        {
+          id: 'NAME-SIGN-JORDAN',
+          word: 'jordan',
+          aliases: [],
+          category: 'common',
+          animation,
+          motion: '/signs/name-sign-jordan.json',
+        },
+      ],
+      { kubernetes: 'technology' }
+    ),
+    ...overrides,
+  };
+}
+
+describe('validateLexiconPack', () => {
+  it('should accept a well-formed pack', () => {
+    const result = validateLexiconPack(keynotePack(), createLexicon());
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should reject data that is not a pack', () => {
+    expect(validateLexiconPack({ version: '1.0.0', transcriptions: [] }).valid).toBe(false);
+  });
+
+  it('should report structural errors per entry', () => {
+    const pack = keynotePack({
+      entries: [{ id: 'ACME', word: '', aliases: [], category: 'sponsors' } as unknown as LexiconEntry],
+    });
+    const result = validateLexiconPack(pack, createLexicon());
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Entry 0: missing word, invalid category']);
+  });
+
+  it('should reject aliases for unknown glosses', () => {
+    const result = validateLexiconPack(keynotePack({ aliases: { k8s: 'KUBERNETES' } }), createLexicon());
+
+    expect(result.errors).toEqual(['Alias "k8s" targets unknown gloss KUBERNETES']);
+  });
+
+  it('should warn about collisions with existing signs', () => {
+    const pack = keynotePack({
+      entries: [{ id: 'ACME', word: 'acme', aliases: ['hello'], category: 'technology' }],
+      aliases: undefined,
+    });
+    const result = validateLexiconPack(pack, createLexicon());
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      'Gloss ACME has no animation parameters',
+      'Alias "hello" of ACME collides with HELLO',
+    ]);
+  });
+});
+
+describe('LexiconPackManager', () => {
+  let lexicon: Lexicon;
+  let dictionary: SignDictionary;
+  let offline: OfflineManager;
+  let manager: LexiconPackManager;
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(global, 'fetch').mockRejectedValue(new Error('offline'));
+    lexicon = createLexicon();
+    dictionary = new SignDictionary(lexicon);
+    offline = new OfflineManager({ cachePrefix: 'test_' });
+    manager = new LexiconPackManager(lexicon, dictionary, offline);
+  });
+
+  afterEach(() => {
+    offline.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should register pack signs with the translator and dictionary', async () => {
+    const result = manager.load(keynotePack());
+    const translator = new ASLTranslator({ lexicon, glossaryOnly: true });
+
+    expect(result.valid).toBe(true);
+    expect((await translator.translate('acme kubernetes jordan')).signs.map((sign) => sign.gloss)).toEqual([
+      'ACME',
+      'TECHNOLOGY',
+      'NAME-SIGN-JORDAN',
+    ]);
+    expect(dictionary.getByGloss('ACME')?.category).toBe('technology');
+    expect(dictionary.getByWord('kubernetes').map((entry) => entry.id)).toEqual(['TECHNOLOGY']);
+    expect(lexicon.get('NAME-SIGN-JORDAN')?.motion).toBe('/signs/name-sign-jordan.json');
+  });
+
+  it('should leave the lexicon untouched when a pack is invalid', () => {
+    const result = manager.load({ format: 'signmate-lexicon-pack', formatVersion: 99 });
+
+    expect(result.valid).toBe(false);
+    expect(manager.getPacks()).toEqual([]);
+    expect(lexicon.get('ACME')).toBeUndefined();
+  });
+
+  it('should restore overridden signs when a pack is unloaded', () => {
+    const builtInHello = lexicon.get('HELLO');
+    manager.load(
+      keynotePack({ entries: [{ id: 'HELLO', word: 'hello', aliases: ['howdy'], category: 'greetings', animation }] })
+    );
+
+    expect(lexicon.lookup('howdy')?.id).toBe('HELLO');
+    expect(dictionary.getByGloss('HELLO')?.handshape.dominant).toBe('a-hand');
+
+    expect(manager.unload('acme-keynote')).toBe(true);
+
+    expect(lexicon.get('HELLO')).toEqual(builtInHello);
+    expect(lexicon.lookup('howdy')).toBeUndefined();
+    expect(lexicon.lookup('kubernetes')?.id).toBeUndefined();
+    expect(dictionary.getByGloss('HELLO')?.handshape.dominant).toBe('flat-hand');
+    expect(dictionary.getByWord('howdy')).toEqual([]);
+  });
+
+  it('should remove pack-only signs on unload', () => {
+    manager.load(keynotePack());
+    manager.unload('acme-keynote');
+
+    expect(lexicon.get('ACME')).toBeUndefined();
+    expect(dictionary.getByGloss('ACME')).toBeUndefined();
+  });
+
+  it('should replace a pack loaded again with the same id', () => {
+    manager.load(keynotePack());
+    manager.load(
+      keynotePack({ entries: [{ id: 'ACME', word: 'acme', aliases: [], category: 'technology', animation }] })
+    );
+
+    expect(manager.getPacks()).toHaveLength(1);
+    expect(lexicon.get('NAME-SIGN-JORDAN')).toBeUndefined();
+  });
+
+  it('should persist packs and restore them in a new session', () => {
+    manager.load(keynotePack());
+
+    const nextLexicon = createLexicon();
+    const restored = new LexiconPackManager(nextLexicon, new SignDictionary(nextLexicon), offline);
+
+    expect(restored.restore()).toBe(1);
+    expect(nextLexicon.lookup('acme corp')?.id).toBe('ACME');
+  });
+
+  it('should export a pack that imports unchanged', () => {
+    manager.load(keynotePack());
+    const exported = manager.exportPack('acme-keynote');
+
+    expect(exported).not.toBeNull();
+    expect(validateLexiconPack(JSON.parse(exported!), createLexicon()).pack).toEqual(keynotePack());
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Lexicon Packs
+ *
+ * JSON bundles of custom signs (sponsor names, speaker name signs,
+ * technical jargon) that are registered at runtime into the shared
+ * lexicon, and through it the translator, and the sign dictionary.
+ * Loaded packs persist through the OfflineManager cache.
+ */
+
+import {
+  getLexicon,
+  normalizeGlossId,
+  validateLexicon,
+  SIGN_CATEGORIES,
+  type Lexicon,
+  type LexiconEntry,
+} from '@/lib/asl/lexicon';
+import { getOfflineManager, type OfflineManager } from '@/lib/offline/offlineManager';
+import { getSignDictionary, lexiconEntryToSignEntry, type SignDictionary } from './signDictionary';
+
+export const LEXICON_PACK_FORMAT = 'signmate-lexicon-pack';
+export const LEXICON_PACK_FORMAT_VERSION = 1;
+
+const STORAGE_KEY = 'lexicon_packs';
+
+export interface LexiconPackManifest {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  author?: string;
+  createdAt: string;
+  lexiconVersion?: string; // Lexicon version the pack was authored against
+}
+
+// Entries may carry a `motion` URL pointing at a recorded SignMotion
+export interface LexiconPack {
+  format: typeof LEXICON_PACK_FORMAT;
+  formatVersion: number;
+  manifest: LexiconPackManifest;
+  entries: LexiconEntry[];
+  aliases?: Record<string, string>; // Extra English words for existing glosses
+}
+
+export interface LexiconPackValidation {
+  valid: boolean;
+  pack?: LexiconPack;
+  errors: string[];
+  warnings: string[];
+}
+
+export function isLexiconPack(data: unknown): boolean {
+  return !!data && typeof data === 'object' && (data as { format?: unknown }).format === LEXICON_PACK_FORMAT;
+}
+
+export function createLexiconPack(
+  manifest: Omit<LexiconPackManifest, 'createdAt'> & { createdAt?: string },
+  entries: LexiconEntry[],
+  aliases?: Record<string, string>
+): LexiconPack {
+  return {
+    format: LEXICON_PACK_FORMAT,
+    formatVersion: LEXICON_PACK_FORMAT_VERSION,
+    manifest: { ...manifest, createdAt: manifest.createdAt ?? new Date().toISOString() },
+    entries,
+    ...(aliases ? { aliases } : {}),
+  };
+}
+
+function validatePackEntry(entry: unknown): string[] {
+  if (!entry || typeof entry !== 'object') {
+    return ['invalid entry format'];
+  }
+
+  const obj = entry as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof obj.id !== 'string' || !normalizeGlossId(obj.id)) errors.push('missing id');
+  if (typeof obj.word !== 'string' || !obj.word.trim()) errors.push('missing word');
+  if (obj.aliases !== undefined && (!Array.isArray(obj.aliases) || obj.aliases.some((a) => typeof a !== 'string'))) {
+    errors.push('invalid aliases');
+  }
+  if (!SIGN_CATEGORIES.includes(obj.category as LexiconEntry['category'])) errors.push('invalid category');
+  if (obj.animation !== undefined && (typeof obj.animation !== 'object' || obj.animation === null)) {
+    errors.push('invalid animation');
+  }
+  if (obj.motion !== undefined && typeof obj.motion !== 'string') errors.push('invalid motion reference');
+
+  return errors;
+}
+
+/**
+ * Validate pack structure, then check it against the lexicon it will be
+ * loaded into. Structural problems are errors; sign conflicts are warnings.
+ */
+export function validateLexiconPack(data: unknown, lexicon: Lexicon = getLexicon()): LexiconPackValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isLexiconPack(data)) {
+    return { valid: false, errors: ['Not a SignMate lexicon pack'], warnings };
+  }
+
+  const obj = data as Record<string, unknown>;
+
+  if (typeof obj.formatVersion !== 'number' || obj.formatVersion > LEXICON_PACK_FORMAT_VERSION) {
+    errors.push(`Unsupported pack format version: ${String(obj.formatVersion)}`);
+  }
+
+  const manifest = obj.manifest as Record<string, unknown> | undefined;
+  if (!manifest || typeof manifest !== 'object') {
+    errors.push('Missing manifest');
+  } else {
+    if (typeof manifest.id !== 'string' || !manifest.id) errors.push('Manifest is missing an id');
+    if (typeof manifest.name !== 'string' || !manifest.name) errors.push('Manifest is missing a name');
+    if (typeof manifest.version !== 'string' || !manifest.version) errors.push('Manifest is missing a version');
+  }
+
+  if (!Array.isArray(obj.entries)) {
+    errors.push('Missing or invalid entries array');
+  } else {
+    obj.entries.forEach((entry: unknown, index: number) => {
+      const entryErrors = validatePackEntry(entry);
+      if (entryErrors.length > 0) {
+        errors.push(`Entry ${index}: ${entryErrors.join(', ')}`);
+      }
+    });
+  }
+
+  if (obj.aliases !== undefined && (typeof obj.aliases !== 'object' || obj.aliases === null)) {
+    errors.push('Invalid aliases map');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  const pack: LexiconPack = {
+    ...(data as LexiconPack),
+    entries: (obj.entries as LexiconEntry[]).map((entry) => ({ ...entry, aliases: entry.aliases ?? [] })),
+  };
+
+  // Glosses must be unique within the pack; replacing a built-in sign is allowed
+  const packIds = new Set<string>();
+  pack.entries.forEach((entry) => {
+    const id = normalizeGlossId(entry.id);
+    if (packIds.has(id)) errors.push(`Gloss ${id} is defined more than once`);
+    packIds.add(id);
+  });
+
+  Object.entries(pack.aliases ?? {}).forEach(([word, gloss]) => {
+    if (typeof gloss !== 'string' || (!packIds.has(normalizeGlossId(gloss)) && !lexicon.get(gloss))) {
+      errors.push(`Alias "${word}" targets unknown gloss ${String(gloss)}`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors, warnings };
+  }
+
+  const merged = [...lexicon.getEntries().filter((entry) => !packIds.has(entry.id)), ...applyAliases(pack, lexicon)];
+  validateLexicon(merged)
+    .issues.filter((issue) => issue.type !== 'duplicate-gloss' && isPackIssue(issue.gloss, pack))
+    .forEach((issue) => warnings.push(issue.message));
+
+  return { valid: true, pack, errors, warnings };
+}
+
+function isPackIssue(gloss: string, pack: LexiconPack): boolean {
+  return (
+    pack.entries.some((entry) => normalizeGlossId(entry.id) === gloss) ||
+    Object.values(pack.aliases ?? {}).some((target) => normalizeGlossId(target) === gloss)
+  );
+}
+
+// Pack entries plus existing entries that gain aliases from the pack
+function applyAliases(pack: LexiconPack, lexicon: Lexicon): LexiconEntry[] {
+  const entries = new Map<string, LexiconEntry>();
+  pack.entries.forEach((entry) => entries.set(normalizeGlossId(entry.id), { ...entry }));
+
+  Object.entries(pack.aliases ?? {}).forEach(([word, gloss]) => {
+    const id = normalizeGlossId(gloss);
+    const target = entries.get(id) ?? lexicon.get(id);
+    if (target && !target.aliases.includes(word)) {
+      entries.set(id, { ...target, aliases: [...target.aliases, word] });
+    }
+  });
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Lexicon Pack Manager
+ *
+ * Packs are applied in load order on top of the built-in lexicon, so a
+ * later pack wins when two packs define the same gloss. Unloading restores
+ * the touched signs and replays the remaining packs.
+ */
+export class LexiconPackManager {
+  private packs: LexiconPack[] = [];
+  // Lexicon state of every gloss a pack has touched (null: did not exist)
+  private baseEntries: Map<string, LexiconEntry | null> = new Map();
+
+  constructor(
+    private lexicon: Lexicon = getLexicon(),
+    private dictionary: SignDictionary = getSignDictionary(),
+    private offline: OfflineManager | null = getOfflineManager()
+  ) {}
+
+  /**
+   * Load packs saved by a previous session
+   */
+  restore(): number {
+    const saved = this.offline?.getCached<LexiconPack[]>(STORAGE_KEY) ?? [];
+    let restored = 0;
+
+    saved.forEach((pack) => {
+      const result = validateLexiconPack(pack, this.lexicon);
+      if (result.valid && result.pack) {
+        this.upsert(result.pack);
+        restored++;
+      } else {
+        console.warn(`[LexiconPacks] Skipping saved pack ${pack?.manifest?.id}:`, result.errors);
+      }
+    });
+
+    if (restored > 0) this.apply();
+    return restored;
+  }
+
+  /**
+   * Validate and register a pack, replacing an earlier version with the same id
+   */
+  load(data: unknown): LexiconPackValidation {
+    const result = validateLexiconPack(data, this.lexicon);
+    if (!result.valid || !result.pack) return result;
+
+    this.upsert(result.pack);
+    this.apply();
+    this.persist();
+    return result;
+  }
+
+  unload(packId: string): boolean {
+    const before = this.packs.length;
+    this.packs = this.packs.filter((pack) => pack.manifest.id !== packId);
+    if (this.packs.length === before) return false;
+
+    this.apply();
+    this.persist();
+    return true;
+  }
+
+  getPack(packId: string): LexiconPack | undefined {
+    return this.packs.find((pack) => pack.manifest.id === packId);
+  }
+
+  getPacks(): LexiconPackManifest[] {
+    return this.packs.map((pack) => pack.manifest);
+  }
+
+  exportPack(packId: string): string | null {
+    const pack = this.getPack(packId);
+    return pack ? JSON.stringify(pack, null, 2) : null;
+  }
+
+  private upsert(pack: LexiconPack): void {
+    const index = this.packs.findIndex((existing) => existing.manifest.id === pack.manifest.id);
+    if (index >= 0) {
+      this.packs[index] = pack;
+    } else {
+      this.packs.push(pack);
+    }
+  }
+
+  private apply(): void {
+    // Back to the built-in state for everything packs have touched
+    this.baseEntries.forEach((entry, id) => {
+      if (entry) {
+        this.lexicon.add(entry);
+      } else {
+        this.lexicon.remove(id);
+      }
+    });
+    const touched = new Set(this.baseEntries.keys());
+
+    this.packs.forEach((pack) => {
+      applyAliases(pack, this.lexicon).forEach((entry) => {
+        const id = normalizeGlossId(entry.id);
+        if (!this.baseEntries.has(id)) {
+          this.baseEntries.set(id, this.lexicon.get(id) ?? null);
+        }
+        this.lexicon.add(entry);
+        touched.add(id);
+      });
+    });
+
+    touched.forEach((id) => this.syncDictionary(id));
+  }
+
+  private syncDictionary(id: string): void {
+    const entry = this.lexicon.get(id);
+    const signEntry = entry ? lexiconEntryToSignEntry(entry) : null;
+    if (signEntry) {
+      this.dictionary.addEntry(signEntry);
+    } else {
+      this.dictionary.removeEntry(id);
+    }
+  }
+
+  private persist(): void {
+    this.offline?.cache(STORAGE_KEY, this.packs);
+  }
+}
+
+// Singleton instance
+let packManagerInstance: LexiconPackManager | null = null;
+
+/**
+ * Get the singleton LexiconPackManager, restoring saved packs on first use
+ */
+export function getLexiconPackManager(): LexiconPackManager {
+  if (!packManagerInstance) {
+    packManagerInstance = new LexiconPackManager();
+    packManagerInstance.restore();
+  }
+  return packManagerInstance;
+}
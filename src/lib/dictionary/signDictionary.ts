@@ -1,36 +1,23 @@
 /**
  * Sign Dictionary
  *
- * A comprehensive dictionary of ASL signs with metadata,
- * descriptions, and usage information.
+ * Searchable dictionary of ASL signs with metadata, descriptions
+ * and usage information. Entries are loaded from the sign lexicon.
  */
 
 import type { HandShape, SignLocation, SignMovement } from '@/types';
-
-// Sign categories
-export type SignCategory =
-  | 'alphabet'
-  | 'numbers'
-  | 'common'
-  | 'greetings'
-  | 'pronouns'
-  | 'questions'
-  | 'time'
-  | 'colors'
-  | 'family'
-  | 'food'
-  | 'animals'
-  | 'emotions'
-  | 'actions'
-  | 'descriptors'
-  | 'locations'
-  | 'technology'
-  | 'academic'
-  | 'medical'
-  | 'legal';
-
-// Difficulty levels
-export type SignDifficulty = 'beginner' | 'intermediate' | 'advanced';
+import {
+  getLexicon,
+  normalizeGlossId,
+  type Lexicon,
+  type LexiconEntry,
+  type SignCategory,
+  type SignDifficulty,
+} from '@/lib/asl/lexicon';
+import { resolveTwoHandedType } from '@/lib/asl/twoHanded';
+
+// Categories and difficulty levels are defined by the lexicon
+export type { SignCategory, SignDifficulty };
 
 // Sign entry in the dictionary
 export interface SignEntry {
@@ -87,273 +74,42 @@ export interface SignSearchResult {
   suggestions?: string[];
 }
 
-// Base dictionary with common ASL signs
-const BASE_DICTIONARY: SignEntry[] = [
-  // Greetings
-  {
-    id: 'hello',
-    gloss: 'HELLO',
-    englishWord: 'hello',
-    englishAliases: ['hi', 'hey', 'greetings'],
-    definition: 'A greeting used to acknowledge someone.',
-    example: 'HELLO MY NAME WHAT?',
-    category: 'greetings',
-    difficulty: 'beginner',
-    handshape: { dominant: 'flat-hand' },
-    location: { x: 0.3, y: 0.8, z: 0.3, reference: 'head' },
-    movement: { type: 'arc', direction: { x: 0.5, y: 0, z: 0.3 }, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Wave outward from forehead',
-    relatedSigns: ['goodbye', 'welcome'],
-  },
-  {
-    id: 'goodbye',
-    gloss: 'GOODBYE',
-    englishWord: 'goodbye',
-    englishAliases: ['bye', 'see you', 'farewell'],
-    definition: 'A farewell expression.',
-    example: 'GOODBYE SEE YOU TOMORROW',
-    category: 'greetings',
-    difficulty: 'beginner',
-    handshape: { dominant: 'open-hand' },
-    location: { x: 0, y: 0.5, z: 0.5, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: 0.3, z: 0 }, repetitions: 2, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    relatedSigns: ['hello', 'later'],
-  },
-  {
-    id: 'thank-you',
-    gloss: 'THANK-YOU',
-    englishWord: 'thank you',
-    englishAliases: ['thanks', 'grateful'],
-    definition: 'Expression of gratitude.',
-    example: 'THANK-YOU FOR HELP',
-    category: 'greetings',
-    difficulty: 'beginner',
-    handshape: { dominant: 'flat-hand' },
-    location: { x: 0, y: 0.5, z: 0.3, reference: 'face' },
-    movement: { type: 'arc', direction: { x: 0, y: -0.3, z: 0.5 }, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-  },
-
-  // Pronouns
-  {
-    id: 'i-me',
-    gloss: 'I/ME',
-    englishWord: 'I',
-    englishAliases: ['me', 'myself'],
-    definition: 'First person singular pronoun.',
-    example: 'I WANT COFFEE',
-    category: 'pronouns',
-    difficulty: 'beginner',
-    handshape: { dominant: 'point' },
-    location: { x: 0, y: 0, z: 0.2, reference: 'chest' },
-    movement: { type: 'static', speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    relatedSigns: ['you', 'we', 'they'],
-  },
-  {
-    id: 'you',
-    gloss: 'YOU',
-    englishWord: 'you',
-    englishAliases: ['yourself'],
-    definition: 'Second person pronoun.',
-    example: 'YOU UNDERSTAND?',
-    category: 'pronouns',
-    difficulty: 'beginner',
-    handshape: { dominant: 'point' },
-    location: { x: 0, y: 0, z: 0.5, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: 0, z: 0.3 }, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    relatedSigns: ['i-me', 'we', 'they'],
-  },
-
-  // Questions
-  {
-    id: 'what',
-    gloss: 'WHAT',
-    englishWord: 'what',
-    englishAliases: [],
-    definition: 'Question word asking for information.',
-    example: 'WHAT YOUR NAME?',
-    category: 'questions',
-    difficulty: 'beginner',
-    handshape: { dominant: 'open-hand', nonDominant: 'open-hand' },
-    location: { x: 0, y: 0, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0.5, y: 0, z: 0 }, speed: 'normal' },
-    twoHanded: true,
-    symmetrical: true,
-    frequency: 'common',
-    notes: 'Palms up, shake hands slightly side to side',
-    relatedSigns: ['who', 'where', 'when', 'why', 'how'],
-  },
-  {
-    id: 'where',
-    gloss: 'WHERE',
-    englishWord: 'where',
-    englishAliases: [],
-    definition: 'Question word asking for location.',
-    example: 'WHERE BATHROOM?',
-    category: 'questions',
-    difficulty: 'beginner',
-    handshape: { dominant: 'point' },
-    location: { x: 0, y: 0.3, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0.3, y: 0, z: 0 }, repetitions: 2, speed: 'fast' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Index finger wags side to side',
-    relatedSigns: ['what', 'who', 'when', 'why', 'how'],
-  },
-
-  // Common words
-  {
-    id: 'yes',
-    gloss: 'YES',
-    englishWord: 'yes',
-    englishAliases: ['yeah', 'correct', 'right'],
-    definition: 'Affirmative response.',
-    example: 'YES I UNDERSTAND',
-    category: 'common',
-    difficulty: 'beginner',
-    handshape: { dominant: 's-hand' },
-    location: { x: 0, y: 0.3, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, repetitions: 2, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'S-hand nods like a nodding head',
-    relatedSigns: ['no', 'maybe'],
-  },
-  {
-    id: 'no',
-    gloss: 'NO',
-    englishWord: 'no',
-    englishAliases: ['not', 'nope'],
-    definition: 'Negative response.',
-    example: 'NO THANK-YOU',
-    category: 'common',
-    difficulty: 'beginner',
-    handshape: { dominant: 'u-hand' },
-    location: { x: 0, y: 0.3, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: 0, z: -0.1 }, speed: 'fast' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Index and middle finger snap together with thumb',
-    relatedSigns: ['yes', 'maybe', 'not'],
-  },
-  {
-    id: 'please',
-    gloss: 'PLEASE',
-    englishWord: 'please',
-    englishAliases: [],
-    definition: 'Polite request modifier.',
-    example: 'HELP PLEASE',
-    category: 'common',
-    difficulty: 'beginner',
-    handshape: { dominant: 'flat-hand' },
-    location: { x: 0, y: 0, z: 0.1, reference: 'chest' },
-    movement: { type: 'circular', speed: 'slow' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Flat hand circles on chest',
-  },
-
-  // Time
-  {
-    id: 'now',
-    gloss: 'NOW',
-    englishWord: 'now',
-    englishAliases: ['today', 'current'],
-    definition: 'Present time.',
-    example: 'NOW WE START',
-    category: 'time',
-    difficulty: 'beginner',
-    handshape: { dominant: 'bent-hand', nonDominant: 'bent-hand' },
-    location: { x: 0, y: 0, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: -0.2, z: 0 }, speed: 'normal' },
-    twoHanded: true,
-    symmetrical: true,
-    frequency: 'common',
-    relatedSigns: ['later', 'before', 'after'],
-  },
-
-  // Actions
-  {
-    id: 'help',
-    gloss: 'HELP',
-    englishWord: 'help',
-    englishAliases: ['assist', 'aid'],
-    definition: 'To give assistance.',
-    example: 'I HELP YOU',
-    category: 'actions',
-    difficulty: 'beginner',
-    handshape: { dominant: 'a-hand', nonDominant: 'flat-hand' },
-    location: { x: 0, y: 0, z: 0.3, reference: 'neutral' },
-    movement: { type: 'linear', direction: { x: 0, y: 0.3, z: 0 }, speed: 'normal' },
-    twoHanded: true,
-    frequency: 'common',
-    notes: 'A-hand on flat palm, lift up together',
-  },
-  {
-    id: 'understand',
-    gloss: 'UNDERSTAND',
-    englishWord: 'understand',
-    englishAliases: ['comprehend', 'get it'],
-    definition: 'To comprehend or grasp.',
-    example: 'I UNDERSTAND NOW',
-    category: 'actions',
-    difficulty: 'beginner',
-    handshape: { dominant: 'point' },
-    location: { x: 0.2, y: 0.7, z: 0.3, reference: 'head' },
-    movement: { type: 'linear', direction: { x: 0, y: 0.2, z: 0 }, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Finger flicks up near forehead',
-    relatedSigns: ['know', 'learn', 'think'],
-  },
-
-  // Descriptors
-  {
-    id: 'good',
-    gloss: 'GOOD',
-    englishWord: 'good',
-    englishAliases: ['great', 'fine', 'well'],
-    definition: 'Positive quality.',
-    example: 'YOU GOOD?',
-    category: 'descriptors',
-    difficulty: 'beginner',
-    handshape: { dominant: 'flat-hand', nonDominant: 'flat-hand' },
-    location: { x: 0, y: 0.4, z: 0.3, reference: 'face' },
-    movement: { type: 'arc', direction: { x: 0, y: -0.3, z: 0.3 }, speed: 'normal' },
-    twoHanded: true,
-    frequency: 'common',
-    notes: 'Dominant hand moves from chin to rest on non-dominant palm',
-    relatedSigns: ['bad', 'better', 'best'],
-    antonyms: ['bad'],
-  },
-  {
-    id: 'bad',
-    gloss: 'BAD',
-    englishWord: 'bad',
-    englishAliases: ['terrible', 'awful'],
-    definition: 'Negative quality.',
-    example: 'WEATHER BAD TODAY',
-    category: 'descriptors',
-    difficulty: 'beginner',
-    handshape: { dominant: 'flat-hand' },
-    location: { x: 0, y: 0.4, z: 0.3, reference: 'face' },
-    movement: { type: 'arc', direction: { x: 0, y: -0.3, z: 0.3 }, speed: 'normal' },
-    twoHanded: false,
-    frequency: 'common',
-    notes: 'Flat hand from chin moves down with palm turning down',
-    relatedSigns: ['good', 'worse', 'worst'],
-    antonyms: ['good'],
-  },
-];
+// Dictionary view of a lexicon entry
+export function lexiconEntryToSignEntry(entry: LexiconEntry): SignEntry | null {
+  if (!entry.animation) return null;
+
+  const { handshape, location, movement } = entry.animation;
+  // Regions listed on the entry plus those with a recorded variant
+  const regions = Array.from(
+    new Set([
+      ...(entry.regionalVariants ?? []),
+      ...(entry.variants ?? []).flatMap((variant) => (variant.region ? [variant.region] : [])),
+    ])
+  );
+  return {
+    id: entry.id,
+    gloss: entry.id,
+    englishWord: entry.word,
+    englishAliases: entry.aliases,
+    definition: entry.definition ?? '',
+    example: entry.example ?? '',
+    category: entry.category,
+    difficulty: entry.difficulty ?? 'beginner',
+    handshape,
+    location,
+    movement,
+    twoHanded: entry.twoHanded ?? !!handshape.nonDominant,
+    ...(handshape.nonDominant ? { symmetrical: resolveTwoHandedType(handshape) !== 'base' } : {}),
+    frequency: entry.frequency ?? 'common',
+    ...(entry.notes ? { notes: entry.notes } : {}),
+    ...(regions.length > 0 ? { regionalVariants: regions } : {}),
+    ...(entry.relatedSigns ? { relatedSigns: entry.relatedSigns } : {}),
+    ...(entry.antonyms ? { antonyms: entry.antonyms } : {}),
+    ...(entry.registerFormal !== undefined ? { registerFormal: entry.registerFormal } : {}),
+    ...(entry.contextHints ? { contextHints: entry.contextHints } : {}),
+    animationData: entry.animation,
+  };
+}
 
 // Sign Dictionary class
 export class SignDictionary {
@@ -361,22 +117,30 @@ export class SignDictionary {
   private glossIndex: Map<string, string> = new Map();
   private wordIndex: Map<string, string[]> = new Map();
   private categoryIndex: Map<SignCategory, string[]> = new Map();
+  private lexiconVersion = '';
 
-  constructor() {
-    this.loadBaseDictionary();
+  constructor(lexicon: Lexicon = getLexicon()) {
+    this.loadBaseDictionary(lexicon);
   }
 
-  private loadBaseDictionary(): void {
-    BASE_DICTIONARY.forEach(entry => {
-      this.addEntry(entry);
+  private loadBaseDictionary(lexicon: Lexicon): void {
+    this.lexiconVersion = lexicon.version;
+    lexicon.getEntries().forEach(lexiconEntry => {
+      const entry = lexiconEntryToSignEntry(lexiconEntry);
+      if (entry) this.addEntry(entry);
     });
   }
 
   addEntry(entry: SignEntry): void {
+    // Replacing an entry drops its old words and gloss from the indexes
+    if (this.entries.has(entry.id)) {
+      this.removeEntry(entry.id);
+    }
+
     this.entries.set(entry.id, entry);
 
     // Index by gloss
-    this.glossIndex.set(entry.gloss.toLowerCase(), entry.id);
+    this.glossIndex.set(normalizeGlossId(entry.gloss).toLowerCase(), entry.id);
 
     // Index by English word and aliases
     const words = [entry.englishWord.toLowerCase(), ...entry.englishAliases.map(a => a.toLowerCase())];
@@ -396,12 +160,37 @@ export class SignDictionary {
     }
   }
 
+  removeEntry(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    this.entries.delete(id);
+    this.glossIndex.forEach((entryId, gloss) => {
+      if (entryId === id) this.glossIndex.delete(gloss);
+    });
+    this.wordIndex.forEach((ids, word) => {
+      const remaining = ids.filter(entryId => entryId !== id);
+      if (remaining.length > 0) {
+        this.wordIndex.set(word, remaining);
+      } else {
+        this.wordIndex.delete(word);
+      }
+    });
+    const categoryEntries = (this.categoryIndex.get(entry.category) || []).filter(entryId => entryId !== id);
+    if (categoryEntries.length > 0) {
+      this.categoryIndex.set(entry.category, categoryEntries);
+    } else {
+      this.categoryIndex.delete(entry.category);
+    }
+    return true;
+  }
+
   getEntry(id: string): SignEntry | undefined {
-    return this.entries.get(id);
+    return this.entries.get(id) ?? this.entries.get(normalizeGlossId(id));
   }
 
   getByGloss(gloss: string): SignEntry | undefined {
-    const id = this.glossIndex.get(gloss.toLowerCase());
+    const id = this.glossIndex.get(normalizeGlossId(gloss).toLowerCase());
     return id ? this.entries.get(id) : undefined;
   }
 
@@ -493,6 +282,10 @@ export class SignDictionary {
     return Array.from(this.categoryIndex.keys());
   }
 
+  getLexiconVersion(): string {
+    return this.lexiconVersion;
+  }
+
   getEntryCount(): number {
     return this.entries.size;
   }
@@ -7,6 +7,7 @@ import type {
   DisplayConfig,
 } from '@/types';
 import { SessionExportData } from './dataExporter';
+import { isLexiconPack, validateLexiconPack, type LexiconPack } from '@/lib/dictionary/lexiconPacks';
 
 export interface ImportResult<T> {
   success: boolean;
@@ -133,6 +134,32 @@ export function parseJSONImport(jsonString: string): ImportResult<SessionExportD
   }
 }
 
+export function isLexiconPackJSON(jsonString: string): boolean {
+  try {
+    return isLexiconPack(JSON.parse(jsonString));
+  } catch {
+    return false;
+  }
+}
+
+export function parseLexiconPackImport(jsonString: string): ImportResult<LexiconPack> {
+  try {
+    const result = validateLexiconPack(JSON.parse(jsonString));
+    return {
+      success: result.valid,
+      data: result.pack,
+      errors: result.errors,
+      warnings: result.warnings,
+    };
+  } catch (e) {
+    return {
+      success: false,
+      errors: [`JSON parse error: ${e instanceof Error ? e.message : 'Unknown error'}`],
+      warnings: []
+    };
+  }
+}
+
 export function parseCSVTranscriptions(csvString: string): ImportResult<TranscriptionSegment[]> {
   const errors: string[] = [];
   const warnings: string[] = [];
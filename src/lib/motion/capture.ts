@@ -27,6 +27,11 @@ import {
   extractEntryPose,
   extractExitPose,
 } from "./types";
+import {
+  encodeSignMotion,
+  SIGNMOTION_BINARY_MIME,
+  SIGNMOTION_BINARY_EXTENSION,
+} from "./codec";
 
 // ============================================================================
 // MediaPipe Result Converters
@@ -306,12 +311,17 @@ export function saveMotionLocal(motion: SignMotion): void {
   localStorage.setItem(key, JSON.stringify(motion));
 }
 
+// Captures are stored under the gloss as typed; older ones under its upper case
+function localStorageKey(gloss: string): string {
+  const exact = `signmate-motion-${gloss}`;
+  return localStorage.getItem(exact) !== null ? exact : `signmate-motion-${gloss.toUpperCase()}`;
+}
+
 /**
- * Load SignMotion from localStorage
+ * Load SignMotion from localStorage (gloss as listed by listSavedMotions)
  */
 export function loadMotionLocal(gloss: string): SignMotion | null {
-  const key = `signmate-motion-${gloss.toUpperCase()}`;
-  const data = localStorage.getItem(key);
+  const data = localStorage.getItem(localStorageKey(gloss));
   return data ? JSON.parse(data) : null;
 }
 
@@ -333,7 +343,7 @@ export function listSavedMotions(): string[] {
  * Delete a motion from localStorage
  */
 export function deleteMotionLocal(gloss: string): boolean {
-  const key = `signmate-motion-${gloss.toUpperCase()}`;
+  const key = localStorageKey(gloss);
   if (localStorage.getItem(key)) {
     localStorage.removeItem(key);
     return true;
@@ -342,16 +352,25 @@ export function deleteMotionLocal(gloss: string): boolean {
 }
 
 /**
- * Export motion as downloadable JSON file
+ * Export motion as downloadable JSON or compact binary file
  */
-export function downloadMotion(motion: SignMotion): void {
-  const json = JSON.stringify(motion, null, 2);
-  const blob = new Blob([json], { type: "application/json" });
+export function downloadMotion(
+  motion: SignMotion,
+  format: "json" | "binary" = "json",
+): void {
+  const blob =
+    format === "binary"
+      ? new Blob([encodeSignMotion(motion)], { type: SIGNMOTION_BINARY_MIME })
+      : new Blob([JSON.stringify(motion, null, 2)], {
+          type: "application/json",
+        });
   const url = URL.createObjectURL(blob);
 
   const a = document.createElement("a");
   a.href = url;
-  a.download = `${motion.gloss.toLowerCase()}.signmotion.json`;
+  a.download = `${motion.gloss.toLowerCase()}${
+    format === "binary" ? SIGNMOTION_BINARY_EXTENSION : ".signmotion.json"
+  }`;
   a.click();
 
   URL.revokeObjectURL(url);
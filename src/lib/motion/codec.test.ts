@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { addFrame, createSession, finalizeSession } from './capture';
+import { decodeSignMotion, encodeSignMotion, isEncodedSignMotion, MotionCodecError } from './codec';
+import { smplxToSignMotion } from './convert';
+import { createMotionLibrary } from './library';
+import type { HandFrame, SignMotion, Vec3 } from './types';
+
+const PUBLIC_DIR = join(__dirname, '../../../public');
+
+function smplxClip(name: string): SignMotion {
+  return smplxToSignMotion(JSON.parse(readFileSync(join(PUBLIC_DIR, 'signs', name), 'utf8')));
+}
+
+function allPositions(motion: SignMotion): Vec3[] {
+  return [
+    ...[...motion.leftHand, ...motion.rightHand].flatMap((hand) => hand.landmarks.map((l) => l.position)),
+    ...motion.body.flatMap((frame) => Object.values(frame.joints).map((joint) => joint!.position)),
+  ];
+}
+
+function maxError(a: number[], b: number[]): number {
+  return Math.max(...a.map((value, i) => Math.abs(value - b[i])));
+}
+
+function hand(x: number): HandFrame {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, i) => ({ position: { x: x + i * 0.01, y: 0.5, z: -0.02 }, visibility: 0.9 })),
+    confidence: 0.97,
+  };
+}
+
+// A MediaPipe capture with blendshapes, head pose and a dropped left hand
+function capturedClip(): SignMotion {
+  const session = createSession('hello');
+  for (let i = 0; i < 4; i++) {
+    addFrame(session, {
+      timestamp: i * 33,
+      rightHand: hand(0.4 + i * 0.02),
+      face: {
+        blendshapes: { browInnerUp: 0.25 * i, jawOpen: 0.1 },
+        headRotation: { x: 0, y: 0.1 * i, z: 0, w: Math.sqrt(1 - 0.01 * i * i) },
+        headPosition: { x: 0.5, y: 0.3, z: -0.1 },
+      },
+      body: {
+        joints: {
+          leftShoulder: { position: { x: 0.62, y: 0.55, z: 0 }, visibility: 0.99 },
+          rightShoulder: { position: { x: 0.38, y: 0.55, z: 0 } },
+        },
+      },
+    });
+  }
+  return finalizeSession(session, { notes: 'test' });
+}
+
+describe('SignMotion codec', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should round-trip SMPL-X clips within the position bound', () => {
+    const motion = smplxClip('year.json');
+    const decoded = decodeSignMotion(encodeSignMotion(motion));
+    const original = allPositions(motion);
+    const restored = allPositions(decoded);
+
+    expect(decoded.gloss).toBe(motion.gloss);
+    expect(decoded.frameCount).toBe(motion.frameCount);
+    expect(decoded.durationMs).toBe(motion.durationMs);
+    expect(decoded.metadata).toEqual(motion.metadata);
+    expect(restored).toHaveLength(original.length);
+
+    for (const axis of ['x', 'y', 'z'] as const) {
+      const values = original.map((p) => p[axis]);
+      const bound = (Math.max(...values) - Math.min(...values)) / 131070;
+      expect(maxError(values, restored.map((p) => p[axis]))).toBeLessThanOrEqual(bound + 1e-12);
+    }
+    expect(
+      maxError(
+        motion.leftHand.map((h) => h.confidence),
+        decoded.leftHand.map((h) => h.confidence),
+      ),
+    ).toBeLessThanOrEqual(1 / 510);
+    expect(decoded.exitPose.rightHand).toBe(decoded.rightHand.at(-1));
+  });
+
+  it('should be an order of magnitude smaller than JSON', () => {
+    const source = readFileSync(join(PUBLIC_DIR, 'signs', 'help.json'));
+    const motion = smplxClip('help.json');
+    const encoded = encodeSignMotion(motion);
+
+    expect(encoded.byteLength * 10).toBeLessThan(JSON.stringify(motion).length);
+    expect(encoded.byteLength * 5).toBeLessThan(source.byteLength);
+  });
+
+  it('should keep optional fields and blendshapes of captured clips', () => {
+    const motion = capturedClip();
+    const decoded = decodeSignMotion(encodeSignMotion(motion));
+    const face = decoded.face[3];
+    const joints = decoded.body[0].joints;
+
+    expect(Object.keys(face.blendshapes).sort()).toEqual(['browInnerUp', 'jawOpen']);
+    expect(face.blendshapes.browInnerUp).toBeCloseTo(0.75, 2);
+    expect(face.headRotation!.y).toBeCloseTo(0.3, 4);
+    expect(face.headPosition!.y).toBeCloseTo(0.3, 4);
+    expect(joints.leftShoulder!.visibility).toBeCloseTo(0.99, 2);
+    expect(joints.rightShoulder).not.toHaveProperty('visibility');
+    expect(joints.leftElbow).toBeUndefined();
+    // Untracked frames come back untracked
+    expect(decoded.leftHand[0].confidence).toBe(0);
+    expect(decoded.rightHand[0].landmarks[5].visibility).toBeCloseTo(0.9, 2);
+    expect(decoded.metadata?.notes).toBe('test');
+  });
+
+  it('should reject data that is not a complete binary clip', () => {
+    const encoded = encodeSignMotion(capturedClip());
+    const future = encoded.slice();
+    future[4] = 99;
+
+    expect(isEncodedSignMotion(new TextEncoder().encode('{"gloss":"X"}'))).toBe(false);
+    expect(() => decodeSignMotion(new TextEncoder().encode('{}'))).toThrow(MotionCodecError);
+    expect(() => decodeSignMotion(encoded.slice(0, encoded.length - 10))).toThrow('Unexpected end');
+    expect(() => decodeSignMotion(future)).toThrow('version 99');
+  });
+
+  it('should let the motion library load binary clips', async () => {
+    const motion = smplxClip('help.json');
+    vi.spyOn(global, 'fetch').mockImplementation(async () => new Response(encodeSignMotion(motion)));
+    const library = createMotionLibrary({ manifestUrl: null, includeLocal: false, includeStore: false });
+
+    library.register('HELP', '/motions/help.signmotion');
+    const loaded = await library.load('HELP');
+
+    expect(loaded?.frameCount).toBe(motion.frameCount);
+    expect(loaded?.metadata?.captureSource).toBe('smplx');
+  });
+});
@@ -0,0 +1,448 @@
+/**
+ * Binary SignMotion Codec
+ *
+ * Compact quantized encoding for SignMotion clips, over 10x smaller
+ * than the JSON form. Layout (little-endian):
+ *
+ *   magic "SGNM", version u8
+ *   header JSON (u32 length + UTF-8): gloss, fps, durationMs, metadata
+ *   position bounds: min/max per axis (6 × f64)
+ *   blendshape table: u8 count + u8 index into ARKIT_BLENDSHAPES per key
+ *   frameCount u32, then per track (left hand, right hand, body, face)
+ *   a u32 frame count followed by its frames
+ *
+ * Quantization error bounds:
+ * - positions: 16 bits across the clip's range per axis, so at most
+ *   range / 131070 (≈ 8e-6 for a clip spanning the whole image)
+ * - rotations: 16 bits per quaternion component, at most 1 / 65534
+ * - blendshapes, visibility and confidence: 8 bits over 0-1, at most 1 / 510
+ *
+ * Entry and exit poses are rebuilt from the first and last frames.
+ */
+
+import {
+  SignMotion,
+  HandFrame,
+  FaceFrame,
+  BodyFrame,
+  Vec3,
+  Quat,
+  ARKitBlendshape,
+  ARKIT_BLENDSHAPES,
+  UPPER_BODY_JOINTS,
+  extractEntryPose,
+  extractExitPose,
+} from "./types";
+
+export const SIGNMOTION_BINARY_VERSION = 1;
+export const SIGNMOTION_BINARY_MIME = "application/x-signmotion";
+export const SIGNMOTION_BINARY_EXTENSION = ".signmotion";
+
+const MAGIC = [0x53, 0x47, 0x4e, 0x4d]; // "SGNM"
+
+// Hand frame flags
+const HAND_HAS_VISIBILITY = 1;
+
+// Face frame flags
+const FACE_HAS_ROTATION = 1;
+const FACE_HAS_POSITION = 2;
+
+export class MotionCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MotionCodecError";
+  }
+}
+
+interface Bounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+// ============================================================================
+// Byte buffers
+// ============================================================================
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(4096);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  private reserve(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+    let size = this.buffer.byteLength * 2;
+    while (size < this.offset + bytes) size *= 2;
+    const next = new ArrayBuffer(size);
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  i16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  bytes(data: Uint8Array): void {
+    this.reserve(data.length);
+    new Uint8Array(this.buffer, this.offset, data.length).set(data);
+    this.offset += data.length;
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.buffer.slice(0, this.offset));
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private take(bytes: number): number {
+    if (this.offset + bytes > this.data.byteLength) {
+      throw new MotionCodecError("Unexpected end of SignMotion data");
+    }
+    const at = this.offset;
+    this.offset += bytes;
+    return at;
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2), true);
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.take(2), true);
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.take(4), true);
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8), true);
+  }
+
+  bytes(length: number): Uint8Array {
+    const at = this.take(length);
+    return this.data.subarray(at, at + length);
+  }
+}
+
+// ============================================================================
+// Quantization
+// ============================================================================
+
+const AXES = ["x", "y", "z"] as const;
+
+function quantizeUnit(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 255);
+}
+
+function writePosition(writer: ByteWriter, p: Vec3, bounds: Bounds): void {
+  for (const axis of AXES) {
+    const range = bounds.max[axis] - bounds.min[axis];
+    writer.u16(range > 0 ? Math.round(((p[axis] - bounds.min[axis]) / range) * 65535) : 0);
+  }
+}
+
+function readPosition(reader: ByteReader, bounds: Bounds): Vec3 {
+  const [x, y, z] = AXES.map(
+    (axis) => bounds.min[axis] + (reader.u16() / 65535) * (bounds.max[axis] - bounds.min[axis]),
+  );
+  return { x, y, z };
+}
+
+function writeQuat(writer: ByteWriter, q: Quat): void {
+  for (const component of [q.x, q.y, q.z, q.w]) {
+    writer.i16(Math.round(Math.min(1, Math.max(-1, component)) * 32767));
+  }
+}
+
+function readQuat(reader: ByteReader): Quat {
+  const [x, y, z, w] = [0, 0, 0, 0].map(() => reader.i16() / 32767);
+  return { x, y, z, w };
+}
+
+/**
+ * Per-axis extent of every position in the clip
+ */
+function positionBounds(motion: SignMotion): Bounds {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  const include = (p: Vec3) => {
+    for (const axis of AXES) {
+      min[axis] = Math.min(min[axis], p[axis]);
+      max[axis] = Math.max(max[axis], p[axis]);
+    }
+  };
+
+  for (const hand of [...motion.leftHand, ...motion.rightHand]) {
+    hand.landmarks.forEach((landmark) => include(landmark.position));
+  }
+  for (const frame of motion.body) {
+    Object.values(frame.joints).forEach((joint) => joint && include(joint.position));
+  }
+  for (const face of motion.face) {
+    if (face.headPosition) include(face.headPosition);
+  }
+
+  if (min.x === Infinity) {
+    return { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+  }
+  return { min, max };
+}
+
+// ============================================================================
+// Tracks
+// ============================================================================
+
+function writeHands(writer: ByteWriter, hands: HandFrame[], bounds: Bounds): void {
+  writer.u32(hands.length);
+  for (const hand of hands) {
+    const hasVisibility = hand.landmarks.some((landmark) => landmark.visibility !== undefined);
+    writer.u8(hasVisibility ? HAND_HAS_VISIBILITY : 0);
+    writer.u8(quantizeUnit(hand.confidence));
+    writer.u8(hand.landmarks.length);
+    for (const landmark of hand.landmarks) {
+      writePosition(writer, landmark.position, bounds);
+      if (hasVisibility) writer.u8(quantizeUnit(landmark.visibility ?? 1));
+    }
+  }
+}
+
+function readHands(reader: ByteReader, bounds: Bounds): HandFrame[] {
+  return Array.from({ length: reader.u32() }, () => {
+    const flags = reader.u8();
+    const confidence = reader.u8() / 255;
+    const landmarks = Array.from({ length: reader.u8() }, () => {
+      const position = readPosition(reader, bounds);
+      return flags & HAND_HAS_VISIBILITY ? { position, visibility: reader.u8() / 255 } : { position };
+    });
+    return { landmarks, confidence };
+  });
+}
+
+// One bit per UPPER_BODY_JOINTS entry for position, rotation and visibility
+function writeBody(writer: ByteWriter, body: BodyFrame[], bounds: Bounds): void {
+  writer.u32(body.length);
+  for (const frame of body) {
+    let present = 0;
+    let rotated = 0;
+    let visible = 0;
+    UPPER_BODY_JOINTS.forEach((joint, bit) => {
+      const data = frame.joints[joint];
+      if (!data) return;
+      present |= 1 << bit;
+      if (data.rotation) rotated |= 1 << bit;
+      if (data.visibility !== undefined) visible |= 1 << bit;
+    });
+    writer.u16(present);
+    writer.u16(rotated);
+    writer.u16(visible);
+
+    UPPER_BODY_JOINTS.forEach((joint) => {
+      const data = frame.joints[joint];
+      if (!data) return;
+      writePosition(writer, data.position, bounds);
+      if (data.rotation) writeQuat(writer, data.rotation);
+      if (data.visibility !== undefined) writer.u8(quantizeUnit(data.visibility));
+    });
+  }
+}
+
+function readBody(reader: ByteReader, bounds: Bounds): BodyFrame[] {
+  return Array.from({ length: reader.u32() }, () => {
+    const present = reader.u16();
+    const rotated = reader.u16();
+    const visible = reader.u16();
+    const joints: BodyFrame["joints"] = {};
+
+    UPPER_BODY_JOINTS.forEach((joint, bit) => {
+      if (!(present & (1 << bit))) return;
+      const position = readPosition(reader, bounds);
+      const rotation = rotated & (1 << bit) ? readQuat(reader) : undefined;
+      const visibility = visible & (1 << bit) ? reader.u8() / 255 : undefined;
+      joints[joint] = {
+        position,
+        ...(rotation && { rotation }),
+        ...(visibility !== undefined && { visibility }),
+      };
+    });
+    return { joints };
+  });
+}
+
+// Each frame stores a presence bitmask over the clip's blendshape table
+function writeFace(writer: ByteWriter, face: FaceFrame[], keys: ARKitBlendshape[], bounds: Bounds): void {
+  const maskBytes = Math.ceil(keys.length / 8);
+  writer.u32(face.length);
+  for (const frame of face) {
+    writer.u8((frame.headRotation ? FACE_HAS_ROTATION : 0) | (frame.headPosition ? FACE_HAS_POSITION : 0));
+
+    const mask = new Uint8Array(maskBytes);
+    keys.forEach((key, i) => {
+      if (frame.blendshapes[key] !== undefined) mask[i >> 3] |= 1 << (i & 7);
+    });
+    writer.bytes(mask);
+    keys.forEach((key) => {
+      const value = frame.blendshapes[key];
+      if (value !== undefined) writer.u8(quantizeUnit(value));
+    });
+
+    if (frame.headRotation) writeQuat(writer, frame.headRotation);
+    if (frame.headPosition) writePosition(writer, frame.headPosition, bounds);
+  }
+}
+
+function readFace(reader: ByteReader, keys: ARKitBlendshape[], bounds: Bounds): FaceFrame[] {
+  const maskBytes = Math.ceil(keys.length / 8);
+  return Array.from({ length: reader.u32() }, () => {
+    const flags = reader.u8();
+    const mask = reader.bytes(maskBytes);
+    const blendshapes: FaceFrame["blendshapes"] = {};
+    keys.forEach((key, i) => {
+      if (mask[i >> 3] & (1 << (i & 7))) blendshapes[key] = reader.u8() / 255;
+    });
+
+    const frame: FaceFrame = { blendshapes };
+    if (flags & FACE_HAS_ROTATION) frame.headRotation = readQuat(reader);
+    if (flags & FACE_HAS_POSITION) frame.headPosition = readPosition(reader, bounds);
+    return frame;
+  });
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Encode a clip into the compact binary format
+ */
+export function encodeSignMotion(motion: SignMotion): Uint8Array<ArrayBuffer> {
+  const writer = new ByteWriter();
+  MAGIC.forEach((byte) => writer.u8(byte));
+  writer.u8(SIGNMOTION_BINARY_VERSION);
+
+  const header = new TextEncoder().encode(
+    JSON.stringify({
+      gloss: motion.gloss,
+      fps: motion.fps,
+      durationMs: motion.durationMs,
+      metadata: motion.metadata,
+    }),
+  );
+  writer.u32(header.length);
+  writer.bytes(header);
+
+  const bounds = positionBounds(motion);
+  for (const axis of AXES) {
+    writer.f64(bounds.min[axis]);
+    writer.f64(bounds.max[axis]);
+  }
+
+  const keys = ARKIT_BLENDSHAPES.filter((key) => motion.face.some((frame) => frame.blendshapes[key] !== undefined));
+  writer.u8(keys.length);
+  keys.forEach((key) => writer.u8(ARKIT_BLENDSHAPES.indexOf(key)));
+
+  writer.u32(motion.frameCount);
+  writeHands(writer, motion.leftHand, bounds);
+  writeHands(writer, motion.rightHand, bounds);
+  writeBody(writer, motion.body, bounds);
+  writeFace(writer, motion.face, keys, bounds);
+
+  return writer.finish();
+}
+
+/**
+ * Whether the data starts with the binary SignMotion signature
+ */
+export function isEncodedSignMotion(data: ArrayBuffer | Uint8Array): boolean {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return bytes.length >= MAGIC.length && MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Decode a clip written by encodeSignMotion
+ */
+export function decodeSignMotion(data: ArrayBuffer | Uint8Array): SignMotion {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (!isEncodedSignMotion(bytes)) {
+    throw new MotionCodecError("Not a binary SignMotion file");
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.bytes(MAGIC.length);
+  const version = reader.u8();
+  if (version !== SIGNMOTION_BINARY_VERSION) {
+    throw new MotionCodecError(`Unsupported binary SignMotion version ${version}`);
+  }
+
+  const header = JSON.parse(new TextDecoder().decode(reader.bytes(reader.u32()))) as Pick<
+    SignMotion,
+    "gloss" | "fps" | "durationMs" | "metadata"
+  >;
+
+  const bounds: Bounds = { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+  for (const axis of AXES) {
+    bounds.min[axis] = reader.f64();
+    bounds.max[axis] = reader.f64();
+  }
+
+  const keys = Array.from({ length: reader.u8() }, () => {
+    const key = ARKIT_BLENDSHAPES[reader.u8()];
+    if (!key) throw new MotionCodecError("Unknown blendshape index");
+    return key;
+  });
+
+  const frameCount = reader.u32();
+  const motion: SignMotion = {
+    gloss: header.gloss,
+    leftHand: readHands(reader, bounds),
+    rightHand: readHands(reader, bounds),
+    body: readBody(reader, bounds),
+    face: readFace(reader, keys, bounds),
+    entryPose: {},
+    exitPose: {},
+    fps: header.fps,
+    frameCount,
+    durationMs: header.durationMs,
+    ...(header.metadata && { metadata: header.metadata }),
+  };
+  motion.entryPose = extractEntryPose(motion);
+  motion.exitPose = extractExitPose(motion);
+  return motion;
+}
@@ -0,0 +1,470 @@
+/**
+ * Motion format conversion
+ *
+ * Three motion representations exist in the project:
+ * - "signmotion": MediaPipe-landmark SignMotion recorded by capture.ts
+ * - "smplx": SMPL-X parameter arrays (public/signs/*.json)
+ * - "ik-position": joint-position frames (public/ik_data/*.json)
+ *
+ * Everything is converted to SignMotion so a single player can perform any
+ * clip. SMPL-X rotations are run through forward kinematics on a fixed
+ * upper-body skeleton, and joint positions (metres, y down, around the
+ * pelvis) are projected into MediaPipe-style normalized image coordinates.
+ */
+
+import {
+  type SignMotion,
+  type HandFrame,
+  type HandLandmark,
+  type FaceFrame,
+  type BodyFrame,
+  type Vec3,
+  HAND_LANDMARK_COUNT,
+  extractEntryPose,
+  extractExitPose,
+} from "./types";
+
+export type MotionFormat = "signmotion" | "smplx" | "ik-position";
+
+/** SMPL-X export: one 182-value parameter array per frame */
+export interface SMPLXMotionData {
+  gloss: string;
+  fps: number;
+  frameCount: number;
+  smplx: number[][];
+  leftValid?: boolean[];
+  rightValid?: boolean[];
+}
+
+export interface IKFingerJoints {
+  thumb: Vec3[];
+  index: Vec3[];
+  middle: Vec3[];
+  ring: Vec3[];
+  pinky: Vec3[];
+}
+
+export interface IKFrame {
+  head: Vec3;
+  neck: Vec3;
+  leftShoulder: Vec3;
+  rightShoulder: Vec3;
+  leftElbow: Vec3;
+  rightElbow: Vec3;
+  leftWrist: Vec3;
+  rightWrist: Vec3;
+  leftFingers: IKFingerJoints;
+  rightFingers: IKFingerJoints;
+}
+
+/** Joint-position export: three joints per finger, metres around the pelvis */
+export interface IKMotionData {
+  gloss: string;
+  fps: number;
+  frameCount: number;
+  frames: IKFrame[];
+}
+
+export class MotionFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MotionFormatError";
+  }
+}
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+// Finger order shared by MediaPipe landmarks (after the wrist) and both exports
+const FINGERS = ["thumb", "index", "middle", "ring", "pinky"] as const;
+type Finger = (typeof FINGERS)[number];
+
+// Projection of skeleton positions into normalized image coordinates:
+// pelvis near the bottom centre of the frame, shoulders about a quarter of it apart
+const IMAGE_SCALE = 0.8;
+const IMAGE_ORIGIN: Vec3 = { x: 0.5, y: 0.9, z: 0 };
+
+function toImageSpace(v: Vec3): Vec3 {
+  return {
+    x: IMAGE_ORIGIN.x + v.x * IMAGE_SCALE,
+    y: IMAGE_ORIGIN.y + v.y * IMAGE_SCALE,
+    z: IMAGE_ORIGIN.z + v.z * IMAGE_SCALE,
+  };
+}
+
+function add(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/**
+ * 21 MediaPipe hand landmarks from the wrist and three joints per finger.
+ * The fingertip is extrapolated along the last bone.
+ */
+function handFromJoints(
+  wrist: Vec3,
+  fingers: Record<Finger, Vec3[]>,
+  confidence: number,
+): HandFrame {
+  const landmarks: HandLandmark[] = [
+    { position: toImageSpace(wrist), visibility: confidence },
+  ];
+
+  for (const finger of FINGERS) {
+    const [j1, j2, j3] = fingers[finger];
+    const tip = add(j3, sub(j3, j2));
+    for (const joint of [j1, j2, j3, tip]) {
+      landmarks.push({ position: toImageSpace(joint), visibility: confidence });
+    }
+  }
+
+  return { landmarks, confidence };
+}
+
+function finalizeMotion(
+  gloss: string,
+  fps: number,
+  frames: { leftHand: HandFrame; rightHand: HandFrame; face: FaceFrame; body: BodyFrame }[],
+  captureSource: MotionFormat,
+): SignMotion {
+  const motion: SignMotion = {
+    gloss: gloss.toUpperCase(),
+    body: frames.map((frame) => frame.body),
+    leftHand: frames.map((frame) => frame.leftHand),
+    rightHand: frames.map((frame) => frame.rightHand),
+    face: frames.map((frame) => frame.face),
+    entryPose: {},
+    exitPose: {},
+    fps,
+    frameCount: frames.length,
+    durationMs: Math.round((frames.length / fps) * 1000),
+    metadata: {
+      id: `${gloss.toLowerCase()}-${captureSource}`,
+      capturedAt: new Date(0).toISOString(),
+      captureSource,
+    },
+  };
+
+  motion.entryPose = extractEntryPose(motion);
+  motion.exitPose = extractExitPose(motion);
+  return motion;
+}
+
+// ============================================================================
+// Joint positions
+// ============================================================================
+
+/**
+ * Convert joint-position frames to SignMotion. The head joint stands in
+ * for the nose landmark; hips are not part of the export.
+ */
+export function ikPositionsToSignMotion(data: IKMotionData): SignMotion {
+  const frames = data.frames.map((frame) => ({
+    leftHand: handFromJoints(frame.leftWrist, frame.leftFingers, 1),
+    rightHand: handFromJoints(frame.rightWrist, frame.rightFingers, 1),
+    face: { blendshapes: {} },
+    body: {
+      joints: {
+        nose: { position: toImageSpace(frame.head) },
+        leftShoulder: { position: toImageSpace(frame.leftShoulder) },
+        rightShoulder: { position: toImageSpace(frame.rightShoulder) },
+        leftElbow: { position: toImageSpace(frame.leftElbow) },
+        rightElbow: { position: toImageSpace(frame.rightElbow) },
+        leftWrist: { position: toImageSpace(frame.leftWrist) },
+        rightWrist: { position: toImageSpace(frame.rightWrist) },
+      },
+    },
+  }));
+
+  return finalizeMotion(data.gloss, data.fps, frames, "ik-position");
+}
+
+// ============================================================================
+// SMPL-X forward kinematics
+// ============================================================================
+
+type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Rodrigues' formula for an axis-angle vector
+function axisAngleToMatrix(x: number, y: number, z: number): Mat3 {
+  const angle = Math.sqrt(x * x + y * y + z * z);
+  if (angle < 1e-8) return IDENTITY;
+
+  const [kx, ky, kz] = [x / angle, y / angle, z / angle];
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  const t = 1 - c;
+  return [
+    t * kx * kx + c, t * kx * ky - s * kz, t * kx * kz + s * ky,
+    t * kx * ky + s * kz, t * ky * ky + c, t * ky * kz - s * kx,
+    t * kx * kz - s * ky, t * ky * kz + s * kx, t * kz * kz + c,
+  ];
+}
+
+function multiply(a: Mat3, b: Mat3): Mat3 {
+  const m = new Array(9).fill(0) as Mat3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        m[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return m;
+}
+
+function rotate(m: Mat3, v: Vec3): Vec3 {
+  return {
+    x: m[0] * v.x + m[1] * v.y + m[2] * v.z,
+    y: m[3] * v.x + m[4] * v.y + m[5] * v.z,
+    z: m[6] * v.x + m[7] * v.y + m[8] * v.z,
+  };
+}
+
+// SMPL-X parameter layout (axis-angle triplets)
+const ROOT_OFFSET = 0;
+const BODY_OFFSET = 3;
+const LEFT_HAND_OFFSET = 66;
+const RIGHT_HAND_OFFSET = 111;
+const JAW_OFFSET = 156;
+export const SMPLX_PARAM_COUNT = 182;
+
+// Index of each upper-body joint in body_pose
+const BODY_POSE_INDEX = {
+  spine1: 2,
+  spine2: 5,
+  spine3: 8,
+  neck: 11,
+  leftCollar: 12,
+  rightCollar: 13,
+  head: 14,
+  leftShoulder: 15,
+  rightShoulder: 16,
+  leftElbow: 17,
+  rightElbow: 18,
+  leftWrist: 19,
+  rightWrist: 20,
+} as const;
+type BodyJoint = keyof typeof BODY_POSE_INDEX | "pelvis" | "leftHip" | "rightHip";
+
+// Hand pose order in SMPL-X: index, middle, pinky, ring, thumb (three joints each)
+const HAND_POSE_ORDER: Finger[] = ["index", "middle", "pinky", "ring", "thumb"];
+
+/**
+ * Rest skeleton in metres (y up, x towards the subject's left, z forward),
+ * sized to match the joint-position exports. Each joint lists its parent.
+ */
+const REST_SKELETON: Record<BodyJoint, { parent: BodyJoint | null; position: Vec3 }> = {
+  pelvis: { parent: null, position: { x: 0, y: 0, z: 0 } },
+  leftHip: { parent: "pelvis", position: { x: 0.06, y: -0.09, z: 0 } },
+  rightHip: { parent: "pelvis", position: { x: -0.06, y: -0.09, z: 0 } },
+  spine1: { parent: "pelvis", position: { x: 0, y: 0.11, z: -0.01 } },
+  spine2: { parent: "spine1", position: { x: 0, y: 0.24, z: 0 } },
+  spine3: { parent: "spine2", position: { x: 0, y: 0.3, z: 0.02 } },
+  neck: { parent: "spine3", position: { x: 0, y: 0.46, z: -0.02 } },
+  head: { parent: "neck", position: { x: 0, y: 0.62, z: 0.01 } },
+  leftCollar: { parent: "spine3", position: { x: 0.075, y: 0.39, z: -0.01 } },
+  rightCollar: { parent: "spine3", position: { x: -0.075, y: 0.39, z: -0.01 } },
+  leftShoulder: { parent: "leftCollar", position: { x: 0.16, y: 0.43, z: -0.01 } },
+  rightShoulder: { parent: "rightCollar", position: { x: -0.16, y: 0.43, z: -0.01 } },
+  leftElbow: { parent: "leftShoulder", position: { x: 0.43, y: 0.43, z: -0.02 } },
+  rightElbow: { parent: "rightShoulder", position: { x: -0.43, y: 0.43, z: -0.02 } },
+  leftWrist: { parent: "leftElbow", position: { x: 0.68, y: 0.43, z: -0.02 } },
+  rightWrist: { parent: "rightElbow", position: { x: -0.68, y: 0.43, z: -0.02 } },
+};
+
+// Parents always precede children
+const SKELETON_ORDER = Object.keys(REST_SKELETON) as BodyJoint[];
+
+/**
+ * Left-hand finger joints relative to the wrist in the rest pose (fingers
+ * along +x); the fourth point is the fingertip. Mirrored for the right hand.
+ */
+const REST_FINGERS: Record<Finger, Vec3[]> = {
+  thumb: [
+    { x: 0.025, y: -0.012, z: 0.028 },
+    { x: 0.05, y: -0.018, z: 0.045 },
+    { x: 0.075, y: -0.022, z: 0.058 },
+    { x: 0.095, y: -0.025, z: 0.068 },
+  ],
+  index: [
+    { x: 0.09, y: -0.005, z: 0.025 },
+    { x: 0.125, y: -0.005, z: 0.025 },
+    { x: 0.147, y: -0.005, z: 0.025 },
+    { x: 0.167, y: -0.005, z: 0.025 },
+  ],
+  middle: [
+    { x: 0.095, y: -0.005, z: 0.003 },
+    { x: 0.133, y: -0.005, z: 0.003 },
+    { x: 0.158, y: -0.005, z: 0.003 },
+    { x: 0.178, y: -0.005, z: 0.003 },
+  ],
+  ring: [
+    { x: 0.088, y: -0.008, z: -0.018 },
+    { x: 0.122, y: -0.008, z: -0.018 },
+    { x: 0.145, y: -0.008, z: -0.018 },
+    { x: 0.164, y: -0.008, z: -0.018 },
+  ],
+  pinky: [
+    { x: 0.075, y: -0.012, z: -0.035 },
+    { x: 0.101, y: -0.012, z: -0.035 },
+    { x: 0.12, y: -0.012, z: -0.035 },
+    { x: 0.138, y: -0.012, z: -0.035 },
+  ],
+};
+
+function axisAngleAt(params: number[], offset: number): Mat3 {
+  return axisAngleToMatrix(params[offset] ?? 0, params[offset + 1] ?? 0, params[offset + 2] ?? 0);
+}
+
+function handJoints(
+  params: number[],
+  handOffset: number,
+  wristPosition: Vec3,
+  wristRotation: Mat3,
+  mirror: boolean,
+): Record<Finger, Vec3[]> {
+  const fingers = {} as Record<Finger, Vec3[]>;
+
+  HAND_POSE_ORDER.forEach((finger, fingerIndex) => {
+    const rest = REST_FINGERS[finger].map((v) => (mirror ? { ...v, x: -v.x } : v));
+    const points: Vec3[] = [];
+    let position = add(wristPosition, rotate(wristRotation, rest[0]));
+    let rotation = wristRotation;
+
+    for (let joint = 0; joint < 3; joint++) {
+      points.push(position);
+      rotation = multiply(rotation, axisAngleAt(params, handOffset + (fingerIndex * 3 + joint) * 3));
+      position = add(position, rotate(rotation, sub(rest[joint + 1], rest[joint])));
+    }
+
+    // handFromJoints extrapolates the tip from the last two joints
+    fingers[finger] = points;
+  });
+
+  return fingers;
+}
+
+/**
+ * Run forward kinematics for one SMPL-X frame. Positions come out in the
+ * root's frame (y down for the exported root rotation), like the
+ * joint-position exports.
+ */
+function smplxFrameToJoints(params: number[]) {
+  const positions = {} as Record<BodyJoint, Vec3>;
+  const rotations = {} as Record<BodyJoint, Mat3>;
+
+  for (const joint of SKELETON_ORDER) {
+    const { parent, position } = REST_SKELETON[joint];
+    const local =
+      joint === "pelvis"
+        ? axisAngleAt(params, ROOT_OFFSET)
+        : joint in BODY_POSE_INDEX
+          ? axisAngleAt(params, BODY_OFFSET + BODY_POSE_INDEX[joint as keyof typeof BODY_POSE_INDEX] * 3)
+          : IDENTITY;
+
+    if (!parent) {
+      positions[joint] = { x: 0, y: 0, z: 0 };
+      rotations[joint] = local;
+      continue;
+    }
+
+    const offset = sub(position, REST_SKELETON[parent].position);
+    positions[joint] = add(positions[parent], rotate(rotations[parent], offset));
+    rotations[joint] = multiply(rotations[parent], local);
+  }
+
+  return {
+    positions,
+    leftFingers: handJoints(params, LEFT_HAND_OFFSET, positions.leftWrist, rotations.leftWrist, false),
+    rightFingers: handJoints(params, RIGHT_HAND_OFFSET, positions.rightWrist, rotations.rightWrist, true),
+  };
+}
+
+// Jaw rotation (radians about x) at which the mouth counts as fully open
+const JAW_OPEN_ANGLE = 0.4;
+
+/**
+ * Convert SMPL-X parameter frames to SignMotion. Hands flagged invalid in
+ * the export get zero confidence; the jaw drives jawOpen, while the SMPL-X
+ * expression coefficients have no ARKit equivalent and are dropped.
+ */
+export function smplxToSignMotion(data: SMPLXMotionData): SignMotion {
+  const frames = data.smplx.map((params, index) => {
+    if (params.length < SMPLX_PARAM_COUNT) {
+      throw new MotionFormatError(
+        `SMPL-X frame ${index} of ${data.gloss} has ${params.length} parameters, expected ${SMPLX_PARAM_COUNT}`,
+      );
+    }
+
+    const { positions, leftFingers, rightFingers } = smplxFrameToJoints(params);
+    const jawOpen = Math.max(0, Math.min(1, params[JAW_OFFSET] / JAW_OPEN_ANGLE));
+
+    return {
+      leftHand: handFromJoints(positions.leftWrist, leftFingers, data.leftValid?.[index] === false ? 0 : 1),
+      rightHand: handFromJoints(positions.rightWrist, rightFingers, data.rightValid?.[index] === false ? 0 : 1),
+      face: { blendshapes: jawOpen > 0 ? { jawOpen } : {} },
+      body: {
+        joints: {
+          nose: { position: toImageSpace(positions.head) },
+          leftShoulder: { position: toImageSpace(positions.leftShoulder) },
+          rightShoulder: { position: toImageSpace(positions.rightShoulder) },
+          leftElbow: { position: toImageSpace(positions.leftElbow) },
+          rightElbow: { position: toImageSpace(positions.rightElbow) },
+          leftWrist: { position: toImageSpace(positions.leftWrist) },
+          rightWrist: { position: toImageSpace(positions.rightWrist) },
+          leftHip: { position: toImageSpace(positions.leftHip) },
+          rightHip: { position: toImageSpace(positions.rightHip) },
+        },
+      },
+    };
+  });
+
+  return finalizeMotion(data.gloss, data.fps, frames, "smplx");
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Identify which of the three formats a parsed JSON document is in
+ */
+export function detectMotionFormat(data: unknown): MotionFormat | null {
+  if (!data || typeof data !== "object") return null;
+  const obj = data as Record<string, unknown>;
+
+  if (Array.isArray(obj.smplx)) return "smplx";
+  if (Array.isArray(obj.frames)) return "ik-position";
+  if (Array.isArray(obj.rightHand) && Array.isArray(obj.leftHand) && typeof obj.fps === "number") {
+    return "signmotion";
+  }
+  return null;
+}
+
+/**
+ * Convert a motion document in any supported format to SignMotion
+ */
+export function toSignMotion(data: unknown, format: MotionFormat | null = detectMotionFormat(data)): SignMotion {
+  switch (format) {
+    case "smplx":
+      return smplxToSignMotion(data as SMPLXMotionData);
+    case "ik-position":
+      return ikPositionsToSignMotion(data as IKMotionData);
+    case "signmotion": {
+      const motion = data as SignMotion;
+      if (motion.rightHand.some((hand) => hand.landmarks.length !== HAND_LANDMARK_COUNT)) {
+        throw new MotionFormatError(`SignMotion ${motion.gloss} has malformed hand frames`);
+      }
+      return motion;
+    }
+    default:
+      throw new MotionFormatError("Unrecognized motion format");
+  }
+}
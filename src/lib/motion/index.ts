@@ -6,5 +6,11 @@
 
 export * from "./types";
 export * from "./capture";
+export * from "./codec";
 export * from "./playback";
+export * from "./convert";
+export * from "./library";
+export * from "./postprocess";
+export * from "./remote";
+export * from "./sequencer";
 export * from "./useMotionPlayback";
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { createLexicon } from '@/lib/asl/lexicon';
+import { detectMotionFormat, ikPositionsToSignMotion, smplxToSignMotion } from './convert';
+import { saveMotionLocal } from './capture';
+import { createMotionLibrary } from './library';
+
+const PUBLIC_DIR = join(__dirname, '../../../public');
+
+function readPublic(url: string): unknown {
+  return JSON.parse(readFileSync(join(PUBLIC_DIR, url), 'utf8'));
+}
+
+// Serve public/ like the dev server, plus JSON API routes; listed URLs answer 404
+function servePublic(missing: string[] = [], api: Record<string, unknown> = {}) {
+  return vi.spyOn(global, 'fetch').mockImplementation(async (input) => {
+    const url = String(input);
+    if (url in api) return Response.json(api[url]);
+    if (missing.includes(url) || !existsSync(join(PUBLIC_DIR, url))) {
+      return new Response('not found', { status: 404 });
+    }
+    return new Response(readFileSync(join(PUBLIC_DIR, url), 'utf8'), { status: 200 });
+  });
+}
+
+function fetchedUrls(fetchSpy: ReturnType<typeof servePublic>): string[] {
+  return fetchSpy.mock.calls.map(([input]) => String(input));
+}
+
+describe('motion conversion', () => {
+  it('should detect each motion format', () => {
+    expect(detectMotionFormat(readPublic('/signs/help.json'))).toBe('smplx');
+    expect(detectMotionFormat(readPublic('/ik_data/help.json'))).toBe('ik-position');
+    expect(detectMotionFormat({ gloss: 'X' })).toBeNull();
+  });
+
+  it('should convert SMPL-X parameters into MediaPipe-style frames', () => {
+    const motion = smplxToSignMotion(readPublic('/signs/year.json') as Parameters<typeof smplxToSignMotion>[0]);
+
+    expect(motion.gloss).toBe('YEAR');
+    expect(motion.frameCount).toBe(53);
+    expect(motion.durationMs).toBe(Math.round((53 / 30) * 1000));
+    expect(motion.rightHand[0].landmarks).toHaveLength(21);
+    expect(motion.body[0].joints.rightWrist).toBeDefined();
+    // Frames where the export lost a hand carry no confidence
+    expect(motion.leftHand.some((hand) => hand.confidence === 0)).toBe(true);
+    expect(motion.entryPose.rightHand).toBe(motion.rightHand[0]);
+  });
+
+  it('should place SMPL-X joints where the matching joint-position export has them', () => {
+    const smplx = smplxToSignMotion(readPublic('/signs/help.json') as Parameters<typeof smplxToSignMotion>[0]);
+    const ik = ikPositionsToSignMotion(readPublic('/ik_data/help.json') as Parameters<typeof ikPositionsToSignMotion>[0]);
+
+    for (const joint of ['leftShoulder', 'rightElbow', 'rightWrist', 'nose'] as const) {
+      const a = smplx.body[25].joints[joint]!.position;
+      const b = ik.body[25].joints[joint]!.position;
+      expect(Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)).toBeLessThan(0.08);
+    }
+  });
+});
+
+describe('MotionLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should index the manifest, lexicon motion references and local captures', async () => {
+    servePublic();
+    const lexicon = createLexicon();
+    lexicon.add({ ...lexicon.get('HELLO')!, motion: '/signs/help.json' });
+    saveMotionLocal(ikPositionsToSignMotion(readPublic('/ik_data/dog.json') as Parameters<typeof ikPositionsToSignMotion>[0]));
+    localStorage.setItem('signmate-motion-WAVE', '{}');
+
+    const library = createMotionLibrary({ lexicon, includeStore: false });
+
+    expect(await library.listGlosses()).toEqual(['DEAF', 'DOG', 'HELLO', 'HELP', 'WAVE', 'YEAR']);
+    expect((await library.getEntries('dog')).map((entry) => entry.source)).toEqual(['local', 'manifest', 'manifest']);
+  });
+
+  it('should load local captures saved under an unnormalized gloss', async () => {
+    servePublic();
+    const dog = ikPositionsToSignMotion(readPublic('/ik_data/dog.json') as Parameters<typeof ikPositionsToSignMotion>[0]);
+    saveMotionLocal({ ...dog, gloss: 'thank you' });
+    saveMotionLocal({ ...dog, gloss: 'GOOD_MORNING' });
+    const library = createMotionLibrary({ includeStore: false });
+
+    expect(await library.listGlosses()).toEqual(expect.arrayContaining(['GOOD-MORNING', 'THANK-YOU']));
+    expect((await library.load('thank you'))?.gloss).toBe('THANK-YOU');
+    expect((await library.load('GOOD-MORNING'))?.frameCount).toBe(dog.frameCount);
+  });
+
+  it('should prefer joint positions over SMPL-X and cache the converted clip', async () => {
+    const fetchSpy = servePublic();
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false });
+
+    const motion = await library.load('help');
+    await library.load('HELP');
+
+    expect(motion?.gloss).toBe('HELP');
+    expect(motion?.metadata?.captureSource).toBe('ik-position');
+    expect(fetchedUrls(fetchSpy)).toEqual(['/motions.json', '/ik_data/help.json']);
+  });
+
+  it('should fall back to the next format when a clip fails to load', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    servePublic(['/ik_data/deaf.json']);
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false });
+
+    expect((await library.load('DEAF'))?.metadata?.captureSource).toBe('smplx');
+  });
+
+  it('should share one request between concurrent loads', async () => {
+    const fetchSpy = servePublic();
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false });
+
+    const [a, b] = await Promise.all([library.load('YEAR'), library.load('year')]);
+
+    expect(a).toBe(b);
+    expect(fetchedUrls(fetchSpy).filter((url) => url === '/ik_data/year.json')).toHaveLength(1);
+  });
+
+  it('should load clips for a translated sign sequence', async () => {
+    servePublic();
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false });
+
+    const motions = await library.loadForSigns([{ gloss: 'HELP' }, { gloss: 'FS:A' }, { gloss: 'DOG' }]);
+
+    expect(motions.map((motion) => motion?.gloss ?? null)).toEqual(['HELP', null, 'DOG']);
+  });
+
+  it('should serve registered clips ahead of the manifest', async () => {
+    servePublic();
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false });
+    const recorded = ikPositionsToSignMotion(readPublic('/ik_data/dog.json') as Parameters<typeof ikPositionsToSignMotion>[0]);
+
+    library.register({ ...recorded, gloss: 'HELP' });
+
+    expect((await library.load('HELP'))?.frameCount).toBe(recorded.frameCount);
+  });
+
+  it('should evict the least recently used clip', async () => {
+    const fetchSpy = servePublic();
+    const library = createMotionLibrary({ includeLocal: false, includeStore: false, cacheSize: 1 });
+
+    await library.load('HELP');
+    await library.load('DOG');
+    await library.load('HELP');
+
+    expect(library.cachedCount).toBe(1);
+    expect(fetchedUrls(fetchSpy).filter((url) => url === '/ik_data/help.json')).toHaveLength(2);
+  });
+
+  it('should still serve lexicon references when the manifest is unavailable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    servePublic(['/motions.json']);
+    const lexicon = createLexicon();
+    lexicon.add({ ...lexicon.get('HELLO')!, motion: '/signs/help.json' });
+    const library = createMotionLibrary({ lexicon, includeLocal: false, includeStore: false });
+
+    expect((await library.load('hello'))?.metadata?.captureSource).toBe('smplx');
+    expect(await library.has('DEAF')).toBe(false);
+  });
+
+  it('should index and load captures from the shared motion store', async () => {
+    const captured = ikPositionsToSignMotion(readPublic('/ik_data/dog.json') as Parameters<typeof ikPositionsToSignMotion>[0]);
+    servePublic([], {
+      '/api/motions': { motions: [{ gloss: 'wave', version: 2, versionCount: 2 }] },
+      '/api/motions/WAVE': { ...captured, gloss: 'wave' },
+    });
+    const library = createMotionLibrary({ includeLocal: false });
+
+    expect(await library.listGlosses()).toContain('WAVE');
+    expect((await library.getEntries('dog')).map((entry) => entry.source)).toEqual(['manifest', 'manifest']);
+    const motion = await library.load('wave');
+    expect(motion?.gloss).toBe('WAVE');
+    expect(motion?.frameCount).toBe(captured.frameCount);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * SignMotion Library
+ *
+ * Indexes every available motion clip by gloss, whatever its source:
+ * - the static manifest (public/motions.json) listing SMPL-X and
+ *   joint-position exports
+ * - `motion` URLs on lexicon entries (e.g. from lexicon packs)
+ * - SignMotion captures saved in localStorage
+ * - captures uploaded to the shared motion store (/api/motions)
+ * - clips registered at runtime
+ *
+ * A gloss may have clips for several lexicon variants (regional or register
+ * forms); loading a variant falls back to the base form's clips.
+ *
+ * Clips are fetched lazily (JSON or binary .signmotion), converted to
+ * SignMotion and kept in an LRU cache, so translator output can be played
+ * back without caring which format a sign was recorded in.
+ */
+
+import { getLexicon, normalizeGlossId, type Lexicon } from "@/lib/asl/lexicon";
+import { listSavedMotions, loadMotionLocal } from "./capture";
+import { decodeSignMotion, isEncodedSignMotion } from "./codec";
+import { detectMotionFormat, toSignMotion, type MotionFormat } from "./convert";
+import { listMotionsRemote, loadMotionRemote } from "./remote";
+import type { SignMotion } from "./types";
+
+export interface MotionIndexEntry {
+  gloss: string; // Normalized gloss ID
+  url?: string; // Omitted for in-memory and local captures
+  format?: MotionFormat; // Detected from the document when omitted
+  source: "manifest" | "lexicon" | "local" | "store" | "registered";
+  variant?: string; // Lexicon variant ID; omitted for the base form
+  key?: string; // Local captures: the gloss as saved, e.g. "thank you" for THANK-YOU
+}
+
+export interface MotionManifest {
+  version: number;
+  motions: { gloss: string; url: string; format?: MotionFormat; variant?: string }[];
+}
+
+export interface MotionLibraryConfig {
+  manifestUrl: string | null; // null skips the static manifest
+  formatPriority: MotionFormat[]; // Preferred format first when a gloss has several clips
+  includeLocal: boolean; // Index captures saved in localStorage
+  includeStore: boolean; // Index captures in the shared motion store
+  cacheSize: number; // Converted clips kept in memory
+  lexicon?: Lexicon; // Lexicon whose entries may reference motions (defaults to the shared lexicon)
+}
+
+const defaultConfig: MotionLibraryConfig = {
+  manifestUrl: "/motions.json",
+  // Captured landmarks play back directly; joint positions need no skeleton fitting
+  formatPriority: ["signmotion", "ik-position", "smplx"],
+  includeLocal: true,
+  includeStore: true,
+  cacheSize: 50,
+};
+
+// Explicit references win over the bundled manifest at equal format priority
+const SOURCE_PRIORITY: MotionIndexEntry["source"][] = ["registered", "local", "store", "lexicon", "manifest"];
+
+export class MotionLibrary {
+  private config: MotionLibraryConfig;
+  private lexicon: Lexicon;
+  private index = new Map<string, MotionIndexEntry[]>();
+  private registered = new Map<string, SignMotion>();
+  private cache = new Map<string, SignMotion>();
+  private pending = new Map<string, Promise<SignMotion | null>>();
+  private indexPromise: Promise<void> | null = null;
+
+  constructor(config: Partial<MotionLibraryConfig> = {}) {
+    this.config = { ...defaultConfig, ...config };
+    this.lexicon = this.config.lexicon ?? getLexicon();
+  }
+
+  /**
+   * Every indexed clip for a gloss, best first. With a variant, that
+   * variant's clips come before the base form's.
+   */
+  async getEntries(gloss: string, variant?: string): Promise<MotionIndexEntry[]> {
+    await this.loadIndex();
+    const id = normalizeGlossId(gloss);
+    const entries = [...(this.index.get(id) ?? [])];
+
+    const lexiconEntry = this.lexicon.get(id);
+    if (lexiconEntry?.motion) {
+      entries.push({ gloss: id, url: lexiconEntry.motion, source: "lexicon" });
+    }
+    for (const lexiconVariant of lexiconEntry?.variants ?? []) {
+      if (lexiconVariant.motion) {
+        entries.push({ gloss: id, url: lexiconVariant.motion, source: "lexicon", variant: lexiconVariant.id });
+      }
+    }
+    const localKey = this.config.includeLocal ? this.localCaptures().get(id) : undefined;
+    if (localKey !== undefined) {
+      entries.push({ gloss: id, format: "signmotion", source: "local", key: localKey });
+    }
+
+    const variantRank = (entry: MotionIndexEntry) => (entry.variant && entry.variant === variant ? 0 : 1);
+    return entries
+      .filter((entry) => !entry.variant || entry.variant === variant)
+      .sort((a, b) => variantRank(a) - variantRank(b) || this.rank(a) - this.rank(b));
+  }
+
+  async has(gloss: string): Promise<boolean> {
+    return (await this.getEntries(gloss)).length > 0;
+  }
+
+  /**
+   * Glosses with at least one clip, sorted
+   */
+  async listGlosses(): Promise<string[]> {
+    await this.loadIndex();
+    const glosses = new Set(this.index.keys());
+    for (const entry of this.lexicon.getEntries()) {
+      if (entry.motion) glosses.add(entry.id);
+    }
+    if (this.config.includeLocal) {
+      this.localCaptures().forEach((_key, gloss) => glosses.add(gloss));
+    }
+    return Array.from(glosses).sort();
+  }
+
+  /**
+   * Load the best clip for a gloss (and variant) as SignMotion, null when
+   * none is available. Clips that fail to load or convert fall through to
+   * the next candidate.
+   */
+  async load(gloss: string, variant?: string): Promise<SignMotion | null> {
+    const id = normalizeGlossId(gloss);
+    const key = variant ? `${id}#${variant}` : id;
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Refresh LRU position
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.loadUncached(key, id, variant).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  /**
+   * Clips for a sign sequence (e.g. ASLTranslation.signs), aligned with the
+   * input; signs without a recorded clip map to null.
+   */
+  async loadForSigns(signs: { gloss: string; variant?: string }[]): Promise<(SignMotion | null)[]> {
+    return Promise.all(signs.map((sign) => this.load(sign.gloss, sign.variant)));
+  }
+
+  /**
+   * Add an in-memory clip, or a URL to fetch on demand
+   */
+  register(motion: SignMotion): void;
+  register(gloss: string, url: string, format?: MotionFormat): void;
+  register(motionOrGloss: SignMotion | string, url?: string, format?: MotionFormat): void {
+    if (typeof motionOrGloss === "string") {
+      this.addEntry({ gloss: normalizeGlossId(motionOrGloss), url, format, source: "registered" });
+      this.forget(normalizeGlossId(motionOrGloss));
+      return;
+    }
+
+    const id = normalizeGlossId(motionOrGloss.gloss);
+    this.registered.set(id, motionOrGloss);
+    this.addEntry({ gloss: id, format: "signmotion", source: "registered" });
+    this.forget(id);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  get cachedCount(): number {
+    return this.cache.size;
+  }
+
+  private async loadUncached(key: string, id: string, variant?: string): Promise<SignMotion | null> {
+    for (const entry of await this.getEntries(id, variant)) {
+      try {
+        const motion = await this.loadEntry(entry);
+        if (motion) {
+          this.remember(key, motion);
+          return motion;
+        }
+      } catch (error) {
+        console.warn(`[MotionLibrary] Could not load ${entry.source} motion for ${id}:`, error);
+      }
+    }
+    return null;
+  }
+
+  private async loadEntry(entry: MotionIndexEntry): Promise<SignMotion | null> {
+    if (entry.source === "registered" && !entry.url) {
+      return this.registered.get(entry.gloss) ?? null;
+    }
+    if (entry.source === "local") {
+      const motion = loadMotionLocal(entry.key ?? entry.gloss);
+      return motion && { ...motion, gloss: entry.gloss };
+    }
+    if (entry.source === "store") {
+      const motion = await loadMotionRemote(entry.gloss);
+      return motion && { ...motion, gloss: entry.gloss };
+    }
+    if (!entry.url) return null;
+
+    const response = await fetch(entry.url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${entry.url}`);
+    }
+    const buffer = await response.arrayBuffer();
+    let motion: SignMotion;
+    if (isEncodedSignMotion(buffer)) {
+      motion = decodeSignMotion(buffer);
+    } else {
+      const data: unknown = JSON.parse(new TextDecoder().decode(buffer));
+      motion = toSignMotion(data, entry.format ?? detectMotionFormat(data));
+    }
+    // Exports label glosses in lowercase; the library keys by gloss ID
+    return { ...motion, gloss: entry.gloss };
+  }
+
+  // Drop cached clips of a gloss and its variants
+  private forget(id: string): void {
+    for (const key of Array.from(this.cache.keys())) {
+      if (key === id || key.startsWith(`${id}#`)) this.cache.delete(key);
+    }
+  }
+
+  private remember(key: string, motion: SignMotion): void {
+    this.cache.set(key, motion);
+    while (this.cache.size > this.config.cacheSize) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private loadIndex(): Promise<void> {
+    if (!this.indexPromise) {
+      this.indexPromise = Promise.all([this.fetchManifest(), this.fetchStore()]).then(() => undefined);
+    }
+    return this.indexPromise;
+  }
+
+  private async fetchManifest(): Promise<void> {
+    if (!this.config.manifestUrl) return;
+
+    try {
+      const response = await fetch(this.config.manifestUrl);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const manifest = (await response.json()) as MotionManifest;
+      for (const motion of manifest.motions ?? []) {
+        if (typeof motion.gloss !== "string" || typeof motion.url !== "string") continue;
+        this.addEntry({
+          gloss: normalizeGlossId(motion.gloss),
+          url: motion.url,
+          format: motion.format,
+          source: "manifest",
+          ...(typeof motion.variant === "string" && { variant: motion.variant }),
+        });
+      }
+    } catch (error) {
+      console.warn("[MotionLibrary] Motion manifest unavailable:", error);
+    }
+  }
+
+  private async fetchStore(): Promise<void> {
+    if (!this.config.includeStore) return;
+
+    try {
+      for (const summary of await listMotionsRemote()) {
+        this.addEntry({ gloss: normalizeGlossId(summary.gloss), format: "signmotion", source: "store" });
+      }
+    } catch (error) {
+      console.warn("[MotionLibrary] Motion store unavailable:", error);
+    }
+  }
+
+  private addEntry(entry: MotionIndexEntry): void {
+    const entries = (this.index.get(entry.gloss) ?? []).filter(
+      (existing) => !(existing.source === entry.source && existing.url === entry.url),
+    );
+    this.index.set(entry.gloss, [...entries, entry]);
+  }
+
+  // Normalized gloss ID -> the gloss the capture was saved under
+  private localCaptures(): Map<string, string> {
+    if (typeof localStorage === "undefined") return new Map();
+    return new Map(listSavedMotions().map((key) => [normalizeGlossId(key), key]));
+  }
+
+  private rank(entry: MotionIndexEntry): number {
+    // Undetected formats (lexicon URLs) rank with native SignMotion
+    const format = this.config.formatPriority.indexOf(entry.format ?? "signmotion");
+    const source = SOURCE_PRIORITY.indexOf(entry.source);
+    return (format < 0 ? this.config.formatPriority.length : format) * SOURCE_PRIORITY.length + source;
+  }
+}
+
+// Singleton instance
+let motionLibraryInstance: MotionLibrary | null = null;
+
+export function getMotionLibrary(config?: Partial<MotionLibraryConfig>): MotionLibrary {
+  if (!motionLibraryInstance) {
+    motionLibraryInstance = new MotionLibrary(config);
+  }
+  return motionLibraryInstance;
+}
+
+export function createMotionLibrary(config?: Partial<MotionLibraryConfig>): MotionLibrary {
+  return new MotionLibrary(config);
+}
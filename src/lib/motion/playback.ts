@@ -12,6 +12,8 @@ import type {
   Vec3,
   ARKitBlendshape,
 } from "./types";
+import type { NonManualMarker } from "@/types";
+import { expressionFromMarkers } from "@/lib/animation";
 
 // ============================================================================
 // Types
@@ -577,22 +579,76 @@ export function lerpAvatarPose(
   };
 }
 
+// ExpressionState head tilt (about -0.3..0.3) to head bone radians
+const HEAD_TILT_RADIANS = 0.8;
+
 /**
- * Get smoothly interpolated pose for a given time
+ * Layer non-manual markers (grammatical brows, head tilts and shakes) over a
+ * captured pose. Captured blendshapes are kept unless a marker drives them
+ * further; progress is 0-1 through the sign.
  */
-export function getPoseAtTime(motion: SignMotion, timeMs: number): AvatarPose {
+export function applyNonManualMarkers(
+  pose: AvatarPose,
+  markers: NonManualMarker[],
+  progress: number,
+): AvatarPose {
+  if (markers.length === 0) return pose;
+
+  const expression = expressionFromMarkers(markers, progress);
+  const shapes: Partial<Record<ARKitBlendshape, number>> = {};
+  const raise = Math.max(0, expression.eyebrows);
+  const furrow = Math.max(0, -expression.eyebrows);
+  const wide = Math.max(0, (expression.eyeOpenness - 1) / 0.3);
+  const squint = Math.max(0, (1 - expression.eyeOpenness) / 0.5);
+
+  shapes.browInnerUp = raise;
+  shapes.browOuterUpLeft = raise * 0.8;
+  shapes.browOuterUpRight = raise * 0.8;
+  shapes.browDownLeft = furrow;
+  shapes.browDownRight = furrow;
+  shapes.eyeWideLeft = wide;
+  shapes.eyeWideRight = wide;
+  shapes.eyeSquintLeft = squint;
+  shapes.eyeSquintRight = squint;
+
+  const faceBlendshapes = { ...pose.faceBlendshapes };
+  for (const [key, value] of Object.entries(shapes) as [ARKitBlendshape, number][]) {
+    faceBlendshapes[key] = Math.max(faceBlendshapes[key] || 0, value);
+  }
+
+  return {
+    ...pose,
+    faceBlendshapes,
+    headRotation: {
+      x: pose.headRotation.x + expression.headTilt.x * HEAD_TILT_RADIANS,
+      y: pose.headRotation.y + expression.headTilt.y * HEAD_TILT_RADIANS,
+      z: pose.headRotation.z + expression.headTilt.z * HEAD_TILT_RADIANS,
+    },
+  };
+}
+
+/**
+ * Get smoothly interpolated pose for a given time, with the sign's
+ * non-manual markers (if any) layered on top
+ */
+export function getPoseAtTime(
+  motion: SignMotion,
+  timeMs: number,
+  markers: NonManualMarker[] = [],
+): AvatarPose {
   const frameTime = 1000 / motion.fps;
   const exactFrame = timeMs / frameTime;
   const frame1 = Math.floor(exactFrame);
   const frame2 = Math.min(frame1 + 1, motion.frameCount - 1);
   const t = exactFrame - frame1;
+  const progress = motion.durationMs > 0 ? Math.min(1, timeMs / motion.durationMs) : 0;
 
   if (frame1 === frame2 || t === 0) {
-    return getFramePose(motion, frame1);
+    return applyNonManualMarkers(getFramePose(motion, frame1), markers, progress);
   }
 
   const pose1 = getFramePose(motion, frame1);
   const pose2 = getFramePose(motion, frame2);
 
-  return lerpAvatarPose(pose1, pose2, t);
+  return applyNonManualMarkers(lerpAvatarPose(pose1, pose2, t), markers, progress);
 }
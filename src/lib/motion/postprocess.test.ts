@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { addFrame, createSession, finalizeSession, type CapturedFrame } from './capture';
+import {
+  interpolateGaps,
+  normalizeBodyScale,
+  oneEuroFilter,
+  processMotion,
+  resampleMotion,
+  savitzkyGolayFilter,
+  smoothMotion,
+  trimRestPose,
+} from './postprocess';
+import type { BodyFrame, HandFrame, SignMotion } from './types';
+
+function hand(x: number, y: number, confidence = 0.9): HandFrame {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, index) => ({
+      position: { x: x + index * 0.005, y: y - index * 0.005, z: 0 },
+      visibility: 1,
+    })),
+    confidence,
+  };
+}
+
+// Shoulders 0.2 apart at y 0.4, hips at y 0.8: wrists below y 0.72 are at rest
+function body(): BodyFrame {
+  return {
+    joints: {
+      leftShoulder: { position: { x: 0.6, y: 0.4, z: 0 } },
+      rightShoulder: { position: { x: 0.4, y: 0.4, z: 0 } },
+      leftHip: { position: { x: 0.58, y: 0.8, z: 0 } },
+      rightHip: { position: { x: 0.42, y: 0.8, z: 0 } },
+    },
+  };
+}
+
+/**
+ * Record a capture through the real session API. Each entry is the right
+ * wrist position, or null where tracking dropped the hand.
+ */
+function capture(wrists: ({ x: number; y: number } | null)[], fps = 30): SignMotion {
+  const session = createSession('test', fps);
+  wrists.forEach((wrist, i) => {
+    const frame: CapturedFrame = {
+      timestamp: (i * 1000) / fps,
+      rightHand: wrist ? hand(wrist.x, wrist.y) : undefined,
+      face: { blendshapes: { browInnerUp: 0.2 } },
+      body: body(),
+    };
+    addFrame(session, frame);
+  });
+  return finalizeSession(session);
+}
+
+const wristX = (motion: SignMotion, frame: number) => motion.rightHand[frame].landmarks[0].position.x;
+const wristY = (motion: SignMotion, frame: number) => motion.rightHand[frame].landmarks[0].position.y;
+
+describe('interpolateGaps', () => {
+  it('should interpolate short dropouts between tracked frames', () => {
+    const motion = capture([{ x: 0.3, y: 0.5 }, null, null, { x: 0.6, y: 0.5 }]);
+    const filled = interpolateGaps(motion);
+
+    expect(filled.rightHand[1].confidence).toBeCloseTo(0.9);
+    expect(wristX(filled, 1)).toBeCloseTo(0.4);
+    expect(wristX(filled, 2)).toBeCloseTo(0.5);
+  });
+
+  it('should hold the nearest frame at the edges and leave long or total losses alone', () => {
+    const motion = capture([null, { x: 0.3, y: 0.5 }, { x: 0.4, y: 0.5 }, null, null, null]);
+    const filled = interpolateGaps(motion, { maxGapFrames: 2 });
+
+    expect(wristX(filled, 0)).toBeCloseTo(0.3);
+    expect(filled.rightHand[4].confidence).toBe(0);
+    // The left hand was never tracked
+    expect(filled.leftHand.every((frame) => frame.confidence === 0)).toBe(true);
+  });
+
+  it('should fill body joints independently', () => {
+    const motion = capture([{ x: 0.3, y: 0.5 }, { x: 0.3, y: 0.5 }, { x: 0.3, y: 0.5 }]);
+    motion.body[1] = { joints: { ...motion.body[1].joints, leftHip: undefined } };
+
+    expect(interpolateGaps(motion).body[1].joints.leftHip?.position.y).toBeCloseTo(0.8);
+  });
+});
+
+describe('jitter filters', () => {
+  const noisy = Array.from({ length: 60 }, (_, i) => 0.5 + (i % 2 === 0 ? 0.01 : -0.01));
+  // Ignore filter warm-up and the unfiltered end samples
+  const spread = (values: number[]) => Math.max(...values.slice(10, -5)) - Math.min(...values.slice(10, -5));
+
+  it('should damp jitter with the One-Euro filter', () => {
+    expect(spread(oneEuroFilter(noisy, 30))).toBeLessThan(spread(noisy) / 2);
+  });
+
+  it('should follow sustained movement with the One-Euro filter', () => {
+    const step = Array.from({ length: 30 }, (_, i) => (i < 5 ? 0 : 1));
+    expect(oneEuroFilter(step, 30).at(-1)).toBeGreaterThan(0.95);
+  });
+
+  it('should keep quadratic trajectories and end samples with Savitzky-Golay', () => {
+    const arc = Array.from({ length: 12 }, (_, i) => 0.2 + 0.03 * i - 0.002 * i * i);
+    savitzkyGolayFilter(arc, 7).forEach((value, i) => expect(value).toBeCloseTo(arc[i], 10));
+    expect(spread(savitzkyGolayFilter(noisy, 7))).toBeLessThan(spread(noisy) / 2);
+  });
+
+  it('should not smooth untracked frames into tracked ones', () => {
+    const motion = capture([{ x: 0.3, y: 0.5 }, { x: 0.32, y: 0.5 }, null, { x: 0.6, y: 0.5 }, { x: 0.61, y: 0.5 }]);
+    const smoothed = smoothMotion(motion, { smoothing: 'savitzky-golay' });
+
+    expect(smoothed.rightHand[2]).toBe(motion.rightHand[2]);
+    expect(wristX(smoothed, 3)).toBeCloseTo(0.6);
+  });
+});
+
+describe('trimRestPose', () => {
+  it('should cut the hands-down lead-in and lead-out', () => {
+    const rest = { x: 0.35, y: 0.9 };
+    const motion = capture([
+      null,
+      rest,
+      rest,
+      rest,
+      { x: 0.4, y: 0.6 },
+      { x: 0.45, y: 0.55 },
+      { x: 0.5, y: 0.6 },
+      rest,
+      rest,
+      rest,
+      null,
+    ]);
+    const trimmed = trimRestPose(motion, { restPadFrames: 1 });
+
+    expect(trimmed.frameCount).toBe(5);
+    expect(wristY(trimmed, 0)).toBe(0.9);
+    expect(wristX(trimmed, 1)).toBe(0.4);
+    expect(trimmed.durationMs).toBe(Math.round((5 / 30) * 1000));
+    expect(trimmed.exitPose.rightHand).toBe(trimmed.rightHand[4]);
+  });
+
+  it('should keep clips where the hands never rise', () => {
+    const motion = capture([{ x: 0.35, y: 0.9 }, { x: 0.35, y: 0.9 }]);
+    expect(trimRestPose(motion)).toBe(motion);
+  });
+});
+
+describe('normalizeBodyScale', () => {
+  it('should scale the signer to the target shoulder width and position', () => {
+    const motion = capture([{ x: 0.5, y: 0.5 }, null]);
+    const normalized = normalizeBodyScale(motion);
+    const joints = normalized.body[0].joints;
+
+    expect(joints.leftShoulder!.position.x - joints.rightShoulder!.position.x).toBeCloseTo(0.256);
+    expect(joints.leftShoulder!.position.y).toBeCloseTo(0.555);
+    // 0.1 below the shoulders at 1.28x scale
+    expect(wristY(normalized, 0)).toBeCloseTo(0.555 + 0.128);
+    expect(normalized.rightHand[1]).toBe(motion.rightHand[1]);
+  });
+});
+
+describe('resampleMotion', () => {
+  it('should resample to the target frame rate', () => {
+    const motion = capture(Array.from({ length: 7 }, (_, i) => ({ x: 0.3 + i * 0.01, y: 0.5 })), 60);
+    const resampled = resampleMotion(motion, 30);
+
+    expect(resampled.fps).toBe(30);
+    expect(resampled.frameCount).toBe(4);
+    expect(wristX(resampled, 1)).toBeCloseTo(0.32);
+    expect(resampleMotion(capture([{ x: 0.3, y: 0.5 }, { x: 0.4, y: 0.5 }]), 60).frameCount).toBe(3);
+  });
+});
+
+describe('processMotion', () => {
+  it('should turn a raw capture into a clean clip', () => {
+    const rest = { x: 0.35, y: 0.9 };
+    const signing = Array.from({ length: 20 }, (_, i) => (i === 8 ? null : { x: 0.4 + i * 0.005, y: 0.55 }));
+    const motion = capture([null, null, rest, rest, ...signing, rest, rest, null], 60);
+
+    const processed = processMotion(motion);
+
+    expect(processed.fps).toBe(30);
+    expect(processed.frameCount).toBeLessThan(motion.frameCount / 2);
+    expect(processed.rightHand.every((frame) => frame.confidence > 0.5)).toBe(true);
+    expect(processed.metadata?.captureSource).toBe('mediapipe');
+  });
+});
@@ -0,0 +1,510 @@
+/**
+ * Motion-Capture Post-Processing
+ *
+ * Cleans raw MediaPipe captures (from finalizeSession) into clips usable in
+ * production. Every step is a pure SignMotion → SignMotion function:
+ * - interpolateGaps: fill frames where tracking dropped out
+ * - smoothMotion: One-Euro or Savitzky-Golay jitter filtering
+ * - trimRestPose: cut the hands-down lead-in and lead-out
+ * - normalizeBodyScale: fixed shoulder width and position
+ * - resampleMotion: change the frame rate
+ *
+ * processMotion runs them in that order.
+ */
+
+import {
+  SignMotion,
+  HandFrame,
+  FaceFrame,
+  BodyFrame,
+  Vec3,
+  UPPER_BODY_JOINTS,
+  extractEntryPose,
+  extractExitPose,
+  lerp,
+  lerpHandFrame,
+  lerpFaceFrame,
+  lerpBodyFrame,
+} from "./types";
+
+export type SmoothingFilter = "one-euro" | "savitzky-golay" | "none";
+
+export interface OneEuroConfig {
+  minCutoff: number; // Hz - lower removes more jitter when still
+  beta: number; // Speed coefficient - higher reduces lag on fast movement
+  derivativeCutoff: number; // Hz
+}
+
+export interface PostProcessConfig {
+  minConfidence: number; // Hand frames below this are tracking gaps
+  maxGapFrames: number; // Longer gaps are left untracked
+  smoothing: SmoothingFilter;
+  oneEuro: OneEuroConfig;
+  savitzkyGolayWindow: number; // Odd frame count for the quadratic fit
+  trimRest: boolean;
+  restLevel: number; // Wrists below this fraction of shoulder→hip height are at rest
+  restPadFrames: number; // Frames kept either side of the signing
+  normalize: boolean;
+  shoulderWidth: number; // Target shoulder width in image units
+  shoulderCenter: Vec3; // Target shoulder midpoint in image units (z ignored)
+  targetFps: number | null; // null keeps the captured rate
+}
+
+const defaultConfig: PostProcessConfig = {
+  minConfidence: 0.5,
+  maxGapFrames: 10,
+  smoothing: "one-euro",
+  // Tuned for normalized image coordinates at 30fps
+  oneEuro: { minCutoff: 1.5, beta: 0.5, derivativeCutoff: 1 },
+  savitzkyGolayWindow: 7,
+  trimRest: true,
+  restLevel: 0.8,
+  restPadFrames: 2,
+  normalize: true,
+  // Matches clips converted from joint-position and SMPL-X exports
+  shoulderWidth: 0.256,
+  shoulderCenter: { x: 0.5, y: 0.555, z: 0 },
+  targetFps: 30,
+};
+
+// Wrist height treated as rest when no hips were tracked
+const FALLBACK_REST_Y = 0.85;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isTracked(hand: HandFrame | undefined, minConfidence: number): hand is HandFrame {
+  return !!hand && hand.landmarks.length > 0 && hand.confidence >= minConfidence;
+}
+
+function hasBlendshapes(face: FaceFrame | undefined): face is FaceFrame {
+  return !!face && Object.keys(face.blendshapes).length > 0;
+}
+
+/**
+ * Rebuild a motion from new frame arrays, keeping derived fields consistent
+ */
+function withFrames(
+  motion: SignMotion,
+  frames: Pick<SignMotion, "body" | "leftHand" | "rightHand" | "face">,
+  fps: number = motion.fps,
+): SignMotion {
+  const frameCount = Math.max(
+    frames.body.length,
+    frames.leftHand.length,
+    frames.rightHand.length,
+    frames.face.length,
+  );
+  const result: SignMotion = {
+    ...motion,
+    ...frames,
+    fps,
+    frameCount,
+    durationMs: Math.round((frameCount / fps) * 1000),
+  };
+  result.entryPose = extractEntryPose(result);
+  result.exitPose = extractExitPose(result);
+  return result;
+}
+
+function mapVec3(v: Vec3, fn: (value: number, axis: keyof Vec3) => number): Vec3 {
+  return { x: fn(v.x, "x"), y: fn(v.y, "y"), z: fn(v.z, "z") };
+}
+
+// ============================================================================
+// Gap interpolation
+// ============================================================================
+
+/**
+ * Fill runs of invalid frames: interior gaps are interpolated between the
+ * surrounding valid frames, gaps at either end hold the nearest valid frame.
+ * Runs longer than maxGap are left untouched.
+ */
+function fillGaps<T>(
+  frames: T[],
+  isValid: (frame: T) => boolean,
+  interpolate: (a: T, b: T, t: number) => T,
+  maxGap: number,
+): T[] {
+  const result = [...frames];
+  let i = 0;
+
+  while (i < frames.length) {
+    if (isValid(frames[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    while (i < frames.length && !isValid(frames[i])) i++;
+    const length = i - start;
+    const before = start > 0 ? frames[start - 1] : undefined;
+    const after = i < frames.length ? frames[i] : undefined;
+    if (length > maxGap || (!before && !after)) continue;
+
+    for (let k = 0; k < length; k++) {
+      if (before !== undefined && after !== undefined) {
+        result[start + k] = interpolate(before, after, (k + 1) / (length + 1));
+      } else {
+        result[start + k] = (before ?? after) as T;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fill short tracking dropouts in hands, body joints and face
+ */
+export function interpolateGaps(
+  motion: SignMotion,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const { minConfidence, maxGapFrames } = { ...defaultConfig, ...config };
+  const fillHand = (frames: HandFrame[]) =>
+    fillGaps(
+      frames,
+      (hand) => isTracked(hand, minConfidence),
+      (a, b, t) => lerpHandFrame(a, b, t)!,
+      maxGapFrames,
+    );
+
+  // Each joint is filled independently; MediaPipe drops hips and wrists separately
+  let body = motion.body.map((frame) => ({ joints: { ...frame.joints } }));
+  for (const joint of UPPER_BODY_JOINTS) {
+    const filled = fillGaps(
+      body.map((frame) => frame.joints[joint]),
+      (data) => !!data,
+      (a, b, t) => lerpBodyFrame({ joints: { [joint]: a } }, { joints: { [joint]: b } }, t)!.joints[joint],
+      maxGapFrames,
+    );
+    body = body.map((frame, i) => (filled[i] ? { joints: { ...frame.joints, [joint]: filled[i] } } : frame));
+  }
+
+  return withFrames(motion, {
+    leftHand: fillHand(motion.leftHand),
+    rightHand: fillHand(motion.rightHand),
+    body,
+    face: fillGaps(motion.face, hasBlendshapes, (a, b, t) => lerpFaceFrame(a, b, t)!, maxGapFrames),
+  });
+}
+
+// ============================================================================
+// Jitter filtering
+// ============================================================================
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One-Euro filter (Casiez et al. 2012) over an evenly sampled series
+ */
+export function oneEuroFilter(values: number[], fps: number, config: OneEuroConfig = defaultConfig.oneEuro): number[] {
+  if (values.length === 0) return [];
+  const dt = 1 / fps;
+  const result = [values[0]];
+  let derivative = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const rawDerivative = (values[i] - result[i - 1]) / dt;
+    derivative = lerp(derivative, rawDerivative, smoothingFactor(config.derivativeCutoff, dt));
+    const cutoff = config.minCutoff + config.beta * Math.abs(derivative);
+    result.push(lerp(result[i - 1], values[i], smoothingFactor(cutoff, dt)));
+  }
+
+  return result;
+}
+
+/**
+ * Savitzky-Golay filter with a quadratic fit; the window shrinks near the ends
+ * so the first and last samples are kept.
+ */
+export function savitzkyGolayFilter(values: number[], window: number = defaultConfig.savitzkyGolayWindow): number[] {
+  const halfWidth = Math.floor(window / 2);
+
+  return values.map((_, i) => {
+    const m = Math.min(halfWidth, i, values.length - 1 - i);
+    if (m < 2) return values[i];
+
+    // Closed-form quadratic smoothing coefficients
+    const norm = (2 * m - 1) * (2 * m + 1) * (2 * m + 3);
+    let sum = 0;
+    for (let k = -m; k <= m; k++) {
+      sum += ((3 * (3 * m * m + 3 * m - 1 - 5 * k * k)) / norm) * values[i + k];
+    }
+    return sum;
+  });
+}
+
+/**
+ * Smooth each coordinate of a position track, filtering only contiguous runs
+ * of present positions so untracked frames never leak into the output.
+ */
+function smoothTrack(
+  positions: (Vec3 | undefined)[],
+  filter: (values: number[]) => number[],
+): (Vec3 | undefined)[] {
+  const result = [...positions];
+  let i = 0;
+
+  while (i < positions.length) {
+    if (!positions[i]) {
+      i++;
+      continue;
+    }
+    const start = i;
+    while (i < positions.length && positions[i]) i++;
+
+    const run = positions.slice(start, i) as Vec3[];
+    const xs = filter(run.map((p) => p.x));
+    const ys = filter(run.map((p) => p.y));
+    const zs = filter(run.map((p) => p.z));
+    run.forEach((_, k) => {
+      result[start + k] = { x: xs[k], y: ys[k], z: zs[k] };
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Filter landmark jitter from hand and body positions
+ */
+export function smoothMotion(
+  motion: SignMotion,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const settings = { ...defaultConfig, ...config };
+  if (settings.smoothing === "none" || motion.frameCount < 3) return motion;
+
+  const filter =
+    settings.smoothing === "one-euro"
+      ? (values: number[]) => oneEuroFilter(values, motion.fps, settings.oneEuro)
+      : (values: number[]) => savitzkyGolayFilter(values, settings.savitzkyGolayWindow);
+
+  const smoothHand = (frames: HandFrame[]): HandFrame[] => {
+    const landmarkCount = Math.max(0, ...frames.map((hand) => hand.landmarks.length));
+    const tracks = Array.from({ length: landmarkCount }, (_, index) =>
+      smoothTrack(
+        frames.map((hand) => (isTracked(hand, settings.minConfidence) ? hand.landmarks[index]?.position : undefined)),
+        filter,
+      ),
+    );
+    return frames.map((hand, f) =>
+      isTracked(hand, settings.minConfidence)
+        ? {
+            ...hand,
+            landmarks: hand.landmarks.map((landmark, index) => ({
+              ...landmark,
+              position: tracks[index][f] ?? landmark.position,
+            })),
+          }
+        : hand,
+    );
+  };
+
+  const body: BodyFrame[] = motion.body.map((frame) => ({ joints: { ...frame.joints } }));
+  for (const joint of UPPER_BODY_JOINTS) {
+    const track = smoothTrack(
+      motion.body.map((frame) => frame.joints[joint]?.position),
+      filter,
+    );
+    body.forEach((frame, f) => {
+      const data = frame.joints[joint];
+      if (data && track[f]) frame.joints[joint] = { ...data, position: track[f]! };
+    });
+  }
+
+  return withFrames(motion, {
+    leftHand: smoothHand(motion.leftHand),
+    rightHand: smoothHand(motion.rightHand),
+    body,
+    face: motion.face,
+  });
+}
+
+// ============================================================================
+// Rest-pose trimming
+// ============================================================================
+
+function restHeight(body: BodyFrame | undefined, restLevel: number): number {
+  const shoulders = [body?.joints.leftShoulder, body?.joints.rightShoulder].filter(Boolean);
+  const hips = [body?.joints.leftHip, body?.joints.rightHip].filter(Boolean);
+  if (shoulders.length === 0 || hips.length === 0) return FALLBACK_REST_Y;
+
+  const mean = (joints: typeof shoulders) =>
+    joints.reduce((sum, joint) => sum + joint!.position.y, 0) / joints.length;
+  return lerp(mean(shoulders), mean(hips), restLevel);
+}
+
+/**
+ * Whether either hand is tracked and raised into signing space (y grows
+ * downward, so raised means above the rest line)
+ */
+function isSigning(motion: SignMotion, frame: number, config: PostProcessConfig): boolean {
+  const line = restHeight(motion.body[frame], config.restLevel);
+  return [motion.leftHand[frame], motion.rightHand[frame]].some(
+    (hand) => isTracked(hand, config.minConfidence) && hand.landmarks[0].position.y < line,
+  );
+}
+
+/**
+ * Cut the lead-in before the hands rise into signing space and the lead-out
+ * after they drop. Clips where the hands never rise are returned unchanged.
+ */
+export function trimRestPose(
+  motion: SignMotion,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const settings = { ...defaultConfig, ...config };
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < motion.frameCount; i++) {
+    if (!isSigning(motion, i, settings)) continue;
+    if (first < 0) first = i;
+    last = i;
+  }
+  if (first < 0) return motion;
+
+  const start = Math.max(0, first - settings.restPadFrames);
+  const end = Math.min(motion.frameCount - 1, last + settings.restPadFrames) + 1;
+  if (start === 0 && end === motion.frameCount) return motion;
+
+  return withFrames(motion, {
+    leftHand: motion.leftHand.slice(start, end),
+    rightHand: motion.rightHand.slice(start, end),
+    body: motion.body.slice(start, end),
+    face: motion.face.slice(start, end),
+  });
+}
+
+// ============================================================================
+// Body-scale normalization
+// ============================================================================
+
+/**
+ * Scale and translate the clip so the signer's average shoulder width and
+ * midpoint match the target, making clips from different signers and camera
+ * distances interchangeable. Depth is scaled but not re-centered: MediaPipe
+ * hand depth is relative to the wrist.
+ */
+export function normalizeBodyScale(
+  motion: SignMotion,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const settings = { ...defaultConfig, ...config };
+
+  let width = 0;
+  let centerX = 0;
+  let centerY = 0;
+  let samples = 0;
+  for (const frame of motion.body) {
+    const left = frame.joints.leftShoulder?.position;
+    const right = frame.joints.rightShoulder?.position;
+    if (!left || !right) continue;
+    width += Math.hypot(left.x - right.x, left.y - right.y);
+    centerX += (left.x + right.x) / 2;
+    centerY += (left.y + right.y) / 2;
+    samples++;
+  }
+  if (samples === 0 || width === 0) return motion;
+
+  const scale = settings.shoulderWidth / (width / samples);
+  const center = { x: centerX / samples, y: centerY / samples };
+  const transform = (p: Vec3): Vec3 =>
+    mapVec3(p, (value, axis) =>
+      axis === "z" ? value * scale : (value - center[axis]) * scale + settings.shoulderCenter[axis],
+    );
+
+  const transformHand = (hand: HandFrame): HandFrame =>
+    isTracked(hand, settings.minConfidence)
+      ? {
+          ...hand,
+          landmarks: hand.landmarks.map((landmark) => ({ ...landmark, position: transform(landmark.position) })),
+        }
+      : hand;
+
+  return withFrames(motion, {
+    leftHand: motion.leftHand.map(transformHand),
+    rightHand: motion.rightHand.map(transformHand),
+    body: motion.body.map((frame) => {
+      const joints: BodyFrame["joints"] = {};
+      for (const joint of UPPER_BODY_JOINTS) {
+        const data = frame.joints[joint];
+        if (data) joints[joint] = { ...data, position: transform(data.position) };
+      }
+      return { joints };
+    }),
+    face: motion.face.map((face) =>
+      face.headPosition ? { ...face, headPosition: transform(face.headPosition) } : face,
+    ),
+  });
+}
+
+// ============================================================================
+// Resampling
+// ============================================================================
+
+/**
+ * Resample to a new frame rate by interpolating between neighbouring frames.
+ * Untracked hand frames are never blended; the nearer frame is used instead.
+ */
+export function resampleMotion(
+  motion: SignMotion,
+  targetFps: number,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const { minConfidence } = { ...defaultConfig, ...config };
+  if (targetFps <= 0 || targetFps === motion.fps || motion.frameCount < 2) return motion;
+
+  const span = (motion.frameCount - 1) / motion.fps;
+  const frameCount = Math.floor(span * targetFps + 1e-6) + 1;
+
+  // Source frame pair and blend weight for each output frame
+  const samples = Array.from({ length: frameCount }, (_, i) => {
+    const source = (i / targetFps) * motion.fps;
+    const a = Math.min(Math.floor(source), motion.frameCount - 1);
+    return { a, b: Math.min(a + 1, motion.frameCount - 1), t: source - a };
+  });
+  // One-handed clips may have no frames for the other hand
+  const resample = <T>(frames: T[], interpolate: (a: T, b: T, t: number) => T): T[] =>
+    frames.length === 0 ? [] : samples.map(({ a, b, t }) => interpolate(frames[a], frames[b], t));
+
+  const sampleHand = (a: HandFrame, b: HandFrame, t: number): HandFrame =>
+    isTracked(a, minConfidence) && isTracked(b, minConfidence) ? lerpHandFrame(a, b, t)! : t < 0.5 ? a : b;
+
+  const leftHand = resample(motion.leftHand, sampleHand);
+  const rightHand = resample(motion.rightHand, sampleHand);
+  const body = resample(motion.body, (a, b, t) => lerpBodyFrame(a, b, t)!);
+  const face = resample(motion.face, (a, b, t) =>
+    hasBlendshapes(a) && hasBlendshapes(b) ? lerpFaceFrame(a, b, t)! : t < 0.5 ? a : b,
+  );
+
+  return withFrames(motion, { leftHand, rightHand, body, face }, targetFps);
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+/**
+ * Run the full post-processing pipeline on a captured clip
+ */
+export function processMotion(
+  motion: SignMotion,
+  config: Partial<PostProcessConfig> = {},
+): SignMotion {
+  const settings = { ...defaultConfig, ...config };
+
+  let result = interpolateGaps(motion, settings);
+  result = smoothMotion(result, settings);
+  if (settings.trimRest) result = trimRestPose(result, settings);
+  if (settings.normalize) result = normalizeBodyScale(result, settings);
+  if (settings.targetFps) result = resampleMotion(result, settings.targetFps, settings);
+
+  return result;
+}
@@ -0,0 +1,120 @@
+/**
+ * Motion API Client
+ *
+ * Browser-side access to the shared motion store behind /api/motions.
+ * Mirrors the localStorage helpers in capture.ts, plus version history and
+ * a bulk import of clips still sitting in localStorage. Saving and deleting
+ * send the motion library token from Settings > General.
+ */
+
+import { settingsManager } from "@/lib/config/settings";
+import { listSavedMotions, loadMotionLocal, deleteMotionLocal } from "./capture";
+import type { SignMotion } from "./types";
+import type { MotionSummary, MotionVersionInfo } from "./store";
+
+export type { MotionSummary, MotionVersionInfo };
+
+export const MOTION_API_URL = "/api/motions";
+
+export interface MotionImportResult {
+  saved: MotionSummary[];
+  failed: { gloss: string; error: string }[];
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error ?? `HTTP ${response.status}`);
+  }
+  return body as T;
+}
+
+function authHeaders(): Record<string, string> {
+  const token = settingsManager.get("general").motionToken;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function glossUrl(gloss: string): string {
+  return `${MOTION_API_URL}/${encodeURIComponent(gloss)}`;
+}
+
+/**
+ * Latest version of every stored motion
+ */
+export async function listMotionsRemote(): Promise<MotionSummary[]> {
+  const { motions } = await request<{ motions: MotionSummary[] }>(MOTION_API_URL);
+  return motions;
+}
+
+/**
+ * Load a stored motion (latest version unless one is given); null when missing
+ */
+export async function loadMotionRemote(gloss: string, version?: number): Promise<SignMotion | null> {
+  const url = version === undefined ? glossUrl(gloss) : `${glossUrl(gloss)}?version=${version}`;
+  const response = await fetch(url);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} loading ${gloss}`);
+  }
+  return (await response.json()) as SignMotion;
+}
+
+/**
+ * Upload a motion as the next version of its gloss
+ */
+export async function saveMotionRemote(motion: SignMotion): Promise<MotionSummary> {
+  const { motion: saved } = await request<{ motion: MotionSummary }>(MOTION_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(motion),
+  });
+  return saved;
+}
+
+/**
+ * Delete a gloss and all its versions
+ */
+export async function deleteMotionRemote(gloss: string): Promise<boolean> {
+  const response = await fetch(glossUrl(gloss), { method: "DELETE", headers: authHeaders() });
+  return response.ok;
+}
+
+/**
+ * Stored versions of a gloss, newest first
+ */
+export async function getMotionHistory(gloss: string): Promise<MotionVersionInfo[]> {
+  const { versions } = await request<{ versions: MotionVersionInfo[] }>(`${glossUrl(gloss)}/history`);
+  return versions;
+}
+
+/**
+ * Upload every motion saved in localStorage in one request. Imported
+ * entries are removed from localStorage when removeLocal is set.
+ */
+export async function importLocalMotions(
+  options: { removeLocal?: boolean } = {},
+): Promise<MotionImportResult> {
+  const motions = listSavedMotions()
+    .map((gloss) => {
+      try {
+        return loadMotionLocal(gloss);
+      } catch {
+        return null; // Unparseable entry
+      }
+    })
+    .filter((motion): motion is SignMotion => motion !== null);
+  if (motions.length === 0) return { saved: [], failed: [] };
+
+  const result = await request<MotionImportResult>(MOTION_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ motions }),
+  });
+
+  if (options.removeLocal) {
+    const failed = new Set(result.failed.map((failure) => failure.gloss));
+    motions.filter((motion) => !failed.has(motion.gloss)).forEach((motion) => deleteMotionLocal(motion.gloss));
+  }
+  return result;
+}
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLexicon } from '@/lib/asl/lexicon';
+import type { ASLSign } from '@/types';
+import {
+  MotionSequencer,
+  buildTimeline,
+  findActiveRange,
+  sampleTimeline,
+  type SequencerClock,
+} from './sequencer';
+import { calculateBlendDuration, extractEntryPose, extractExitPose, type HandFrame, type SignMotion } from './types';
+
+const lexicon = createLexicon();
+
+function sign(gloss: string): ASLSign {
+  return lexicon.getSign(gloss)!;
+}
+
+function hand(offset: number): HandFrame {
+  return {
+    landmarks: Array.from({ length: 21 }, (_, index) => ({
+      position: { x: 0.4 + offset + index * 0.01, y: 0.5, z: 0 },
+    })),
+    confidence: 1,
+  };
+}
+
+// Right hand offsets per frame: equal values are holds
+function motion(gloss: string, offsets: number[], fps = 30): SignMotion {
+  const clip: SignMotion = {
+    gloss,
+    body: offsets.map(() => ({ joints: {} })),
+    leftHand: offsets.map(() => hand(0)),
+    rightHand: offsets.map((offset) => hand(offset)),
+    face: offsets.map(() => ({ blendshapes: {} })),
+    entryPose: {},
+    exitPose: {},
+    fps,
+    frameCount: offsets.length,
+    durationMs: (offsets.length / fps) * 1000,
+  };
+  clip.entryPose = extractEntryPose(clip);
+  clip.exitPose = extractExitPose(clip);
+  return clip;
+}
+
+const HELLO = motion('HELLO', [0, 0, 0, 0, 0.02, 0.04, 0.06, 0.08, 0.1, 0.1, 0.1, 0.1]);
+const THANKS = motion('THANK-YOU', [0.2, 0.2, 0.22, 0.24, 0.26, 0.28, 0.3, 0.3]);
+
+function manualClock(): SequencerClock & { advance(ms: number): void } {
+  let time = 1000;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe('findActiveRange', () => {
+  it('should trim still frames at both ends of a clip', () => {
+    expect(findActiveRange(HELLO)).toEqual({ startFrame: 3, endFrame: 8 });
+  });
+
+  it('should keep clips that never move', () => {
+    expect(findActiveRange(motion('STILL', [0, 0, 0, 0, 0, 0]))).toEqual({ startFrame: 0, endFrame: 5 });
+  });
+});
+
+describe('buildTimeline', () => {
+  it('should join clips and procedural signs with blends', () => {
+    const timeline = buildTimeline([sign('HELLO'), sign('YOU'), sign('THANK-YOU')], [HELLO, null, THANKS]);
+
+    expect(timeline.segments.map((segment) => segment.kind)).toEqual([
+      'clip',
+      'blend',
+      'procedural',
+      'blend',
+      'clip',
+    ]);
+    expect(timeline.segments[1].durationMs).toBe(150);
+    expect(timeline.segments[2].durationMs).toBe(sign('YOU').duration);
+    expect(timeline.durationMs).toBe(
+      timeline.segments.reduce((total, segment) => total + segment.durationMs, 0)
+    );
+  });
+
+  it('should size blends between clips from both clips and skip trimmed holds', () => {
+    const timeline = buildTimeline([sign('HELLO'), sign('THANK-YOU')], [HELLO, THANKS]);
+    const [hello, blend] = timeline.segments;
+
+    expect(blend.durationMs).toBe(calculateBlendDuration(HELLO, THANKS));
+    expect(hello.durationMs).toBeCloseTo((6 / 30) * 1000);
+    expect(buildTimeline([sign('HELLO')], [HELLO], { trimHolds: false }).durationMs).toBeCloseTo(400);
+  });
+});
+
+describe('sampleTimeline', () => {
+  const timeline = buildTimeline([sign('HELLO'), sign('THANK-YOU'), sign('YOU')], [HELLO, THANKS, null]);
+  const [hello, blend, thanks, toYou] = timeline.segments;
+
+  it('should report the sign being performed', () => {
+    expect(sampleTimeline(timeline, 10)).toMatchObject({ kind: 'clip', gloss: 'HELLO', signIndex: 0 });
+    expect(sampleTimeline(timeline, blend.startMs + 1)).toMatchObject({ kind: 'blend', gloss: null });
+    expect(sampleTimeline(timeline, timeline.durationMs)).toMatchObject({ kind: 'procedural', gloss: 'YOU' });
+    expect(sampleTimeline(buildTimeline([], []), 0)).toBeNull();
+  });
+
+  it('should blend continuously from the exit pose into the next entry pose', () => {
+    const helloEnd = sampleTimeline(timeline, hello.durationMs - 0.01)!.pose;
+    const blendStart = sampleTimeline(timeline, blend.startMs)!.pose;
+    const blendEnd = sampleTimeline(timeline, blend.startMs + blend.durationMs - 0.01)!.pose;
+    const thanksStart = sampleTimeline(timeline, thanks.startMs)!.pose;
+
+    expect(blendStart.rightArm).toEqual(helloEnd.rightArm);
+    expect(blendEnd.rightHand.x).toBeCloseTo(thanksStart.rightHand.x, 3);
+  });
+
+  it('should blend into procedural signs and apply their non-manual markers', () => {
+    const question = { ...sign('YOU'), nonManualMarkers: [{ type: 'facial' as const, expression: 'raised-eyebrows', intensity: 0.8 }] };
+    const marked = buildTimeline([sign('HELLO'), question], [HELLO, null]);
+
+    expect(sampleTimeline(marked, marked.durationMs)!.pose.faceBlendshapes.browInnerUp).toBe(0.8);
+    expect(sampleTimeline(timeline, toYou.startMs + toYou.durationMs / 2)!.pose.rightFingers).toBeDefined();
+  });
+});
+
+describe('MotionSequencer', () => {
+  const timeline = buildTimeline([sign('HELLO'), sign('YOU'), sign('THANK-YOU')], [HELLO, null, THANKS]);
+
+  it('should play against the injected clock and announce each sign once', () => {
+    const clock = manualClock();
+    const onSignStart = vi.fn();
+    const onComplete = vi.fn();
+    const sequencer = new MotionSequencer(clock, { onSignStart, onComplete });
+
+    sequencer.play(timeline);
+    expect(sequencer.update()?.gloss).toBe('HELLO');
+
+    clock.advance(timeline.segments[2].startMs - 10);
+    sequencer.update();
+    clock.advance(timeline.durationMs);
+    sequencer.update();
+    sequencer.update();
+
+    expect(onSignStart.mock.calls).toEqual([
+      ['HELLO', 0],
+      ['YOU', 1],
+      ['THANK-YOU', 2],
+    ]);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(sequencer.isPlaying).toBe(false);
+  });
+
+  it('should hold position while paused and honour playback speed', () => {
+    const clock = manualClock();
+    const sequencer = new MotionSequencer(clock);
+
+    sequencer.play(timeline);
+    clock.advance(100);
+    sequencer.pause();
+    clock.advance(500);
+    expect(sequencer.elapsed).toBe(100);
+
+    sequencer.resume();
+    sequencer.setSpeed(2);
+    clock.advance(50);
+    expect(sequencer.elapsed).toBe(200);
+    expect(sequencer.isPlaying).toBe(true);
+  });
+});
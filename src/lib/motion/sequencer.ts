@@ -0,0 +1,452 @@
+/**
+ * SignMotion Sequencer (coarticulation)
+ *
+ * Turns a sentence's signs into one continuous timeline:
+ * - captured clips have their leading and trailing hold frames trimmed
+ * - consecutive signs are joined by a blend from the exit pose of one to
+ *   the entry pose of the next, instead of returning to rest
+ * - signs without captured motion are performed procedurally (signToPose)
+ *
+ * The timeline is sampled as AvatarPose frames. MotionSequencer plays it
+ * against an injectable clock, so playback can run headlessly in tests.
+ */
+
+import type { ASLSign } from "@/types";
+import { letterOf, signToPose, type Pose as ProceduralPose } from "@/lib/animation";
+import {
+  applyNonManualMarkers,
+  frameToAvatarPose,
+  lerpAvatarPose,
+  type AvatarPose,
+  type FingerPose,
+} from "./playback";
+import { getMotionLibrary, type MotionLibrary } from "./library";
+import {
+  calculateBlendDuration,
+  lerpPose,
+  type HandFrame,
+  type Pose,
+  type SignMotion,
+} from "./types";
+
+export interface SequencerConfig {
+  trimHolds: boolean; // Drop still frames at the start and end of captured clips
+  holdThreshold: number; // Per-frame hand movement (normalized image units) below which a frame is a hold
+  minClipFrames: number; // Never trim a clip below this many frames
+  proceduralBlendMs: number; // Blend length when either side is procedural
+  fingerspellBlendMs: number; // Blend length between fingerspelled letters (handshapes blend within the letter)
+}
+
+const defaultConfig: SequencerConfig = {
+  trimHolds: true,
+  holdThreshold: 0.002,
+  minClipFrames: 4,
+  proceduralBlendMs: 150,
+  fingerspellBlendMs: 40,
+};
+
+interface SegmentBase {
+  startMs: number;
+  durationMs: number;
+}
+
+export interface ClipSegment extends SegmentBase {
+  kind: "clip";
+  signIndex: number;
+  sign: ASLSign;
+  motion: SignMotion;
+  startFrame: number; // First frame kept after trimming
+  endFrame: number; // Last frame kept after trimming
+}
+
+export interface ProceduralSegment extends SegmentBase {
+  kind: "procedural";
+  signIndex: number;
+  sign: ASLSign;
+  previous?: ASLSign; // Sign before it, for letter-to-letter transitions
+}
+
+export interface BlendSegment extends SegmentBase {
+  kind: "blend";
+  fromIndex: number; // Sign index blended from
+  toIndex: number; // Sign index blended to
+}
+
+export type TimelineSegment = ClipSegment | ProceduralSegment | BlendSegment;
+
+export interface MotionTimeline {
+  segments: TimelineSegment[];
+  durationMs: number;
+  glosses: string[];
+}
+
+export interface SequencedFrame {
+  timeMs: number;
+  segmentIndex: number;
+  kind: TimelineSegment["kind"];
+  gloss: string | null; // null during blends
+  signIndex: number | null;
+  progress: number; // 0-1 through the current segment
+  pose: AvatarPose;
+}
+
+// ============================================================================
+// Hold trimming
+// ============================================================================
+
+function handMovement(a: HandFrame | undefined, b: HandFrame | undefined): number {
+  if (!a || !b || a.confidence <= 0 || b.confidence <= 0) return 0;
+  // Wrist plus the index and middle fingertips capture both travel and handshape change
+  return [0, 8, 12].reduce((sum, landmark) => {
+    const pa = a.landmarks[landmark]?.position;
+    const pb = b.landmarks[landmark]?.position;
+    return pa && pb ? sum + Math.hypot(pb.x - pa.x, pb.y - pa.y, pb.z - pa.z) : sum;
+  }, 0);
+}
+
+/**
+ * First and last frame of a clip once still holds at either end are removed
+ */
+export function findActiveRange(
+  motion: SignMotion,
+  config: Pick<SequencerConfig, "holdThreshold" | "minClipFrames"> = defaultConfig,
+): { startFrame: number; endFrame: number } {
+  const full = { startFrame: 0, endFrame: motion.frameCount - 1 };
+  if (motion.frameCount <= config.minClipFrames) return full;
+
+  const active: number[] = [];
+  for (let i = 1; i < motion.frameCount; i++) {
+    const movement = Math.max(
+      handMovement(motion.rightHand[i - 1], motion.rightHand[i]),
+      handMovement(motion.leftHand[i - 1], motion.leftHand[i]),
+    );
+    if (movement > config.holdThreshold) active.push(i);
+  }
+  if (active.length === 0) return full;
+
+  // Keep the frame the first movement starts from
+  const startFrame = active[0] - 1;
+  const endFrame = active[active.length - 1];
+  return endFrame - startFrame + 1 >= config.minClipFrames ? { startFrame, endFrame } : full;
+}
+
+// ============================================================================
+// Timeline construction
+// ============================================================================
+
+function clipDurationMs(motion: SignMotion, startFrame: number, endFrame: number): number {
+  return ((endFrame - startFrame + 1) / motion.fps) * 1000;
+}
+
+function isFingerspelled(sign: ASLSign): boolean {
+  return letterOf(sign.handshape.dominant) !== null;
+}
+
+/**
+ * Build a continuous timeline from signs and their clips (aligned with the
+ * signs; null performs the sign procedurally).
+ */
+export function buildTimeline(
+  signs: ASLSign[],
+  motions: (SignMotion | null | undefined)[],
+  config: Partial<SequencerConfig> = {},
+): MotionTimeline {
+  const settings = { ...defaultConfig, ...config };
+  const segments: TimelineSegment[] = [];
+  let cursor = 0;
+
+  signs.forEach((sign, signIndex) => {
+    const motion = motions[signIndex] ?? null;
+
+    if (signIndex > 0) {
+      const previous = motions[signIndex - 1] ?? null;
+      let durationMs = settings.proceduralBlendMs;
+      if (previous && motion) {
+        durationMs = calculateBlendDuration(previous, motion);
+      } else if (!previous && !motion && isFingerspelled(sign) && isFingerspelled(signs[signIndex - 1])) {
+        durationMs = settings.fingerspellBlendMs;
+      }
+      segments.push({ kind: "blend", fromIndex: signIndex - 1, toIndex: signIndex, startMs: cursor, durationMs });
+      cursor += durationMs;
+    }
+
+    if (motion && motion.frameCount > 0) {
+      const { startFrame, endFrame } = settings.trimHolds
+        ? findActiveRange(motion, settings)
+        : { startFrame: 0, endFrame: motion.frameCount - 1 };
+      const durationMs = clipDurationMs(motion, startFrame, endFrame);
+      segments.push({ kind: "clip", signIndex, sign, motion, startFrame, endFrame, startMs: cursor, durationMs });
+      cursor += durationMs;
+    } else {
+      segments.push({
+        kind: "procedural",
+        signIndex,
+        sign,
+        previous: signs[signIndex - 1],
+        startMs: cursor,
+        durationMs: sign.duration,
+      });
+      cursor += sign.duration;
+    }
+  });
+
+  return { segments, durationMs: cursor, glosses: signs.map((sign) => sign.gloss) };
+}
+
+/**
+ * Load clips for the signs from the motion library and build their timeline
+ */
+export async function buildSentenceTimeline(
+  signs: ASLSign[],
+  library: MotionLibrary = getMotionLibrary(),
+  config: Partial<SequencerConfig> = {},
+): Promise<MotionTimeline> {
+  return buildTimeline(signs, await library.loadForSigns(signs), config);
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+function motionFrame(motion: SignMotion, frame: number): Pose {
+  return {
+    leftHand: motion.leftHand[frame],
+    rightHand: motion.rightHand[frame],
+    body: motion.body[frame],
+    face: motion.face[frame],
+  };
+}
+
+function clipPose(segment: ClipSegment, progress: number): Pose {
+  const exact = segment.startFrame + progress * (segment.endFrame - segment.startFrame);
+  const frame = Math.floor(exact);
+  const next = Math.min(frame + 1, segment.endFrame);
+  return lerpPose(motionFrame(segment.motion, frame), motionFrame(segment.motion, next), exact - frame);
+}
+
+function toAvatarPose(pose: Pose): AvatarPose {
+  return frameToAvatarPose(pose.rightHand, pose.leftHand, pose.face, pose.body);
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function curlsToFingers(curls: number[], thumb: number): FingerPose {
+  const joints = (curl: number): [number, number, number] => [curl, curl, curl * 0.8];
+  return {
+    thumb: joints(thumb),
+    index: joints(curls[0] ?? 0),
+    middle: joints(curls[1] ?? 0),
+    ring: joints(curls[2] ?? 0),
+    pinky: joints(curls[3] ?? 0),
+  };
+}
+
+/**
+ * Approximate avatar arm rotations for a procedural hand position, using
+ * the same RPM bone axes as playback (Arm.X lowers the arm, Arm.Z brings
+ * it forward, ForeArm.Z bends the elbow).
+ */
+function armForHand(hand: ProceduralPose["rightHand"], isRight: boolean) {
+  const height = clamp01((hand.position.y + 0.2) / 0.8);
+  const reach = clamp01((hand.position.z - 0.15) / 0.3);
+  const side = isRight ? -1 : 1;
+  return {
+    arm: { x: 1.2 - height * 0.7, y: 0, z: side * reach * 1.2 },
+    foreArm: { x: 0, y: 0, z: side * (0.6 + height * 1.6) },
+    hand: hand.rotation,
+  };
+}
+
+function proceduralToAvatarPose(pose: ProceduralPose): AvatarPose {
+  const right = armForHand(pose.rightHand, true);
+  const left = armForHand(pose.leftHand, false);
+  return {
+    rightArm: right.arm,
+    rightForeArm: right.foreArm,
+    rightHand: right.hand,
+    leftArm: left.arm,
+    leftForeArm: left.foreArm,
+    leftHand: left.hand,
+    rightFingers: curlsToFingers(pose.rightHand.fingerCurls, pose.rightHand.thumbCurl),
+    leftFingers: curlsToFingers(pose.leftHand.fingerCurls, pose.leftHand.thumbCurl),
+    faceBlendshapes: {},
+    headRotation: { x: 0, y: 0, z: 0 },
+  };
+}
+
+function signSegment(timeline: MotionTimeline, signIndex: number): ClipSegment | ProceduralSegment {
+  return timeline.segments.find(
+    (segment): segment is ClipSegment | ProceduralSegment =>
+      segment.kind !== "blend" && segment.signIndex === signIndex,
+  )!;
+}
+
+function segmentPose(segment: ClipSegment | ProceduralSegment, progress: number): AvatarPose {
+  const pose =
+    segment.kind === "clip"
+      ? toAvatarPose(clipPose(segment, progress))
+      : proceduralToAvatarPose(signToPose(segment.sign, progress, segment.previous));
+  return applyNonManualMarkers(pose, segment.sign.nonManualMarkers, progress);
+}
+
+// Ease in and out of coarticulation blends
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+function blendPose(timeline: MotionTimeline, segment: BlendSegment, progress: number): AvatarPose {
+  const from = signSegment(timeline, segment.fromIndex);
+  const to = signSegment(timeline, segment.toIndex);
+  const t = smoothstep(progress);
+
+  // Between two clips, blend the exit pose into the entry pose at landmark level
+  if (from.kind === "clip" && to.kind === "clip") {
+    const exit = motionFrame(from.motion, from.endFrame);
+    const entry = motionFrame(to.motion, to.startFrame);
+    return toAvatarPose(lerpPose(exit, entry, t));
+  }
+  return lerpAvatarPose(segmentPose(from, 1), segmentPose(to, 0), t);
+}
+
+/**
+ * Avatar pose at a point in the timeline (clamped to its ends)
+ */
+export function sampleTimeline(timeline: MotionTimeline, timeMs: number): SequencedFrame | null {
+  if (timeline.segments.length === 0) return null;
+
+  const time = Math.max(0, Math.min(timeMs, timeline.durationMs));
+  let segmentIndex = timeline.segments.findIndex((segment) => time < segment.startMs + segment.durationMs);
+  if (segmentIndex < 0) segmentIndex = timeline.segments.length - 1;
+
+  const segment = timeline.segments[segmentIndex];
+  const progress = segment.durationMs > 0 ? clamp01((time - segment.startMs) / segment.durationMs) : 1;
+
+  if (segment.kind === "blend") {
+    return {
+      timeMs: time,
+      segmentIndex,
+      kind: "blend",
+      gloss: null,
+      signIndex: null,
+      progress,
+      pose: blendPose(timeline, segment, progress),
+    };
+  }
+
+  return {
+    timeMs: time,
+    segmentIndex,
+    kind: segment.kind,
+    gloss: segment.sign.gloss,
+    signIndex: segment.signIndex,
+    progress,
+    pose: segmentPose(segment, progress),
+  };
+}
+
+// ============================================================================
+// Playback
+// ============================================================================
+
+export interface SequencerClock {
+  now(): number; // Milliseconds
+}
+
+export const performanceClock: SequencerClock = {
+  now: () => performance.now(),
+};
+
+export interface MotionSequencerCallbacks {
+  onSignStart?: (gloss: string, signIndex: number) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * Plays a timeline against a clock. Call update() once per rendered frame
+ * (e.g. from useFrame); it returns the pose for the current clock time.
+ */
+export class MotionSequencer {
+  private timeline: MotionTimeline | null = null;
+  private startTime = 0;
+  private pausedAt: number | null = null;
+  private lastSignIndex = -1;
+  private finished = false;
+
+  constructor(
+    private clock: SequencerClock = performanceClock,
+    private callbacks: MotionSequencerCallbacks = {},
+    private speed: number = 1,
+  ) {}
+
+  play(timeline: MotionTimeline): void {
+    this.timeline = timeline;
+    this.startTime = this.clock.now();
+    this.pausedAt = null;
+    this.lastSignIndex = -1;
+    this.finished = false;
+  }
+
+  pause(): void {
+    if (this.timeline && this.pausedAt === null) {
+      this.pausedAt = this.clock.now();
+    }
+  }
+
+  resume(): void {
+    if (this.pausedAt !== null) {
+      this.startTime += this.clock.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+  }
+
+  stop(): void {
+    this.timeline = null;
+    this.pausedAt = null;
+  }
+
+  setSpeed(speed: number): void {
+    // Keep the current position when the rate changes
+    const elapsed = this.elapsed;
+    this.speed = speed;
+    this.startTime = (this.pausedAt ?? this.clock.now()) - elapsed / speed;
+  }
+
+  get isPlaying(): boolean {
+    return !!this.timeline && this.pausedAt === null && !this.finished;
+  }
+
+  // Milliseconds into the timeline
+  get elapsed(): number {
+    if (!this.timeline) return 0;
+    const now = this.pausedAt ?? this.clock.now();
+    return Math.min((now - this.startTime) * this.speed, this.timeline.durationMs);
+  }
+
+  update(): SequencedFrame | null {
+    if (!this.timeline) return null;
+
+    const frame = sampleTimeline(this.timeline, this.elapsed);
+    if (!frame) return null;
+
+    const done = this.elapsed >= this.timeline.durationMs;
+    // Signs skipped over between updates are still announced, in order
+    this.announceSignsUpTo(done ? this.timeline.glosses.length - 1 : (frame.signIndex ?? -1));
+
+    if (!this.finished && done) {
+      this.finished = true;
+      this.callbacks.onComplete?.();
+    }
+
+    return frame;
+  }
+
+  private announceSignsUpTo(signIndex: number): void {
+    if (!this.timeline) return;
+    while (this.lastSignIndex < signIndex) {
+      this.lastSignIndex++;
+      this.callbacks.onSignStart?.(this.timeline.glosses[this.lastSignIndex], this.lastSignIndex);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { saveMotionLocal, listSavedMotions } from './capture';
+import { ikPositionsToSignMotion } from './convert';
+import { importLocalMotions } from './remote';
+import { createMotionStore, MotionStoreError, type MotionStore } from './store';
+import type { SignMotion } from './types';
+
+const PUBLIC_DIR = join(__dirname, '../../../public');
+
+function clip(gloss: string, frames = 30): SignMotion {
+  const motion = ikPositionsToSignMotion(JSON.parse(readFileSync(join(PUBLIC_DIR, '/ik_data/dog.json'), 'utf8')));
+  return { ...motion, gloss, frameCount: frames };
+}
+
+describe('MotionStore', () => {
+  let rootDir: string;
+  let store: MotionStore;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'motions-'));
+    store = createMotionStore({ rootDir, maxVersions: 3 });
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should save, list and load motions by normalized gloss', async () => {
+    await store.save(clip('thank you'));
+    await store.save(clip('HELLO'));
+
+    expect((await store.list()).map((summary) => [summary.gloss, summary.version])).toEqual([
+      ['HELLO', 1],
+      ['THANK-YOU', 1],
+    ]);
+    expect((await store.get('Thank-You'))?.gloss).toBe('THANK-YOU');
+    expect(await store.get('MISSING')).toBeNull();
+  });
+
+  it('should keep earlier versions and prune beyond the limit', async () => {
+    for (const frames of [10, 20, 30, 40]) {
+      await store.save(clip('HELLO', frames));
+    }
+
+    expect((await store.history('HELLO')).map((info) => [info.version, info.frameCount])).toEqual([
+      [4, 40],
+      [3, 30],
+      [2, 20],
+    ]);
+    expect((await store.get('HELLO', 2))?.frameCount).toBe(20);
+    expect(await store.get('HELLO', 1)).toBeNull();
+    expect(readdirSync(join(rootDir, 'HELLO')).sort()).toEqual(['history.json', 'v2.json', 'v3.json', 'v4.json']);
+  });
+
+  it('should give concurrent uploads distinct versions', async () => {
+    await Promise.all([store.save(clip('HELLO')), store.save(clip('HELLO')), store.save(clip('HELLO'))]);
+
+    expect((await store.history('HELLO')).map((info) => info.version)).toEqual([3, 2, 1]);
+  });
+
+  it('should convert other motion formats on upload', async () => {
+    const summary = await store.save(JSON.parse(readFileSync(join(PUBLIC_DIR, '/ik_data/help.json'), 'utf8')));
+
+    expect(summary.gloss).toBe('HELP');
+    expect(summary.captureSource).toBe('ik-position');
+  });
+
+  it('should reject malformed motions and unsafe glosses', async () => {
+    await expect(store.save({ gloss: 'X' })).rejects.toBeInstanceOf(MotionStoreError);
+    await expect(store.save(clip('../../etc'))).rejects.toThrow('Invalid gloss');
+    await expect(store.get('..')).rejects.toBeInstanceOf(MotionStoreError);
+  });
+
+  it('should delete every version of a gloss', async () => {
+    await store.save(clip('HELLO'));
+    await store.save(clip('HELLO'));
+
+    expect(await store.delete('hello')).toBe(true);
+    expect(await store.delete('hello')).toBe(false);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('importLocalMotions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should upload localStorage captures in one request and remove the imported ones', async () => {
+    saveMotionLocal(clip('HELLO'));
+    saveMotionLocal(clip('BROKEN'));
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ saved: [{ gloss: 'HELLO', version: 1 }], failed: [{ gloss: 'BROKEN', error: 'bad' }] })),
+    );
+
+    const result = await importLocalMotions({ removeLocal: true });
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('/api/motions');
+    expect(JSON.parse(String(init?.body)).motions).toHaveLength(2);
+    expect(result.failed).toHaveLength(1);
+    expect(listSavedMotions()).toEqual(['BROKEN']);
+  });
+
+  it('should skip the request when nothing is stored locally', async () => {
+    const fetchSpy = vi.spyOn(global, 'fetch');
+
+    expect(await importLocalMotions()).toEqual({ saved: [], failed: [] });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Server-side SignMotion Store
+ *
+ * Persists uploaded clips on the local file system so captures are shared by
+ * everyone using the server instead of living in one browser's localStorage.
+ * Every upload becomes a new version; older versions are kept for history.
+ *
+ * Layout (one directory per gloss):
+ *   <rootDir>/<GLOSS>/history.json   version list, newest last
+ *   <rootDir>/<GLOSS>/v<N>.json      SignMotion for version N
+ *
+ * Node only - used by the /api/motions routes, not exported from the
+ * client-side motion index.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { normalizeGlossId } from "@/lib/asl/lexicon";
+import { toSignMotion } from "./convert";
+import type { SignMotion } from "./types";
+
+export interface MotionVersionInfo {
+  version: number;
+  savedAt: string;
+  frameCount: number;
+  durationMs: number;
+  fps: number;
+  captureSource?: string;
+}
+
+export interface MotionSummary extends MotionVersionInfo {
+  gloss: string;
+  versionCount: number;
+}
+
+export interface MotionStoreConfig {
+  rootDir: string;
+  maxVersions: number; // Oldest versions beyond this are deleted
+}
+
+const defaultConfig: MotionStoreConfig = {
+  rootDir: process.env.MOTION_STORE_DIR ?? path.join(process.cwd(), "data", "motions"),
+  maxVersions: 20,
+};
+
+interface HistoryFile {
+  gloss: string;
+  versions: MotionVersionInfo[];
+}
+
+// Letters, digits, hyphens and prefixes like FS: or CL:
+const GLOSS_PATTERN = /^[A-Z0-9][A-Z0-9:+-]*$/;
+
+export class MotionStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 = 400,
+  ) {
+    super(message);
+    this.name = "MotionStoreError";
+  }
+}
+
+export class MotionStore {
+  private config: MotionStoreConfig;
+  // Serializes writes per gloss so concurrent uploads get distinct versions
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(config: Partial<MotionStoreConfig> = {}) {
+    this.config = { ...defaultConfig, ...config };
+  }
+
+  /**
+   * Latest version of every stored gloss, sorted by gloss
+   */
+  async list(): Promise<MotionSummary[]> {
+    let dirs: string[];
+    try {
+      dirs = await fs.readdir(this.config.rootDir);
+    } catch {
+      return [];
+    }
+
+    const summaries: MotionSummary[] = [];
+    for (const dir of dirs) {
+      const history = await this.readHistory(decodeURIComponent(dir));
+      const latest = history?.versions.at(-1);
+      if (history && latest) {
+        summaries.push({ gloss: history.gloss, versionCount: history.versions.length, ...latest });
+      }
+    }
+    return summaries.sort((a, b) => a.gloss.localeCompare(b.gloss));
+  }
+
+  /**
+   * A stored clip; the latest version unless one is given
+   */
+  async get(gloss: string, version?: number): Promise<SignMotion | null> {
+    const id = this.glossId(gloss);
+    const history = await this.readHistory(id);
+    const entry = version === undefined
+      ? history?.versions.at(-1)
+      : history?.versions.find((v) => v.version === version);
+    if (!entry) return null;
+
+    return JSON.parse(await fs.readFile(this.versionPath(id, entry.version), "utf8")) as SignMotion;
+  }
+
+  /**
+   * Version list for a gloss, newest first
+   */
+  async history(gloss: string): Promise<MotionVersionInfo[]> {
+    const history = await this.readHistory(this.glossId(gloss));
+    return history ? [...history.versions].reverse() : [];
+  }
+
+  /**
+   * Store a clip as the next version of its gloss. Accepts any format
+   * toSignMotion understands.
+   */
+  async save(data: unknown): Promise<MotionSummary> {
+    let motion: SignMotion;
+    try {
+      motion = toSignMotion(data);
+    } catch (error) {
+      throw new MotionStoreError(error instanceof Error ? error.message : String(error));
+    }
+    const id = this.glossId(motion.gloss ?? "");
+
+    return this.withLock(id, async () => {
+      const history = (await this.readHistory(id)) ?? { gloss: id, versions: [] };
+      const info: MotionVersionInfo = {
+        version: (history.versions.at(-1)?.version ?? 0) + 1,
+        savedAt: new Date().toISOString(),
+        frameCount: motion.frameCount,
+        durationMs: motion.durationMs,
+        fps: motion.fps,
+        captureSource: motion.metadata?.captureSource,
+      };
+
+      await fs.mkdir(this.glossDir(id), { recursive: true });
+      await this.writeJson(this.versionPath(id, info.version), { ...motion, gloss: id });
+
+      const versions = [...history.versions, info];
+      const pruned = versions.splice(0, Math.max(0, versions.length - this.config.maxVersions));
+      await this.writeJson(this.historyPath(id), { gloss: id, versions });
+      await Promise.all(pruned.map((old) => fs.rm(this.versionPath(id, old.version), { force: true })));
+
+      return { gloss: id, versionCount: versions.length, ...info };
+    });
+  }
+
+  /**
+   * Delete a gloss and all its versions
+   */
+  async delete(gloss: string): Promise<boolean> {
+    const id = this.glossId(gloss);
+    return this.withLock(id, async () => {
+      if (!(await this.readHistory(id))) return false;
+      await fs.rm(this.glossDir(id), { recursive: true, force: true });
+      return true;
+    });
+  }
+
+  private glossId(gloss: string): string {
+    const id = normalizeGlossId(gloss);
+    if (!GLOSS_PATTERN.test(id)) {
+      throw new MotionStoreError(`Invalid gloss: "${gloss}"`);
+    }
+    return id;
+  }
+
+  private glossDir(id: string): string {
+    return path.join(this.config.rootDir, encodeURIComponent(id));
+  }
+
+  private historyPath(id: string): string {
+    return path.join(this.glossDir(id), "history.json");
+  }
+
+  private versionPath(id: string, version: number): string {
+    return path.join(this.glossDir(id), `v${version}.json`);
+  }
+
+  private async readHistory(id: string): Promise<HistoryFile | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.historyPath(id), "utf8")) as HistoryFile;
+    } catch {
+      return null;
+    }
+  }
+
+  // Write via a temp file so readers never see a partial document
+  private async writeJson(file: string, data: unknown): Promise<void> {
+    const temp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data));
+    await fs.rename(temp, file);
+  }
+
+  private withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.locks.set(id, next);
+    next.finally(() => {
+      if (this.locks.get(id) === next) this.locks.delete(id);
+    }).catch(() => undefined);
+    return next;
+  }
+}
+
+// Singleton instance
+let motionStoreInstance: MotionStore | null = null;
+
+export function getMotionStore(config?: Partial<MotionStoreConfig>): MotionStore {
+  if (!motionStoreInstance) {
+    motionStoreInstance = new MotionStore(config);
+  }
+  return motionStoreInstance;
+}
+
+export function createMotionStore(config?: Partial<MotionStoreConfig>): MotionStore {
+  return new MotionStore(config);
+}
@@ -352,6 +352,70 @@ export function lerpHandFrame(
   };
 }
 
+/**
+ * Interpolate between two face frames
+ */
+export function lerpFaceFrame(
+  a: FaceFrame | undefined,
+  b: FaceFrame | undefined,
+  t: number,
+): FaceFrame | undefined {
+  if (!a || !b) return a || b;
+
+  const blendshapes: FaceFrame["blendshapes"] = {};
+  const keys = new Set([
+    ...Object.keys(a.blendshapes),
+    ...Object.keys(b.blendshapes),
+  ]) as Set<ARKitBlendshape>;
+  for (const key of keys) {
+    blendshapes[key] = lerp(a.blendshapes[key] ?? 0, b.blendshapes[key] ?? 0, t);
+  }
+
+  return {
+    blendshapes,
+    headRotation:
+      a.headRotation && b.headRotation
+        ? slerpQuat(a.headRotation, b.headRotation, t)
+        : (a.headRotation ?? b.headRotation),
+    headPosition:
+      a.headPosition && b.headPosition
+        ? lerpVec3(a.headPosition, b.headPosition, t)
+        : (a.headPosition ?? b.headPosition),
+  };
+}
+
+/**
+ * Interpolate between two body frames (joints missing on one side are kept)
+ */
+export function lerpBodyFrame(
+  a: BodyFrame | undefined,
+  b: BodyFrame | undefined,
+  t: number,
+): BodyFrame | undefined {
+  if (!a || !b) return a || b;
+
+  const joints: BodyFrame["joints"] = {};
+  for (const joint of UPPER_BODY_JOINTS) {
+    const ja = a.joints[joint];
+    const jb = b.joints[joint];
+    if (!ja || !jb) {
+      const only = ja ?? jb;
+      if (only) joints[joint] = only;
+      continue;
+    }
+    joints[joint] = {
+      position: lerpVec3(ja.position, jb.position, t),
+      rotation:
+        ja.rotation && jb.rotation
+          ? slerpQuat(ja.rotation, jb.rotation, t)
+          : (ja.rotation ?? jb.rotation),
+      visibility: lerp(ja.visibility ?? 1, jb.visibility ?? 1, t),
+    };
+  }
+
+  return { joints };
+}
+
 /**
  * Interpolate between two poses (for sign blending)
  */
@@ -359,9 +423,8 @@ export function lerpPose(a: Pose, b: Pose, t: number): Pose {
   return {
     leftHand: lerpHandFrame(a.leftHand, b.leftHand, t),
     rightHand: lerpHandFrame(a.rightHand, b.rightHand, t),
-    // Body and face interpolation can be added as needed
-    body: t < 0.5 ? a.body : b.body,
-    face: t < 0.5 ? a.face : b.face,
+    body: lerpBodyFrame(a.body, b.body, t),
+    face: lerpFaceFrame(a.face, b.face, t),
   };
 }
 
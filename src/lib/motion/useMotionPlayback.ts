@@ -3,6 +3,7 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
+import type { NonManualMarker } from "@/types";
 import type { SignMotion } from "./types";
 import {
   type PlaybackState,
@@ -29,8 +30,8 @@ export interface UseMotionPlaybackResult {
   seek: (frame: number) => void;
   setSpeed: (speed: number) => void;
 
-  // Load motion
-  loadMotion: (motion: SignMotion) => void;
+  // Load motion, optionally with the non-manual markers of the sign it performs
+  loadMotion: (motion: SignMotion, markers?: NonManualMarker[]) => void;
   motion: SignMotion | null;
 }
 
@@ -43,6 +44,7 @@ export function useMotionPlayback(): UseMotionPlaybackResult {
 
   const playbackStateRef = useRef<PlaybackState | null>(null);
   const animationFrameRef = useRef<number>(0);
+  const markersRef = useRef<NonManualMarker[]>([]);
 
   // Animation loop
   const animate = useCallback(() => {
@@ -61,7 +63,7 @@ export function useMotionPlayback(): UseMotionPlaybackResult {
 
     // Get interpolated pose
     const elapsed = (timestamp - state.startTime) * state.playbackSpeed;
-    const pose = getPoseAtTime(state.motion, elapsed);
+    const pose = getPoseAtTime(state.motion, elapsed, markersRef.current);
     setCurrentPose(pose);
 
     if (finished) {
@@ -79,7 +81,8 @@ export function useMotionPlayback(): UseMotionPlaybackResult {
   }, []);
 
   const loadMotion = useCallback(
-    (newMotion: SignMotion) => {
+    (newMotion: SignMotion, markers: NonManualMarker[] = []) => {
+      markersRef.current = markers;
       setMotion(newMotion);
       playbackStateRef.current = createPlaybackState(newMotion, speed);
       setCurrentFrame(0);
@@ -1,18 +1,37 @@
-import type { AudioSource, TranscriptionSegment, ASLTranslation, PipelineStatus } from '@/types';
+import type {
+  AudioSource,
+  TranscriptionSegment,
+  ASLTranslation,
+  PipelineStatus,
+  EventVocabulary,
+  SignVariantPreferences,
+} from '@/types';
 import { AudioCapture, getAudioCapture } from '@/lib/audio';
-import { SpeechRecognizer, getSpeechRecognizer, DeepgramSpeechRecognizer } from '@/lib/speech';
-import { ASLTranslator, getASLTranslator } from '@/lib/asl';
+import {
+  SpeechRecognizer,
+  getSpeechRecognizer,
+  DeepgramSpeechRecognizer,
+  WhisperRecognizer,
+  createWhisperRecognizer,
+  floatTo16BitPCM,
+} from '@/lib/speech';
+import { ASLTranslator } from '@/lib/asl';
+import { getVocabularyKeywords } from '@/lib/asl/eventVocabulary';
 
 export interface PipelineConfig {
   useDeepgram: boolean;
   deepgramApiKey?: string;
+  useWhisper: boolean; // Transcribe locally with Whisper, without sending audio anywhere
   targetLatency: number; // Target end-to-end latency in ms
   batchTranslation: boolean; // Batch words before translating
   batchDelay: number; // How long to wait before batching (ms)
+  vocabulary?: EventVocabulary; // Event names, acronyms and phrase overrides
+  signVariants?: SignVariantPreferences; // Region, register and speed of the signs performed
 }
 
 const defaultConfig: PipelineConfig = {
   useDeepgram: false,
+  useWhisper: false,
   targetLatency: 500,
   batchTranslation: true,
   batchDelay: 150, // Small delay to batch words
@@ -28,6 +47,7 @@ export class SignMatePipeline {
   private audioCapture: AudioCapture;
   private speechRecognizer: SpeechRecognizer | null = null;
   private deepgramRecognizer: DeepgramSpeechRecognizer | null = null;
+  private whisperRecognizer: WhisperRecognizer | null = null;
   private aslTranslator: ASLTranslator;
 
   private onTranscription: TranscriptionHandler | null = null;
@@ -53,7 +73,9 @@ export class SignMatePipeline {
   constructor(config: Partial<PipelineConfig> = {}) {
     this.config = { ...defaultConfig, ...config };
     this.audioCapture = getAudioCapture();
-    this.aslTranslator = getASLTranslator();
+    this.aslTranslator = new ASLTranslator();
+    this.aslTranslator.setVocabulary(this.config.vocabulary ?? null);
+    this.aslTranslator.setVariantPreferences(this.config.signVariants ?? null);
   }
 
   async start(
@@ -79,7 +101,9 @@ export class SignMatePipeline {
 
     try {
       // Initialize speech recognition
-      if (this.config.useDeepgram && this.config.deepgramApiKey) {
+      if (this.config.useWhisper) {
+        await this.initWhisperPipeline(audioSource);
+      } else if (this.config.useDeepgram && this.config.deepgramApiKey) {
         await this.initDeepgramPipeline(audioSource);
       } else {
         await this.initWebSpeechPipeline();
@@ -109,6 +133,7 @@ export class SignMatePipeline {
       apiKey: this.config.deepgramApiKey!,
       interimResults: true,
       endpointing: 300,
+      keywords: getVocabularyKeywords(this.config.vocabulary),
     });
 
     await this.deepgramRecognizer.connect(
@@ -122,6 +147,22 @@ export class SignMatePipeline {
     });
   }
 
+  private async initWhisperPipeline(audioSource: AudioSource): Promise<void> {
+    const recognizer = createWhisperRecognizer();
+    this.whisperRecognizer = recognizer;
+
+    // Model download happens on first use; listening starts once it is loaded
+    await recognizer.connect(
+      (segment) => this.handleTranscription(segment),
+      (error) => this.handleError(error),
+      () => recognizer.start()
+    );
+
+    await this.audioCapture.startCapture(audioSource, (audioData) => {
+      this.whisperRecognizer?.sendAudio(floatTo16BitPCM(audioData));
+    });
+  }
+
   private handleTranscription(segment: TranscriptionSegment): void {
     this.lastTranscriptionTime = Date.now();
     this.onTranscription?.(segment);
@@ -194,10 +235,23 @@ export class SignMatePipeline {
   async stop(): Promise<void> {
     this.isRunning = false;
 
+    // Transcribe the utterance Whisper is still buffering, then translate what is left
+    if (this.whisperRecognizer) {
+      const recognizer = this.whisperRecognizer;
+      this.whisperRecognizer = null;
+      await this.audioCapture.stopCapture();
+      try {
+        await recognizer.flush();
+      } finally {
+        recognizer.disconnect();
+      }
+    }
+
     if (this.batchTimeout) {
       clearTimeout(this.batchTimeout);
       this.batchTimeout = null;
     }
+    await this.translatePendingText();
 
     if (this.speechRecognizer) {
       this.speechRecognizer.stop();
@@ -251,3 +305,13 @@ export {
   type StreamingPipelineConfig,
   type PipelineMetrics,
 } from './streamingPipeline';
+
+export {
+  SignScheduler,
+  createSignScheduler,
+  DISFLUENCY_GLOSSES,
+  DISCOURSE_FILLER_GLOSSES,
+  type SignSchedulerConfig,
+  type ScheduledBatch,
+  type ScheduleResult,
+} from './signScheduler';
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ASLSign } from '@/types';
+import { DISCOURSE_FILLER_GLOSSES, DISFLUENCY_GLOSSES, SignScheduler } from './signScheduler';
+
+function sign(gloss: string, duration = 500): ASLSign {
+  return {
+    gloss,
+    duration,
+    handshape: { dominant: 'flat-hand' },
+    location: { x: 0, y: 0.5, z: 0.3, reference: 'neutral' },
+    movement: { type: 'static', speed: 'normal' },
+    nonManualMarkers: [],
+  };
+}
+
+function glosses(signs: ASLSign[]): string[] {
+  return signs.map((s) => s.gloss);
+}
+
+function spell(word: string): ASLSign[] {
+  return [...word].map((letter) => sign(`FS:${letter}`, 250));
+}
+
+describe('SignScheduler', () => {
+  let time: number;
+  let scheduler: SignScheduler;
+
+  beforeEach(() => {
+    time = 1000;
+    scheduler = new SignScheduler({ targetLag: 500, maxLag: 2000, minTimeScale: 0.7 }, () => time);
+  });
+
+  it('should queue signs unchanged while the avatar keeps up', () => {
+    const first = scheduler.schedule([sign('UM'), sign('HELLO'), sign('HELLO')], 'um hello hello');
+
+    expect(first.timeScale).toBe(1);
+    expect(glosses(first.batch.signs)).toEqual(['UM', 'HELLO', 'HELLO']);
+    expect(first.batch).toMatchObject({ startsAt: 1000, endsAt: 2500, lag: 0 });
+
+    time = 1200;
+    expect(scheduler.getLag()).toBe(1300);
+    time = 3000;
+    expect(scheduler.getLag()).toBe(0);
+    expect(scheduler.getQueue()[0].processed).toBe(true);
+    expect(scheduler.getQueue()).toEqual([]);
+  });
+
+  it('should drop fillers and repeats and compress signs when behind', () => {
+    scheduler.schedule([sign('A', 1000), sign('B', 1000)], 'a b');
+    time = 1750; // 1250ms behind: halfway between target and max lag
+
+    const result = scheduler.schedule([sign('UM'), sign('GO'), sign('GO'), sign('UH'), sign('HOME')], 'um go go uh home');
+
+    expect(result.batch.lag).toBe(1250);
+    expect(glosses(result.batch.signs)).toEqual(['GO', 'HOME']);
+    expect(result.dropped).toBe(3);
+    expect(result.timeScale).toBeCloseTo(0.85);
+    expect(result.batch.signs[0].duration).toBe(425);
+    expect(result.batch.startsAt).toBe(3000);
+  });
+
+  it('should keep lexical signs such as LIKE unless the event opts in to dropping them', () => {
+    const behind = (target: SignScheduler) => {
+      target.schedule([sign('A', 1000)], 'a');
+      time += 100;
+      return target.schedule([sign('I'), ...spell('LIKE'), sign('PIZZA'), sign('REALLY')], 'I like pizza really');
+    };
+    const aggressive = new SignScheduler(
+      { targetLag: 500, maxLag: 2000, fillerGlosses: [...DISFLUENCY_GLOSSES, ...DISCOURSE_FILLER_GLOSSES] },
+      () => time
+    );
+
+    expect(glosses(behind(scheduler).batch.signs)).toEqual(['I', 'FS:L', 'FS:I', 'FS:K', 'FS:E', 'PIZZA', 'REALLY']);
+    expect(glosses(behind(aggressive).batch.signs)).toEqual(['I', 'PIZZA']);
+  });
+
+  it('should summarize batches when the lag exceeds the maximum', () => {
+    scheduler.schedule([sign('A', 3000)], 'a');
+
+    const result = scheduler.schedule(
+      [sign('IX-1'), sign('WANT'), sign('MEET'), ...spell('SAM'), sign('THAT'), sign('TOMORROW')],
+      'I want to meet Sam that tomorrow'
+    );
+
+    expect(result.summarized).toBe(true);
+    expect(glosses(result.batch.signs)).toEqual(['WANT', 'MEET', 'TOMORROW']);
+    expect(result.batch.signs.every((s) => s.duration === 350)).toBe(true);
+  });
+
+  it('should keep fingerspelled words whole when summarizing', () => {
+    scheduler.schedule([sign('A', 3000)], 'a');
+
+    const result = scheduler.schedule([sign('I'), ...spell('SAM'), sign('YOU'), sign('ARRIVE')], 'I Sam you arrive');
+
+    expect(glosses(result.batch.signs)).toEqual(['I', 'FS:S', 'FS:A', 'FS:M', 'ARRIVE']);
+  });
+
+  it('should only queue when shaping is off and restart after clear', () => {
+    scheduler.schedule([sign('A', 3000)], 'a');
+
+    const result = scheduler.schedule([sign('UM'), sign('GO')], 'um go', { shape: false });
+    expect(glosses(result.batch.signs)).toEqual(['UM', 'GO']);
+    expect(result.timeScale).toBe(1);
+
+    scheduler.clear();
+    expect(scheduler.getLag()).toBe(0);
+    expect(scheduler.schedule([sign('GO')], 'go').batch.startsAt).toBe(time);
+  });
+});
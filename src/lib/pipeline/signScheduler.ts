@@ -0,0 +1,230 @@
+import type { ASLSign } from '@/types';
+
+/**
+ * Sign Scheduler
+ *
+ * Keeps the avatar in step with the speaker. Signs are played back to back,
+ * so when the speaker talks faster than the avatar signs, new translations
+ * wait behind the ones still playing. The scheduler tracks that backlog (the
+ * lag behind the live transcript) and shapes each new batch before it is
+ * queued:
+ * - over the target lag: drop filler and repeated glosses, and time-compress
+ *   the remaining signs (never below minTimeScale)
+ * - over the maximum lag: summarize the batch down to its most informative
+ *   signs
+ */
+
+// Disfluencies carry no meaning and are always safe to drop
+export const DISFLUENCY_GLOSSES = ['UM', 'UH', 'ER', 'HMM'];
+
+// Hedges and intensifiers that are also real signs ("I like pizza"); events opt in to dropping them
+export const DISCOURSE_FILLER_GLOSSES = ['LIKE', 'WELL', 'SO', 'JUST', 'REALLY', 'VERY', 'ACTUALLY', 'BASICALLY'];
+
+export interface SignSchedulerConfig {
+  targetLag: number; // Backlog (ms) above which signs are dropped and compressed
+  maxLag: number; // Backlog (ms) above which batches are summarized
+  minTimeScale: number; // Shortest allowed duration as a fraction of the original
+  minSignDuration: number; // Compressed signs never go below this (ms)
+  summaryMaxUnits: number; // Signs (or fingerspelled words) kept in a summary
+  fillerGlosses: string[]; // Dropped whenever the avatar is behind
+  lowInformationGlosses: string[]; // Dropped first when summarizing
+}
+
+const DEFAULT_CONFIG: SignSchedulerConfig = {
+  targetLag: 500,
+  maxLag: 2000,
+  minTimeScale: 0.7,
+  minSignDuration: 120,
+  summaryMaxUnits: 3,
+  fillerGlosses: DISFLUENCY_GLOSSES,
+  lowInformationGlosses: [
+    'I', 'ME', 'MY', 'YOU', 'YOUR', 'WE', 'US', 'OUR', 'HE', 'SHE', 'IT', 'THEY', 'THEM',
+    'IX', 'THIS', 'THAT', 'AND', 'OR', 'BUT', 'FOR', 'WITH', 'TO', 'OF',
+  ],
+};
+
+const FINGERSPELL_PREFIX = 'FS:';
+
+// Signs queued for playback, with their estimated place on the timeline
+export interface ScheduledBatch {
+  signs: ASLSign[];
+  text: string;
+  timestamp: number; // When the batch was queued
+  startsAt: number; // Estimated playback start
+  endsAt: number; // Estimated playback end
+  lag: number; // How long the batch waited behind earlier signs (ms)
+  processed: boolean; // Finished playing
+}
+
+export interface ScheduleResult {
+  batch: ScheduledBatch;
+  dropped: number; // Signs removed as filler, repeats or by summarizing
+  timeScale: number; // Duration multiplier applied (1 = uncompressed)
+  summarized: boolean;
+}
+
+// A sign, or the letters of one fingerspelled word, dropped or kept as a whole
+interface SignUnit {
+  signs: ASLSign[];
+  word: string;
+}
+
+function toUnits(signs: ASLSign[]): SignUnit[] {
+  const units: SignUnit[] = [];
+  let spelling: SignUnit | null = null;
+  for (const sign of signs) {
+    if (sign.gloss.startsWith(FINGERSPELL_PREFIX)) {
+      if (!spelling) {
+        spelling = { signs: [], word: '' };
+        units.push(spelling);
+      }
+      spelling.signs.push(sign);
+      spelling.word += sign.gloss.slice(FINGERSPELL_PREFIX.length);
+    } else {
+      spelling = null;
+      units.push({ signs: [sign], word: sign.gloss });
+    }
+  }
+  return units;
+}
+
+function fromUnits(units: SignUnit[]): ASLSign[] {
+  return units.flatMap((unit) => unit.signs);
+}
+
+function totalDuration(signs: ASLSign[]): number {
+  return signs.reduce((sum, sign) => sum + sign.duration, 0);
+}
+
+// Pointing glosses such as IX-1 or IX-LOC count as IX
+function baseGloss(word: string): string {
+  return word.split('-')[0];
+}
+
+export class SignScheduler {
+  private config: SignSchedulerConfig;
+  private queue: ScheduledBatch[] = [];
+  private playheadEnd = 0;
+  private fillers: Set<string>;
+  private lowInformation: Set<string>;
+
+  constructor(
+    config: Partial<SignSchedulerConfig> = {},
+    private now: () => number = Date.now
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.fillers = new Set(this.config.fillerGlosses);
+    this.lowInformation = new Set(this.config.lowInformationGlosses);
+  }
+
+  updateConfig(updates: Partial<SignSchedulerConfig>): void {
+    this.config = { ...this.config, ...updates };
+    this.fillers = new Set(this.config.fillerGlosses);
+    this.lowInformation = new Set(this.config.lowInformationGlosses);
+  }
+
+  /**
+   * Current lag: how long until the avatar has signed everything queued (ms)
+   */
+  getLag(): number {
+    return Math.max(0, this.playheadEnd - this.now());
+  }
+
+  /**
+   * Shape a translated batch for the current lag and queue it after the
+   * signs still playing. With shape: false the batch is only queued.
+   */
+  schedule(signs: ASLSign[], text: string, options: { shape?: boolean } = {}): ScheduleResult {
+    const now = this.now();
+    const lag = this.getLag();
+    const shape = options.shape ?? true;
+    let units = toUnits(signs);
+    let summarized = false;
+
+    if (shape && lag > this.config.targetLag) {
+      units = this.dropFillers(units);
+    }
+    if (shape && lag > this.config.maxLag) {
+      units = this.summarize(units);
+      summarized = true;
+    }
+
+    const timeScale = shape ? this.timeScaleFor(lag) : 1;
+    const shaped = fromUnits(units).map((sign) =>
+      timeScale < 1
+        ? { ...sign, duration: Math.max(this.config.minSignDuration, Math.round(sign.duration * timeScale)) }
+        : sign
+    );
+
+    const startsAt = Math.max(now, this.playheadEnd);
+    const batch: ScheduledBatch = {
+      signs: shaped,
+      text,
+      timestamp: now,
+      startsAt,
+      endsAt: startsAt + totalDuration(shaped),
+      lag,
+      processed: false,
+    };
+    this.playheadEnd = batch.endsAt;
+    this.queue.push(batch);
+
+    return { batch, dropped: signs.length - shaped.length, timeScale, summarized };
+  }
+
+  /**
+   * Queued batches; finished ones are marked processed and pruned on the next call
+   */
+  getQueue(): ScheduledBatch[] {
+    const now = this.now();
+    this.queue = this.queue.filter((batch) => !batch.processed);
+    for (const batch of this.queue) {
+      batch.processed = batch.endsAt <= now;
+    }
+    return [...this.queue];
+  }
+
+  // Playback was cleared or restarted; nothing is pending
+  clear(): void {
+    this.queue = [];
+    this.playheadEnd = 0;
+  }
+
+  // Scale linearly from 1 at the target lag down to minTimeScale at the maximum lag
+  private timeScaleFor(lag: number): number {
+    const { targetLag, maxLag, minTimeScale } = this.config;
+    if (lag <= targetLag) return 1;
+    if (lag >= maxLag) return minTimeScale;
+    return 1 - ((lag - targetLag) / (maxLag - targetLag)) * (1 - minTimeScale);
+  }
+
+  private dropFillers(units: SignUnit[]): SignUnit[] {
+    return units.filter(
+      (unit, i) => !this.fillers.has(unit.word) && (i === 0 || unit.word !== units[i - 1].word)
+    );
+  }
+
+  // Keep the most informative units in their original order
+  private summarize(units: SignUnit[]): SignUnit[] {
+    const priority = (unit: SignUnit) => {
+      if (this.lowInformation.has(baseGloss(unit.word))) return 0;
+      if (unit.signs.length > 1) return 1; // Fingerspelling is slow to watch
+      return 2;
+    };
+    const kept = new Set(
+      units
+        .map((unit, index) => ({ index, priority: priority(unit) }))
+        .sort((a, b) => b.priority - a.priority || a.index - b.index)
+        .slice(0, this.config.summaryMaxUnits)
+        .map(({ index }) => index)
+    );
+    return units.filter((_, index) => kept.has(index));
+  }
+}
+
+export function createSignScheduler(
+  config?: Partial<SignSchedulerConfig>,
+  now?: () => number
+): SignScheduler {
+  return new SignScheduler(config, now);
+}
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { RealTimeStreamingPipeline } from './streamingPipeline';
+import type { ASLSign, ASLTranslation, AudioSource, TranscriptionSegment } from '@/types';
+import type { SignTranslator } from '@/lib/asl';
+
+// Captures the Web Speech recognizer the pipeline creates so tests can feed it results
+let recognition: {
+  onresult: ((event: unknown) => void) | null;
+  start: () => void;
+  stop: () => void;
+} | null = null;
+
+class CapturingSpeechRecognition {
+  lang = 'en-US';
+  interimResults = true;
+  continuous = true;
+  maxAlternatives = 1;
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onend: (() => void) | null = null;
+
+  constructor() {
+    recognition = this;
+  }
+
+  start() {}
+  stop() {}
+  abort() {}
+}
+
+function speak(transcript: string, isFinal = true): void {
+  recognition?.onresult?.({
+    resultIndex: 0,
+    results: [Object.assign([{ transcript, confidence: 0.95 }], { isFinal })],
+  });
+}
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('RealTimeStreamingPipeline translation', () => {
+  let originalRecognition: unknown;
+
+  beforeEach(() => {
+    originalRecognition = (window as unknown as { SpeechRecognition: unknown }).SpeechRecognition;
+    (window as unknown as { SpeechRecognition: unknown }).SpeechRecognition = CapturingSpeechRecognition;
+    recognition = null;
+  });
+
+  afterEach(() => {
+    (window as unknown as { SpeechRecognition: unknown }).SpeechRecognition = originalRecognition;
+  });
+
+  it('should translate final transcripts with ASLTranslator by default', async () => {
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false, maxBatchSize: 1 });
+    const translations: ASLTranslation[] = [];
+    pipeline.on('translation', (translation) => translations.push(translation));
+
+    await pipeline.start();
+    speak('hello xyz');
+    await flush();
+
+    expect(translations).toHaveLength(1);
+    expect(translations[0].signs[0].gloss).toBe('HELLO');
+    expect(translations[0].fingerspelledWords).toEqual(['xyz']);
+    expect(pipeline.getSignQueue()).toHaveLength(1);
+
+    await pipeline.stop();
+  });
+
+  it('should use an injected translator', async () => {
+    const translate = vi.fn(async (text: string): Promise<ASLTranslation> => ({
+      id: 'custom-1',
+      sourceText: text,
+      signs: [],
+      timestamp: Date.now(),
+      unmappedWords: ['keynote'],
+      fingerspelledWords: [],
+    }));
+    const translator: SignTranslator = { translate };
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false, maxBatchSize: 1, translator });
+    const translations: ASLTranslation[] = [];
+    pipeline.on('translation', (translation) => translations.push(translation));
+
+    await pipeline.start();
+    speak('keynote', false);
+    speak('keynote');
+    await flush();
+
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(translate).toHaveBeenCalledWith('keynote');
+    expect(translations[0].unmappedWords).toEqual(['keynote']);
+
+    await pipeline.stop();
+  });
+
+  it('should keep its event vocabulary when another pipeline is created', async () => {
+    const pipeline = new RealTimeStreamingPipeline({
+      enableMetrics: false,
+      maxBatchSize: 1,
+      vocabulary: { speakers: [{ name: 'Marcus Webb', abbreviation: 'MW' }], acronyms: [], phrases: [] },
+    });
+    new RealTimeStreamingPipeline({ enableMetrics: false });
+    const translations: ASLTranslation[] = [];
+    pipeline.on('translation', (translation) => translations.push(translation));
+
+    await pipeline.start();
+    speak('Marcus Webb');
+    await flush();
+
+    expect(translations[0].fingerspelledWords).toEqual(['mw']);
+
+    await pipeline.stop();
+  });
+
+  it('should sign the last utterance when stopped before the batch delay', async () => {
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false, maxBatchSize: 10, batchDelay: 10_000 });
+    const batches: { signs: ASLSign[]; text: string }[] = [];
+    pipeline.on('signs', (batch) => batches.push(batch));
+
+    await pipeline.start();
+    speak('thank you');
+    await pipeline.stop();
+
+    expect(batches.map((batch) => batch.text)).toEqual(['thank you']);
+    expect(batches[0].signs.length).toBeGreaterThan(0);
+    expect(pipeline.getState()).toBe('idle');
+  });
+
+  it('should report a failed pause and be streaming once resume resolves', async () => {
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false });
+    const errors: { error: Error; stage: string }[] = [];
+    pipeline.on('error', (event) => errors.push(event));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await pipeline.start();
+    const stop = vi.spyOn(recognition!, 'stop').mockImplementationOnce(() => {
+      throw new Error('Recognizer gone');
+    });
+    await pipeline.pause();
+
+    expect(pipeline.getState()).toBe('paused');
+    expect(errors).toMatchObject([{ error: { message: 'Recognizer gone' }, stage: 'speech' }]);
+
+    stop.mockRestore();
+    await pipeline.resume();
+    expect(pipeline.getState()).toBe('streaming');
+
+    await pipeline.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should finish stopping when the speech provider fails to stop', async () => {
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false });
+    const errors: { error: Error; stage: string }[] = [];
+    pipeline.on('error', (event) => errors.push(event));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await pipeline.start();
+    vi.spyOn(recognition!, 'stop').mockImplementationOnce(() => {
+      throw new Error('Recognizer gone');
+    });
+    await pipeline.stop();
+
+    expect(pipeline.getState()).toBe('idle');
+    expect(errors).toMatchObject([{ error: { message: 'Recognizer gone' }, stage: 'speech' }]);
+
+    // Nothing is left half torn down, so the pipeline starts again
+    await pipeline.start();
+    expect(pipeline.getState()).toBe('streaming');
+
+    await pipeline.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should report sign lag and compress signs for a fast speaker', async () => {
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false, maxBatchSize: 1 });
+    const batches: { signs: ASLSign[] }[] = [];
+    pipeline.on('signs', (batch) => batches.push(batch));
+
+    await pipeline.start();
+    speak('hello');
+    await flush();
+    speak('hello');
+    await flush();
+
+    const [first, second] = batches;
+    expect(second.signs[0].duration).toBeLessThan(first.signs[0].duration);
+    expect(pipeline.getMetrics().signLag).toBeGreaterThan(500);
+    expect(pipeline.getSignQueue()[1].startsAt).toBe(pipeline.getSignQueue()[0].endsAt);
+
+    pipeline.clearSignQueue();
+    expect(pipeline.getMetrics().signLag).toBe(0);
+
+    await pipeline.stop();
+  });
+});
+
+describe('RealTimeStreamingPipeline speech providers', () => {
+  let server: WebSocketServer;
+  let url: string;
+
+  beforeEach(async () => {
+    // Replays a canned Deepgram-compatible utterance to every connection
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket) => {
+      for (const [transcript, isFinal] of [['thank you', false], ['thank you', true]] as const) {
+        socket.send(
+          JSON.stringify({
+            type: 'Results',
+            is_final: isFinal,
+            speech_final: isFinal,
+            channel: { alternatives: [{ transcript, confidence: 0.96, words: [] }] },
+          })
+        );
+      }
+    });
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/listen`;
+  });
+
+  afterEach(async () => {
+    server.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it.each([
+    ['deepgram', { deepgramApiKey: 'test-key' }],
+    ['aldea', { aldeaApiKey: 'test-key' }],
+  ] as const)('should route %s segments through the pipeline', async (speechProvider, keys) => {
+    const pipeline = new RealTimeStreamingPipeline({
+      enableMetrics: false,
+      maxBatchSize: 1,
+      speechProvider,
+      speechEndpoint: url,
+      ...keys,
+    });
+    const segments: TranscriptionSegment[] = [];
+    const translations: ASLTranslation[] = [];
+    pipeline.on('transcription', (segment) => segments.push(segment));
+    pipeline.on('translation', (translation) => translations.push(translation));
+
+    await pipeline.start();
+    await vi.waitFor(() => expect(translations).toHaveLength(1));
+
+    expect(segments.map((segment) => segment.isFinal)).toEqual([false, true]);
+    expect(translations[0].sourceText).toBe('thank you');
+    expect(pipeline.getMetrics().transcriptionsReceived).toBe(2);
+
+    await pipeline.stop();
+  });
+});
+
+describe('RealTimeStreamingPipeline audio sources', () => {
+  const DESK: AudioSource = { id: 'desk', type: 'av-system', name: 'Sound desk', deviceId: 'desk-1', isActive: false };
+
+  function fakeStream() {
+    const track = { stop: vi.fn() };
+    return { track, stream: { getTracks: () => [track] } as unknown as MediaStream };
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should reopen capture on the new device and release the old one', async () => {
+    const mic = fakeStream();
+    const desk = fakeStream();
+    const getUserMedia = vi
+      .spyOn(navigator.mediaDevices, 'getUserMedia')
+      .mockResolvedValueOnce(mic.stream)
+      .mockResolvedValueOnce(desk.stream)
+      .mockRejectedValueOnce(new Error('Device unplugged'));
+    const pipeline = new RealTimeStreamingPipeline({ enableMetrics: false });
+    await pipeline.initialize();
+
+    await pipeline.switchAudioSource(DESK);
+    expect(getUserMedia.mock.calls[1][0]).toMatchObject({ audio: { deviceId: { exact: 'desk-1' } } });
+    expect(mic.track.stop).toHaveBeenCalled();
+
+    // A source that fails to open leaves the current one capturing
+    await expect(pipeline.switchAudioSource({ ...DESK, deviceId: 'gone' })).rejects.toThrow('Device unplugged');
+    expect(desk.track.stop).not.toHaveBeenCalled();
+
+    await pipeline.stop();
+    expect(desk.track.stop).toHaveBeenCalled();
+  });
+});
@@ -7,63 +7,28 @@ import type {
   ASLSign,
   PipelineStatus,
   PipelineError,
+  EventVocabulary,
+  SignVariantPreferences,
 } from '@/types';
-
-// Web Speech API type declarations
-interface SpeechRecognitionEvent extends Event {
-  resultIndex: number;
-  results: SpeechRecognitionResultList;
-}
-
-interface SpeechRecognitionResultList {
-  length: number;
-  item(index: number): SpeechRecognitionResult;
-  [index: number]: SpeechRecognitionResult;
-}
-
-interface SpeechRecognitionResult {
-  isFinal: boolean;
-  length: number;
-  item(index: number): SpeechRecognitionAlternative;
-  [index: number]: SpeechRecognitionAlternative;
-}
-
-interface SpeechRecognitionAlternative {
-  transcript: string;
-  confidence: number;
-}
-
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  maxAlternatives: number;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onresult: ((event: SpeechRecognitionEvent) => void) | null;
-  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
-  onend: (() => void) | null;
-  onstart: (() => void) | null;
-}
-
-interface SpeechRecognitionConstructor {
-  new (): SpeechRecognition;
-}
+import { ASLTranslator, type SignTranslator } from '@/lib/asl/translator';
+import { getVocabularyKeywords } from '@/lib/asl/eventVocabulary';
+import {
+  createStreamingSpeechProvider,
+  type StreamingSpeechProvider,
+  type StreamingSpeechProviderType,
+} from '@/lib/speech/streamingProviders';
+import { floatTo16BitPCM, resampleLinear } from '@/lib/speech/audioProcessor';
+import { SignScheduler, type ScheduledBatch, type SignSchedulerConfig } from './signScheduler';
 
 /**
  * Real-Time Streaming Pipeline
  *
  * Orchestrates the complete SignMate real-time pipeline:
  * 1. Audio capture from various sources
- * 2. Speech-to-text (browser or Deepgram)
- * 3. Text to ASL translation
- * 4. Event emission for avatar rendering
+ * 2. Speech-to-text (browser, Deepgram, Aldea or local Whisper)
+ * 3. Text to ASL translation (pluggable, defaults to ASLTranslator)
+ * 4. Sign scheduling against the speaker's pace
+ * 5. Event emission for avatar rendering
  *
  * Features:
  * - State machine for pipeline lifecycle
@@ -116,12 +81,18 @@ export interface StreamingPipelineConfig {
   audioBufferSize: number;
 
   // Speech recognition
-  speechProvider: 'browser' | 'deepgram';
+  speechProvider: StreamingSpeechProviderType;
   deepgramApiKey?: string;
+  aldeaApiKey?: string;
+  speechEndpoint?: string; // Override the provider's streaming URL
+  whisperModel?: string; // transformers.js model id for the local Whisper provider
   language: string;
   interimResults: boolean;
 
   // Translation settings
+  translator?: SignTranslator;
+  vocabulary?: EventVocabulary; // Event names, acronyms and phrase overrides
+  signVariants?: SignVariantPreferences; // Region, register and speed of the signs performed
   batchTranslation: boolean;
   batchDelay: number;
   maxBatchSize: number;
@@ -130,6 +101,8 @@ export interface StreamingPipelineConfig {
   targetLatency: number;
   maxLatency: number;
   adaptiveLatency: boolean;
+  signScheduling: boolean; // Compress, thin out and summarize signs when the avatar falls behind
+  scheduler?: Partial<SignSchedulerConfig>; // Overrides; lag thresholds default to target/maxLatency
 
   // Error handling
   maxRetries: number;
@@ -154,6 +127,7 @@ const DEFAULT_CONFIG: StreamingPipelineConfig = {
   targetLatency: 500,
   maxLatency: 2000,
   adaptiveLatency: true,
+  signScheduling: true,
   maxRetries: 3,
   retryDelay: 1000,
   circuitBreakerThreshold: 5,
@@ -188,6 +162,12 @@ export interface PipelineMetrics {
   minLatency: number;
   maxLatency: number;
 
+  // Sign scheduling
+  signLag: number; // Time until the avatar catches up with the transcript (ms)
+  signsDropped: number;
+  batchesSummarized: number;
+  signTimeScale: number; // Compression applied to the latest batch (1 = none)
+
   // Errors
   errorsCount: number;
   recoveriesCount: number;
@@ -195,12 +175,24 @@ export interface PipelineMetrics {
 }
 
 // Sign queue for smooth playback
-interface SignQueue {
-  signs: ASLSign[];
-  text: string;
-  timestamp: number;
-  processed: boolean;
+type SignQueue = ScheduledBatch;
+
+// Speech providers expect 16 kHz linear16 PCM
+const SPEECH_SAMPLE_RATE = 16000;
+
+const PCM_WORKLET_NAME = 'signmate-pcm-capture';
+
+// Posts each render quantum of the first input channel back to the main thread
+const PCM_WORKLET_SOURCE = `
+class SignMatePcmCapture extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
 }
+registerProcessor('${PCM_WORKLET_NAME}', SignMatePcmCapture);
+`;
 
 export class RealTimeStreamingPipeline {
   private config: StreamingPipelineConfig;
@@ -210,13 +202,20 @@ export class RealTimeStreamingPipeline {
   // Components
   private mediaStream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
   private workletNode: AudioWorkletNode | null = null;
-  private speechRecognition: SpeechRecognition | null = null;
+  private scriptNode: ScriptProcessorNode | null = null;
+  private speechProvider: StreamingSpeechProvider | null = null;
+  private translator: SignTranslator;
+
+  // Audio buffering between the audio graph and the speech provider
+  private audioChunks: Float32Array[] = [];
+  private audioChunkSamples = 0;
 
   // Batching
   private pendingText = '';
   private batchTimeout: NodeJS.Timeout | null = null;
-  private signQueue: SignQueue[] = [];
+  private scheduler: SignScheduler;
 
   // Timing
   private startTime = 0;
@@ -246,6 +245,10 @@ export class RealTimeStreamingPipeline {
 
   constructor(config: Partial<StreamingPipelineConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    // Vocabulary and variants are per event, so each pipeline keeps its own translator
+    this.translator = this.config.translator ?? new ASLTranslator();
+    this.applyTranslatorSettings();
+    this.scheduler = new SignScheduler(this.schedulerConfig());
     this.metrics = this.createInitialMetrics();
   }
 
@@ -265,6 +268,10 @@ export class RealTimeStreamingPipeline {
       averageEndToEndLatency: 0,
       minLatency: Infinity,
       maxLatency: 0,
+      signLag: 0,
+      signsDropped: 0,
+      batchesSummarized: 0,
+      signTimeScale: 1,
       errorsCount: 0,
       recoveriesCount: 0,
       circuitBreakerTrips: 0,
@@ -327,15 +334,7 @@ export class RealTimeStreamingPipeline {
 
     try {
       // Request microphone access
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: this.config.preferredSampleRate,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      this.mediaStream = await this.openMediaStream(this.config.audioSource);
 
       // Initialize speech recognition
       await this.initializeSpeechRecognition();
@@ -353,44 +352,164 @@ export class RealTimeStreamingPipeline {
     }
   }
 
+  // The source's input device, or the default one
+  private openMediaStream(source?: AudioSource): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: source?.deviceId ? { exact: source.deviceId } : undefined,
+        channelCount: 1,
+        sampleRate: this.config.preferredSampleRate,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+    });
+  }
+
+  /**
+   * Capture from another source. The new device is opened before the old one
+   * is released, so a source that fails to open leaves capture as it was.
+   * Only providers fed from the pipeline's audio graph hear the change.
+   */
+  async switchAudioSource(source: AudioSource): Promise<void> {
+    if (this.state === 'idle' || this.state === 'initializing') {
+      this.config.audioSource = source;
+      return;
+    }
+
+    const stream = await this.openMediaStream(source);
+    const wasStreaming = this.audioContext !== null;
+    await this.stopAudioStreaming();
+    this.mediaStream?.getTracks().forEach((track) => track.stop());
+    this.mediaStream = stream;
+    this.config.audioSource = source;
+    if (wasStreaming) {
+      await this.startAudioStreaming();
+    }
+  }
+
   private async initializeSpeechRecognition(): Promise<void> {
-    if (this.config.speechProvider === 'browser') {
-      await this.initializeBrowserSpeechRecognition();
+    await this.stopSpeechProvider();
+
+    const { speechProvider, deepgramApiKey, aldeaApiKey } = this.config;
+
+    this.speechProvider = createStreamingSpeechProvider({
+      type: speechProvider,
+      language: this.config.language,
+      interimResults: this.config.interimResults,
+      apiKey: speechProvider === 'aldea' ? aldeaApiKey : deepgramApiKey,
+      url: this.config.speechEndpoint,
+      keywords: getVocabularyKeywords(this.config.vocabulary),
+      whisper: this.config.whisperModel ? { model: this.config.whisperModel } : undefined,
+    });
+  }
+
+  private async startSpeechProvider(): Promise<void> {
+    const provider = this.speechProvider;
+    if (!provider) return;
+
+    await provider.start({
+      onSegment: (segment) => this.handleSpeechResult(segment),
+      onError: (error, recoverable) => this.handleError(error, 'speech', recoverable),
+    });
+
+    if (provider.consumesAudio) {
+      await this.startAudioStreaming();
+    }
+  }
+
+  private async stopSpeechProvider(): Promise<void> {
+    await this.speechProvider?.stop();
+    await this.stopAudioStreaming();
+  }
+
+  // Audio graph feeding PCM to providers that need it
+  private async startAudioStreaming(): Promise<void> {
+    if (!this.mediaStream || this.audioContext) return;
+
+    this.audioContext = new AudioContext({ sampleRate: this.config.preferredSampleRate });
+    this.sourceNode = this.audioContext.createMediaStreamSource(this.mediaStream);
+
+    if (this.audioContext.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+      const moduleUrl = URL.createObjectURL(
+        new Blob([PCM_WORKLET_SOURCE], { type: 'application/javascript' })
+      );
+      try {
+        await this.audioContext.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      this.workletNode = new AudioWorkletNode(this.audioContext, PCM_WORKLET_NAME);
+      this.workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+        this.handleAudioFrame(event.data);
+      };
+      this.sourceNode.connect(this.workletNode);
     } else {
-      // Deepgram would be initialized here
-      // For now, fall back to browser
-      await this.initializeBrowserSpeechRecognition();
+      // Fallback for browsers without AudioWorklet
+      this.scriptNode = this.audioContext.createScriptProcessor(this.config.audioBufferSize, 1, 1);
+      this.scriptNode.onaudioprocess = (event) => {
+        this.handleAudioFrame(new Float32Array(event.inputBuffer.getChannelData(0)));
+      };
+      this.sourceNode.connect(this.scriptNode);
+      this.scriptNode.connect(this.audioContext.destination);
     }
   }
 
-  private async initializeBrowserSpeechRecognition(): Promise<void> {
-    const SpeechRecognitionAPI =
-      (window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor }).SpeechRecognition ||
-      (window as unknown as { webkitSpeechRecognition?: SpeechRecognitionConstructor }).webkitSpeechRecognition;
+  private async stopAudioStreaming(): Promise<void> {
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
 
-    if (!SpeechRecognitionAPI) {
-      throw new Error('Speech recognition not supported in this browser');
+    if (this.scriptNode) {
+      this.scriptNode.onaudioprocess = null;
+      this.scriptNode.disconnect();
+      this.scriptNode = null;
     }
 
-    this.speechRecognition = new SpeechRecognitionAPI();
-    this.speechRecognition.continuous = true;
-    this.speechRecognition.interimResults = this.config.interimResults;
-    this.speechRecognition.lang = this.config.language;
+    if (this.sourceNode) {
+      this.sourceNode.disconnect();
+      this.sourceNode = null;
+    }
 
-    this.speechRecognition.onresult = (event: SpeechRecognitionEvent) => {
-      this.handleSpeechResult(event);
-    };
+    if (this.audioContext) {
+      const context = this.audioContext;
+      this.audioContext = null;
+      await context.close();
+    }
 
-    this.speechRecognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      this.handleSpeechError(event);
-    };
+    this.audioChunks = [];
+    this.audioChunkSamples = 0;
+  }
 
-    this.speechRecognition.onend = () => {
-      // Auto-restart if still streaming
-      if (this.state === 'streaming' && !this.circuitBreakerOpen) {
-        this.speechRecognition?.start();
-      }
-    };
+  private handleAudioFrame(frame: Float32Array): void {
+    if (this.state !== 'streaming' || !this.speechProvider) {
+      this.metrics.audioDroppedFrames++;
+      return;
+    }
+
+    this.audioChunks.push(frame);
+    this.audioChunkSamples += frame.length;
+
+    if (this.audioChunkSamples < this.config.audioBufferSize) return;
+
+    const samples = new Float32Array(this.audioChunkSamples);
+    let offset = 0;
+    for (const chunk of this.audioChunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.audioChunks = [];
+    this.audioChunkSamples = 0;
+
+    const inputRate = this.audioContext?.sampleRate || this.config.preferredSampleRate;
+    const ratio = inputRate / SPEECH_SAMPLE_RATE;
+    const pcm = floatTo16BitPCM(ratio !== 1 ? resampleLinear(samples, ratio) : samples);
+
+    this.metrics.audioSamplesProcessed += samples.length;
+    this.speechProvider.sendAudio(pcm);
   }
 
   // Start streaming
@@ -408,7 +527,7 @@ export class RealTimeStreamingPipeline {
     this.streamStartTime = Date.now();
 
     try {
-      this.speechRecognition?.start();
+      await this.startSpeechProvider();
       this.updateStatus({ speechRecognition: 'processing' });
     } catch (error) {
       this.handleError(error as Error, 'speech', true);
@@ -416,18 +535,22 @@ export class RealTimeStreamingPipeline {
   }
 
   // Pause streaming
-  pause(): void {
+  async pause(): Promise<void> {
     if (this.state !== 'streaming') return;
 
     this.setState('paused');
-    this.speechRecognition?.stop();
     this.updateStatus({ speechRecognition: 'idle' });
+    try {
+      await this.stopSpeechProvider();
+    } catch (error) {
+      this.handleError(error as Error, 'speech', false);
+    }
   }
 
   // Resume streaming
-  resume(): void {
+  async resume(): Promise<void> {
     if (this.state !== 'paused') return;
-    this.start();
+    await this.start();
   }
 
   // Stop streaming completely
@@ -436,22 +559,13 @@ export class RealTimeStreamingPipeline {
 
     this.setState('stopping');
 
-    // Stop speech recognition
-    if (this.speechRecognition) {
-      this.speechRecognition.stop();
-      this.speechRecognition = null;
-    }
-
-    // Stop audio
-    if (this.workletNode) {
-      this.workletNode.disconnect();
-      this.workletNode = null;
-    }
-
-    if (this.audioContext) {
-      await this.audioContext.close();
-      this.audioContext = null;
+    // Stop speech recognition and audio; a failure here must not keep the rest from being released
+    try {
+      await this.stopSpeechProvider();
+    } catch (error) {
+      this.handleError(error as Error, 'speech', false);
     }
+    this.speechProvider = null;
 
     if (this.mediaStream) {
       this.mediaStream.getTracks().forEach(track => track.stop());
@@ -464,6 +578,9 @@ export class RealTimeStreamingPipeline {
       this.batchTimeout = null;
     }
 
+    // Sign what the speaker said last, including speech the provider flushed while stopping
+    await this.processBatch(true);
+
     if (this.metricsTimer) {
       clearInterval(this.metricsTimer);
       this.metricsTimer = null;
@@ -476,7 +593,7 @@ export class RealTimeStreamingPipeline {
 
     // Reset state
     this.pendingText = '';
-    this.signQueue = [];
+    this.scheduler.clear();
     this.latencyHistory = [];
 
     this.updateStatus({
@@ -488,13 +605,10 @@ export class RealTimeStreamingPipeline {
     this.setState('idle');
   }
 
-  // Handle speech recognition results
-  private handleSpeechResult(event: SpeechRecognitionEvent): void {
+  // Handle speech recognition results (identical for every provider)
+  private handleSpeechResult(segment: TranscriptionSegment): void {
     const now = Date.now();
-    const result = event.results[event.resultIndex];
-    const transcript = result[0].transcript;
-    const isFinal = result.isFinal;
-    const confidence = result[0].confidence || 0.9;
+    const transcript = segment.text;
 
     // Calculate latency from speech to transcription
     const transcriptionLatency = now - this.lastTranscriptionTime;
@@ -508,35 +622,16 @@ export class RealTimeStreamingPipeline {
 
     // Update metrics
     this.metrics.transcriptionsReceived++;
-    this.metrics.wordsTranscribed += transcript.split(/\s+/).length;
-
-    // Create transcription segment
-    const segment: TranscriptionSegment = {
-      id: `seg-${now}-${event.resultIndex}`,
-      text: transcript,
-      startTime: now - 100,
-      endTime: now,
-      confidence,
-      isFinal,
-    };
+    this.metrics.wordsTranscribed += transcript.split(/\s+/).filter(Boolean).length;
 
     this.emit('transcription', segment);
 
     // Handle translation
-    if (isFinal && transcript.trim()) {
+    if (segment.isFinal && transcript.trim()) {
       this.addToBatch(transcript);
     }
   }
 
-  private handleSpeechError(event: SpeechRecognitionErrorEvent): void {
-    const error = new Error(`Speech recognition error: ${event.error}`);
-
-    // Some errors are recoverable
-    const recoverable = ['no-speech', 'aborted', 'audio-capture'].includes(event.error);
-
-    this.handleError(error, 'speech', recoverable);
-  }
-
   // Batch translation handling
   private addToBatch(text: string): void {
     this.pendingText += (this.pendingText ? ' ' : '') + text.trim();
@@ -559,7 +654,7 @@ export class RealTimeStreamingPipeline {
     }, this.config.batchDelay);
   }
 
-  private async processBatch(): Promise<void> {
+  private async processBatch(final = false): Promise<void> {
     if (!this.pendingText.trim()) return;
 
     const textToTranslate = this.pendingText.trim();
@@ -571,7 +666,13 @@ export class RealTimeStreamingPipeline {
 
     try {
       // Translate text to ASL signs
-      const signs = this.translateToSigns(textToTranslate);
+      const translation = await this.translator.translate(textToTranslate);
+
+      // Pipeline was stopped while the translator was working; the final batch of a stop still goes out
+      if (this.state === 'idle' || (this.state === 'stopping' && !final)) return;
+
+      // Queue for playback, shaped to how far the avatar is behind
+      const signs = this.scheduleSigns(translation.signs, textToTranslate);
 
       const translationEnd = Date.now();
       const translationLatency = translationEnd - translationStart;
@@ -587,55 +688,32 @@ export class RealTimeStreamingPipeline {
       const e2eLatency = translationEnd - this.lastTranscriptionTime + translationLatency;
       this.updateLatencyMetrics(e2eLatency);
 
-      // Create translation object
-      const translation: ASLTranslation = {
-        id: `trans-${Date.now()}`,
-        sourceText: textToTranslate,
-        signs,
-        timestamp: Date.now(),
-      };
-
       this.emit('translation', translation);
       this.emit('signs', { signs, text: textToTranslate });
 
-      // Add to queue for playback
-      this.signQueue.push({
-        signs,
-        text: textToTranslate,
-        timestamp: Date.now(),
-        processed: false,
-      });
-
       this.updateStatus({ aslTranslation: 'idle', latency: e2eLatency });
     } catch (error) {
       this.handleError(error as Error, 'translation', true);
     }
   }
 
-  // Basic text to ASL sign translation
-  private translateToSigns(text: string): ASLSign[] {
-    const words = text.toLowerCase().split(/\s+/).filter(Boolean);
-    const signs: ASLSign[] = [];
-
-    for (const word of words) {
-      // Clean the word
-      const cleanWord = word.replace(/[^a-z'-]/g, '');
-      if (!cleanWord) continue;
-
-      signs.push({
-        gloss: cleanWord.toUpperCase(),
-        duration: Math.max(300, cleanWord.length * 50),
-        handshape: { dominant: 'open', nonDominant: 'open' },
-        location: { x: 0, y: 0, z: 0.3, reference: 'neutral' },
-        movement: {
-          type: cleanWord.length > 5 ? 'linear' : 'static',
-          speed: 'normal',
-        },
-        nonManualMarkers: [],
-      });
+  private scheduleSigns(signs: ASLSign[], text: string): ASLSign[] {
+    const result = this.scheduler.schedule(signs, text, { shape: this.config.signScheduling });
+    this.metrics.signLag = result.batch.lag;
+    this.metrics.signsDropped += result.dropped;
+    this.metrics.signTimeScale = result.timeScale;
+    if (result.summarized) {
+      this.metrics.batchesSummarized++;
     }
+    return result.batch.signs;
+  }
 
-    return signs;
+  private schedulerConfig(): Partial<SignSchedulerConfig> {
+    return {
+      targetLag: this.config.targetLatency,
+      maxLag: this.config.maxLatency,
+      ...this.config.scheduler,
+    };
   }
 
   // Latency management
@@ -712,6 +790,10 @@ export class RealTimeStreamingPipeline {
     this.circuitBreakerOpen = true;
     this.metrics.circuitBreakerTrips++;
     this.setState('error');
+    // Not routed through handleError, which would trip the breaker again
+    this.stopSpeechProvider().catch((error) => {
+      console.error('[Pipeline] Failed to stop speech while tripping the circuit breaker:', error);
+    });
 
     // Reset after timeout
     this.circuitBreakerTimer = setTimeout(() => {
@@ -738,7 +820,7 @@ export class RealTimeStreamingPipeline {
         await this.initializeSpeechRecognition();
         if (this.state === 'recovering') {
           this.setState('streaming');
-          this.speechRecognition?.start();
+          await this.startSpeechProvider();
         }
       }
     } catch (error) {
@@ -751,6 +833,7 @@ export class RealTimeStreamingPipeline {
   private startMetricsCollection(): void {
     this.metricsTimer = setInterval(() => {
       this.metrics.uptime = Date.now() - this.startTime;
+      this.metrics.signLag = this.scheduler.getLag();
 
       if (this.state === 'streaming') {
         this.metrics.streamingDuration = Date.now() - this.streamStartTime;
@@ -769,22 +852,57 @@ export class RealTimeStreamingPipeline {
   // Configuration updates
   updateConfig(updates: Partial<StreamingPipelineConfig>): void {
     this.config = { ...this.config, ...updates };
+    if (updates.translator) {
+      this.translator = updates.translator;
+    }
+    if (updates.translator || 'vocabulary' in updates || 'signVariants' in updates) {
+      this.applyTranslatorSettings();
+    }
+    if ('targetLatency' in updates || 'maxLatency' in updates || 'scheduler' in updates) {
+      this.scheduler.updateConfig(this.schedulerConfig());
+    }
+  }
+
+  setTranslator(translator: SignTranslator): void {
+    this.config.translator = translator;
+    this.translator = translator;
+    this.applyTranslatorSettings();
+  }
+
+  // Recognition keywords take effect the next time the pipeline is initialized
+  setVocabulary(vocabulary: EventVocabulary | null): void {
+    this.config.vocabulary = vocabulary ?? undefined;
+    this.applyTranslatorSettings();
+  }
+
+  setSignVariants(preferences: SignVariantPreferences | null): void {
+    this.config.signVariants = preferences ?? undefined;
+    this.applyTranslatorSettings();
+  }
+
+  getSignVariants(): SignVariantPreferences | null {
+    return this.config.signVariants ?? null;
+  }
+
+  private applyTranslatorSettings(): void {
+    this.translator.setVocabulary?.(this.config.vocabulary ?? null);
+    this.translator.setVariantPreferences?.(this.config.signVariants ?? null);
   }
 
   setLanguage(language: string): void {
     this.config.language = language;
-    if (this.speechRecognition) {
-      this.speechRecognition.lang = language;
-    }
+    this.speechProvider?.setLanguage(language);
   }
 
   // Sign queue access
   getSignQueue(): SignQueue[] {
-    return [...this.signQueue];
+    return this.scheduler.getQueue();
   }
 
+  // Call when playback is cleared so the scheduler stops counting the old backlog
   clearSignQueue(): void {
-    this.signQueue = [];
+    this.scheduler.clear();
+    this.metrics.signLag = 0;
   }
 
   // Cleanup
@@ -7,6 +7,7 @@ export interface AldeaConfig {
   language: string;
   timestamps: boolean;
   diarization: boolean;
+  url: string; // streaming endpoint (override for self-hosted or mock servers)
 }
 
 const defaultConfig: AldeaConfig = {
@@ -14,6 +15,7 @@ const defaultConfig: AldeaConfig = {
   language: "en-US",
   timestamps: true,
   diarization: false,
+  url: "wss://api.aldea.ai/v1/listen",
 };
 
 export type AldeaTranscriptionCallback = (
@@ -112,8 +114,7 @@ export class AldeaRecognizer {
       channels: "1",
     });
 
-    // Try WebSocket endpoint
-    const url = `wss://api.aldea.ai/v1/listen?${params.toString()}`;
+    const url = `${this.config.url}?${params.toString()}`;
 
     return new Promise((resolve, reject) => {
       try {
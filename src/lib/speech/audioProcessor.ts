@@ -83,45 +83,13 @@ export class AudioProcessor {
     // Resample if necessary
     let resampled: Float32Array;
     if (this.resampleRatio !== 1) {
-      resampled = this.resample(inputData);
+      resampled = resampleLinear(inputData, this.resampleRatio);
     } else {
       resampled = inputData;
     }
 
     // Convert to 16-bit PCM
-    return this.floatTo16BitPCM(resampled);
-  }
-
-  private resample(inputData: Float32Array): Float32Array {
-    const outputLength = Math.ceil(inputData.length / this.resampleRatio);
-    const output = new Float32Array(outputLength);
-
-    for (let i = 0; i < outputLength; i++) {
-      const srcIndex = i * this.resampleRatio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, inputData.length - 1);
-      const fraction = srcIndex - srcIndexFloor;
-
-      // Linear interpolation
-      output[i] =
-        inputData[srcIndexFloor] * (1 - fraction) +
-        inputData[srcIndexCeil] * fraction;
-    }
-
-    return output;
-  }
-
-  private floatTo16BitPCM(input: Float32Array): Int16Array {
-    const output = new Int16Array(input.length);
-
-    for (let i = 0; i < input.length; i++) {
-      // Clamp to [-1, 1]
-      const s = Math.max(-1, Math.min(1, input[i]));
-      // Convert to 16-bit integer
-      output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-    }
-
-    return output;
+    return floatTo16BitPCM(resampled);
   }
 
   async stop(): Promise<void> {
@@ -159,6 +127,39 @@ export class AudioProcessor {
   }
 }
 
+// Resample by linear interpolation (ratio = source rate / target rate)
+export function resampleLinear(inputData: Float32Array, ratio: number): Float32Array {
+  const outputLength = Math.ceil(inputData.length / ratio);
+  const output = new Float32Array(outputLength);
+
+  for (let i = 0; i < outputLength; i++) {
+    const srcIndex = i * ratio;
+    const srcIndexFloor = Math.floor(srcIndex);
+    const srcIndexCeil = Math.min(srcIndexFloor + 1, inputData.length - 1);
+    const fraction = srcIndex - srcIndexFloor;
+
+    output[i] =
+      inputData[srcIndexFloor] * (1 - fraction) +
+      inputData[srcIndexCeil] * fraction;
+  }
+
+  return output;
+}
+
+// Convert float samples in [-1, 1] to linear16 PCM
+export function floatTo16BitPCM(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+
+  for (let i = 0; i < input.length; i++) {
+    // Clamp to [-1, 1]
+    const s = Math.max(-1, Math.min(1, input[i]));
+    // Convert to 16-bit integer
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+
+  return output;
+}
+
 // Helper to get audio level for visualization
 export function getAudioLevel(data: Int16Array): number {
   let sum = 0;
@@ -7,6 +7,7 @@ export interface DeepgramConfig {
   punctuate: boolean;
   interimResults: boolean;
   endpointing: number; // ms of silence to end utterance
+  keywords: string[]; // boosted terms, e.g. speaker names and acronyms
 }
 
 const defaultConfig: Partial<DeepgramConfig> = {
@@ -15,6 +16,7 @@ const defaultConfig: Partial<DeepgramConfig> = {
   punctuate: true,
   interimResults: true,
   endpointing: 300, // 300ms for low latency
+  keywords: [],
 };
 
 export type DeepgramTranscriptionCallback = (segment: TranscriptionSegment) => void;
@@ -51,6 +53,7 @@ export class DeepgramSpeechRecognizer {
       sample_rate: '16000',
       channels: '1',
     });
+    this.config.keywords.forEach((keyword) => params.append('keywords', keyword));
 
     const url = `wss://api.deepgram.com/v1/listen?${params}`;
 
@@ -14,6 +14,8 @@ export interface DeepgramConfig {
   vad_events: boolean; // voice activity detection
   smart_format: boolean; // automatic formatting
   filler_words: boolean; // include um, uh, etc.
+  url: string; // streaming endpoint (override for self-hosted or mock servers)
+  keywords: string[]; // boosted terms, e.g. speaker names and acronyms
 }
 
 const defaultConfig: DeepgramConfig = {
@@ -26,6 +28,8 @@ const defaultConfig: DeepgramConfig = {
   vad_events: true,
   smart_format: true,
   filler_words: false,
+  url: 'wss://api.deepgram.com/v1/listen',
+  keywords: [],
 };
 
 export type DeepgramTranscriptionCallback = (segment: TranscriptionSegment) => void;
@@ -127,8 +131,9 @@ export class DeepgramRecognizer {
       sample_rate: '16000',
       channels: '1',
     });
+    this.config.keywords.forEach((keyword) => params.append('keywords', keyword));
 
-    const url = `wss://api.deepgram.com/v1/listen?${params.toString()}`;
+    const url = `${this.config.url}?${params.toString()}`;
 
     return new Promise((resolve, reject) => {
       try {
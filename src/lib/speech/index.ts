@@ -28,11 +28,37 @@ export {
   type AldeaConfig,
 } from "./aldeaRecognizer";
 
+// Local Whisper recognizer (runs in the browser, works offline once cached)
+export {
+  WhisperRecognizer,
+  createWhisperRecognizer,
+  loadWhisperTranscriber,
+  type WhisperConfig,
+  type WhisperTranscriber,
+  type WhisperTranscriberLoader,
+} from "./whisperRecognizer";
+
+// Streaming provider adapters (driven by the real-time pipeline)
+export {
+  WebSpeechProvider,
+  DeepgramStreamingProvider,
+  AldeaStreamingProvider,
+  WhisperStreamingProvider,
+  createStreamingSpeechProvider,
+  type StreamingSpeechProvider,
+  type StreamingSpeechProviderType,
+  type StreamingSpeechHandlers,
+  type StreamingSpeechProviderOptions,
+  type WebSpeechProviderConfig,
+} from "./streamingProviders";
+
 // Audio processing utilities
 export {
   AudioProcessor,
   getAudioLevel,
   isSilent,
+  resampleLinear,
+  floatTo16BitPCM,
   type AudioProcessorConfig,
   type AudioDataCallback,
 } from "./audioProcessor";
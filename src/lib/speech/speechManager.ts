@@ -7,17 +7,23 @@ import {
   createDeepgramRecognizer,
   type DeepgramConfig,
 } from './deepgramRecognizer';
+import {
+  WhisperRecognizer,
+  createWhisperRecognizer,
+  type WhisperConfig,
+} from './whisperRecognizer';
 import { AudioProcessor } from './audioProcessor';
 import { handleErrorCode } from '@/lib/errors';
 import { ErrorCodes } from '@/lib/errors/types';
 
-export type SpeechProvider = 'browser' | 'deepgram';
+export type SpeechProvider = 'browser' | 'deepgram' | 'whisper';
 
 export interface SpeechManagerConfig {
   provider: SpeechProvider;
   language: string;
   browserConfig?: Partial<SpeechRecognizerConfig>;
   deepgramConfig?: Partial<DeepgramConfig>;
+  whisperConfig?: Partial<WhisperConfig>;
 }
 
 const defaultConfig: SpeechManagerConfig = {
@@ -33,6 +39,7 @@ export class SpeechManager {
   private config: SpeechManagerConfig;
   private browserRecognizer: SpeechRecognizer | null = null;
   private deepgramRecognizer: DeepgramRecognizer | null = null;
+  private whisperRecognizer: WhisperRecognizer | null = null;
   private audioProcessor: AudioProcessor | null = null;
 
   private onTranscription: TranscriptionCallback | null = null;
@@ -60,6 +67,8 @@ export class SpeechManager {
     try {
       if (this.config.provider === 'deepgram') {
         await this.startDeepgram();
+      } else if (this.config.provider === 'whisper') {
+        await this.startWhisper();
       } else {
         await this.startBrowser();
       }
@@ -90,21 +99,7 @@ export class SpeechManager {
       throw new Error('Deepgram API key is required');
     }
 
-    // Get microphone access
-    try {
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: 16000,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
-    } catch (error) {
-      handleErrorCode(ErrorCodes.AUDIO_PERMISSION_DENIED);
-      throw error;
-    }
+    await this.requestMicrophone();
 
     // Create Deepgram recognizer
     this.deepgramRecognizer = createDeepgramRecognizer({
@@ -124,8 +119,45 @@ export class SpeechManager {
     );
   }
 
+  private async startWhisper(): Promise<void> {
+    await this.requestMicrophone();
+
+    // Create local Whisper recognizer (model download happens on first use)
+    this.whisperRecognizer = createWhisperRecognizer({
+      language: this.config.language,
+      ...this.config.whisperConfig,
+    });
+
+    await this.whisperRecognizer.connect(
+      (segment) => this.handleTranscription(segment),
+      (error) => this.handleError(error),
+      () => {
+        // Model ready - start audio processing
+        this.whisperRecognizer?.start();
+        this.startAudioProcessing();
+      }
+    );
+  }
+
+  private async requestMicrophone(): Promise<void> {
+    try {
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          channelCount: 1,
+          sampleRate: 16000,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+    } catch (error) {
+      handleErrorCode(ErrorCodes.AUDIO_PERMISSION_DENIED);
+      throw error;
+    }
+  }
+
   private async startAudioProcessing(): Promise<void> {
-    if (!this.mediaStream || !this.deepgramRecognizer) {
+    if (!this.mediaStream || (!this.deepgramRecognizer && !this.whisperRecognizer)) {
       return;
     }
 
@@ -136,6 +168,7 @@ export class SpeechManager {
 
     await this.audioProcessor.start(this.mediaStream, (audioData) => {
       this.deepgramRecognizer?.sendAudio(audioData);
+      this.whisperRecognizer?.sendAudio(audioData);
     });
   }
 
@@ -180,6 +213,17 @@ export class SpeechManager {
       this.deepgramRecognizer = null;
     }
 
+    // Stop Whisper, transcribing the utterance in progress first
+    if (this.whisperRecognizer) {
+      const recognizer = this.whisperRecognizer;
+      this.whisperRecognizer = null;
+      try {
+        await recognizer.flush();
+      } finally {
+        recognizer.disconnect();
+      }
+    }
+
     // Stop media stream
     if (this.mediaStream) {
       this.mediaStream.getTracks().forEach((track) => track.stop());
@@ -221,6 +265,10 @@ export class SpeechManager {
     if (this.deepgramRecognizer) {
       this.deepgramRecognizer.setLanguage(language);
     }
+
+    if (this.whisperRecognizer) {
+      this.whisperRecognizer.setLanguage(language);
+    }
   }
 
   setDeepgramApiKey(apiKey: string): void {
@@ -255,6 +303,10 @@ export class SpeechManager {
       return !!this.config.deepgramConfig?.apiKey;
     }
 
+    if (provider === 'whisper') {
+      return typeof WebAssembly !== 'undefined';
+    }
+
     return false;
   }
 }
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebSocketServer, type WebSocket as ServerSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { createStreamingSpeechProvider } from './streamingProviders';
+import { WhisperRecognizer } from './whisperRecognizer';
+import type { TranscriptionSegment } from '@/types';
+
+// Canned Deepgram-style streaming responses (Aldea uses the same format)
+function results(transcript: string, isFinal: boolean, speechFinal: boolean) {
+  return JSON.stringify({
+    type: 'Results',
+    channel_index: [0, 1],
+    duration: 0.5,
+    start: 0,
+    is_final: isFinal,
+    speech_final: speechFinal,
+    channel: { alternatives: [{ transcript, confidence: 0.97, words: [] }] },
+  });
+}
+
+const CANNED_RESPONSES = [
+  JSON.stringify({ type: 'SpeechStarted' }),
+  results('welcome', false, false),
+  results('welcome everyone', false, false),
+  results('welcome everyone', true, true),
+];
+
+function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > timeout) return reject(new Error('Timed out'));
+      setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+describe('Streaming speech providers', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let requestUrls: string[];
+  let receivedAudio: number;
+
+  beforeEach(async () => {
+    requestUrls = [];
+    receivedAudio = 0;
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket: ServerSocket, request) => {
+      requestUrls.push(request.url ?? '');
+      socket.on('message', (data, isBinary) => {
+        if (isBinary) receivedAudio++;
+      });
+      for (const response of CANNED_RESPONSES) {
+        socket.send(response);
+      }
+    });
+    await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/v1/listen`;
+  });
+
+  afterEach(async () => {
+    server.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it.each(['deepgram', 'aldea'] as const)('should emit interim and final segments from %s', async (type) => {
+    const provider = createStreamingSpeechProvider({
+      type,
+      language: 'en-US',
+      interimResults: true,
+      apiKey: 'test-key',
+      url,
+    });
+    const segments: TranscriptionSegment[] = [];
+
+    await provider.start({
+      onSegment: (segment) => segments.push(segment),
+      onError: () => {},
+    });
+    await waitFor(() => segments.some((segment) => segment.isFinal));
+
+    expect(segments.map((segment) => [segment.text, segment.isFinal])).toEqual([
+      ['welcome', false],
+      ['welcome everyone', false],
+      ['welcome everyone', true],
+    ]);
+    expect(requestUrls[0]).toContain('encoding=linear16');
+    expect(requestUrls[0]).toContain('sample_rate=16000');
+
+    provider.sendAudio(new Int16Array(1600));
+    await waitFor(() => receivedAudio > 0);
+
+    provider.stop();
+  });
+
+  it('should send event vocabulary as Deepgram keywords', async () => {
+    const provider = createStreamingSpeechProvider({
+      type: 'deepgram',
+      language: 'en-US',
+      interimResults: true,
+      apiKey: 'test-key',
+      url,
+      keywords: ['Priya', 'NASA'],
+    });
+
+    await provider.start({ onSegment: () => {}, onError: () => {} });
+    await waitFor(() => requestUrls.length > 0);
+
+    expect(new URL(requestUrls[0], url).searchParams.getAll('keywords')).toEqual(['Priya', 'NASA']);
+
+    provider.stop();
+  });
+
+  it('should transcribe buffered Whisper speech before disconnecting', async () => {
+    vi.spyOn(WhisperRecognizer.prototype, 'connect').mockResolvedValue();
+    const flush = vi.spyOn(WhisperRecognizer.prototype, 'flush').mockResolvedValue();
+    const disconnect = vi.spyOn(WhisperRecognizer.prototype, 'disconnect');
+    const provider = createStreamingSpeechProvider({ type: 'whisper', language: 'en-US', interimResults: false });
+
+    await provider.start({ onSegment: () => {}, onError: () => {} });
+    await provider.stop();
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush.mock.invocationCallOrder[0]).toBeLessThan(disconnect.mock.invocationCallOrder[0]);
+    vi.restoreAllMocks();
+  });
+
+  it('should require an API key for cloud providers', () => {
+    expect(() =>
+      createStreamingSpeechProvider({ type: 'deepgram', language: 'en-US', interimResults: true })
+    ).toThrow('Deepgram API key is required');
+  });
+
+  it('should fall back to the Web Speech API', () => {
+    const provider = createStreamingSpeechProvider({ type: 'browser', language: 'en-US', interimResults: true });
+
+    expect(provider.type).toBe('browser');
+    expect(provider.consumesAudio).toBe(false);
+  });
+});
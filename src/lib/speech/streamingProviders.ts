@@ -0,0 +1,344 @@
+'use client';
+
+import type { TranscriptionSegment } from '@/types';
+import { DeepgramRecognizer, type DeepgramConfig } from './deepgramRecognizer';
+import { AldeaRecognizer, type AldeaConfig } from './aldeaRecognizer';
+import { WhisperRecognizer, type WhisperConfig } from './whisperRecognizer';
+
+/**
+ * Streaming speech providers
+ *
+ * Common interface the streaming pipeline drives regardless of which
+ * speech-to-text backend is in use. Cloud providers consume linear16 PCM
+ * (16 kHz mono) pushed from the pipeline's audio graph, as does the local
+ * Whisper model; the Web Speech API captures the microphone itself and
+ * ignores pushed audio.
+ */
+
+export type StreamingSpeechProviderType = 'browser' | 'deepgram' | 'aldea' | 'whisper';
+
+export interface StreamingSpeechHandlers {
+  onSegment: (segment: TranscriptionSegment) => void;
+  onError: (error: Error, recoverable: boolean) => void;
+}
+
+export interface StreamingSpeechProvider {
+  readonly type: StreamingSpeechProviderType;
+  // True when the provider expects PCM via sendAudio()
+  readonly consumesAudio: boolean;
+  start(handlers: StreamingSpeechHandlers): Promise<void>;
+  sendAudio(pcm: Int16Array): void;
+  stop(): void | Promise<void>; // Resolves once speech still buffered has been delivered
+  setLanguage(language: string): void;
+}
+
+// Web Speech API type declarations
+interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionResultList {
+  length: number;
+  item(index: number): SpeechRecognitionResult;
+  [index: number]: SpeechRecognitionResult;
+}
+
+interface SpeechRecognitionResult {
+  isFinal: boolean;
+  length: number;
+  item(index: number): SpeechRecognitionAlternative;
+  [index: number]: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  onstart: (() => void) | null;
+}
+
+interface SpeechRecognitionConstructor {
+  new (): SpeechRecognition;
+}
+
+// Web Speech errors worth restarting recognition for
+const RECOVERABLE_WEB_SPEECH_ERRORS = ['no-speech', 'aborted', 'audio-capture'];
+
+export interface WebSpeechProviderConfig {
+  language: string;
+  interimResults: boolean;
+}
+
+export class WebSpeechProvider implements StreamingSpeechProvider {
+  readonly type = 'browser' as const;
+  readonly consumesAudio = false;
+
+  private config: WebSpeechProviderConfig;
+  private recognition: SpeechRecognition | null = null;
+  private handlers: StreamingSpeechHandlers | null = null;
+  private isListening = false;
+  private segmentStart = 0;
+
+  constructor(config: WebSpeechProviderConfig) {
+    this.config = { ...config };
+  }
+
+  async start(handlers: StreamingSpeechHandlers): Promise<void> {
+    const SpeechRecognitionAPI =
+      (window as unknown as { SpeechRecognition?: SpeechRecognitionConstructor }).SpeechRecognition ||
+      (window as unknown as { webkitSpeechRecognition?: SpeechRecognitionConstructor }).webkitSpeechRecognition;
+
+    if (!SpeechRecognitionAPI) {
+      throw new Error('Speech recognition not supported in this browser');
+    }
+
+    this.handlers = handlers;
+    this.recognition = new SpeechRecognitionAPI();
+    this.recognition.continuous = true;
+    this.recognition.interimResults = this.config.interimResults;
+    this.recognition.lang = this.config.language;
+
+    this.recognition.onresult = (event: SpeechRecognitionEvent) => {
+      this.handleResult(event);
+    };
+
+    this.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
+      const error = new Error(`Speech recognition error: ${event.error}`);
+      this.handlers?.onError(error, RECOVERABLE_WEB_SPEECH_ERRORS.includes(event.error));
+    };
+
+    this.recognition.onend = () => {
+      // Auto-restart while we are supposed to be listening
+      if (this.isListening) {
+        try {
+          this.recognition?.start();
+        } catch {
+          // Recognition already started
+        }
+      }
+    };
+
+    this.isListening = true;
+    this.segmentStart = Date.now();
+    this.recognition.start();
+  }
+
+  private handleResult(event: SpeechRecognitionEvent): void {
+    const now = Date.now();
+    const result = event.results[event.resultIndex];
+    const transcript = result[0].transcript;
+
+    const segment: TranscriptionSegment = {
+      id: `web-seg-${now}-${event.resultIndex}`,
+      text: transcript,
+      startTime: this.segmentStart,
+      endTime: now,
+      confidence: result[0].confidence || 0.9,
+      isFinal: result.isFinal,
+    };
+
+    if (result.isFinal) {
+      this.segmentStart = now;
+    }
+
+    this.handlers?.onSegment(segment);
+  }
+
+  sendAudio(): void {
+    // Web Speech captures its own audio
+  }
+
+  stop(): void {
+    this.isListening = false;
+    if (this.recognition) {
+      this.recognition.onend = null;
+      this.recognition.stop();
+      this.recognition = null;
+    }
+    this.handlers = null;
+  }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+    if (this.recognition) {
+      this.recognition.lang = language;
+    }
+  }
+}
+
+// Deepgram, Aldea and Whisper recognizers all take PCM through the same API
+interface PcmRecognizer {
+  connect(
+    onTranscription: (segment: TranscriptionSegment) => void,
+    onError?: (error: Error) => void,
+    onReady?: () => void
+  ): Promise<void>;
+  sendAudio(audioData: Int16Array): void;
+  start(): void;
+  flush?(): Promise<void>; // Transcribe buffered audio before disconnecting
+  disconnect(): void;
+  setLanguage(language: string): void;
+}
+
+abstract class PcmSpeechProvider implements StreamingSpeechProvider {
+  abstract readonly type: StreamingSpeechProviderType;
+  readonly consumesAudio = true;
+
+  private recognizer: PcmRecognizer | null = null;
+
+  protected abstract createRecognizer(): PcmRecognizer;
+
+  async start(handlers: StreamingSpeechHandlers): Promise<void> {
+    await this.stop();
+
+    const recognizer = this.createRecognizer();
+    this.recognizer = recognizer;
+
+    await recognizer.connect(
+      (segment) => handlers.onSegment(segment),
+      // The recognizers reconnect or carry on by themselves, so errors are recoverable
+      (error) => handlers.onError(error, true),
+      () => recognizer.start()
+    );
+  }
+
+  sendAudio(pcm: Int16Array): void {
+    this.recognizer?.sendAudio(pcm);
+  }
+
+  async stop(): Promise<void> {
+    const recognizer = this.recognizer;
+    if (!recognizer) return;
+    this.recognizer = null;
+
+    try {
+      await recognizer.flush?.();
+    } finally {
+      recognizer.disconnect();
+    }
+  }
+
+  setLanguage(language: string): void {
+    this.recognizer?.setLanguage(language);
+  }
+}
+
+export class DeepgramStreamingProvider extends PcmSpeechProvider {
+  readonly type = 'deepgram' as const;
+  private config: Partial<DeepgramConfig>;
+
+  constructor(config: Partial<DeepgramConfig>) {
+    super();
+    this.config = { ...config };
+  }
+
+  protected createRecognizer(): PcmRecognizer {
+    return new DeepgramRecognizer(this.config);
+  }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+    super.setLanguage(language);
+  }
+}
+
+export class AldeaStreamingProvider extends PcmSpeechProvider {
+  readonly type = 'aldea' as const;
+  private config: Partial<AldeaConfig>;
+
+  constructor(config: Partial<AldeaConfig>) {
+    super();
+    this.config = { ...config };
+  }
+
+  protected createRecognizer(): PcmRecognizer {
+    return new AldeaRecognizer(this.config);
+  }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+    super.setLanguage(language);
+  }
+}
+
+export class WhisperStreamingProvider extends PcmSpeechProvider {
+  readonly type = 'whisper' as const;
+  private config: Partial<WhisperConfig>;
+
+  constructor(config: Partial<WhisperConfig>) {
+    super();
+    this.config = { ...config };
+  }
+
+  protected createRecognizer(): PcmRecognizer {
+    return new WhisperRecognizer(this.config);
+  }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+    super.setLanguage(language);
+  }
+}
+
+export interface StreamingSpeechProviderOptions {
+  type: StreamingSpeechProviderType;
+  language: string;
+  interimResults: boolean;
+  apiKey?: string;
+  url?: string; // Override the provider's streaming endpoint
+  keywords?: string[]; // Terms to boost where the provider supports it (Deepgram)
+  whisper?: Partial<WhisperConfig>;
+}
+
+// Factory function
+export function createStreamingSpeechProvider(
+  options: StreamingSpeechProviderOptions
+): StreamingSpeechProvider {
+  const { type, language, interimResults, apiKey, url, keywords, whisper } = options;
+
+  switch (type) {
+    case 'deepgram':
+      if (!apiKey) {
+        throw new Error('Deepgram API key is required');
+      }
+      return new DeepgramStreamingProvider({
+        apiKey,
+        language,
+        interim_results: interimResults,
+        ...(url ? { url } : {}),
+        ...(keywords ? { keywords } : {}),
+      });
+    case 'aldea':
+      if (!apiKey) {
+        throw new Error('Aldea API key is required');
+      }
+      return new AldeaStreamingProvider({
+        apiKey,
+        language,
+        ...(url ? { url } : {}),
+      });
+    case 'whisper':
+      return new WhisperStreamingProvider({ ...whisper, language });
+    case 'browser':
+    default:
+      return new WebSpeechProvider({ language, interimResults });
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import { WhisperRecognizer, type WhisperTranscriber } from './whisperRecognizer';
+import type { TranscriptionSegment } from '@/types';
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 100;
+const FRAME_SAMPLES = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+function frame(amplitude: number): Int16Array {
+  const data = new Int16Array(FRAME_SAMPLES);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(Math.sin((i / SAMPLE_RATE) * 2 * Math.PI * 220) * amplitude * 0x7fff);
+  }
+  return data;
+}
+
+function feed(recognizer: WhisperRecognizer, amplitude: number, durationMs: number): void {
+  for (let t = 0; t < durationMs; t += FRAME_MS) {
+    recognizer.sendAudio(frame(amplitude));
+  }
+}
+
+describe('WhisperRecognizer', () => {
+  let transcriber: Mock<[], Promise<{ text: string }>>;
+  let recognizer: WhisperRecognizer;
+  let segments: TranscriptionSegment[];
+
+  beforeEach(async () => {
+    transcriber = vi.fn(async () => ({ text: ' Welcome to the keynote. ' }));
+    recognizer = new WhisperRecognizer(
+      { silenceMs: 500, minSpeechMs: 200, preRollMs: 200 },
+      async () => transcriber as unknown as WhisperTranscriber
+    );
+    segments = [];
+
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await recognizer.connect((segment) => segments.push(segment));
+    vi.restoreAllMocks();
+    recognizer.start();
+  });
+
+  it('should transcribe an utterance once the speaker pauses', async () => {
+    feed(recognizer, 0, 1000);
+    feed(recognizer, 0.3, 1500);
+    feed(recognizer, 0, 600);
+    await recognizer.flush();
+
+    expect(transcriber).toHaveBeenCalledTimes(1);
+    expect(segments).toHaveLength(1);
+    expect(segments[0].text).toBe('Welcome to the keynote.');
+    expect(segments[0].isFinal).toBe(true);
+  });
+
+  it('should timestamp segments from the audio clock', async () => {
+    feed(recognizer, 0, 1000);
+    feed(recognizer, 0.3, 1500);
+    feed(recognizer, 0, 600);
+    await recognizer.flush();
+
+    // Speech starts at 1000ms, pre-roll adds 200ms of lead-in
+    expect(segments[0].startTime).toBe(1_000_000 + 800);
+    expect(segments[0].endTime).toBeGreaterThanOrEqual(1_000_000 + 2500);
+    expect(segments[0].endTime).toBeLessThanOrEqual(1_000_000 + 2800);
+  });
+
+  it('should not run inference on silence', async () => {
+    feed(recognizer, 0, 3000);
+    await recognizer.flush();
+
+    expect(transcriber).not.toHaveBeenCalled();
+  });
+
+  it('should ignore short noise bursts', async () => {
+    feed(recognizer, 0.3, 100);
+    feed(recognizer, 0, 600);
+    await recognizer.flush();
+
+    expect(transcriber).not.toHaveBeenCalled();
+  });
+
+  it('should split long monologues at maxUtteranceMs', async () => {
+    recognizer = new WhisperRecognizer(
+      { maxUtteranceMs: 2000 },
+      async () => transcriber as unknown as WhisperTranscriber
+    );
+    await recognizer.connect((segment) => segments.push(segment));
+    recognizer.start();
+
+    feed(recognizer, 0.3, 5000);
+    await recognizer.flush();
+
+    expect(transcriber).toHaveBeenCalledTimes(3);
+  });
+
+  it('should drop non-speech annotations', async () => {
+    transcriber.mockResolvedValueOnce({ text: '[BLANK_AUDIO]' }).mockResolvedValueOnce({ text: '(music) Hello' });
+
+    feed(recognizer, 0.3, 500);
+    feed(recognizer, 0, 600);
+    feed(recognizer, 0.3, 500);
+    feed(recognizer, 0, 600);
+    await recognizer.flush();
+
+    expect(segments.map((segment) => segment.text)).toEqual(['Hello']);
+  });
+
+  it('should ignore audio until started', async () => {
+    recognizer.stop();
+    feed(recognizer, 0.3, 1000);
+    feed(recognizer, 0, 600);
+    await recognizer.flush();
+
+    expect(transcriber).not.toHaveBeenCalled();
+  });
+});
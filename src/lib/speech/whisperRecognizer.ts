@@ -0,0 +1,335 @@
+'use client';
+
+import type { TranscriptionSegment } from '@/types';
+import { getAudioLevel } from './audioProcessor';
+
+/**
+ * In-browser Whisper recognizer
+ *
+ * Runs a Whisper model locally through transformers.js. Expects the same
+ * 16 kHz linear16 PCM that AudioProcessor produces for Deepgram, gates it with
+ * a simple energy-based voice activity detector and transcribes each
+ * utterance once the speaker pauses. After the model has been downloaded once
+ * (or served from `localModelPath`) no network access is needed.
+ */
+
+export interface WhisperConfig {
+  model: string;
+  language: string;
+  sampleRate: number;
+  vadThreshold: number; // normalized audio level that counts as speech
+  minSpeechMs: number; // shorter bursts are treated as noise
+  silenceMs: number; // trailing silence that ends an utterance
+  maxUtteranceMs: number; // force a transcription for long monologues
+  preRollMs: number; // audio kept from before speech onset
+  allowRemoteModels: boolean;
+  localModelPath?: string;
+}
+
+const defaultConfig: WhisperConfig = {
+  model: 'Xenova/whisper-tiny.en', // Small English-only model for speed
+  language: 'en-US',
+  sampleRate: 16000,
+  vadThreshold: 0.01,
+  minSpeechMs: 250,
+  silenceMs: 600,
+  maxUtteranceMs: 10000,
+  preRollMs: 200,
+  allowRemoteModels: true,
+};
+
+export type WhisperTranscriptionCallback = (segment: TranscriptionSegment) => void;
+export type WhisperErrorCallback = (error: Error) => void;
+export type WhisperReadyCallback = () => void;
+export type WhisperProgressCallback = (progress: number) => void;
+
+// Minimal shape of the transformers.js automatic-speech-recognition pipeline
+export type WhisperTranscriber = (
+  audio: Float32Array,
+  options?: Record<string, unknown>
+) => Promise<{ text: string } | { text: string }[]>;
+
+export type WhisperTranscriberLoader = (
+  config: WhisperConfig,
+  onProgress?: WhisperProgressCallback
+) => Promise<WhisperTranscriber>;
+
+// Non-speech annotations Whisper emits for silence, music, etc.
+const NON_SPEECH_PATTERN = /\[[^\]]*\]|\([^)]*\)|\*[^*]*\*/g;
+
+// Loaded models are shared across recognizer instances
+const transcriberCache = new Map<string, Promise<WhisperTranscriber>>();
+
+export const loadWhisperTranscriber: WhisperTranscriberLoader = async (config, onProgress) => {
+  const cacheKey = `${config.localModelPath ?? ''}:${config.model}`;
+  let cached = transcriberCache.get(cacheKey);
+
+  if (!cached) {
+    cached = (async () => {
+      const { pipeline, env } = await import('@huggingface/transformers');
+      env.allowRemoteModels = config.allowRemoteModels;
+      if (config.localModelPath) {
+        env.localModelPath = config.localModelPath;
+      }
+
+      const transcriber = await pipeline('automatic-speech-recognition', config.model, {
+        progress_callback: (progress: { status: string; loaded?: number; total?: number }) => {
+          if (progress.status === 'progress' && progress.total) {
+            onProgress?.((progress.loaded ?? 0) / progress.total);
+          }
+        },
+      });
+      return transcriber as unknown as WhisperTranscriber;
+    })();
+
+    transcriberCache.set(cacheKey, cached);
+    // Allow a retry if the download fails
+    cached.catch(() => transcriberCache.delete(cacheKey));
+  }
+
+  return cached;
+};
+
+interface PendingUtterance {
+  samples: Float32Array[];
+  length: number;
+  speechSamples: number;
+  trailingSilence: number;
+  startSample: number;
+}
+
+export class WhisperRecognizer {
+  private config: WhisperConfig;
+  private loadTranscriber: WhisperTranscriberLoader;
+  private transcriber: WhisperTranscriber | null = null;
+  private isConnected = false;
+  private isListening = false;
+  private segmentId = 0;
+  private sessionStartTime = 0;
+
+  private onTranscription: WhisperTranscriptionCallback | null = null;
+  private onError: WhisperErrorCallback | null = null;
+  private onReady: WhisperReadyCallback | null = null;
+
+  // Voice activity state
+  private samplesReceived = 0;
+  private preRoll: Float32Array[] = [];
+  private preRollLength = 0;
+  private utterance: PendingUtterance | null = null;
+
+  // Inference runs one utterance at a time
+  private inference: Promise<void> = Promise.resolve();
+
+  constructor(
+    config: Partial<WhisperConfig> = {},
+    loadTranscriber: WhisperTranscriberLoader = loadWhisperTranscriber
+  ) {
+    this.config = { ...defaultConfig, ...config };
+    this.loadTranscriber = loadTranscriber;
+  }
+
+  async connect(
+    onTranscription: WhisperTranscriptionCallback,
+    onError?: WhisperErrorCallback,
+    onReady?: WhisperReadyCallback,
+    onProgress?: WhisperProgressCallback
+  ): Promise<void> {
+    this.onTranscription = onTranscription;
+    this.onError = onError || null;
+    this.onReady = onReady || null;
+
+    try {
+      this.transcriber = await this.loadTranscriber(this.config, onProgress);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Failed to load Whisper model');
+      this.onError?.(err);
+      throw err;
+    }
+
+    this.isConnected = true;
+    this.sessionStartTime = Date.now();
+    this.samplesReceived = 0;
+    this.onReady?.();
+  }
+
+  sendAudio(audioData: Int16Array): void {
+    if (!this.isConnected || !this.isListening) {
+      return;
+    }
+
+    const frame = new Float32Array(audioData.length);
+    for (let i = 0; i < audioData.length; i++) {
+      frame[i] = audioData[i] / 0x8000;
+    }
+
+    const frameStart = this.samplesReceived;
+    this.samplesReceived += frame.length;
+    const isSpeech = getAudioLevel(audioData) >= this.config.vadThreshold;
+
+    if (!this.utterance) {
+      if (isSpeech) {
+        this.utterance = {
+          samples: [...this.preRoll, frame],
+          length: this.preRollLength + frame.length,
+          speechSamples: frame.length,
+          trailingSilence: 0,
+          startSample: frameStart - this.preRollLength,
+        };
+        this.preRoll = [];
+        this.preRollLength = 0;
+      } else {
+        this.pushPreRoll(frame);
+      }
+      return;
+    }
+
+    const utterance = this.utterance;
+    utterance.samples.push(frame);
+    utterance.length += frame.length;
+
+    if (isSpeech) {
+      utterance.speechSamples += frame.length;
+      utterance.trailingSilence = 0;
+    } else {
+      utterance.trailingSilence += frame.length;
+    }
+
+    if (
+      utterance.trailingSilence >= this.msToSamples(this.config.silenceMs) ||
+      utterance.length >= this.msToSamples(this.config.maxUtteranceMs)
+    ) {
+      this.endUtterance();
+    }
+  }
+
+  // Transcribe whatever speech is buffered (e.g. when the stream stops)
+  flush(): Promise<void> {
+    if (this.utterance) {
+      this.endUtterance();
+    }
+    return this.inference;
+  }
+
+  private pushPreRoll(frame: Float32Array): void {
+    this.preRoll.push(frame);
+    this.preRollLength += frame.length;
+
+    const maxPreRoll = this.msToSamples(this.config.preRollMs);
+    while (this.preRoll.length > 1 && this.preRollLength - this.preRoll[0].length >= maxPreRoll) {
+      this.preRollLength -= this.preRoll.shift()!.length;
+    }
+  }
+
+  private endUtterance(): void {
+    const utterance = this.utterance;
+    this.utterance = null;
+    if (!utterance || utterance.speechSamples < this.msToSamples(this.config.minSpeechMs)) {
+      return;
+    }
+
+    const audio = new Float32Array(utterance.length);
+    let offset = 0;
+    for (const chunk of utterance.samples) {
+      audio.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    // Drop trailing silence beyond a short tail
+    const tail = Math.max(0, utterance.trailingSilence - this.msToSamples(this.config.preRollMs));
+    const trimmed = tail > 0 ? audio.subarray(0, audio.length - tail) : audio;
+
+    const startTime = this.sampleToTime(utterance.startSample);
+    const endTime = this.sampleToTime(utterance.startSample + trimmed.length);
+
+    this.inference = this.inference.then(() => this.transcribe(trimmed, startTime, endTime));
+  }
+
+  private async transcribe(audio: Float32Array, startTime: number, endTime: number): Promise<void> {
+    if (!this.transcriber) return;
+
+    try {
+      const output = await this.transcriber(audio, this.getInferenceOptions());
+      const rawText = Array.isArray(output) ? output.map((o) => o.text).join(' ') : output.text;
+      const text = rawText.replace(NON_SPEECH_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+      if (!text || !this.onTranscription) return;
+
+      this.onTranscription({
+        id: `whisper-segment-${this.segmentId++}`,
+        text,
+        startTime,
+        endTime,
+        // Whisper does not report a confidence score
+        confidence: 0.9,
+        isFinal: true,
+      });
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Whisper inference failed');
+      this.onError?.(err);
+    }
+  }
+
+  private getInferenceOptions(): Record<string, unknown> {
+    const options: Record<string, unknown> = { chunk_length_s: 30, stride_length_s: 5 };
+
+    // English-only checkpoints reject a language hint
+    if (!this.config.model.endsWith('.en')) {
+      options.language = this.config.language.split('-')[0];
+      options.task = 'transcribe';
+    }
+
+    return options;
+  }
+
+  private msToSamples(ms: number): number {
+    return (ms / 1000) * this.config.sampleRate;
+  }
+
+  private sampleToTime(sample: number): number {
+    return this.sessionStartTime + Math.round((sample / this.config.sampleRate) * 1000);
+  }
+
+  start(): void {
+    this.isListening = true;
+  }
+
+  stop(): void {
+    this.isListening = false;
+  }
+
+  disconnect(): void {
+    this.isListening = false;
+    this.isConnected = false;
+    this.utterance = null;
+    this.preRoll = [];
+    this.preRollLength = 0;
+
+    this.onTranscription = null;
+    this.onError = null;
+    this.onReady = null;
+  }
+
+  getIsConnected(): boolean {
+    return this.isConnected;
+  }
+
+  getIsListening(): boolean {
+    return this.isListening;
+  }
+
+  setLanguage(language: string): void {
+    this.config.language = language;
+  }
+
+  setModel(model: string): void {
+    this.config.model = model;
+  }
+}
+
+// Factory function
+export function createWhisperRecognizer(
+  config?: Partial<WhisperConfig>,
+  loadTranscriber?: WhisperTranscriberLoader
+): WhisperRecognizer {
+  return new WhisperRecognizer(config, loadTranscriber);
+}
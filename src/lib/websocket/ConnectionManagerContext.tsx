@@ -9,8 +9,8 @@ import {
   type ConnectionState,
   type ConnectionMetrics,
   type ConnectionEventType,
-  type ConnectionMessage,
 } from './connectionManager';
+import type { SignMateMessage } from './protocol';
 import type { ASLSign, PipelineStatus } from '@/types';
 
 /**
@@ -48,8 +48,8 @@ interface ConnectionManagerContextValue {
   latency: number;
 
   // Sending
-  send: (message: Omit<ConnectionMessage, 'id'>) => void;
-  sendWithAck: (message: Omit<ConnectionMessage, 'id' | 'requiresAck'>, timeout?: number) => Promise<boolean>;
+  send: (message: SignMateMessage) => void;
+  sendWithAck: (message: SignMateMessage, timeout?: number) => Promise<boolean>;
 }
 
 const ConnectionManagerContext = createContext<ConnectionManagerContextValue | null>(null);
@@ -203,7 +203,7 @@ export function ConnectionManagerProvider({
     poolRef.current?.remove(clientId);
   }, []);
 
-  const send = useCallback((message: Omit<ConnectionMessage, 'id'>) => {
+  const send = useCallback((message: SignMateMessage) => {
     if (connectionRef.current?.isConnected()) {
       connectionRef.current.send({
         ...message,
@@ -213,7 +213,7 @@ export function ConnectionManagerProvider({
   }, []);
 
   const sendWithAck = useCallback(
-    (message: Omit<ConnectionMessage, 'id' | 'requiresAck'>, timeout?: number) => {
+    (message: SignMateMessage, timeout?: number) => {
       if (!connectionRef.current?.isConnected()) {
         return Promise.reject(new Error('Not connected'));
       }
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { createServer } from 'net';
+import { WebSocket } from 'ws';
+import type { ASLSign } from '@/types';
+import { SignMateWebSocketClient } from './client';
+import { createWebSocketServer, type SignMateWebSocketServer } from './server';
+import { createMessage, type SessionPayload } from './protocol';
+
+const SIGN: ASLSign = {
+  gloss: 'HELLO',
+  duration: 600,
+  handshape: { dominant: 'flat-hand' },
+  location: { x: 0, y: 0.5, z: 0.3, reference: 'head' },
+  movement: { type: 'arc', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+// A fixed port, so the relay can be restarted under connected clients
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as { port: number };
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe('SignMateWebSocketClient', () => {
+  let server: SignMateWebSocketServer;
+  let port: number;
+  let client: SignMateWebSocketClient;
+  const sessions: SessionPayload[] = [];
+  const signs: string[] = [];
+
+  // Resolves on the next handshake answer
+  const nextSession = () =>
+    new Promise<SessionPayload>((resolve) => {
+      client.setEvents({
+        onSession: (session) => {
+          sessions.push(session);
+          resolve(session);
+        },
+      });
+    });
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    port = await freePort();
+    server = createWebSocketServer({ port, host: '127.0.0.1' });
+    await server.start();
+    sessions.length = 0;
+    signs.length = 0;
+    client = new SignMateWebSocketClient(`ws://127.0.0.1:${port}`, 'stage', {
+      onSigns: (_, text) => signs.push(text),
+    });
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep default topics alongside added ones across a reconnect', async () => {
+    let session = nextSession();
+    client.connect();
+    await session;
+    client.subscribe({ topics: ['transcript'] });
+    client.unsubscribe(['status']);
+
+    // The relay drops every connection; the client reconnects on its own
+    session = nextSession();
+    await server.stop();
+    await server.start();
+    await session;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.getClients()[0].topics.sort()).toEqual(['signs', 'transcript']);
+    server.broadcastSigns([SIGN], 'after');
+    await vi.waitFor(() => expect(signs).toEqual(['after']));
+  });
+
+  it('should resume after a drop, replay what it missed once and ack what it handled', async () => {
+    let session = nextSession();
+    client.connect();
+    await session;
+    server.broadcastSigns([SIGN], 'one');
+    await vi.waitFor(() => expect(server.getClients()[0].lastAckedSeq).toBe(1));
+
+    // Published while the display was away
+    await server.stop();
+    server.broadcastSigns([SIGN], 'two');
+    server.broadcastSigns([SIGN], 'three');
+    session = nextSession();
+    await server.start();
+
+    expect(await session).toMatchObject({ resumedFrom: 1, replayed: 2, skipped: false });
+    await vi.waitFor(() => expect(signs).toEqual(['one', 'two', 'three']));
+
+    // A message at or below the last sequence number is a duplicate
+    server.broadcast({ ...createMessage('signs', { signs: [SIGN], text: 'two' }), seq: 2 });
+    server.broadcastSigns([SIGN], 'four');
+    await vi.waitFor(() => expect(server.getClients()[0].lastAckedSeq).toBe(4));
+    expect(signs).toEqual(['one', 'two', 'three', 'four']);
+  });
+});
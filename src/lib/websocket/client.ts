@@ -1,12 +1,27 @@
 'use client';
 
 import type { ASLSign, PipelineStatus } from '@/types';
+import {
+  CLOSE_CODES,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  createMessage,
+  mergeSubscription,
+  parseMessage,
+  serializeMessage,
+  type ClientType,
+  type CommandPayload,
+  type CommandResultPayload,
+  type OperatorCommand,
+  type OperatorState,
+  type ProtocolErrorCode,
+  type SessionPayload,
+  type SignMateMessage,
+  type PublishedType,
+  type Subscription,
+} from './protocol';
 
-export interface SignMateMessage {
-  type: 'signs' | 'status' | 'transcript' | 'config' | 'ping' | 'pong';
-  payload: unknown;
-  timestamp: number;
-}
+export type { ClientType, SignMateMessage } from './protocol';
 
 export interface SignMateClientEvents {
   onSigns?: (signs: ASLSign[], text: string) => void;
@@ -15,9 +30,21 @@ export interface SignMateClientEvents {
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Event) => void;
+  onServerError?: (error: string, code: ProtocolErrorCode) => void; // Rejected handshake or message
+  onSession?: (session: SessionPayload) => void; // Handshake answered; says whether missed messages are replayed
+  onCommand?: (command: CommandPayload) => void; // Pipeline host only
+  onCommandResult?: (result: CommandResultPayload) => void; // Operator consoles
+  onOperatorState?: (state: OperatorState) => void; // Operator consoles
+}
+
+interface PendingCommand {
+  resolve: (result: CommandResultPayload) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
 }
 
-export type ClientType = 'stage' | 'monitor' | 'overlay' | 'control';
+// The server closed with one of these; reconnecting would be rejected again
+const FATAL_CLOSE_CODES: number[] = [CLOSE_CODES.protocolMismatch, CLOSE_CODES.unauthorized];
 
 export class SignMateWebSocketClient {
   private ws: WebSocket | null = null;
@@ -29,15 +56,26 @@ export class SignMateWebSocketClient {
   private reconnectDelay = 1000;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private isIntentionallyClosed = false;
+  private token?: string;
+  // Resume point for reconnects: the server session and last sequence number processed
+  private sessionId: string | null = null;
+  private lastSeq = 0;
+  private subscription: Subscription = {};
+  private unsubscribed: Set<PublishedType> = new Set(); // Removed from the client type's default topics
+  private host = false;
+  private pendingCommands: Map<string, PendingCommand> = new Map();
+  private commandCounter = 0;
 
   constructor(
     url: string = 'ws://localhost:8080',
     clientType: ClientType = 'monitor',
-    events: SignMateClientEvents = {}
+    events: SignMateClientEvents = {},
+    token?: string // Relay token, required for control clients
   ) {
     this.url = url;
     this.clientType = clientType;
     this.events = events;
+    this.token = token;
   }
 
   connect(): void {
@@ -55,29 +93,31 @@ export class SignMateWebSocketClient {
         console.log('Connected to SignMate server');
         this.reconnectAttempts = 0;
 
-        // Send client type configuration
-        this.send({
-          type: 'config',
-          payload: { clientType: this.clientType },
-          timestamp: Date.now(),
-        });
-
+        this.sendConfig();
         this.events.onConnect?.();
       };
 
       this.ws.onmessage = (event: MessageEvent) => {
+        let message: SignMateMessage;
         try {
-          const message = JSON.parse(event.data) as SignMateMessage;
-          this.handleMessage(message);
+          message = parseMessage(event.data);
         } catch (error) {
-          console.error('Failed to parse message:', error);
+          if (!(error instanceof ProtocolError)) throw error;
+          console.error(`Rejected message from SignMate server: ${error.message}`);
+          return;
         }
+        this.handleMessage(message);
       };
 
-      this.ws.onclose = () => {
+      this.ws.onclose = (event: CloseEvent) => {
         console.log('Disconnected from SignMate server');
         this.events.onDisconnect?.();
 
+        if (FATAL_CLOSE_CODES.includes(event.code)) {
+          console.error(`SignMate server rejected this client: ${event.reason}`);
+          return;
+        }
+
         if (!this.isIntentionallyClosed) {
           this.attemptReconnect();
         }
@@ -93,6 +133,23 @@ export class SignMateWebSocketClient {
     }
   }
 
+  // Protocol handshake with the client type and subscription
+  private sendConfig(): void {
+    this.send(
+      createMessage('config', {
+        protocolVersion: PROTOCOL_VERSION,
+        clientType: this.clientType,
+        token: this.token,
+        resume: this.sessionId ? { sessionId: this.sessionId, seq: this.lastSeq } : undefined,
+        subscription: this.subscription,
+        host: this.host || undefined,
+      })
+    );
+    if (this.unsubscribed.size > 0) {
+      this.send(createMessage('unsubscribe', { topics: Array.from(this.unsubscribed) }));
+    }
+  }
+
   disconnect(): void {
     this.isIntentionallyClosed = true;
 
@@ -126,48 +183,153 @@ export class SignMateWebSocketClient {
   }
 
   private handleMessage(message: SignMateMessage): void {
+    // A replay can overlap what already arrived before the connection dropped
+    if (message.seq !== undefined) {
+      if (message.seq <= this.lastSeq) return;
+      this.lastSeq = message.seq;
+    }
+
     switch (message.type) {
-      case 'signs': {
-        const payload = message.payload as { signs: ASLSign[]; text: string };
-        this.events.onSigns?.(payload.signs, payload.text);
+      case 'session':
+        this.sessionId = message.payload.sessionId;
+        this.lastSeq = message.payload.resumedFrom ?? message.payload.latestSeq;
+        this.events.onSession?.(message.payload);
         break;
-      }
 
-      case 'status': {
-        const payload = message.payload as { status: PipelineStatus; latency: number };
-        this.events.onStatus?.(payload.status, payload.latency);
+      case 'signs':
+        this.events.onSigns?.(message.payload.signs, message.payload.text);
+        break;
+
+      case 'status':
+        this.events.onStatus?.(message.payload.status, message.payload.latency);
+        break;
+
+      case 'transcript':
+        this.events.onTranscript?.(message.payload.text, message.payload.final);
+        break;
+
+      case 'error':
+        console.warn(`SignMate server error (${message.payload.code}):`, message.payload.error);
+        this.events.onServerError?.(message.payload.error, message.payload.code);
+        break;
+
+      case 'command':
+        this.events.onCommand?.(message.payload);
         break;
-      }
 
-      case 'transcript': {
-        const payload = message.payload as { text: string; final: boolean };
-        this.events.onTranscript?.(payload.text, payload.final);
+      case 'commandResult': {
+        const pending = this.pendingCommands.get(message.payload.commandId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingCommands.delete(message.payload.commandId);
+          pending.resolve(message.payload);
+        }
+        this.events.onCommandResult?.(message.payload);
         break;
       }
 
+      case 'operatorState':
+        this.events.onOperatorState?.(message.payload);
+        break;
+
       case 'ping':
         // Respond to server ping
-        this.send({
-          type: 'pong',
-          payload: null,
-          timestamp: Date.now(),
-        });
+        this.send(createMessage('pong', { requestId: message.id }));
         break;
 
       default:
         // Ignore unknown messages
         break;
     }
+
+    // Ack once handled so a resume starts after it
+    if (message.seq !== undefined) {
+      this.send(createMessage('ack', { seq: message.seq }));
+    }
   }
 
   send(message: SignMateMessage): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(serializeMessage(message));
     } else {
       console.warn('WebSocket not connected, message not sent');
     }
   }
 
+  // Publishing is only accepted from an authenticated control client
+  publishSigns(signs: ASLSign[], text: string): void {
+    this.send(createMessage('signs', { signs, text }));
+  }
+
+  publishStatus(status: PipelineStatus, latency: number = status.latency): void {
+    this.send(createMessage('status', { status, latency }));
+  }
+
+  publishTranscript(text: string, final: boolean): void {
+    this.send(createMessage('transcript', { text, final }));
+  }
+
+  /**
+   * Add topics or change room, language track or filters; kept across reconnects.
+   * For a control client, room and language set where it publishes.
+   */
+  subscribe(subscription: Subscription): void {
+    this.subscription = mergeSubscription(this.subscription, subscription);
+    subscription.topics?.forEach((topic) => this.unsubscribed.delete(topic));
+    if (this.isConnected()) {
+      this.send(createMessage('subscribe', subscription));
+    }
+  }
+
+  unsubscribe(topics: PublishedType[]): void {
+    const current = this.subscription.topics;
+    this.subscription = { ...this.subscription, topics: current?.filter((topic) => !topics.includes(topic)) };
+    topics.forEach((topic) => this.unsubscribed.add(topic));
+    if (this.isConnected()) {
+      this.send(createMessage('unsubscribe', { topics }));
+    }
+  }
+
+  /**
+   * Send an operator command to the room's pipeline host. Resolves with the
+   * host's result (check `ok`); rejects if no result arrives in time.
+   */
+  sendCommand(command: OperatorCommand, timeout: number = 5000): Promise<CommandResultPayload> {
+    if (!this.isConnected()) {
+      return Promise.reject(new Error('Not connected'));
+    }
+
+    const commandId = `cmd-${Date.now()}-${++this.commandCounter}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingCommands.delete(commandId);
+        reject(new Error(`Command "${command.type}" timed out`));
+      }, timeout);
+      this.pendingCommands.set(commandId, { resolve, reject, timer });
+      this.send(createMessage('command', { commandId, command }));
+    });
+  }
+
+  /**
+   * Register (or stop registering) as the pipeline host of this client's room
+   */
+  setHost(host: boolean): void {
+    if (this.host === host) return;
+    this.host = host;
+    if (this.isConnected()) {
+      this.sendConfig();
+    }
+  }
+
+  // Pipeline host only
+  sendCommandResult(result: CommandResultPayload): void {
+    this.send(createMessage('commandResult', result));
+  }
+
+  publishOperatorState(state: OperatorState): void {
+    this.send(createMessage('operatorState', state));
+  }
+
   isConnected(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
   }
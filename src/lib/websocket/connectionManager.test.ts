@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { createServer } from 'net';
+import { WebSocket } from 'ws';
+import type { ASLSign } from '@/types';
+import { WebSocketConnectionManager } from './connectionManager';
+import { createWebSocketServer, type SignMateWebSocketServer } from './server';
+import { createMessage, type SessionPayload } from './protocol';
+
+const SIGN: ASLSign = {
+  gloss: 'HELLO',
+  duration: 600,
+  handshape: { dominant: 'flat-hand' },
+  location: { x: 0, y: 0.5, z: 0.3, reference: 'head' },
+  movement: { type: 'arc', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+// A fixed port, so the relay can be restarted under connected clients
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as { port: number };
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+describe('WebSocketConnectionManager', () => {
+  let server: SignMateWebSocketServer;
+  let manager: WebSocketConnectionManager;
+  const signs: string[] = [];
+
+  const nextSession = () =>
+    new Promise<SessionPayload>((resolve) => {
+      const off = manager.on('session', (session) => {
+        off();
+        resolve(session);
+      });
+    });
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const port = await freePort();
+    server = createWebSocketServer({ port, host: '127.0.0.1' });
+    await server.start();
+    signs.length = 0;
+    manager = new WebSocketConnectionManager({
+      url: `ws://127.0.0.1:${port}`,
+      clientType: 'monitor',
+      reconnectBaseDelay: 20,
+      maxReconnectDelay: 100,
+    });
+    manager.on('signs', ({ text }) => signs.push(text));
+  });
+
+  afterEach(async () => {
+    manager.disconnect();
+    await server.stop();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should resume after a drop, replay what it missed once and ack what it handled', async () => {
+    let session = nextSession();
+    manager.connect();
+    await session;
+    server.broadcastSigns([SIGN], 'one');
+    await vi.waitFor(() => expect(server.getClients()[0].lastAckedSeq).toBe(1));
+
+    await server.stop();
+    server.broadcastSigns([SIGN], 'two');
+    server.broadcastSigns([SIGN], 'three');
+    session = nextSession();
+    await server.start();
+
+    expect(await session).toMatchObject({ resumedFrom: 1, replayed: 2, skipped: false });
+    await vi.waitFor(() => expect(signs).toEqual(['one', 'two', 'three']));
+    expect(manager.getState()).toBe('connected');
+
+    server.broadcast({ ...createMessage('signs', { signs: [SIGN], text: 'two' }), seq: 2 });
+    server.broadcastSigns([SIGN], 'four');
+    await vi.waitFor(() => expect(server.getClients()[0].lastAckedSeq).toBe(4));
+    expect(signs).toEqual(['one', 'two', 'three', 'four']);
+  });
+
+  it('should skip to live when the relay restarted with a new session', async () => {
+    let session = nextSession();
+    manager.connect();
+    await session;
+    server.broadcastSigns([SIGN], 'one');
+    await vi.waitFor(() => expect(signs).toEqual(['one']));
+
+    // A new relay process has its own session and sequence
+    const port = server.getPort();
+    await server.stop();
+    server = createWebSocketServer({ port, host: '127.0.0.1' });
+    session = nextSession();
+    await server.start();
+
+    expect(await session).toMatchObject({ resumedFrom: null, skipped: true });
+    server.broadcastSigns([SIGN], 'fresh');
+    await vi.waitFor(() => expect(signs).toEqual(['one', 'fresh']));
+  });
+});
@@ -1,6 +1,21 @@
 'use client';
 
 import type { ASLSign, PipelineStatus } from '@/types';
+import {
+  CLOSE_CODES,
+  PROTOCOL_VERSION,
+  ProtocolError,
+  createMessage,
+  mergeSubscription,
+  parseMessage,
+  serializeMessage,
+  type ClientType,
+  type ErrorPayload,
+  type PublishedType,
+  type SessionPayload,
+  type SignMateMessage,
+  type Subscription,
+} from './protocol';
 
 /**
  * WebSocket Connection Manager for SignMate
@@ -11,6 +26,9 @@ import type { ASLSign, PipelineStatus } from '@/types';
  * - Connection health monitoring
  * - Quality metrics and adaptive behavior
  * - Event-driven architecture
+ * - Acked delivery that resumes from the last processed message on reconnect
+ *
+ * Messages follow the shared schema in ./protocol.
  */
 
 // Connection states
@@ -22,31 +40,16 @@ export type ConnectionState =
   | 'error'
   | 'suspended';
 
-// Message types
-export type MessageType =
-  | 'signs'
-  | 'status'
-  | 'transcript'
-  | 'config'
-  | 'ping'
-  | 'pong'
-  | 'heartbeat'
-  | 'subscribe'
-  | 'unsubscribe'
-  | 'ack';
-
-export interface ConnectionMessage {
-  id: string;
-  type: MessageType;
-  payload: unknown;
-  timestamp: number;
-  requiresAck?: boolean;
-}
+export type { MessageType } from './protocol';
+
+// Protocol messages sent by the manager always carry an id
+export type ConnectionMessage = SignMateMessage & { id: string };
 
 export interface ConnectionConfig {
   url: string;
   clientId?: string;
-  clientType: 'stage' | 'monitor' | 'overlay' | 'control' | 'backup';
+  clientType: ClientType;
+  token?: string; // Relay token, required for control clients
   autoConnect?: boolean;
   reconnect?: boolean;
   maxReconnectAttempts?: number;
@@ -58,6 +61,9 @@ export interface ConnectionConfig {
   bufferMessages?: boolean;
   maxBufferSize?: number;
   enableMetrics?: boolean;
+  resume?: boolean; // Ask the server to replay what was missed while reconnecting
+  maxReplay?: number; // Skip to live rather than replay more messages than this
+  subscription?: Subscription; // Topics, event room, language track and filters
 }
 
 export interface ConnectionMetrics {
@@ -95,13 +101,15 @@ export type ConnectionEventType =
   | 'reconnecting'
   | 'reconnected'
   | 'error'
+  | 'serverError'
   | 'message'
   | 'signs'
   | 'status'
   | 'transcript'
   | 'stateChange'
   | 'metricsUpdate'
-  | 'qualityChange';
+  | 'qualityChange'
+  | 'session';
 
 export type ConnectionEventHandler<T = unknown> = (data: T) => void;
 
@@ -111,16 +119,23 @@ interface ConnectionEventMap {
   reconnecting: { attempt: number; maxAttempts: number; delay: number };
   reconnected: { attempts: number };
   error: Error;
-  message: ConnectionMessage;
+  serverError: ErrorPayload;
+  message: SignMateMessage;
   signs: { signs: ASLSign[]; text: string };
   status: { status: PipelineStatus; latency: number };
   transcript: { text: string; final: boolean };
   stateChange: { from: ConnectionState; to: ConnectionState };
   metricsUpdate: ConnectionMetrics;
   qualityChange: { from: string; to: string };
+  session: SessionPayload;
 }
 
-const DEFAULT_CONFIG: Required<Omit<ConnectionConfig, 'clientId' | 'url' | 'clientType'>> = {
+// The server closed with one of these; reconnecting would be rejected again
+const FATAL_CLOSE_CODES: number[] = [CLOSE_CODES.protocolMismatch, CLOSE_CODES.unauthorized];
+
+type OptionalConfigKey = 'token' | 'maxReplay' | 'subscription';
+
+const DEFAULT_CONFIG: Required<Omit<ConnectionConfig, 'clientId' | 'url' | 'clientType' | OptionalConfigKey>> = {
   autoConnect: true,
   reconnect: true,
   maxReconnectAttempts: 10,
@@ -132,11 +147,12 @@ const DEFAULT_CONFIG: Required<Omit<ConnectionConfig, 'clientId' | 'url' | 'clie
   bufferMessages: true,
   maxBufferSize: 100,
   enableMetrics: true,
+  resume: true,
 };
 
 export class WebSocketConnectionManager {
   private ws: WebSocket | null = null;
-  private config: Required<ConnectionConfig>;
+  private config: Required<Omit<ConnectionConfig, OptionalConfigKey>> & Pick<ConnectionConfig, OptionalConfigKey>;
   private state: ConnectionState = 'disconnected';
   private metrics: ConnectionMetrics;
   private eventListeners: Map<ConnectionEventType, Set<ConnectionEventHandler>> = new Map();
@@ -152,10 +168,18 @@ export class WebSocketConnectionManager {
   private lastPongTime: number = 0;
 
   // Message handling
-  private messageBuffer: ConnectionMessage[] = [];
+  private messageBuffer: SignMateMessage[] = [];
   private pendingMessages: Map<string, PendingMessage> = new Map();
   private messageIdCounter = 0;
 
+  // Delivery: the server session and the last sequence number processed in it
+  private sessionId: string | null = null;
+  private lastSeq = 0;
+
+  // Subscription, kept across reconnects
+  private subscription: Subscription;
+  private unsubscribed: Set<PublishedType> = new Set(); // Removed from the client type's default topics
+
   // Latency tracking
   private pendingPings: Map<string, number> = new Map();
 
@@ -165,6 +189,7 @@ export class WebSocketConnectionManager {
       ...config,
       clientId: config.clientId || this.generateClientId(),
     };
+    this.subscription = config.subscription ?? {};
 
     this.metrics = this.createInitialMetrics();
   }
@@ -330,7 +355,11 @@ export class WebSocketConnectionManager {
 
       this.emit('disconnect', { code: event.code, reason: event.reason });
 
-      if (!this.isIntentionallyClosed && this.config.reconnect) {
+      if (FATAL_CLOSE_CODES.includes(event.code)) {
+        console.error(`[ConnectionManager] Rejected by server: ${event.reason}`);
+        this.setState('error');
+        this.emit('error', new Error(event.reason || 'Rejected by server'));
+      } else if (!this.isIntentionallyClosed && this.config.reconnect) {
         this.scheduleReconnect();
       } else {
         this.setState('disconnected');
@@ -348,53 +377,87 @@ export class WebSocketConnectionManager {
   }
 
   private handleMessage(event: MessageEvent): void {
+    const data = typeof event.data === 'string' ? event.data : event.data.toString();
+    let message: SignMateMessage;
     try {
-      const data = typeof event.data === 'string' ? event.data : event.data.toString();
-      const message = JSON.parse(data) as ConnectionMessage;
-
-      this.metrics.messagesReceived++;
-      this.metrics.bytesReceived += data.length;
-
-      // Handle internal message types
-      switch (message.type) {
-        case 'pong':
-          this.handlePong(message);
-          break;
-        case 'heartbeat':
-          this.handleHeartbeatResponse(message);
-          break;
-        case 'ack':
-          this.handleAck(message);
-          break;
-        case 'signs':
-          this.emit('signs', message.payload as { signs: ASLSign[]; text: string });
-          break;
-        case 'status':
-          this.emit('status', message.payload as { status: PipelineStatus; latency: number });
-          break;
-        case 'transcript':
-          this.emit('transcript', message.payload as { text: string; final: boolean });
-          break;
-        case 'ping':
-          // Respond to server ping
-          this.send({ type: 'pong', payload: { requestId: message.id }, timestamp: Date.now(), id: this.generateMessageId() });
-          break;
-      }
-
-      this.emit('message', message);
+      message = parseMessage(data);
     } catch (error) {
-      console.error('[ConnectionManager] Failed to parse message:', error);
+      if (!(error instanceof ProtocolError)) throw error;
+      console.error(`[ConnectionManager] Rejected message: ${error.message}`);
+      return;
+    }
+
+    this.metrics.messagesReceived++;
+    this.metrics.bytesReceived += data.length;
+
+    // A replay can overlap what already arrived before the connection dropped
+    if (message.seq !== undefined) {
+      if (message.seq <= this.lastSeq) return;
+      this.lastSeq = message.seq;
+    }
+
+    // Handle internal message types
+    switch (message.type) {
+      case 'session':
+        this.handleSession(message.payload);
+        break;
+      case 'pong':
+        this.handlePong(message);
+        break;
+      case 'heartbeat':
+        this.handleHeartbeatResponse(message);
+        break;
+      case 'ack':
+        this.handleAck(message);
+        break;
+      case 'signs':
+        this.emit('signs', message.payload);
+        break;
+      case 'status':
+        this.emit('status', message.payload);
+        break;
+      case 'transcript':
+        this.emit('transcript', message.payload);
+        break;
+      case 'error':
+        console.warn(`[ConnectionManager] Server error (${message.payload.code}): ${message.payload.error}`);
+        this.emit('serverError', message.payload);
+        break;
+      case 'ping':
+        // Respond to server ping
+        this.send(createMessage('pong', { requestId: message.id }, { id: this.generateMessageId() }));
+        break;
+    }
+
+    this.emit('message', message);
+
+    // Ack once handlers have run, so a resume never skips an unprocessed message
+    if (message.seq !== undefined) {
+      this.send(createMessage('ack', { seq: message.seq }, { id: this.generateMessageId() }));
     }
   }
 
-  private handlePong(message: ConnectionMessage): void {
-    const payload = message.payload as { requestId: string };
-    const sentTime = this.pendingPings.get(payload.requestId);
+  private handleSession(session: SessionPayload): void {
+    this.sessionId = session.sessionId;
+    this.lastSeq = session.resumedFrom ?? session.latestSeq;
 
-    if (sentTime) {
+    if (session.skipped) {
+      console.warn('[ConnectionManager] Missed too much while disconnected, skipping to live');
+    } else if (session.resumedFrom !== null) {
+      console.log(`[ConnectionManager] Resuming after ${session.resumedFrom}, replaying ${session.replayed} messages`);
+    }
+
+    this.emit('session', session);
+  }
+
+  private handlePong(message: SignMateMessage<'pong'>): void {
+    const requestId = message.payload?.requestId;
+    const sentTime = requestId ? this.pendingPings.get(requestId) : undefined;
+
+    if (requestId && sentTime) {
       const latency = Date.now() - sentTime;
       this.updateLatencyMetrics(latency);
-      this.pendingPings.delete(payload.requestId);
+      this.pendingPings.delete(requestId);
     }
 
     this.lastPongTime = Date.now();
@@ -407,8 +470,8 @@ export class WebSocketConnectionManager {
     }
   }
 
-  private handleHeartbeatResponse(message: ConnectionMessage): void {
-    const payload = message.payload as { requestId: string; serverTime: number };
+  private handleHeartbeatResponse(message: SignMateMessage<'heartbeat'>): void {
+    const payload = message.payload;
     const sentTime = this.pendingPings.get(payload.requestId);
 
     if (sentTime) {
@@ -418,13 +481,13 @@ export class WebSocketConnectionManager {
     }
   }
 
-  private handleAck(message: ConnectionMessage): void {
-    const payload = message.payload as { messageId: string };
-    const pending = this.pendingMessages.get(payload.messageId);
+  private handleAck(message: SignMateMessage<'ack'>): void {
+    const { messageId } = message.payload;
+    const pending = messageId ? this.pendingMessages.get(messageId) : undefined;
 
-    if (pending) {
+    if (messageId && pending) {
       pending.resolve(true);
-      this.pendingMessages.delete(payload.messageId);
+      this.pendingMessages.delete(messageId);
     }
   }
 
@@ -506,12 +569,7 @@ export class WebSocketConnectionManager {
     const pingId = this.generateMessageId();
     this.pendingPings.set(pingId, Date.now());
 
-    this.send({
-      id: pingId,
-      type: 'ping',
-      payload: { timestamp: Date.now() },
-      timestamp: Date.now(),
-    });
+    this.send(createMessage('ping', { timestamp: Date.now() }, { id: pingId }));
 
     // Set timeout for pong response
     this.heartbeatTimeoutTimer = setTimeout(() => {
@@ -575,21 +633,54 @@ export class WebSocketConnectionManager {
 
   // Message sending
   private sendConfig(): void {
-    this.send({
-      id: this.generateMessageId(),
-      type: 'config',
-      payload: {
-        clientId: this.config.clientId,
-        clientType: this.config.clientType,
-        capabilities: ['signs', 'status', 'transcript'],
-      },
-      timestamp: Date.now(),
-    });
+    this.send(
+      createMessage(
+        'config',
+        {
+          protocolVersion: PROTOCOL_VERSION,
+          clientId: this.config.clientId,
+          clientType: this.config.clientType,
+          token: this.config.token,
+          capabilities: ['signs', 'status', 'transcript'],
+          resume: this.config.resume && this.sessionId ? { sessionId: this.sessionId, seq: this.lastSeq } : undefined,
+          maxReplay: this.config.maxReplay,
+          subscription: this.subscription,
+        },
+        { id: this.generateMessageId() }
+      )
+    );
+    if (this.unsubscribed.size > 0) {
+      this.send(createMessage('unsubscribe', { topics: Array.from(this.unsubscribed) }, { id: this.generateMessageId() }));
+    }
+  }
+
+  /**
+   * Add topics or change room, language track or filters on the server
+   */
+  subscribe(subscription: Subscription): void {
+    this.subscription = mergeSubscription(this.subscription, subscription);
+    subscription.topics?.forEach((topic) => this.unsubscribed.delete(topic));
+    if (this.isConnected()) {
+      this.send(createMessage('subscribe', subscription, { id: this.generateMessageId() }));
+    }
   }
 
-  send(message: ConnectionMessage): void {
+  unsubscribe(topics: PublishedType[]): void {
+    const current = this.subscription.topics;
+    this.subscription = { ...this.subscription, topics: current?.filter((topic) => !topics.includes(topic)) };
+    topics.forEach((topic) => this.unsubscribed.add(topic));
+    if (this.isConnected()) {
+      this.send(createMessage('unsubscribe', { topics }, { id: this.generateMessageId() }));
+    }
+  }
+
+  getSubscription(): Subscription {
+    return { ...this.subscription };
+  }
+
+  send(message: SignMateMessage): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
-      const data = JSON.stringify(message);
+      const data = serializeMessage(message);
       this.ws.send(data);
       this.metrics.messagesSent++;
       this.metrics.bytesSent += data.length;
@@ -600,7 +691,7 @@ export class WebSocketConnectionManager {
     }
   }
 
-  async sendWithAck(message: Omit<ConnectionMessage, 'id' | 'requiresAck'>, timeout?: number): Promise<boolean> {
+  async sendWithAck(message: SignMateMessage, timeout?: number): Promise<boolean> {
     const fullMessage: ConnectionMessage = {
       ...message,
       id: this.generateMessageId(),
@@ -646,6 +737,11 @@ export class WebSocketConnectionManager {
     return this.config.clientId!;
   }
 
+  // Last sequence number processed (and acked)
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
   getClientType(): string {
     return this.config.clientType;
   }
@@ -705,7 +801,7 @@ export class ConnectionPool {
     return this.getAll().map(conn => conn.getMetrics());
   }
 
-  broadcast(message: Omit<ConnectionMessage, 'id'>): void {
+  broadcast(message: SignMateMessage): void {
     this.connections.forEach(conn => {
       if (conn.isConnected()) {
         conn.send({
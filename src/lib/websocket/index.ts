@@ -1,5 +1,30 @@
-export { SignMateWebSocketClient, type SignMateClientEvents, type ClientType } from './client';
-export type { SignMateMessage } from './client';
+export { SignMateWebSocketClient, type SignMateClientEvents } from './client';
+
+// Shared message schema
+export {
+  PROTOCOL_VERSION,
+  CLOSE_CODES,
+  DEFAULT_ROOM,
+  ProtocolError,
+  createMessage,
+  parseMessage,
+  validateMessage,
+  checkProtocolVersion,
+  mergeSubscription,
+  type SignMateMessage,
+  type Subscription,
+  type SubscriptionFilters,
+  type MessageType,
+  type MessagePayloads,
+  type ClientType,
+  type ProtocolErrorCode,
+  type OperatorCommand,
+  type OperatorState,
+  type CommandPayload,
+  type CommandResultPayload,
+} from './protocol';
+export { relayPipeline, type RelayPublisher } from './pipelineRelay';
+export { hostOperatorCommands, type OperatorHostHandlers } from './operatorHost';
 
 // Connection Manager exports
 export {
@@ -11,7 +36,6 @@ export {
   type ConnectionMetrics,
   type ConnectionMessage,
   type ConnectionEventType,
-  type MessageType,
 } from './connectionManager';
 
 export {
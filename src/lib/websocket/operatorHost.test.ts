@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PipelineState } from '@/lib/pipeline/streamingPipeline';
+import type { SignVariantPreferences } from '@/types';
+import type { SignMateClientEvents } from './client';
+import { hostOperatorCommands, type OperatorHostClient, type OperatorHostPipeline } from './operatorHost';
+import type { CommandPayload, CommandResultPayload, OperatorState } from './protocol';
+
+function fakePipeline() {
+  let state: PipelineState = 'idle';
+  let variants: SignVariantPreferences | null = null;
+  const listeners: (() => void)[] = [];
+  const setState = (next: PipelineState) => {
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+  const pipeline = {
+    on: vi.fn((_event: string, handler: () => void) => {
+      listeners.push(handler);
+      return () => listeners.splice(listeners.indexOf(handler), 1);
+    }),
+    // Like the real pipeline, calls the current state doesn't allow are ignored
+    start: vi.fn(async () => {
+      if (state === 'idle' || state === 'paused') setState('streaming');
+    }),
+    stop: vi.fn(async () => {
+      if (state !== 'idle') setState('idle');
+    }),
+    pause: vi.fn(async () => {
+      if (state === 'streaming') setState('paused');
+    }),
+    resume: vi.fn(async () => {
+      if (state === 'paused') setState('streaming');
+    }),
+    clearSignQueue: vi.fn(),
+    getState: () => state,
+    getSignVariants: () => variants,
+    setSignVariants: vi.fn((next: SignVariantPreferences | null) => {
+      variants = next;
+    }),
+  };
+  return { pipeline: pipeline as unknown as OperatorHostPipeline, mock: pipeline, listeners };
+}
+
+function fakeClient(connected = true) {
+  let events: SignMateClientEvents = {};
+  const results: CommandResultPayload[] = [];
+  const states: OperatorState[] = [];
+  const client = {
+    setEvents: (next: SignMateClientEvents) => {
+      events = { ...events, ...next };
+    },
+    setHost: vi.fn(),
+    isConnected: () => connected,
+    sendCommandResult: (result: CommandResultPayload) => results.push(result),
+    publishOperatorState: (state: OperatorState) => states.push(state),
+  };
+  const command = (payload: CommandPayload) => events.onCommand?.(payload);
+  const handshake = () => {
+    connected = true;
+    events.onSession?.({ sessionId: 's-1', latestSeq: 0, resumedFrom: null, replayed: 0, skipped: false });
+  };
+  return { client: client as OperatorHostClient, mock: client, results, states, command, handshake };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('hostOperatorCommands', () => {
+  it('should run commands in order and answer each with a result and state', async () => {
+    const { pipeline, mock } = fakePipeline();
+    const { client, mock: clientMock, results, states, command } = fakeClient();
+    const onAddMarker = vi.fn();
+    hostOperatorCommands(pipeline, client, { onAddMarker, audioSource: 'microphone' });
+    expect(clientMock.setHost).toHaveBeenCalledWith(true);
+
+    command({ commandId: 'a', command: { type: 'start' }, issuedBy: 'op-1' });
+    command({ commandId: 'b', command: { type: 'pause' } });
+    command({ commandId: 'c', command: { type: 'addMarker', label: 'Keynote' } });
+    command({ commandId: 'd', command: { type: 'setSignSpeed', speed: 'slow' } });
+    await settle();
+
+    expect(results.map((result) => [result.commandId, result.ok])).toEqual([
+      ['a', true],
+      ['b', true],
+      ['c', true],
+      ['d', true],
+    ]);
+    expect(results[0].issuedBy).toBe('op-1');
+    expect(mock.start.mock.invocationCallOrder[0]).toBeLessThan(mock.pause.mock.invocationCallOrder[0]);
+    expect(onAddMarker).toHaveBeenCalledWith('Keynote');
+    expect(states[states.length - 1]).toMatchObject({
+      pipelineState: 'paused',
+      audioSource: 'microphone',
+      signSpeed: 'slow',
+      lastMarker: { label: 'Keynote' },
+    });
+  });
+
+  it('should fail lifecycle commands the pipeline ignores', async () => {
+    const { pipeline } = fakePipeline();
+    const { client, results, command } = fakeClient();
+    hostOperatorCommands(pipeline, client);
+
+    command({ commandId: 'a', command: { type: 'pause' } });
+    command({ commandId: 'b', command: { type: 'resume' } });
+    command({ commandId: 'c', command: { type: 'start' } });
+    command({ commandId: 'd', command: { type: 'start' } });
+    command({ commandId: 'e', command: { type: 'pause' } });
+    command({ commandId: 'f', command: { type: 'resume' } });
+    await settle();
+
+    expect(results.map((result) => [result.commandId, result.ok, result.error])).toEqual([
+      ['a', false, 'Could not pause the pipeline while it is idle'],
+      ['b', false, 'Could not resume the pipeline while it is idle'],
+      ['c', true, undefined],
+      ['d', false, 'Could not start the pipeline while it is streaming'],
+      ['e', true, undefined],
+      ['f', true, undefined],
+    ]);
+  });
+
+  it('should fail commands the host has no handler for', async () => {
+    const { pipeline } = fakePipeline();
+    const { client, results, command } = fakeClient();
+    hostOperatorCommands(pipeline, client);
+
+    command({ commandId: 'a', command: { type: 'switchAudioSource', source: 'stream' } });
+    await settle();
+
+    expect(results).toEqual([
+      { commandId: 'a', command: 'switchAudioSource', ok: false, error: 'Audio source switching is not available on this host', issuedBy: undefined },
+    ]);
+  });
+
+  it('should report the current state once the relay answers the handshake', () => {
+    const { pipeline } = fakePipeline();
+    const { client, states, handshake } = fakeClient(false);
+    hostOperatorCommands(pipeline, client, { audioSource: 'microphone' });
+    expect(states).toEqual([]);
+
+    handshake();
+    expect(states).toEqual([{ pipelineState: 'idle', audioSource: 'microphone', signSpeed: 'normal', lastMarker: null }]);
+  });
+
+  it('should publish pipeline state changes until stopped', async () => {
+    const { pipeline, mock, listeners } = fakePipeline();
+    const { client, mock: clientMock, states, command } = fakeClient();
+    const stop = hostOperatorCommands(pipeline, client);
+
+    await mock.start();
+    expect(states.map((state) => state.pipelineState)).toEqual(['idle', 'streaming']);
+
+    stop();
+    expect(listeners).toHaveLength(0);
+    expect(clientMock.setHost).toHaveBeenLastCalledWith(false);
+    command({ commandId: 'a', command: { type: 'pause' } });
+    await settle();
+    expect(mock.pause).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,132 @@
+import type { PipelineState, RealTimeStreamingPipeline } from '@/lib/pipeline/streamingPipeline';
+import type { AudioSourceType } from '@/types';
+import type { SignMateWebSocketClient } from './client';
+import type { CommandPayload, OperatorCommand, OperatorState } from './protocol';
+
+/**
+ * Operator Host
+ *
+ * Runs operator commands received over the relay on the local pipeline,
+ * answers each with a result and reports state back to the consoles.
+ * Markers, audio sources and the avatar's own playback belong to the app
+ * rather than the pipeline, so those commands go through handlers; without
+ * a handler they fail with a reason instead of being silently ignored, as do
+ * lifecycle commands the pipeline's current state does not allow.
+ */
+
+export interface OperatorHostHandlers {
+  onAddMarker?: (label: string) => void;
+  onSwitchAudioSource?: (source: AudioSourceType) => void | Promise<void>;
+  onClearSignQueue?: () => void; // Clear signs the avatar has not performed yet
+  audioSource?: AudioSourceType; // Source in use when hosting starts
+}
+
+export type OperatorHostPipeline = Pick<
+  RealTimeStreamingPipeline,
+  'on' | 'start' | 'stop' | 'pause' | 'resume' | 'clearSignQueue' | 'getState' | 'getSignVariants' | 'setSignVariants'
+>;
+
+export type OperatorHostClient = Pick<
+  SignMateWebSocketClient,
+  'setEvents' | 'setHost' | 'isConnected' | 'sendCommandResult' | 'publishOperatorState'
+>;
+
+/**
+ * Take operator commands for the pipeline; returns a function that stops hosting
+ */
+export function hostOperatorCommands(
+  pipeline: OperatorHostPipeline,
+  client: OperatorHostClient,
+  handlers: OperatorHostHandlers = {}
+): () => void {
+  let audioSource = handlers.audioSource ?? null;
+  let lastMarker: OperatorState['lastMarker'] = null;
+
+  const state = (): OperatorState => ({
+    pipelineState: pipeline.getState(),
+    audioSource,
+    signSpeed: pipeline.getSignVariants()?.speed ?? 'normal',
+    lastMarker,
+  });
+
+  const publishState = () => {
+    if (client.isConnected()) {
+      client.publishOperatorState(state());
+    }
+  };
+
+  // The pipeline ignores lifecycle calls its state doesn't allow; report those as failures
+  const transition = async (action: () => void | Promise<void>, expected: PipelineState, verb: string) => {
+    const before = pipeline.getState();
+    await action();
+    const after = pipeline.getState();
+    if (after === before || after !== expected) {
+      throw new Error(`Could not ${verb} the pipeline while it is ${after}`);
+    }
+  };
+
+  const execute = async (command: OperatorCommand): Promise<void> => {
+    switch (command.type) {
+      case 'start':
+        await transition(() => pipeline.start(), 'streaming', 'start');
+        break;
+      case 'stop':
+        await transition(() => pipeline.stop(), 'idle', 'stop');
+        break;
+      case 'pause':
+        await transition(() => pipeline.pause(), 'paused', 'pause');
+        break;
+      case 'resume':
+        await transition(() => pipeline.resume(), 'streaming', 'resume');
+        break;
+      case 'clearSignQueue':
+        pipeline.clearSignQueue();
+        handlers.onClearSignQueue?.();
+        break;
+      case 'addMarker':
+        if (!handlers.onAddMarker) throw new Error('Markers are not available on this host');
+        handlers.onAddMarker(command.label);
+        lastMarker = { label: command.label, timestamp: Date.now() };
+        break;
+      case 'switchAudioSource':
+        if (!handlers.onSwitchAudioSource) throw new Error('Audio source switching is not available on this host');
+        await handlers.onSwitchAudioSource(command.source);
+        audioSource = command.source;
+        break;
+      case 'setSignSpeed':
+        pipeline.setSignVariants({ ...pipeline.getSignVariants(), speed: command.speed });
+        break;
+    }
+  };
+
+  const run = async ({ commandId, command, issuedBy }: CommandPayload): Promise<void> => {
+    try {
+      await execute(command);
+      client.sendCommandResult({ commandId, command: command.type, ok: true, issuedBy });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      client.sendCommandResult({ commandId, command: command.type, ok: false, error: message, issuedBy });
+    }
+    publishState();
+  };
+
+  // One command at a time, in the order they arrived
+  let queue = Promise.resolve();
+  client.setEvents({
+    onCommand: (payload) => {
+      queue = queue.then(() => run(payload));
+    },
+    // The relay hands the last reported state to consoles as they join, so report it on every handshake
+    onSession: publishState,
+  });
+  client.setHost(true);
+  publishState();
+
+  const unsubscribe = pipeline.on('stateChange', publishState);
+
+  return () => {
+    unsubscribe();
+    client.setEvents({ onCommand: undefined, onSession: undefined });
+    client.setHost(false);
+  };
+}
@@ -0,0 +1,26 @@
+import type { RealTimeStreamingPipeline } from '@/lib/pipeline/streamingPipeline';
+import type { SignMateWebSocketClient } from './client';
+
+/**
+ * Pipeline Relay
+ *
+ * Publishes a streaming pipeline's signs, status and transcripts through a
+ * control client so remote displays follow the interpreter.
+ */
+
+export type RelayPublisher = Pick<SignMateWebSocketClient, 'publishSigns' | 'publishStatus' | 'publishTranscript'>;
+
+/**
+ * Forward pipeline events to the relay; returns a function that stops forwarding
+ */
+export function relayPipeline(
+  pipeline: Pick<RealTimeStreamingPipeline, 'on'>,
+  publisher: RelayPublisher
+): () => void {
+  const unsubscribers = [
+    pipeline.on('signs', ({ signs, text }) => publisher.publishSigns(signs, text)),
+    pipeline.on('status', (status) => publisher.publishStatus(status)),
+    pipeline.on('transcription', (segment) => publisher.publishTranscript(segment.text, segment.isFinal)),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+}
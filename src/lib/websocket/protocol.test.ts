@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  ProtocolError,
+  checkProtocolVersion,
+  createMessage,
+  parseMessage,
+  serializeMessage,
+  type SignMateMessage,
+} from './protocol';
+
+function parseError(data: string): ProtocolError {
+  try {
+    parseMessage(data);
+  } catch (error) {
+    return error as ProtocolError;
+  }
+  throw new Error('Expected parseMessage to throw');
+}
+
+describe('protocol', () => {
+  it('should round-trip messages and narrow payloads by type', () => {
+    const sent = createMessage('transcript', { text: 'hello', final: true }, { id: 'msg-1' });
+    const received: SignMateMessage = parseMessage(serializeMessage(sent));
+
+    expect(received).toEqual(sent);
+    if (received.type === 'transcript') {
+      expect(received.payload.final).toBe(true);
+    }
+  });
+
+  it('should reject malformed messages with a specific code', () => {
+    expect(parseError('{nope').code).toBe('invalid_json');
+    expect(parseError('[]').code).toBe('invalid_message');
+    expect(parseError(JSON.stringify({ type: 'teleport', payload: {}, timestamp: 1 })).code).toBe('unknown_type');
+    expect(parseError(JSON.stringify({ type: 'ack', payload: { messageId: 'm' } })).message).toContain('timestamp');
+    expect(parseError(JSON.stringify({ type: 'transcript', payload: { text: 'hi' }, timestamp: 1 })).code).toBe(
+      'invalid_message'
+    );
+  });
+
+  it('should validate config handshakes and client types', () => {
+    const config = (payload: object) => JSON.stringify({ type: 'config', payload, timestamp: 1 });
+
+    expect(parseMessage(config({ protocolVersion: PROTOCOL_VERSION, clientType: 'backup' })).type).toBe('config');
+    expect(parseError(config({ protocolVersion: PROTOCOL_VERSION, clientType: 'projector' })).code).toBe(
+      'invalid_message'
+    );
+  });
+
+  it('should explain version mismatches', () => {
+    expect(checkProtocolVersion(PROTOCOL_VERSION)).toBeNull();
+    expect(checkProtocolVersion(undefined)).toMatch(/Missing protocol version/);
+    expect(checkProtocolVersion(PROTOCOL_VERSION + 1)).toBe(
+      `Unsupported protocol version ${PROTOCOL_VERSION + 1} (expected ${PROTOCOL_VERSION})`
+    );
+  });
+});
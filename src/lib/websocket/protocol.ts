@@ -0,0 +1,453 @@
+import type { PipelineState } from '@/lib/pipeline/streamingPipeline';
+import type { ASLSign, AudioSourceType, PipelineStatus, SignSpeed } from '@/types';
+
+/**
+ * SignMate WebSocket Protocol
+ *
+ * The one message schema shared by the relay server, the display client and
+ * the connection manager. Every message is a JSON envelope whose payload type
+ * is determined by its `type`. Clients announce PROTOCOL_VERSION in their
+ * config message; the server rejects other versions with a version_mismatch
+ * error and closes the socket, so old displays fail loudly instead of
+ * silently ignoring messages they don't understand.
+ *
+ * Published pipeline events carry a server-assigned sequence number (`seq`).
+ * Clients ack what they have processed and, after a reconnect, ask to resume
+ * from their last acked sequence; the server answers the handshake with a
+ * `session` message saying whether it replayed the gap or skipped to live.
+ *
+ * One relay can serve several events at once. Published messages belong to
+ * an event room and optionally a language track; each display subscribes to
+ * topics in one room (and track) and can ask the server to filter or delay
+ * what it receives.
+ *
+ * Operators run the show from consoles anywhere in the venue: their control
+ * clients send `command`s that the relay forwards to the room's pipeline host
+ * (the control client that registered with `host: true`). The host answers
+ * with a `commandResult` and publishes `operatorState`, both echoed to every
+ * operator console in the room.
+ */
+
+// Bump on any incompatible change to the envelope or a payload
+// 2: sequence numbers, session message and resume
+// 3: rooms, language tracks and subscription filters
+// 4: operator commands
+export const PROTOCOL_VERSION = 4;
+
+// Room used by clients and publishers that don't name one
+export const DEFAULT_ROOM = 'default';
+
+export type ClientType = 'stage' | 'monitor' | 'overlay' | 'control' | 'backup';
+
+export const CLIENT_TYPES: readonly ClientType[] = ['stage', 'monitor', 'overlay', 'control', 'backup'];
+
+// Close codes used by the server when it rejects a client
+export const CLOSE_CODES = {
+  protocolMismatch: 4400,
+  unauthorized: 4401,
+} as const;
+
+export type ProtocolErrorCode =
+  | 'invalid_json'
+  | 'invalid_message'
+  | 'unknown_type'
+  | 'version_mismatch'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'unsupported';
+
+// ============================================================================
+// Payloads
+// ============================================================================
+
+export interface SignsPayload {
+  signs: ASLSign[];
+  text: string;
+}
+
+export interface StatusPayload {
+  status: PipelineStatus;
+  latency: number;
+}
+
+export interface TranscriptPayload {
+  text: string;
+  final: boolean;
+}
+
+// Server-side filters applied to one display's stream
+export interface SubscriptionFilters {
+  finalTranscriptsOnly?: boolean; // Drop interim transcripts
+  delayMs?: number; // Hold live messages back (e.g. a confidence monitor)
+}
+
+/**
+ * What a display receives. For a control client, room and language are where
+ * its published messages go instead.
+ */
+export interface Subscription {
+  topics?: PublishedType[]; // Added to the client type's default topics
+  room?: string; // Defaults to DEFAULT_ROOM
+  language?: string; // Language track; unset receives every track
+  filters?: SubscriptionFilters;
+}
+
+export interface ResumePoint {
+  sessionId: string; // From the server's session message
+  seq: number; // Last sequence number the client acked
+}
+
+export interface ConfigPayload {
+  protocolVersion: number;
+  clientType: ClientType;
+  clientId?: string;
+  token?: string; // Relay token, required for control clients
+  capabilities?: string[];
+  resume?: ResumePoint; // Replay what was missed since this point
+  maxReplay?: number; // Skip to live instead of replaying more messages than this
+  subscription?: Subscription;
+  host?: boolean; // Control client running the room's pipeline; receives operator commands
+}
+
+// The server's answer to a handshake
+export interface SessionPayload {
+  sessionId: string;
+  latestSeq: number; // Last sequence number published
+  resumedFrom: number | null; // Replay starts after this sequence number
+  replayed: number; // Messages replayed after this one
+  skipped: boolean; // The gap was too large (or lost) and the client skipped to live
+}
+
+export type OperatorCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'clearSignQueue' }
+  | { type: 'addMarker'; label: string }
+  | { type: 'switchAudioSource'; source: AudioSourceType }
+  | { type: 'setSignSpeed'; speed: SignSpeed };
+
+export type OperatorCommandType = OperatorCommand['type'];
+
+export interface CommandPayload {
+  commandId: string; // Chosen by the operator console, echoed in the result
+  command: OperatorCommand;
+  issuedBy?: string; // Set by the server to the operator's client id
+}
+
+export interface CommandResultPayload {
+  commandId: string;
+  command: OperatorCommandType;
+  ok: boolean;
+  error?: string;
+  issuedBy?: string;
+}
+
+// What the pipeline host reports to operator consoles
+export interface OperatorState {
+  pipelineState: PipelineState;
+  audioSource: AudioSourceType | null;
+  signSpeed: SignSpeed;
+  lastMarker: { label: string; timestamp: number } | null;
+}
+
+export interface ErrorPayload {
+  error: string;
+  code: ProtocolErrorCode;
+}
+
+export interface PingPayload {
+  timestamp?: number;
+}
+
+export interface PongPayload {
+  requestId?: string; // id of the ping being answered
+}
+
+export interface HeartbeatPayload {
+  requestId: string;
+  serverTime?: number;
+}
+
+// Adds topics; room, language and filters replace the current ones when given
+export type SubscribePayload = Subscription;
+
+export interface UnsubscribePayload {
+  topics: PublishedType[];
+}
+
+// Acks a client message by id, or (from clients) every sequence number up to seq
+export interface AckPayload {
+  messageId?: string;
+  seq?: number;
+}
+
+export interface MessagePayloads {
+  signs: SignsPayload;
+  status: StatusPayload;
+  transcript: TranscriptPayload;
+  config: ConfigPayload;
+  error: ErrorPayload;
+  ping: PingPayload | null;
+  pong: PongPayload | null;
+  heartbeat: HeartbeatPayload;
+  subscribe: SubscribePayload;
+  unsubscribe: UnsubscribePayload;
+  ack: AckPayload;
+  session: SessionPayload;
+  command: CommandPayload;
+  commandResult: CommandResultPayload;
+  operatorState: OperatorState;
+}
+
+export type MessageType = keyof MessagePayloads;
+
+// Pipeline events published by the control client and relayed to displays
+export type PublishedType = Extract<MessageType, 'signs' | 'status' | 'transcript'>;
+
+export const PUBLISHED_TYPES: readonly PublishedType[] = ['signs', 'status', 'transcript'];
+
+/**
+ * A protocol message; narrowing on `type` narrows `payload`
+ */
+export type SignMateMessage<T extends MessageType = MessageType> = {
+  [K in T]: {
+    type: K;
+    payload: MessagePayloads[K];
+    timestamp: number;
+    id?: string;
+    requiresAck?: boolean;
+    seq?: number; // Set by the server on published messages
+    room?: string; // Set by the server on published messages
+    language?: string; // Language track of a published message
+  };
+}[T];
+
+export class ProtocolError extends Error {
+  constructor(
+    public code: ProtocolErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+export function createMessage<T extends MessageType>(
+  type: T,
+  payload: MessagePayloads[T],
+  extras: { id?: string; requiresAck?: boolean; seq?: number; room?: string; language?: string } = {}
+): SignMateMessage<T> {
+  return { type, payload, timestamp: Date.now(), ...extras } as SignMateMessage<T>;
+}
+
+export function createError(code: ProtocolErrorCode, error: string): SignMateMessage<'error'> {
+  return createMessage('error', { error, code });
+}
+
+/**
+ * Null when the version is the one this build speaks, otherwise the reason
+ */
+export function checkProtocolVersion(version: unknown): string | null {
+  if (version === PROTOCOL_VERSION) return null;
+  if (version === undefined) {
+    return `Missing protocol version (expected ${PROTOCOL_VERSION})`;
+  }
+  return `Unsupported protocol version ${String(version)} (expected ${PROTOCOL_VERSION})`;
+}
+
+/**
+ * A subscription after a subscribe message: topics are added, anything else
+ * given replaces the current value
+ */
+export function mergeSubscription(current: Subscription, update: Subscription): Subscription {
+  return {
+    ...current,
+    ...update,
+    topics: update.topics ? Array.from(new Set([...(current.topics ?? []), ...update.topics])) : current.topics,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+type Validator = (payload: unknown) => boolean;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isSign(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    typeof value.gloss === 'string' &&
+    typeof value.duration === 'number' &&
+    isObject(value.handshape) &&
+    isObject(value.location) &&
+    isObject(value.movement)
+  );
+}
+
+function optional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value);
+}
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isSeq = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isName = (value: unknown) => typeof value === 'string' && value.length > 0 && value.length <= 64;
+
+function isTopics(value: unknown): boolean {
+  return Array.isArray(value) && value.every((topic) => PUBLISHED_TYPES.includes(topic));
+}
+
+const AUDIO_SOURCES: AudioSourceType[] = ['microphone', 'av-system', 'stream'];
+const SIGN_SPEEDS: SignSpeed[] = ['slow', 'normal', 'fast'];
+const COMMAND_TYPES: OperatorCommandType[] = [
+  'start',
+  'stop',
+  'pause',
+  'resume',
+  'clearSignQueue',
+  'addMarker',
+  'switchAudioSource',
+  'setSignSpeed',
+];
+
+function isCommand(value: unknown): boolean {
+  if (!isObject(value)) return false;
+  switch (value.type) {
+    case 'addMarker':
+      return isString(value.label) && (value.label as string).trim().length > 0;
+    case 'switchAudioSource':
+      return AUDIO_SOURCES.includes(value.source as AudioSourceType);
+    case 'setSignSpeed':
+      return SIGN_SPEEDS.includes(value.speed as SignSpeed);
+    default:
+      return COMMAND_TYPES.includes(value.type as OperatorCommandType);
+  }
+}
+
+function isSubscription(value: unknown): boolean {
+  return (
+    isObject(value) &&
+    optional(value.topics, isTopics) &&
+    optional(value.room, isName) &&
+    optional(value.language, isName) &&
+    optional(
+      value.filters,
+      (filters) =>
+        isObject(filters) &&
+        optional(filters.finalTranscriptsOnly, (v) => typeof v === 'boolean') &&
+        optional(filters.delayMs, isSeq)
+    )
+  );
+}
+
+const VALIDATORS: Record<MessageType, Validator> = {
+  signs: (p) => isObject(p) && Array.isArray(p.signs) && p.signs.every(isSign) && isString(p.text),
+  status: (p) => isObject(p) && isObject(p.status) && Array.isArray(p.status.errors) && isNumber(p.latency),
+  transcript: (p) => isObject(p) && isString(p.text) && typeof p.final === 'boolean',
+  // The version is checked separately so a mismatch gets its own error
+  config: (p) =>
+    isObject(p) &&
+    CLIENT_TYPES.includes(p.clientType as ClientType) &&
+    optional(p.clientId, isString) &&
+    optional(p.token, isString) &&
+    optional(p.capabilities, isStringArray) &&
+    optional(p.resume, (resume) => isObject(resume) && isString(resume.sessionId) && isSeq(resume.seq)) &&
+    optional(p.maxReplay, isSeq) &&
+    optional(p.subscription, isSubscription) &&
+    optional(p.host, (v) => typeof v === 'boolean'),
+  error: (p) => isObject(p) && isString(p.error) && isString(p.code),
+  ping: (p) => p === null || (isObject(p) && optional(p.timestamp, isNumber)),
+  pong: (p) => p === null || (isObject(p) && optional(p.requestId, isString)),
+  heartbeat: (p) => isObject(p) && isString(p.requestId) && optional(p.serverTime, isNumber),
+  subscribe: isSubscription,
+  unsubscribe: (p) => isObject(p) && isTopics(p.topics),
+  ack: (p) =>
+    isObject(p) &&
+    (p.messageId !== undefined || p.seq !== undefined) &&
+    optional(p.messageId, isString) &&
+    optional(p.seq, isSeq),
+  session: (p) =>
+    isObject(p) &&
+    isString(p.sessionId) &&
+    isSeq(p.latestSeq) &&
+    (p.resumedFrom === null || isSeq(p.resumedFrom)) &&
+    isSeq(p.replayed) &&
+    typeof p.skipped === 'boolean',
+  command: (p) => isObject(p) && isName(p.commandId) && isCommand(p.command) && optional(p.issuedBy, isString),
+  commandResult: (p) =>
+    isObject(p) &&
+    isName(p.commandId) &&
+    COMMAND_TYPES.includes(p.command as OperatorCommandType) &&
+    typeof p.ok === 'boolean' &&
+    optional(p.error, isString) &&
+    optional(p.issuedBy, isString),
+  operatorState: (p) =>
+    isObject(p) &&
+    isString(p.pipelineState) &&
+    (p.audioSource === null || AUDIO_SOURCES.includes(p.audioSource as AudioSourceType)) &&
+    SIGN_SPEEDS.includes(p.signSpeed as SignSpeed) &&
+    (p.lastMarker === null || (isObject(p.lastMarker) && isString(p.lastMarker.label) && isNumber(p.lastMarker.timestamp))),
+};
+
+export function isMessageType(type: unknown): type is MessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(VALIDATORS, type);
+}
+
+/**
+ * Check that a decoded value is a well-formed message
+ *
+ * @throws ProtocolError describing the first problem found
+ */
+export function validateMessage(value: unknown): SignMateMessage {
+  if (!isObject(value)) {
+    throw new ProtocolError('invalid_message', 'Message must be an object');
+  }
+  if (!isMessageType(value.type)) {
+    throw new ProtocolError('unknown_type', `Unknown message type: ${String(value.type)}`);
+  }
+  if (!isNumber(value.timestamp)) {
+    throw new ProtocolError('invalid_message', `Message "${value.type}" is missing a timestamp`);
+  }
+  if (
+    !optional(value.id, isString) ||
+    !optional(value.requiresAck, (v) => typeof v === 'boolean') ||
+    !optional(value.seq, isSeq) ||
+    !optional(value.room, isName) ||
+    !optional(value.language, isName)
+  ) {
+    throw new ProtocolError('invalid_message', `Message "${value.type}" has an invalid envelope`);
+  }
+  if (!VALIDATORS[value.type](value.payload)) {
+    throw new ProtocolError('invalid_message', `Invalid payload for "${value.type}" message`);
+  }
+  return value as SignMateMessage;
+}
+
+/**
+ * Decode and validate a message received on a socket
+ *
+ * @throws ProtocolError when the data is not JSON or not a valid message
+ */
+export function parseMessage(data: string): SignMateMessage {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch {
+    throw new ProtocolError('invalid_json', 'Message is not valid JSON');
+  }
+  return validateMessage(value);
+}
+
+export function serializeMessage(message: SignMateMessage): string {
+  return JSON.stringify(message);
+}
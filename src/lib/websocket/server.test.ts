@@ -0,0 +1,334 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import type { ASLSign } from '@/types';
+import { createWebSocketServer, UNAUTHORIZED_CLOSE_CODE, type SignMateMessage, type SignMateWebSocketServer } from './server';
+import { relayPipeline } from './pipelineRelay';
+import { CLOSE_CODES, PROTOCOL_VERSION, type ConfigPayload, type SessionPayload } from './protocol';
+
+const TOKEN = 'relay-secret';
+
+const SIGN: ASLSign = {
+  gloss: 'HELLO',
+  duration: 600,
+  handshape: { dominant: 'flat-hand' },
+  location: { x: 0, y: 0.5, z: 0.3, reference: 'head' },
+  movement: { type: 'arc', speed: 'normal' },
+  nonManualMarkers: [],
+};
+
+// A real socket that records what it receives
+interface TestClient {
+  ws: WebSocket;
+  messages: SignMateMessage[];
+  send(type: SignMateMessage['type'], payload: unknown): void;
+  next(type: SignMateMessage['type']): Promise<SignMateMessage>;
+  closed: Promise<number>;
+}
+
+async function connect(port: number, clientType: string, config: Partial<ConfigPayload> = {}): Promise<TestClient> {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const messages: SignMateMessage[] = [];
+  const waiters: { type: string; resolve: (message: SignMateMessage) => void }[] = [];
+  ws.on('message', (data) => {
+    const message = JSON.parse(data.toString()) as SignMateMessage;
+    messages.push(message);
+    const index = waiters.findIndex((waiter) => waiter.type === message.type);
+    if (index >= 0) waiters.splice(index, 1)[0].resolve(message);
+  });
+  const closed = new Promise<number>((resolve) => ws.on('close', (code) => resolve(code)));
+  await new Promise((resolve) => ws.once('open', resolve));
+
+  const send = (type: SignMateMessage['type'], payload: unknown) =>
+    ws.send(JSON.stringify({ type, payload, timestamp: Date.now() }));
+  send('config', { protocolVersion: PROTOCOL_VERSION, clientType, ...config });
+
+  return {
+    ws,
+    messages,
+    send,
+    next: (type) => new Promise((resolve) => waiters.push({ type, resolve })),
+    closed,
+  };
+}
+
+// Let in-flight messages arrive before asserting on what was not received
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('SignMateWebSocketServer relay', () => {
+  let server: SignMateWebSocketServer;
+  let port: number;
+  const clients: TestClient[] = [];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server = createWebSocketServer({ port: 0, host: '127.0.0.1', controlToken: TOKEN });
+    await server.start();
+    port = server.getPort();
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.ws.terminate());
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  async function open(clientType: string, config?: Partial<ConfigPayload>): Promise<TestClient> {
+    const client = await connect(port, clientType, config);
+    clients.push(client);
+    await settle();
+    return client;
+  }
+
+  it('should relay control messages to subscribed display types', async () => {
+    const control = await open('control', { token: TOKEN });
+    const stage = await open('stage');
+    const overlay = await open('overlay');
+
+    const stageSigns = stage.next('signs');
+    control.send('signs', { signs: [SIGN], text: 'hello' });
+    control.send('transcript', { text: 'hello', final: true });
+
+    expect((await stageSigns).payload).toEqual({ signs: [SIGN], text: 'hello' });
+    expect((await overlay.next('transcript')).payload).toEqual({ text: 'hello', final: true });
+    await settle();
+    // Stages show the avatar only, never the transcript
+    expect(stage.messages.map((message) => message.type)).not.toContain('transcript');
+    expect(control.messages.map((message) => message.type)).not.toContain('signs');
+  });
+
+  it('should reject control clients with a wrong token', async () => {
+    const intruder = await connect(port, 'control', { token: 'guess' });
+    clients.push(intruder);
+
+    expect((await intruder.next('error')).payload).toEqual({ error: 'Unauthorized', code: 'unauthorized' });
+    expect(await intruder.closed).toBe(UNAUTHORIZED_CLOSE_CODE);
+  });
+
+  it('should reject clients speaking another protocol version', async () => {
+    const outdated = await connect(port, 'stage', { protocolVersion: PROTOCOL_VERSION + 1 });
+    clients.push(outdated);
+
+    expect((await outdated.next('error')).payload).toMatchObject({ code: 'version_mismatch' });
+    expect(await outdated.closed).toBe(CLOSE_CODES.protocolMismatch);
+    expect(outdated.messages.map((message) => message.type)).toEqual(['error']);
+  });
+
+  it('should answer malformed messages with an error instead of relaying them', async () => {
+    const control = await open('control', { token: TOKEN });
+    const monitor = await open('monitor');
+
+    const errors = [control.next('error'), control.next('error')];
+    control.send('signs', { signs: 'HELLO', text: 'hello' });
+    control.send('teleport' as never, {});
+
+    expect((await errors[0]).payload).toMatchObject({ code: 'invalid_message' });
+    expect((await errors[1]).payload).toMatchObject({ code: 'unknown_type' });
+    await settle();
+    expect(monitor.messages.map((message) => message.type)).toEqual(['session', 'status']);
+  });
+
+  it('should not let display clients publish', async () => {
+    const stage = await open('stage');
+    const monitor = await open('monitor');
+
+    stage.send('signs', { signs: [SIGN], text: 'spoofed' });
+
+    expect((await stage.next('error')).payload).toEqual({ error: 'Only control clients can publish', code: 'forbidden' });
+    await settle();
+    expect(monitor.messages.map((message) => message.type)).not.toContain('signs');
+  });
+
+  it('should bridge pipeline events and greet late displays with the last status', async () => {
+    const control = await open('control', { token: TOKEN });
+    const handlers: Record<string, (data: never) => void> = {};
+    const pipeline = {
+      on: (event: string, handler: (data: never) => void) => {
+        handlers[event] = handler;
+        return () => delete handlers[event];
+      },
+    };
+    const publish = (type: SignMateMessage['type'], payload: unknown) => control.send(type, payload);
+    const stop = relayPipeline(pipeline as never, {
+      publishSigns: (signs, text) => publish('signs', { signs, text }),
+      publishStatus: (status, latency = status.latency) => publish('status', { status, latency }),
+      publishTranscript: (text, final) => publish('transcript', { text, final }),
+    });
+    const status = {
+      audioCapture: 'active', speechRecognition: 'active', aslTranslation: 'active',
+      avatarRendering: 'active', latency: 420, errors: [],
+    };
+
+    handlers.status(status as never);
+    await settle();
+    const monitor = await open('monitor');
+
+    // The greeting follows the handshake
+    expect(monitor.messages[1]).toMatchObject({ type: 'status', payload: { status, latency: 420 } });
+    expect(monitor.messages[1].seq).toBeUndefined();
+    stop();
+    expect(Object.keys(handlers)).toEqual([]);
+  });
+
+  it('should sequence published messages and ack client messages that ask for it', async () => {
+    const control = await open('control', { token: TOKEN });
+    const monitor = await open('monitor');
+
+    control.ws.send(
+      JSON.stringify({ type: 'transcript', payload: { text: 'one', final: false }, timestamp: 1, id: 'c-1', requiresAck: true })
+    );
+    control.send('transcript', { text: 'two', final: true });
+
+    expect((await control.next('ack')).payload).toEqual({ messageId: 'c-1' });
+    await settle();
+    const transcripts = monitor.messages.filter((message) => message.type === 'transcript');
+    expect(transcripts.map((message) => message.seq)).toEqual([1, 2]);
+
+    monitor.send('ack', { seq: 2 });
+    await settle();
+    expect(server.getClients().find((client) => client.type === 'monitor')?.lastAckedSeq).toBe(2);
+  });
+
+  it('should replay what a reconnecting display missed', async () => {
+    const control = await open('control', { token: TOKEN });
+    const stage = await open('stage');
+    const { sessionId } = stage.messages[0].payload as SessionPayload;
+
+    control.send('signs', { signs: [SIGN], text: 'hello' });
+    await settle();
+    stage.ws.terminate();
+    control.send('transcript', { text: 'while away', final: true });
+    control.send('signs', { signs: [SIGN], text: 'missed' });
+    control.send('signs', { signs: [SIGN], text: 'also missed' });
+    await settle();
+
+    const back = await open('stage', { resume: { sessionId, seq: 1 } });
+
+    expect(back.messages[0].payload).toEqual({ sessionId, latestSeq: 4, resumedFrom: 1, replayed: 2, skipped: false });
+    // Stages are not subscribed to transcripts, so only the signs are replayed
+    expect(back.messages.slice(1).map((message) => [message.seq, (message.payload as { text: string }).text])).toEqual([
+      [3, 'missed'],
+      [4, 'also missed'],
+    ]);
+  });
+
+  it('should skip to live when the gap is too large or from another session', async () => {
+    const control = await open('control', { token: TOKEN });
+    for (let i = 0; i < 3; i++) control.send('signs', { signs: [SIGN], text: `sign ${i}` });
+    await settle();
+    const { sessionId } = control.messages[0].payload as SessionPayload;
+
+    const behind = await open('stage', { resume: { sessionId, seq: 0 }, maxReplay: 2 });
+    const restarted = await open('stage', { resume: { sessionId: 'relay-old', seq: 1 } });
+
+    for (const client of [behind, restarted]) {
+      expect(client.messages[0].payload).toMatchObject({ latestSeq: 3, resumedFrom: null, replayed: 0, skipped: true });
+      expect(client.messages.map((message) => message.type)).toEqual(['session', 'status']);
+    }
+  });
+
+  it('should keep simultaneous events apart by room', async () => {
+    const keynote = await open('control', { token: TOKEN, subscription: { room: 'keynote' } });
+    const panel = await open('control', { token: TOKEN, subscription: { room: 'panel' } });
+    const keynoteStage = await open('stage', { subscription: { room: 'keynote' } });
+    const panelStage = await open('stage', { subscription: { room: 'panel' } });
+
+    keynote.send('signs', { signs: [SIGN], text: 'welcome' });
+    panel.send('signs', { signs: [SIGN], text: 'questions' });
+    await settle();
+
+    const texts = (client: TestClient) =>
+      client.messages
+        .filter((message) => message.type === 'signs')
+        .map((message) => [message.room, (message.payload as { text: string }).text]);
+    expect(texts(keynoteStage)).toEqual([['keynote', 'welcome']]);
+    expect(texts(panelStage)).toEqual([['panel', 'questions']]);
+
+    // Moving to another room greets the display with that room's status
+    keynoteStage.send('subscribe', { room: 'panel' });
+    expect((await keynoteStage.next('status')).room).toBe('panel');
+  });
+
+  it('should filter by topic and language track', async () => {
+    const english = await open('control', { token: TOKEN, subscription: { language: 'en' } });
+    const spanish = await open('control', { token: TOKEN, subscription: { language: 'es' } });
+    const captions = await open('overlay', { subscription: { language: 'es' } });
+
+    captions.send('unsubscribe', { topics: ['signs'] });
+    await settle();
+    english.send('transcript', { text: 'hello', final: true });
+    spanish.send('transcript', { text: 'hola', final: true });
+    spanish.send('signs', { signs: [SIGN], text: 'hola' });
+    captions.send('subscribe', { topics: ['status'] });
+    await settle();
+    english.send('status', { status: { errors: [] }, latency: 300 });
+    await settle();
+
+    expect(captions.messages.slice(2).map((message) => [message.type, message.language])).toEqual([
+      ['transcript', 'es'],
+      ['status', undefined],
+    ]);
+  });
+
+  it('should apply per-display filters for final transcripts and delay', async () => {
+    const control = await open('control', { token: TOKEN });
+    const confidence = await open('monitor', {
+      subscription: { topics: ['transcript'], filters: { finalTranscriptsOnly: true, delayMs: 150 } },
+    });
+
+    control.send('transcript', { text: 'hel', final: false });
+    control.send('transcript', { text: 'hello', final: true });
+    await settle();
+    expect(confidence.messages.map((message) => message.type)).toEqual(['session', 'status']);
+
+    const transcript = await confidence.next('transcript');
+    expect(transcript.payload).toEqual({ text: 'hello', final: true });
+    expect(Date.now() - transcript.timestamp).toBeGreaterThanOrEqual(140);
+  });
+
+  it('should route operator commands to the room host and echo results to consoles', async () => {
+    const host = await open('control', { token: TOKEN, host: true, subscription: { room: 'keynote' } });
+    const operator = await open('control', { token: TOKEN, subscription: { room: 'keynote' } });
+    const otherRoom = await open('control', { token: TOKEN, subscription: { room: 'panel' } });
+    const stage = await open('stage', { subscription: { room: 'keynote' } });
+
+    const forwarded = host.next('command');
+    operator.send('command', { commandId: 'cmd-1', command: { type: 'addMarker', label: 'Q&A' } });
+    const command = await forwarded;
+    expect(command.payload).toMatchObject({ commandId: 'cmd-1', command: { type: 'addMarker', label: 'Q&A' } });
+    expect((command.payload as { issuedBy?: string }).issuedBy).toBeTruthy();
+
+    const result = operator.next('commandResult');
+    const state = operator.next('operatorState');
+    host.send('commandResult', { commandId: 'cmd-1', command: 'addMarker', ok: true });
+    host.send('operatorState', { pipelineState: 'streaming', audioSource: 'microphone', signSpeed: 'normal', lastMarker: null });
+    expect((await result).payload).toMatchObject({ commandId: 'cmd-1', ok: true });
+    expect((await state).payload).toMatchObject({ pipelineState: 'streaming' });
+
+    // Late consoles get the room's last state; other rooms and displays hear nothing
+    const late = await open('control', { token: TOKEN, subscription: { room: 'keynote' } });
+    expect(late.messages.some((message) => message.type === 'operatorState')).toBe(true);
+    const operatorTypes = (client: TestClient) =>
+      client.messages.filter((message) => ['command', 'commandResult', 'operatorState'].includes(message.type));
+    expect(operatorTypes(otherRoom)).toEqual([]);
+    expect(operatorTypes(stage)).toEqual([]);
+  });
+
+  it('should refuse commands from displays and fail them when no host is connected', async () => {
+    const operator = await open('control', { token: TOKEN });
+    const stage = await open('stage');
+
+    const refused = stage.next('error');
+    stage.send('command', { commandId: 'cmd-1', command: { type: 'pause' } });
+    expect((await refused).payload).toMatchObject({ code: 'forbidden' });
+
+    const result = operator.next('commandResult');
+    operator.send('command', { commandId: 'cmd-2', command: { type: 'pause' } });
+    expect((await result).payload).toMatchObject({ commandId: 'cmd-2', ok: false, error: 'No pipeline host in this room' });
+
+    // Only the host may report results
+    const forged = operator.next('error');
+    operator.send('commandResult', { commandId: 'cmd-2', command: 'pause', ok: true });
+    expect((await forged).payload).toMatchObject({ code: 'forbidden' });
+  });
+});
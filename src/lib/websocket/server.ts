@@ -1,53 +1,147 @@
 'use server';
 
+import { timingSafeEqual } from 'crypto';
+import type { AddressInfo } from 'net';
 import { WebSocket, WebSocketServer } from 'ws';
 import type { ASLSign, PipelineStatus } from '@/types';
-
-export interface SignMateMessage {
-  type: 'signs' | 'status' | 'transcript' | 'config' | 'ping' | 'pong';
-  payload: unknown;
-  timestamp: number;
-}
+import {
+  CLOSE_CODES,
+  DEFAULT_ROOM,
+  PROTOCOL_VERSION,
+  PUBLISHED_TYPES,
+  ProtocolError,
+  checkProtocolVersion,
+  createError,
+  createMessage,
+  parseMessage,
+  serializeMessage,
+  type ClientType,
+  type CommandPayload,
+  type ConfigPayload,
+  type OperatorState,
+  type ProtocolErrorCode,
+  type PublishedType,
+  type ResumePoint,
+  type SignMateMessage,
+  type StatusPayload,
+  type Subscription,
+  type SubscriptionFilters,
+} from './protocol';
+
+/**
+ * SignMate Relay Server
+ *
+ * Bridges one interpreter's pipeline to display clients on other machines.
+ * A control client (authenticated with the relay token) publishes signs,
+ * status and transcripts; display clients receive the message types their
+ * ClientInfo.type subscribes to. Messages follow the schema in ./protocol,
+ * and nothing is relayed to a client until its config handshake succeeds.
+ *
+ * Each published message gets the next sequence number and is kept in a
+ * bounded replay buffer, so a display that drops off the network can resume
+ * where it left off, or skip to live when it missed too much.
+ *
+ * Several events can share one relay: each control client publishes into
+ * its room (and language track), and each display only receives the topics,
+ * room and track it subscribed to, after its own server-side filters.
+ *
+ * Operator commands from control clients go to the room's pipeline host; its
+ * results and state are echoed to every operator console in the room.
+ */
+
+export type { SignMateMessage } from './protocol';
 
 export interface ClientInfo {
   id: string;
-  type: 'stage' | 'monitor' | 'overlay' | 'control';
+  type: ClientType;
   connected: number;
+  protocolVersion?: number; // Set once the handshake succeeds
+  lastAckedSeq: number; // Highest sequence number the client acked
+  topics: PublishedType[];
+  room: string; // Event room it receives from (or, for control clients, publishes to)
+  language?: string; // Language track; unset receives every track
+  filters: SubscriptionFilters;
+  host: boolean; // Control client running the room's pipeline
 }
 
-interface SignsPayload {
-  signs: ASLSign[];
-  text: string;
-}
-
-interface StatusPayload {
-  status: PipelineStatus;
-  latency: number;
+// A published message as relayed, with its sequence number
+type SequencedMessage = SignMateMessage<PublishedType> & { seq: number };
+
+export interface SignMateServerConfig {
+  port: number; // 0 picks a free port
+  host?: string;
+  controlToken?: string; // Required for control clients; without it nobody can publish
+  pingInterval: number;
+  subscriptions: Record<ClientInfo['type'], PublishedType[]>; // Default topics per client type
+  replayBufferSize: number; // Published messages kept for resuming clients
+  maxReplay: number; // Default limit on messages replayed to one client before skipping to live
 }
 
-interface TranscriptPayload {
-  text: string;
-  final: boolean;
-}
-
-interface ConfigPayload {
-  [key: string]: unknown;
+// Which published messages each kind of display receives
+export const DEFAULT_SUBSCRIPTIONS: Record<ClientInfo['type'], PublishedType[]> = {
+  stage: ['signs', 'status'],
+  monitor: ['signs', 'status', 'transcript'],
+  overlay: ['signs', 'transcript'],
+  control: ['status'],
+  backup: ['signs', 'status', 'transcript'],
+};
+
+const DEFAULT_CONFIG: SignMateServerConfig = {
+  port: 8080,
+  pingInterval: 30000,
+  subscriptions: DEFAULT_SUBSCRIPTIONS,
+  replayBufferSize: 500,
+  maxReplay: 200,
+};
+
+// Close code for control clients with a missing or wrong token
+export const UNAUTHORIZED_CLOSE_CODE = CLOSE_CODES.unauthorized;
+
+const INITIAL_STATUS: PipelineStatus = {
+  audioCapture: 'idle',
+  speechRecognition: 'idle',
+  aslTranslation: 'idle',
+  avatarRendering: 'idle',
+  latency: 0,
+  errors: [],
+};
+
+function tokensMatch(expected: string | undefined, given: unknown): boolean {
+  if (!expected || typeof given !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
 }
 
 export class SignMateWebSocketServer {
+  private config: SignMateServerConfig;
   private wss: WebSocketServer | null = null;
   private clients: Map<WebSocket, ClientInfo> = new Map();
   private pingInterval: NodeJS.Timeout | null = null;
+  private lastStatus: Map<string, StatusPayload> = new Map(); // Per room
+  private delayed: Map<WebSocket, Set<NodeJS.Timeout>> = new Map(); // Pending delayed deliveries
+  private operatorState: Map<string, OperatorState> = new Map(); // Per room, as last reported by its host
+  private sessionId = `relay-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private sequence = 0;
+  private replayBuffer: SequencedMessage[] = [];
+
+  constructor(config: Partial<SignMateServerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
 
-  constructor(private port: number = 8080) {}
-
-  start(): void {
+  // Resolves once the server is listening
+  async start(): Promise<void> {
     if (this.wss) {
       console.warn('WebSocket server already running');
       return;
     }
 
-    this.wss = new WebSocketServer({ port: this.port });
+    const wss = new WebSocketServer({ port: this.config.port, host: this.config.host });
+    this.wss = wss;
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve);
+      wss.once('error', reject);
+    });
 
     this.wss.on('connection', (ws: WebSocket) => {
       const clientId = this.generateClientId();
@@ -55,38 +149,36 @@ export class SignMateWebSocketServer {
         id: clientId,
         type: 'monitor',
         connected: Date.now(),
+        lastAckedSeq: 0,
+        topics: [],
+        room: DEFAULT_ROOM,
+        filters: {},
+        host: false,
       };
 
       this.clients.set(ws, clientInfo);
       console.log(`Client connected: ${clientId}`);
 
-      // Send welcome message with initial pipeline status
-      const initialStatus: PipelineStatus = {
-        audioCapture: 'idle',
-        speechRecognition: 'idle',
-        aslTranslation: 'idle',
-        avatarRendering: 'idle',
-        latency: 0,
-        errors: [],
-      };
-      this.sendToClient(ws, {
-        type: 'status',
-        payload: { status: initialStatus, latency: 0 },
-        timestamp: Date.now(),
-      });
-
       ws.on('message', (data: Buffer) => {
+        let message: SignMateMessage;
         try {
-          const message = JSON.parse(data.toString()) as SignMateMessage;
-          this.handleMessage(ws, message);
+          message = parseMessage(data.toString());
         } catch (error) {
-          console.error('Invalid message format:', error);
+          if (!(error instanceof ProtocolError)) throw error;
+          console.warn(`Rejected message from ${clientInfo.id}: ${error.message}`);
+          this.sendError(ws, error.code, error.message);
+          return;
+        }
+        // Confirm accepted messages that asked for it
+        if (this.handleMessage(ws, message) && message.requiresAck && message.id) {
+          this.sendToClient(ws, createMessage('ack', { messageId: message.id }));
         }
       });
 
       ws.on('close', () => {
         const info = this.clients.get(ws);
         console.log(`Client disconnected: ${info?.id}`);
+        this.clearDelayed(ws);
         this.clients.delete(ws);
       });
 
@@ -97,56 +189,312 @@ export class SignMateWebSocketServer {
 
     // Start ping interval to keep connections alive
     this.pingInterval = setInterval(() => {
-      this.broadcast({
-        type: 'ping',
-        payload: null,
-        timestamp: Date.now(),
-      });
-    }, 30000);
+      this.broadcast(createMessage('ping', null));
+    }, this.config.pingInterval);
 
-    console.log(`SignMate WebSocket server running on port ${this.port}`);
+    console.log(`SignMate WebSocket server running on port ${this.getPort()}`);
   }
 
-  stop(): void {
+  async stop(): Promise<void> {
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
 
-    if (this.wss) {
-      this.wss.close();
-      this.wss = null;
+    const wss = this.wss;
+    this.wss = null;
+    if (wss) {
+      this.clients.forEach((_, ws) => ws.terminate());
+      await new Promise<void>((resolve) => wss.close(() => resolve()));
     }
 
+    this.delayed.forEach((_, ws) => this.clearDelayed(ws));
     this.clients.clear();
     console.log('WebSocket server stopped');
   }
 
-  private handleMessage(ws: WebSocket, message: SignMateMessage): void {
+  // Listening port (useful when started on port 0)
+  getPort(): number {
+    const address = this.wss?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : this.config.port;
+  }
+
+  // Returns whether the message was accepted
+  private handleMessage(ws: WebSocket, message: SignMateMessage): boolean {
     const client = this.clients.get(ws);
-    if (!client) return;
+    if (!client) return false;
+
+    // Everything but the handshake itself waits for the handshake
+    if (message.type !== 'config' && client.protocolVersion === undefined) {
+      this.sendError(ws, 'invalid_message', `Send a config message before "${message.type}"`);
+      return false;
+    }
 
     switch (message.type) {
       case 'config':
-        // Client is updating its configuration
-        const configPayload = message.payload as ConfigPayload;
-        if (configPayload.clientType) {
-          client.type = configPayload.clientType as ClientInfo['type'];
+        return this.handleConfig(ws, client, message.payload);
+
+      case 'signs':
+      case 'status':
+      case 'transcript':
+        // Only the authenticated control client publishes pipeline events
+        if (client.type !== 'control') {
+          this.sendError(ws, 'forbidden', 'Only control clients can publish');
+          return false;
+        }
+        // Control clients publish into their own room and track; status belongs to every track
+        this.publish({
+          ...message,
+          room: client.room,
+          language: message.type === 'status' ? undefined : (message.language ?? client.language),
+        });
+        break;
+
+      case 'subscribe': {
+        const previousRoom = client.room;
+        this.applySubscription(client, message.payload);
+        // Moving to another event: start from that room's current status
+        if (client.room !== previousRoom) {
+          this.sendToClient(ws, this.statusSnapshot(client.room));
+          this.sendOperatorState(ws, client);
+        }
+        break;
+      }
+
+      case 'command':
+      case 'commandResult':
+      case 'operatorState':
+        return this.handleOperatorMessage(ws, client, message);
+
+      case 'unsubscribe':
+        client.topics = client.topics.filter((topic) => !message.payload.topics.includes(topic));
+        break;
+
+      case 'ack':
+        // Cumulative: the client has processed everything up to seq
+        if (message.payload.seq !== undefined) {
+          client.lastAckedSeq = Math.max(client.lastAckedSeq, Math.min(message.payload.seq, this.sequence));
         }
         break;
 
+      case 'ping':
+        this.sendToClient(ws, createMessage('pong', { requestId: message.id }));
+        break;
+
+      case 'heartbeat':
+        this.sendToClient(ws, createMessage('heartbeat', { requestId: message.payload.requestId, serverTime: Date.now() }));
+        break;
+
       case 'pong':
         // Client responded to ping
         break;
 
       default:
-        console.log(`Unknown message type: ${message.type}`);
+        this.sendError(ws, 'unsupported', `The relay does not handle "${message.type}" messages`);
+        return false;
+    }
+    return true;
+  }
+
+  private handleConfig(ws: WebSocket, client: ClientInfo, config: ConfigPayload): boolean {
+    const versionError = checkProtocolVersion(config.protocolVersion);
+    if (versionError) {
+      console.warn(`Rejected client ${client.id}: ${versionError}`);
+      this.reject(ws, CLOSE_CODES.protocolMismatch, 'version_mismatch', versionError);
+      return false;
+    }
+
+    if (config.clientType === 'control' && !tokensMatch(this.config.controlToken, config.token)) {
+      console.warn(`Rejected control client ${client.id}: invalid token`);
+      this.reject(ws, CLOSE_CODES.unauthorized, 'unauthorized', 'Unauthorized');
+      return false;
     }
+
+    const isHandshake = client.protocolVersion === undefined;
+    client.type = config.clientType;
+    client.protocolVersion = PROTOCOL_VERSION;
+    client.topics = this.config.subscriptions[config.clientType];
+    client.room = DEFAULT_ROOM;
+    client.language = undefined;
+    client.filters = {};
+    client.host = config.clientType === 'control' && Boolean(config.host);
+    this.applySubscription(client, config.subscription ?? {});
+
+    if (isHandshake) {
+      this.startSession(ws, client, config);
+    }
+    return true;
+  }
+
+  // Answer the handshake, then replay what a resuming client missed or greet it with the live status
+  private startSession(ws: WebSocket, client: ClientInfo, config: ConfigPayload): void {
+    const missed = config.resume ? this.missedSince(client, config.resume) : null;
+    const replay = missed && missed.length <= (config.maxReplay ?? this.config.maxReplay) ? missed : null;
+
+    if (replay) {
+      client.lastAckedSeq = config.resume!.seq;
+    } else if (config.resume) {
+      console.log(`Client ${client.id} skipped to live from ${config.resume.seq}`);
+    }
+
+    this.sendToClient(
+      ws,
+      createMessage('session', {
+        sessionId: this.sessionId,
+        latestSeq: this.sequence,
+        resumedFrom: replay ? config.resume!.seq : null,
+        replayed: replay?.length ?? 0,
+        skipped: Boolean(config.resume) && !replay,
+      })
+    );
+
+    if (replay) {
+      replay.forEach((message) => this.sendToClient(ws, message));
+    } else {
+      this.sendToClient(ws, this.statusSnapshot(client.room));
+    }
+    this.sendOperatorState(ws, client);
+  }
+
+  private handleOperatorMessage(
+    ws: WebSocket,
+    client: ClientInfo,
+    message: SignMateMessage<'command' | 'commandResult' | 'operatorState'>
+  ): boolean {
+    if (client.type !== 'control') {
+      this.sendError(ws, 'forbidden', 'Only control clients can operate the pipeline');
+      return false;
+    }
+
+    if (message.type === 'command') {
+      const command: CommandPayload = { ...message.payload, issuedBy: client.id };
+      const host = this.findHost(client.room);
+      if (!host) {
+        this.echoToOperators(
+          client.room,
+          createMessage('commandResult', {
+            commandId: command.commandId,
+            command: command.command.type,
+            ok: false,
+            error: 'No pipeline host in this room',
+            issuedBy: client.id,
+          })
+        );
+        return true;
+      }
+      this.sendToClient(host, createMessage('command', command));
+      return true;
+    }
+
+    // Results and state only come from the host
+    if (!client.host) {
+      this.sendError(ws, 'forbidden', `Only the pipeline host can send "${message.type}"`);
+      return false;
+    }
+    if (message.type === 'operatorState') {
+      this.operatorState.set(client.room, message.payload);
+    }
+    this.echoToOperators(client.room, message);
+    return true;
+  }
+
+  // The room's pipeline host; the most recently connected one wins
+  private findHost(room: string): WebSocket | null {
+    let host: WebSocket | null = null;
+    this.clients.forEach((info, ws) => {
+      if (info.host && info.room === room && info.protocolVersion !== undefined) {
+        host = ws;
+      }
+    });
+    return host;
+  }
+
+  // Every operator console (non-host control client) in a room
+  private echoToOperators(room: string, message: SignMateMessage<'commandResult' | 'operatorState'>): void {
+    this.clients.forEach((info, ws) => {
+      if (info.type === 'control' && !info.host && info.room === room && info.protocolVersion !== undefined) {
+        this.sendToClient(ws, message);
+      }
+    });
+  }
+
+  private sendOperatorState(ws: WebSocket, client: ClientInfo): void {
+    const state = this.operatorState.get(client.room);
+    if (state && client.type === 'control' && !client.host) {
+      this.sendToClient(ws, createMessage('operatorState', state));
+    }
+  }
+
+  // Latest status in a room; carries no sequence number, it is a snapshot rather than part of the stream
+  private statusSnapshot(room: string): SignMateMessage<'status'> {
+    return createMessage('status', this.lastStatus.get(room) ?? { status: INITIAL_STATUS, latency: 0 }, { room });
+  }
+
+  // Topics only ever add to what the client has; removing them takes an unsubscribe
+  private applySubscription(client: ClientInfo, subscription: Subscription): void {
+    client.topics = Array.from(new Set([...client.topics, ...(subscription.topics ?? [])]));
+    client.room = subscription.room ?? client.room;
+    if ('language' in subscription) {
+      client.language = subscription.language;
+    }
+    client.filters = subscription.filters ?? client.filters;
+  }
+
+  // Whether a published message passes a client's subscription and filters
+  private wants(client: ClientInfo, message: SignMateMessage<PublishedType>): boolean {
+    if (client.protocolVersion === undefined || !client.topics.includes(message.type)) return false;
+    if ((message.room ?? DEFAULT_ROOM) !== client.room) return false;
+    // Messages without a track (status) go to every track
+    if (client.language && message.language && message.language !== client.language) return false;
+    if (client.filters.finalTranscriptsOnly && message.type === 'transcript' && !message.payload.final) return false;
+    return true;
+  }
+
+  private deliver(ws: WebSocket, client: ClientInfo, message: SignMateMessage): void {
+    const delay = client.filters.delayMs ?? 0;
+    if (delay <= 0) {
+      this.sendToClient(ws, message);
+      return;
+    }
+
+    const pending = this.delayed.get(ws) ?? new Set();
+    this.delayed.set(ws, pending);
+    const timer = setTimeout(() => {
+      pending.delete(timer);
+      this.sendToClient(ws, message);
+    }, delay);
+    pending.add(timer);
+  }
+
+  private clearDelayed(ws: WebSocket): void {
+    this.delayed.get(ws)?.forEach((timer) => clearTimeout(timer));
+    this.delayed.delete(ws);
+  }
+
+  // Buffered messages for the client after a resume point, or null when the gap can't be filled
+  private missedSince(client: ClientInfo, resume: ResumePoint): SequencedMessage[] | null {
+    // Another session (the relay restarted) or a point we never reached
+    if (resume.sessionId !== this.sessionId || resume.seq > this.sequence) return null;
+
+    // Part of the gap already fell out of the buffer
+    const oldest = this.replayBuffer[0]?.seq ?? this.sequence + 1;
+    if (resume.seq + 1 < oldest) return null;
+
+    return this.replayBuffer.filter((message) => message.seq > resume.seq && this.wants(client, message));
+  }
+
+  private sendError(ws: WebSocket, code: ProtocolErrorCode, error: string): void {
+    this.sendToClient(ws, createError(code, error));
+  }
+
+  private reject(ws: WebSocket, closeCode: number, code: ProtocolErrorCode, error: string): void {
+    this.sendError(ws, code, error);
+    ws.close(closeCode, error);
   }
 
   private sendToClient(ws: WebSocket, message: SignMateMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+      ws.send(serializeMessage(message));
     }
   }
 
@@ -162,31 +510,42 @@ export class SignMateWebSocketServer {
     });
   }
 
-  broadcastSigns(signs: ASLSign[], text: string): void {
-    const payload: SignsPayload = { signs, text };
-    this.broadcast({
-      type: 'signs',
-      payload,
-      timestamp: Date.now(),
+  // Sequence a pipeline event and send it to every client subscribed to its topic, room and track
+  publish(message: SignMateMessage<PublishedType>): void {
+    if (!PUBLISHED_TYPES.includes(message.type)) return;
+    const room = message.room ?? DEFAULT_ROOM;
+    if (message.type === 'status') {
+      this.lastStatus.set(room, message.payload);
+    }
+
+    const sequenced = { ...message, room, seq: ++this.sequence } as SequencedMessage;
+    this.replayBuffer.push(sequenced);
+    if (this.replayBuffer.length > this.config.replayBufferSize) {
+      this.replayBuffer.splice(0, this.replayBuffer.length - this.config.replayBufferSize);
+    }
+
+    this.clients.forEach((info, ws) => {
+      if (this.wants(info, sequenced)) {
+        this.deliver(ws, info, sequenced);
+      }
     });
   }
 
-  broadcastStatus(status: PipelineStatus, latency: number): void {
-    const payload: StatusPayload = { status, latency };
-    this.broadcast({
-      type: 'status',
-      payload,
-      timestamp: Date.now(),
-    });
+  // Last sequence number published
+  getSequence(): number {
+    return this.sequence;
   }
 
-  broadcastTranscript(text: string, final: boolean): void {
-    const payload: TranscriptPayload = { text, final };
-    this.broadcast({
-      type: 'transcript',
-      payload,
-      timestamp: Date.now(),
-    });
+  broadcastSigns(signs: ASLSign[], text: string, room: string = DEFAULT_ROOM): void {
+    this.publish(createMessage('signs', { signs, text }, { room }));
+  }
+
+  broadcastStatus(status: PipelineStatus, latency: number, room: string = DEFAULT_ROOM): void {
+    this.publish(createMessage('status', { status, latency }, { room }));
+  }
+
+  broadcastTranscript(text: string, final: boolean, room: string = DEFAULT_ROOM): void {
+    this.publish(createMessage('transcript', { text, final }, { room }));
   }
 
   // Send to specific client types only
@@ -210,9 +569,13 @@ export class SignMateWebSocketServer {
 // Singleton instance for the application
 let serverInstance: SignMateWebSocketServer | null = null;
 
-export function getWebSocketServer(port?: number): SignMateWebSocketServer {
+export function getWebSocketServer(config?: Partial<SignMateServerConfig>): SignMateWebSocketServer {
   if (!serverInstance) {
-    serverInstance = new SignMateWebSocketServer(port);
+    serverInstance = new SignMateWebSocketServer(config);
   }
   return serverInstance;
 }
+
+export function createWebSocketServer(config?: Partial<SignMateServerConfig>): SignMateWebSocketServer {
+  return new SignMateWebSocketServer(config);
+}
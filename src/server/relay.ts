@@ -0,0 +1,46 @@
+/**
+ * SignMate Relay
+ *
+ * Standalone relay for multi-screen events: the interpreter's browser
+ * connects as the control client and publishes pipeline events, and stage,
+ * monitor and overlay displays connect to receive them.
+ *
+ *   SIGNMATE_RELAY_TOKEN=secret npm run relay
+ *
+ * The operator enters the relay URL and token under Settings > Display on the
+ * interpreter machine; displays only need the URL.
+ *
+ * Environment:
+ * - SIGNMATE_RELAY_TOKEN (required) token the control client must present
+ * - SIGNMATE_RELAY_PORT (default 8080)
+ * - SIGNMATE_RELAY_HOST (default all interfaces)
+ */
+
+import { createWebSocketServer } from '@/lib/websocket/server';
+
+async function main(): Promise<void> {
+  const controlToken = process.env.SIGNMATE_RELAY_TOKEN;
+  if (!controlToken) {
+    console.error('SIGNMATE_RELAY_TOKEN is required');
+    process.exit(1);
+  }
+
+  const server = createWebSocketServer({
+    port: Number(process.env.SIGNMATE_RELAY_PORT ?? 8080),
+    host: process.env.SIGNMATE_RELAY_HOST,
+    controlToken,
+  });
+  await server.start();
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Failed to start relay:', error);
+  process.exit(1);
+});
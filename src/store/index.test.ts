@@ -173,6 +173,28 @@ describe('SignMateStore', () => {
 
       expect(useSignMateStore.getState().avatarState.isAnimating).toBe(true);
     });
+
+    it('should derive the facial expression from the current sign', () => {
+      const store = useSignMateStore.getState();
+      const sign = {
+        gloss: 'YOU',
+        duration: 400,
+        handshape: { dominant: 'index-point' },
+        location: { x: 0.3, y: 0.5, z: 0.4, reference: 'neutral' as const },
+        movement: { type: 'linear' as const, speed: 'normal' as const },
+        nonManualMarkers: [
+          { type: 'facial' as const, expression: 'raised-eyebrows', intensity: 0.8, grammar: 'yes-no-question' as const },
+          { type: 'head' as const, expression: 'shake', intensity: 0.7, grammar: 'negation' as const },
+        ],
+      };
+
+      store.setAvatarState({ currentSign: sign, isAnimating: true });
+      expect(useSignMateStore.getState().avatarState.expressionState.eyebrows).toBe(0.8);
+      expect(useSignMateStore.getState().avatarState.expressionState.headShake).toBe(0.7);
+
+      store.setAvatarState({ currentSign: undefined, isAnimating: false });
+      expect(useSignMateStore.getState().avatarState.expressionState.eyebrows).toBe(0);
+    });
   });
 
   describe('Display', () => {
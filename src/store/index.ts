@@ -10,6 +10,7 @@ import type {
   PipelineStatus,
   DisplayMode,
 } from '@/types';
+import { expressionFromMarkers } from '@/lib/animation';
 
 interface SignMateStore {
   // Event configuration
@@ -138,7 +139,16 @@ export const useSignMateStore = create<SignMateStore>((set) => ({
   setAvatarConfig: (config) =>
     set((state) => ({ avatarConfig: { ...state.avatarConfig, ...config } })),
   setAvatarState: (state) =>
-    set((prev) => ({ avatarState: { ...prev.avatarState, ...state } })),
+    set((prev) => ({
+      avatarState: {
+        ...prev.avatarState,
+        // The face follows the grammatical markers of the sign being performed
+        ...('currentSign' in state && !state.expressionState
+          ? { expressionState: expressionFromMarkers(state.currentSign?.nonManualMarkers ?? []) }
+          : {}),
+        ...state,
+      },
+    })),
 
   // Display
   displayConfigs: [],
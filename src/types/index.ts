@@ -36,13 +36,19 @@ export interface ASLSign {
   location: SignLocation;
   movement: SignMovement;
   nonManualMarkers: NonManualMarker[];
+  variant?: string; // Lexicon variant performed, when not the base form
 }
 
 export interface HandShape {
   dominant: string;
   nonDominant?: string;
+  twoHanded?: TwoHandedType; // How the hands move together; inferred from the shapes when omitted
 }
 
+// symmetric: the hands mirror each other; alternating: they move out of phase;
+// base: the non-dominant hand holds still while the dominant hand acts on it
+export type TwoHandedType = 'symmetric' | 'alternating' | 'base';
+
 export interface SignLocation {
   x: number;
   y: number;
@@ -57,10 +63,14 @@ export interface SignMovement {
   speed: 'slow' | 'normal' | 'fast';
 }
 
+// Sentence-level grammar carried on the face and head rather than the hands
+export type GrammaticalMarker = 'yes-no-question' | 'wh-question' | 'negation' | 'conditional' | 'topic';
+
 export interface NonManualMarker {
   type: 'facial' | 'head' | 'body';
   expression: string;
   intensity: number; // 0-1
+  grammar?: GrammaticalMarker; // Set when generated from sentence structure instead of the lexicon
 }
 
 export interface ASLTranslation {
@@ -68,6 +78,8 @@ export interface ASLTranslation {
   sourceText: string;
   signs: ASLSign[];
   timestamp: number;
+  unmappedWords?: string[]; // Source words with no glossary sign
+  fingerspelledWords?: string[]; // Unmapped words rendered letter by letter
 }
 
 // Avatar types
@@ -92,6 +104,7 @@ export interface ExpressionState {
   eyeOpenness: number; // 0 to 1
   mouthShape: string;
   headTilt: { x: number; y: number; z: number };
+  headShake?: number; // 0 to 1, side-to-side amplitude for negation
 }
 
 // Display mode types
@@ -109,6 +122,34 @@ export interface DisplayConfig {
 }
 
 // Event configuration types
+// Per-event vocabulary
+export interface SpeakerNameSign {
+  name: string; // As spoken, e.g. "Priya Raman"
+  sign?: string; // Gloss of the speaker's name sign
+  abbreviation?: string; // Initials fingerspelled as one unit, e.g. "PR"
+}
+
+export interface PhraseSignOverride {
+  phrase: string; // e.g. "machine learning"
+  gloss: string; // Single sign performed for the whole phrase
+}
+
+export interface EventVocabulary {
+  speakers: SpeakerNameSign[];
+  acronyms: string[]; // Fingerspelled as units instead of being read as words, e.g. "NASA"
+  phrases: PhraseSignOverride[];
+}
+
+// Sign variant selection
+export type SignRegister = 'formal' | 'casual';
+export type SignSpeed = 'slow' | 'normal' | 'fast';
+
+export interface SignVariantPreferences {
+  region?: string; // Regional signing community, e.g. "southern"
+  register?: SignRegister; // Keynote (formal) vs. panel or Q&A (casual)
+  speed?: SignSpeed;
+}
+
 export interface EventConfig {
   id: string;
   name: string;
@@ -119,6 +160,9 @@ export interface EventConfig {
   displays: DisplayConfig[];
   avatarConfig: AvatarConfig;
   isDemo: boolean;
+  vocabulary?: EventVocabulary;
+  signVariants?: SignVariantPreferences;
+  dropDiscourseFillers?: boolean; // When the avatar lags, also drop hedges such as REALLY or ACTUALLY
 }
 
 // Pipeline status types
@@ -137,9 +181,5 @@ export interface PipelineError {
   timestamp: number;
 }
 
-// WebSocket message types
-export interface WSMessage {
-  type: 'transcription' | 'translation' | 'status' | 'config' | 'error';
-  payload: unknown;
-  timestamp: number;
-}
+// WebSocket messages use the shared protocol schema
+export type { SignMateMessage as WSMessage } from '@/lib/websocket/protocol';